@@ -9,6 +9,7 @@ CREATE TABLE IF NOT EXISTS projects (
   name TEXT NOT NULL,
   description TEXT,
   user_id VARCHAR(255) NOT NULL,
+  ai_provider TEXT DEFAULT 'gemini' NOT NULL CHECK (ai_provider IN ('gemini', 'openai_compatible')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
   deleted_at TIMESTAMP WITH TIME ZONE
 );
@@ -41,6 +42,7 @@ CREATE TABLE IF NOT EXISTS runs (
   loop_count INTEGER NOT NULL DEFAULT 1,
   loop_index INTEGER NOT NULL DEFAULT 0,
   model_choice TEXT NOT NULL DEFAULT 'pro' CHECK (model_choice IN ('pro', 'flash')),
+  budget_usd REAL,
 
   -- Status tracking
   status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'paused', 'completed', 'error', 'cancelled')),
@@ -52,6 +54,7 @@ CREATE TABLE IF NOT EXISTS runs (
 
   -- Step outputs
   step2_1_output TEXT,
+  step2_1_outputs JSONB NOT NULL DEFAULT '{}'::jsonb,
   step2_2_individual_outputs JSONB,
   step2_2_individual_titles JSONB,
   step3_individual_outputs JSONB,
@@ -63,8 +66,14 @@ CREATE TABLE IF NOT EXISTS runs (
   progress_info JSONB,
   execution_timing JSONB,
   debug_prompts JSONB,
+  prompt_snapshot JSONB,
   error_message TEXT,
 
+  -- Execution lease (executeNextStep)
+  lease_owner TEXT,
+  lease_acquired_at TIMESTAMP WITH TIME ZONE,
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
   completed_at TIMESTAMP WITH TIME ZONE
@@ -81,6 +90,7 @@ CREATE TABLE IF NOT EXISTS hypotheses (
   run_id INTEGER REFERENCES runs(id) ON DELETE SET NULL,
   hypothesis_number INTEGER NOT NULL,
   index_in_run INTEGER NOT NULL DEFAULT 0,
+  loop_number INTEGER NOT NULL DEFAULT 1,
   display_title TEXT,
   content_hash TEXT,
 
@@ -96,8 +106,10 @@ CREATE TABLE IF NOT EXISTS hypotheses (
     CHECK (processing_status IN ('pending', 'step2_2', 'step3', 'step4', 'step5', 'completed', 'error')),
   current_interaction_id TEXT,
   error_message TEXT,
+  format_violations JSONB NOT NULL DEFAULT '[]'::jsonb,
 
   full_data JSONB,
+  debug_prompts JSONB,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
   deleted_at TIMESTAMP WITH TIME ZONE
 );
@@ -107,6 +119,27 @@ CREATE INDEX idx_hypotheses_run_id ON hypotheses(run_id);
 CREATE INDEX idx_hypotheses_uuid ON hypotheses(uuid);
 CREATE INDEX idx_hypotheses_processing_status ON hypotheses(processing_status);
 CREATE INDEX idx_hypotheses_content_hash ON hypotheses(content_hash);
+CREATE INDEX idx_hypotheses_run_loop ON hypotheses(run_id, loop_number);
+
+-- Hypothesis Scores (parsed Step 3 / Step 4)
+CREATE TABLE IF NOT EXISTS hypothesis_scores (
+  id SERIAL PRIMARY KEY,
+  hypothesis_uuid VARCHAR(36) NOT NULL REFERENCES hypotheses(uuid) ON DELETE CASCADE,
+  run_id INTEGER REFERENCES runs(id) ON DELETE SET NULL,
+  step INTEGER NOT NULL CHECK (step IN (3, 4)),
+  source TEXT NOT NULL DEFAULT 'regex' CHECK (source IN ('structured', 'regex')),
+  verdict TEXT,
+  entry_probability TEXT,
+  weighted_total REAL,
+  axis_scores JSONB NOT NULL DEFAULT '{}'::jsonb,
+  rationales JSONB NOT NULL DEFAULT '{}'::jsonb,
+  parse_errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT hypothesis_scores_hypothesis_step_key UNIQUE (hypothesis_uuid, step)
+);
+
+CREATE INDEX idx_hypothesis_scores_run_step ON hypothesis_scores(run_id, step);
+CREATE INDEX idx_hypothesis_scores_weighted_total ON hypothesis_scores(step, weighted_total);
 
 -- Prompt Versions
 CREATE TABLE IF NOT EXISTS prompt_versions (
@@ -129,5 +162,85 @@ CREATE TABLE IF NOT EXISTS step_file_attachments (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
 );
 
+-- Deep Research rate limit (token bucket + slot leases)
+CREATE TABLE IF NOT EXISTS deep_research_rate_limits (
+  key TEXT PRIMARY KEY,
+  tokens REAL NOT NULL,
+  refilled_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS deep_research_slot_leases (
+  id VARCHAR(36) PRIMARY KEY,
+  holder TEXT NOT NULL,
+  acquired_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_deep_research_slot_leases_expires_at ON deep_research_slot_leases(expires_at);
+
+CREATE TABLE IF NOT EXISTS pipeline_jobs (
+  id SERIAL PRIMARY KEY,
+  job_key TEXT NOT NULL UNIQUE,
+  run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  hypothesis_uuid VARCHAR(36),
+  phase TEXT NOT NULL,
+  attempt INTEGER DEFAULT 0 NOT NULL,
+  run_after TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  locked_by TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  enqueued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_pipeline_jobs_run_after ON pipeline_jobs(run_after);
+
+CREATE TABLE IF NOT EXISTS run_audit_entries (
+  id SERIAL PRIMARY KEY,
+  run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  actor VARCHAR(255),
+  interactions JSONB DEFAULT '[]'::jsonb NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_run_audit_entries_run_id ON run_audit_entries(run_id);
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id SERIAL PRIMARY KEY,
+  run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  hypothesis_uuid VARCHAR(36),
+  step TEXT NOT NULL,
+  model TEXT NOT NULL,
+  interaction_id TEXT,
+  input_tokens INTEGER DEFAULT 0 NOT NULL,
+  output_tokens INTEGER DEFAULT 0 NOT NULL,
+  thinking_tokens INTEGER DEFAULT 0 NOT NULL,
+  cached_tokens INTEGER DEFAULT 0 NOT NULL,
+  grounding_calls INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_ai_usage_run_id ON ai_usage(run_id);
+CREATE INDEX idx_ai_usage_project_id ON ai_usage(project_id);
+
+-- Emulated Deep Research jobs (OpenAI-compatible providers)
+CREATE TABLE IF NOT EXISTS emulated_research_jobs (
+  id VARCHAR(36) PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('in_progress', 'completed', 'failed', 'cancelled')),
+  prompt TEXT NOT NULL,
+  files JSONB DEFAULT '[]'::jsonb NOT NULL,
+  model TEXT NOT NULL,
+  questions JSONB,
+  findings JSONB DEFAULT '[]'::jsonb NOT NULL,
+  result TEXT,
+  error TEXT,
+  usage JSONB NOT NULL,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
 -- Note: RLS is disabled for E2E testing to simplify test setup
 -- In production, RLS policies are applied via Supabase
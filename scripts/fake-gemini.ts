@@ -0,0 +1,44 @@
+#!/usr/bin/env npx tsx
+/**
+ * Fake Gemini API server for e2e tests and local development
+ *
+ * Serves the Gemini endpoints the pipeline uses (File Search stores,
+ * Deep Research interactions, generateContent) with canned answers, so runs
+ * go through the real SDK code paths without a Gemini API key. Point the app
+ * and the worker at it with GOOGLE_GEMINI_BASE_URL.
+ *
+ * Scenarios: default, slow, failing, rate_limited, malformed_step3
+ * (switch at runtime with POST /_fake/scenario {"scenario": "..."}).
+ *
+ * Usage:
+ *   npx tsx scripts/fake-gemini.ts
+ *   FAKE_GEMINI_PORT=3100 FAKE_GEMINI_SCENARIO=rate_limited npx tsx scripts/fake-gemini.ts
+ */
+
+import { isFakeGeminiScenarioName, startFakeGeminiServer } from '@/lib/gemini/fake-server';
+
+async function main() {
+  const scenario = process.env.FAKE_GEMINI_SCENARIO || 'default';
+  if (!isFakeGeminiScenarioName(scenario)) {
+    throw new Error(`Unknown FAKE_GEMINI_SCENARIO: ${scenario}`);
+  }
+
+  const server = await startFakeGeminiServer({
+    port: Number(process.env.FAKE_GEMINI_PORT) || 3100,
+    host: process.env.FAKE_GEMINI_HOST || '0.0.0.0',
+    scenario,
+  });
+  console.log(`[FakeGemini] Listening on ${server.url} (scenario: ${scenario})`);
+
+  const shutdown = async () => {
+    await server.close();
+    process.exit(0);
+  };
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+main().catch(error => {
+  console.error('[FakeGemini] Failed to start:', error);
+  process.exit(1);
+});
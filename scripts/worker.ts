@@ -0,0 +1,74 @@
+#!/usr/bin/env npx tsx
+/**
+ * Standalone pipeline worker for self-hosted (Docker) deployments
+ *
+ * Drains the pipeline job queue in a long-running process, so no cron provider
+ * or public callback URL is needed. Run the app with PIPELINE_WORKER=standalone
+ * so routes only enqueue jobs. Several workers may run side by side.
+ *
+ * On SIGTERM / SIGINT the worker stops claiming jobs and waits for running
+ * jobs to finish (up to WORKER_SHUTDOWN_GRACE_MS); jobs still running after
+ * that are handed back to the queue. Deep Research interactions are not
+ * cancelled; the next worker keeps polling them.
+ *
+ * Usage:
+ *   npx tsx scripts/worker.ts
+ *   WORKER_CONCURRENCY=3 npx tsx scripts/worker.ts
+ */
+
+import { hostname } from 'os';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { createAIAdapter } from '@/lib/asip/ai-adapter';
+import { createJobQueue, findActiveRunsWithoutJobs } from '@/lib/asip/job-queue';
+import { createLeaseOwner } from '@/lib/asip/run-lease';
+import { releaseClaimedJobs, runStandaloneWorker, trackClaimedJobs } from '@/lib/asip/standalone-worker';
+
+const SHUTDOWN_GRACE_MS = Number(process.env.WORKER_SHUTDOWN_GRACE_MS) || 60 * 1000;
+
+async function main() {
+  // Import proxy setup before AI calls
+  await import('@/lib/gemini/proxy-setup');
+
+  const workerId = createLeaseOwner(`worker-${hostname()}`);
+  const tracker = trackClaimedJobs(createJobQueue());
+  const deps = {
+    db: createDatabaseAdapter(),
+    ai: createAIAdapter(),
+    selectAI: createAIAdapter,
+    queue: tracker.queue,
+    workerId,
+    logger: {
+      log: (message: string) => console.log(`[Worker ${workerId}] ${message}`),
+      error: (message: string, error?: unknown) => console.error(`[Worker ${workerId}] ${message}`, error),
+      warn: (message: string) => console.warn(`[Worker ${workerId}] ${message}`),
+    },
+  };
+
+  const controller = new AbortController();
+  const shutdown = (signal: string) => {
+    if (controller.signal.aborted) return;
+    console.log(`[Worker ${workerId}] ${signal} received, finishing ${tracker.inFlight().length} running jobs`);
+    controller.abort();
+
+    setTimeout(async () => {
+      const jobs = tracker.inFlight();
+      console.warn(`[Worker ${workerId}] Grace period over, handing ${jobs.length} jobs back to the queue`);
+      await releaseClaimedJobs(deps, jobs);
+      process.exit(1);
+    }, SHUTDOWN_GRACE_MS).unref();
+  };
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  await runStandaloneWorker(deps, {
+    signal: controller.signal,
+    findRunsWithoutJobs: findActiveRunsWithoutJobs,
+    concurrency: Number(process.env.WORKER_CONCURRENCY) || undefined,
+  });
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('[Worker] Fatal error:', error);
+  process.exit(1);
+});
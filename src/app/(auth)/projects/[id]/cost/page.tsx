@@ -0,0 +1,64 @@
+import { notFound } from 'next/navigation';
+import { getUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { projects, runs } from '@/lib/db/schema';
+import { eq, and, isNull, desc } from 'drizzle-orm';
+import { getUsageGroups } from '@/lib/asip/db-adapter';
+import { getPriceTable, summarizeProjectUsage } from '@/lib/asip/cost-accounting';
+import { ProjectCostView } from '@/components/project/project-cost-view';
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+export default async function ProjectCostPage({ params }: Props) {
+  const { id } = await params;
+  const projectId = parseInt(id, 10);
+
+  if (isNaN(projectId)) {
+    notFound();
+  }
+
+  // Parallel fetch: auth + project + runs + usage (all independent)
+  const [user, projectResults, projectRuns, usageGroups] = await Promise.all([
+    getUser(),
+    db
+      .select()
+      .from(projects)
+      .where(
+        and(
+          eq(projects.id, projectId),
+          isNull(projects.deletedAt)
+        )
+      ),
+    db
+      .select({
+        id: runs.id,
+        jobName: runs.jobName,
+        status: runs.status,
+        createdAt: runs.createdAt,
+      })
+      .from(runs)
+      .where(eq(runs.projectId, projectId))
+      .orderBy(desc(runs.createdAt)),
+    getUsageGroups({ projectId }),
+  ]);
+
+  if (!user) {
+    notFound();
+  }
+
+  // Verify ownership
+  const project = projectResults.find(p => p.userId === user.id);
+  if (!project) {
+    notFound();
+  }
+
+  return (
+    <ProjectCostView
+      project={{ id: project.id, name: project.name }}
+      runs={projectRuns}
+      usage={summarizeProjectUsage(usageGroups, getPriceTable())}
+    />
+  );
+}
@@ -49,6 +49,7 @@ export default async function ProjectPage({ params }: Props) {
             loopCount: runs.loopCount,
             loopIndex: runs.loopIndex,
             modelChoice: runs.modelChoice,
+            budgetUsd: runs.budgetUsd,
             status: runs.status,
             currentStep: runs.currentStep,
             currentLoop: runs.currentLoop,
@@ -41,11 +41,12 @@ export default async function RunDetailPage({ params }: Props) {
         loopCount: runs.loopCount,
         loopIndex: runs.loopIndex,
         modelChoice: runs.modelChoice,
+        budgetUsd: runs.budgetUsd,
         status: runs.status,
         currentStep: runs.currentStep,
         currentLoop: runs.currentLoop,
         progressInfo: runs.progressInfo,
-        debugPrompts: runs.debugPrompts,
+        promptSnapshot: runs.promptSnapshot,
         errorMessage: runs.errorMessage,
         createdAt: runs.createdAt,
         updatedAt: runs.updatedAt,
@@ -66,12 +67,14 @@ export default async function RunDetailPage({ params }: Props) {
         runId: hypotheses.runId,
         hypothesisNumber: hypotheses.hypothesisNumber,
         indexInRun: hypotheses.indexInRun,
+        loopNumber: hypotheses.loopNumber,
         displayTitle: hypotheses.displayTitle,
         contentHash: hypotheses.contentHash,
         step2_1Summary: hypotheses.step2_1Summary,
         processingStatus: hypotheses.processingStatus,
         currentInteractionId: hypotheses.currentInteractionId,
         errorMessage: hypotheses.errorMessage,
+        formatViolations: hypotheses.formatViolations,
         createdAt: hypotheses.createdAt,
         deletedAt: hypotheses.deletedAt,
       })
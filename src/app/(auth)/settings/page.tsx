@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { ArrowLeft, Save, RotateCcw, Download, Paperclip, FileText } from 'lucide-react';
+import { ArrowLeft, Save, RotateCcw, Download, Paperclip, FileText, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
@@ -59,6 +59,16 @@ interface ExportedPrompt {
   content: string;
 }
 
+interface StoreGcReport {
+  scanned: number;
+  live: number;
+  recent: number;
+  deleted: Array<{ name: string; displayName: string; ageMs: number | null }>;
+  failed: Array<{ name: string; displayName: string; error?: string }>;
+  dryRun: boolean;
+  graceMs: number;
+}
+
 // Constants
 const STEP_OPTIONS = [
   { value: '21', label: 'Step 2-1: テーマ創出と選定' },
@@ -84,6 +94,8 @@ export default function SettingsPage() {
   const [isActivating, setIsActivating] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [isUpdatingAttachments, setIsUpdatingAttachments] = useState(false);
+  const [isCollectingStores, setIsCollectingStores] = useState(false);
+  const [storeGcReport, setStoreGcReport] = useState<StoreGcReport | null>(null);
 
   // Fetch prompt data
   const fetchPromptData = useCallback(async (step: string) => {
@@ -319,6 +331,38 @@ export default function SettingsPage() {
     }
   };
 
+  // Handle File Search store cleanup (dryRun only lists the orphans)
+  const handleCollectStores = async (dryRun: boolean) => {
+    setIsCollectingStores(true);
+    try {
+      const res = await fetch('/api/deep-research/stores/gc', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun }),
+      });
+      if (!res.ok) throw new Error('Failed to collect stores');
+
+      const report: StoreGcReport = await res.json();
+      setStoreGcReport(report);
+
+      toast({
+        title: dryRun ? '確認が完了しました' : '整理が完了しました',
+        description: dryRun
+          ? `削除対象のストアは${report.deleted.length}件です`
+          : `${report.deleted.length}件のストアを削除しました${report.failed.length > 0 ? `（失敗 ${report.failed.length}件）` : ''}`,
+      });
+    } catch (error) {
+      console.error('Store GC error:', error);
+      toast({
+        title: 'エラー',
+        description: 'File Search ストアの整理に失敗しました',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCollectingStores(false);
+    }
+  };
+
   const currentStepOption = STEP_OPTIONS.find(opt => opt.value === selectedStep);
 
   return (
@@ -529,6 +573,76 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
         </div>
+
+        {/* Maintenance - Orphaned File Search stores */}
+        <Card className="mt-6 fade-in stagger-3">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg font-display">File Search ストアの整理</CardTitle>
+                <CardDescription className="font-light">
+                  実行中の Deep Research から参照されていない asip- ストアのうち、
+                  {storeGcReport ? `${Math.round(storeGcReport.graceMs / 3600000)}時間` : '一定時間'}
+                  以上経過したものを削除します（毎時自動でも実行されます）
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCollectStores(true)}
+                  disabled={isCollectingStores}
+                  data-testid="button-store-gc-dry-run"
+                >
+                  削除対象を確認
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => handleCollectStores(false)}
+                  disabled={isCollectingStores}
+                  data-testid="button-store-gc"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  {isCollectingStores ? '処理中...' : '孤立ストアを削除'}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          {storeGcReport && (
+            <CardContent className="space-y-3" data-testid="store-gc-report">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">検出 {storeGcReport.scanned}</Badge>
+                <Badge variant="secondary">使用中 {storeGcReport.live}</Badge>
+                <Badge variant="secondary">猶予期間内 {storeGcReport.recent}</Badge>
+                <Badge variant={storeGcReport.dryRun ? 'outline' : 'default'}>
+                  {storeGcReport.dryRun ? '削除対象' : '削除済み'} {storeGcReport.deleted.length}
+                </Badge>
+                {storeGcReport.failed.length > 0 && (
+                  <Badge variant="destructive">失敗 {storeGcReport.failed.length}</Badge>
+                )}
+              </div>
+              {storeGcReport.deleted.length + storeGcReport.failed.length > 0 && (
+                <ScrollArea className="max-h-48 border rounded-md">
+                  <ul className="p-3 space-y-1 text-xs font-mono">
+                    {storeGcReport.deleted.map(store => (
+                      <li key={store.name}>
+                        {store.displayName}
+                        <span className="text-muted-foreground ml-2">{store.name}</span>
+                      </li>
+                    ))}
+                    {storeGcReport.failed.map(store => (
+                      <li key={store.name} className="text-destructive">
+                        {store.displayName}: {store.error}
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              )}
+            </CardContent>
+          )}
+        </Card>
       </main>
     </div>
   );
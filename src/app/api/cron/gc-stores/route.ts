@@ -0,0 +1,41 @@
+/**
+ * Cron Job for Orphaned File Search Stores
+ *
+ * Deletes asip- File Search stores that no live Deep Research handle
+ * references and that are older than the grace period (see lib/asip/store-gc.ts).
+ * The same collection can be started from the settings page
+ * (/api/deep-research/stores/gc).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createFileSearchStoreClient } from '@/lib/asip/ai-adapter';
+import { findLiveStoreNames } from '@/lib/asip/db-adapter';
+import { collectOrphanedStores } from '@/lib/asip/store-gc';
+
+// GET /api/cron/gc-stores - Delete orphaned File Search stores
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    await import('@/lib/gemini/proxy-setup');
+
+    const report = await collectOrphanedStores({
+      stores: createFileSearchStoreClient(),
+      getLiveStoreNames: findLiveStoreNames,
+    });
+
+    return NextResponse.json({ ...report, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[Cron] Error collecting File Search stores:', error);
+    return NextResponse.json(
+      { error: 'Failed to collect File Search stores' },
+      { status: 500 }
+    );
+  }
+}
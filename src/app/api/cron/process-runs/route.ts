@@ -1,22 +1,26 @@
 /**
- * Cron Watchdog for Stuck Runs
+ * Cron Worker for the Pipeline Job Queue
  *
  * This endpoint is called periodically by Vercel Cron to:
- * 1. Find runs that are stuck in 'running' status
- * 2. Resume their execution by calling the process endpoint
+ * 1. Enqueue a job for active runs that have none (runs started before the
+ *    queue existed, or whose successor jobs could not be enqueued)
+ * 2. Drain the queue (see /api/jobs/worker)
  *
- * A run is considered stuck if:
- * - Status is 'running' or 'pending'
- * - updatedAt is older than 5 minutes
+ * The response lists the Deep Research interactions that polling jobs
+ * stopped for exceeding their maximum wall time (timedOut).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { runs } from '@/lib/db/schema';
-import { and, eq, lt, or } from 'drizzle-orm';
-import { getBaseUrl, getInternalApiHeaders } from '@/lib/utils/get-base-url';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { createAIAdapter } from '@/lib/asip/ai-adapter';
+import { createJobQueue, findActiveRunsWithoutJobs } from '@/lib/asip/job-queue';
+import { JOB_TIME_MS, drainPipelineJobs, enqueueSuccessors } from '@/lib/asip/pipeline-worker';
+import { createLeaseOwner } from '@/lib/asip/run-lease';
 
-// GET /api/cron/process-runs - Find and resume stuck runs
+// Time budget: 50 seconds (Vercel timeout is 60s for Pro); jobs are claimed only while JOB_TIME_MS is left
+const TIME_BUDGET_MS = 50000;
+
+// GET /api/cron/process-runs - Drain the pipeline job queue
 export async function GET(request: NextRequest) {
   // Verify cron secret
   const authHeader = request.headers.get('authorization');
@@ -26,61 +30,51 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const baseUrl = getBaseUrl();
-  const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-
   try {
-    // Find stuck runs
-    const stuckRuns = await db
-      .select({ id: runs.id, status: runs.status, updatedAt: runs.updatedAt })
-      .from(runs)
-      .where(
-        and(
-          or(eq(runs.status, 'running'), eq(runs.status, 'pending')),
-          lt(runs.updatedAt, fiveMinutesAgo)
-        )
-      );
-
-    console.log(`[Cron] Found ${stuckRuns.length} stuck runs`);
+    // Import proxy setup before AI calls
+    await import('@/lib/gemini/proxy-setup');
 
-    const results: Array<{ runId: number; status: string; resumed: boolean; error?: string }> = [];
+    const workerId = createLeaseOwner('cron');
+    const deps = {
+      db: createDatabaseAdapter(),
+      ai: createAIAdapter(),
+      selectAI: createAIAdapter,
+      queue: createJobQueue(),
+      workerId,
+      logger: {
+        log: (message: string) => console.log(`[Cron ${workerId}] ${message}`),
+        error: (message: string, error?: unknown) => console.error(`[Cron ${workerId}] ${message}`, error),
+        warn: (message: string) => console.warn(`[Cron ${workerId}] ${message}`),
+      },
+    };
 
-    // Resume each stuck run
-    for (const run of stuckRuns) {
-      try {
-        console.log(`[Cron] Resuming stuck run ${run.id} (status: ${run.status}, updatedAt: ${run.updatedAt})`);
+    const orphanedRunIds = await findActiveRunsWithoutJobs();
+    if (orphanedRunIds.length > 0) {
+      console.log(`[Cron] Enqueuing jobs for ${orphanedRunIds.length} runs without jobs`);
+    }
+    for (const runId of orphanedRunIds) {
+      await enqueueSuccessors(deps, runId);
+    }
 
-        const response = await fetch(`${baseUrl}/api/runs/${run.id}/process`, {
-          method: 'POST',
-          headers: getInternalApiHeaders(cronSecret),
-        });
+    const summary = await drainPipelineJobs(deps, { timeBudgetMs: TIME_BUDGET_MS, jobTimeMs: JOB_TIME_MS });
 
-        if (response.ok) {
-          results.push({ runId: run.id, status: run.status, resumed: true });
-        } else {
-          const errorText = await response.text();
-          results.push({ runId: run.id, status: run.status, resumed: false, error: errorText });
-        }
-      } catch (error) {
-        console.error(`[Cron] Failed to resume run ${run.id}:`, error);
-        results.push({
-          runId: run.id,
-          status: run.status,
-          resumed: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
+    const timedOut = summary.results.flatMap(result => result.timedOut ?? []);
+    for (const interaction of timedOut) {
+      console.warn(
+        `[Cron] Deep Research ${interaction.interactionId} (run ${interaction.runId}, ${interaction.hypothesisUuid ?? interaction.step}) timed out: ${interaction.action}`
+      );
     }
 
     return NextResponse.json({
-      checked: stuckRuns.length,
-      results,
+      enqueued: orphanedRunIds,
+      timedOut,
+      ...summary,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('[Cron] Error checking stuck runs:', error);
+    console.error('[Cron] Error draining pipeline jobs:', error);
     return NextResponse.json(
-      { error: 'Failed to check stuck runs' },
+      { error: 'Failed to drain pipeline jobs' },
       { status: 500 }
     );
   }
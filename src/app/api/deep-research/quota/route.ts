@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getUser } from '@/lib/auth';
+import { getDeepResearchQuotaUsage } from '@/lib/gemini/deep-research-limiter';
+
+// GET /api/deep-research/quota - Deep Research rate limit and slot usage (shared by all users)
+export async function GET() {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const usage = await getDeepResearchQuotaUsage();
+    return NextResponse.json(usage);
+  } catch (error) {
+    console.error('Failed to fetch Deep Research quota:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch Deep Research quota' },
+      { status: 500 }
+    );
+  }
+}
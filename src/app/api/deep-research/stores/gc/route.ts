@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/auth';
+import { createFileSearchStoreClient } from '@/lib/asip/ai-adapter';
+import { findLiveStoreNames } from '@/lib/asip/db-adapter';
+import { collectOrphanedStores } from '@/lib/asip/store-gc';
+
+// POST /api/deep-research/stores/gc - Delete orphaned File Search stores ({ dryRun: true } only lists them)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+
+    await import('@/lib/gemini/proxy-setup');
+
+    const report = await collectOrphanedStores(
+      { stores: createFileSearchStoreClient(), getLiveStoreNames: findLiveStoreNames },
+      { dryRun }
+    );
+
+    console.log(`[StoreGC] Collection by user ${user.id}: ${report.deleted.length} stores${dryRun ? ' (dry run)' : ''}`);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Failed to collect File Search stores:', error);
+    return NextResponse.json(
+      { error: 'Failed to collect File Search stores' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { after } from 'next/server';
+import { getUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { hypotheses, hypothesisScores, projects, runs } from '@/lib/db/schema';
+import { eq, and, isNull, inArray } from 'drizzle-orm';
+import { getBaseUrl, getInternalApiHeaders } from '@/lib/utils/get-base-url';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { createJobQueue } from '@/lib/asip/job-queue';
+import { usesStandaloneWorker } from '@/lib/asip/pipeline-jobs';
+import { enqueueSuccessors } from '@/lib/asip/pipeline-worker';
+import {
+  buildRerunUpdate,
+  getRerunBlocker,
+  isRerunStep,
+  RERUN_STEP_LABELS,
+  RERUN_STEPS,
+} from '@/lib/asip/hypothesis-rerun';
+
+interface RouteContext {
+  params: Promise<{ uuid: string }>;
+}
+
+// Runs that are reopened by a rerun (running / paused runs pick the hypothesis up as they are)
+const REOPENABLE_STATUSES = ['completed', 'error'];
+
+// POST /api/hypotheses/[uuid]/rerun - Re-run a hypothesis from a step
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { uuid } = await context.params;
+
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { fromStep } = body as { fromStep?: unknown };
+    if (!isRerunStep(fromStep)) {
+      return NextResponse.json(
+        { error: `fromStep must be one of: ${RERUN_STEPS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [hypothesis] = await db
+      .select()
+      .from(hypotheses)
+      .where(and(eq(hypotheses.uuid, uuid), isNull(hypotheses.deletedAt)));
+
+    if (!hypothesis) {
+      return NextResponse.json({ error: 'Hypothesis not found' }, { status: 404 });
+    }
+
+    // Verify user owns the project
+    const [project] = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(
+        and(
+          eq(projects.id, hypothesis.projectId),
+          eq(projects.userId, user.id),
+          isNull(projects.deletedAt)
+        )
+      );
+
+    if (!project) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (!hypothesis.runId) {
+      return NextResponse.json({ error: 'Hypothesis does not belong to a run' }, { status: 400 });
+    }
+
+    const [run] = await db
+      .select()
+      .from(runs)
+      .where(eq(runs.id, hypothesis.runId));
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const reopen = REOPENABLE_STATUSES.includes(run.status);
+    if (!reopen && run.status !== 'running' && run.status !== 'paused') {
+      return NextResponse.json(
+        { error: `Cannot rerun a hypothesis of a run with status: ${run.status}` },
+        { status: 400 }
+      );
+    }
+
+    // An active run only processes its current loop (reopened runs take earlier loops along)
+    if (!reopen && hypothesis.loopNumber !== run.currentLoop) {
+      return NextResponse.json(
+        { error: 'Hypotheses of earlier loops can be rerun after the run finishes' },
+        { status: 409 }
+      );
+    }
+
+    const blocker = getRerunBlocker(hypothesis, fromStep);
+    if (blocker) {
+      return NextResponse.json({ error: blocker }, { status: 409 });
+    }
+
+    const { update, clearedScoreSteps } = buildRerunUpdate(hypothesis, fromStep);
+
+    const updatedHypothesis = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(hypotheses)
+        .set(update)
+        .where(eq(hypotheses.uuid, uuid))
+        .returning({ uuid: hypotheses.uuid, processingStatus: hypotheses.processingStatus });
+
+      if (clearedScoreSteps.length > 0) {
+        await tx
+          .delete(hypothesisScores)
+          .where(
+            and(
+              eq(hypothesisScores.hypothesisUuid, uuid),
+              inArray(hypothesisScores.step, clearedScoreSteps)
+            )
+          );
+      }
+
+      if (reopen) {
+        await tx
+          .update(runs)
+          .set({
+            status: 'running',
+            errorMessage: null,
+            completedAt: null,
+            integratedList: null, // Rebuilt when the run completes again
+            progressInfo: {
+              ...(run.progressInfo as Record<string, unknown> | null),
+              message: `仮説 ${hypothesis.hypothesisNumber} を${RERUN_STEP_LABELS[fromStep]}から再実行します`,
+              phase: 'rerun',
+            },
+            updatedAt: new Date(),
+          })
+          .where(eq(runs.id, run.id));
+      }
+
+      return updated;
+    });
+
+    // Reopened runs have no queued jobs; start them (paused runs wait for resume)
+    const cronSecret = process.env.CRON_SECRET;
+    if (reopen && usesStandaloneWorker()) {
+      await enqueueSuccessors({ db: createDatabaseAdapter(), queue: createJobQueue() }, run.id);
+    } else if (reopen && cronSecret) {
+      const baseUrl = getBaseUrl();
+      after(async () => {
+        try {
+          const response = await fetch(`${baseUrl}/api/runs/${run.id}/process`, {
+            method: 'POST',
+            headers: getInternalApiHeaders(cronSecret),
+          });
+
+          if (!response.ok) {
+            throw new Error(`Process API returned ${response.status}`);
+          }
+        } catch (error) {
+          // The nudge from the run view or the cron job picks the run up later
+          console.error(`[Rerun] Failed to trigger processing for run ${run.id}:`, error);
+        }
+      });
+    }
+
+    return NextResponse.json({
+      ...updatedHypothesis,
+      fromStep,
+      runStatus: reopen ? 'running' : run.status,
+    });
+  } catch (error) {
+    console.error('Failed to rerun hypothesis:', error);
+    return NextResponse.json(
+      { error: 'Failed to rerun hypothesis' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUser } from '@/lib/auth';
 import { db } from '@/lib/db';
-import { hypotheses, projects } from '@/lib/db/schema';
-import { eq, and, isNull } from 'drizzle-orm';
+import { hypotheses, hypothesisScores, projects } from '@/lib/db/schema';
+import { eq, and, isNull, getTableColumns, asc } from 'drizzle-orm';
 
 interface RouteContext {
   params: Promise<{ uuid: string }>;
 }
 
-// GET /api/hypotheses/[uuid] - Get full hypothesis details (for detail view)
+// debugPrompts is served by /api/runs/[runId]/debug-prompts
+const { debugPrompts: _debugPrompts, ...detailColumns } = getTableColumns(hypotheses);
+
+// GET /api/hypotheses/[uuid] - Get full hypothesis details with the Step 3 / 4 score rows (for detail view)
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
     const { uuid } = await context.params;
@@ -18,9 +21,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Get hypothesis with all data
+    // Get hypothesis with all data (except recorded prompts)
     const [hypothesis] = await db
-      .select()
+      .select(detailColumns)
       .from(hypotheses)
       .where(eq(hypotheses.uuid, uuid));
 
@@ -44,7 +47,13 @@ export async function GET(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
-    return NextResponse.json(hypothesis);
+    const scores = await db
+      .select()
+      .from(hypothesisScores)
+      .where(eq(hypothesisScores.hypothesisUuid, uuid))
+      .orderBy(asc(hypothesisScores.step));
+
+    return NextResponse.json({ ...hypothesis, scores });
   } catch (error) {
     console.error('Failed to fetch hypothesis:', error);
     return NextResponse.json(
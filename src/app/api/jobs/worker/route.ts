@@ -0,0 +1,62 @@
+/**
+ * Pipeline Job Worker API
+ *
+ * Claims due pipeline jobs (FOR UPDATE SKIP LOCKED) and executes them until
+ * the queue is drained or the time budget runs out. Jobs left behind stay in
+ * the queue for the next invocation (cron, or another call to this endpoint).
+ *
+ * Authentication: CRON_SECRET header (internal use only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { createAIAdapter } from '@/lib/asip/ai-adapter';
+import { createJobQueue } from '@/lib/asip/job-queue';
+import { JOB_TIME_MS, drainPipelineJobs } from '@/lib/asip/pipeline-worker';
+import { createLeaseOwner } from '@/lib/asip/run-lease';
+
+// Time budget: 50 seconds (Vercel timeout is 60s for Pro); jobs are claimed only while JOB_TIME_MS is left
+const TIME_BUDGET_MS = 50000;
+
+// POST /api/jobs/worker - Execute due pipeline jobs
+export async function POST(request: NextRequest) {
+  const cronSecret = request.headers.get('x-cron-secret');
+  const expectedSecret = process.env.CRON_SECRET;
+
+  if (!expectedSecret || cronSecret !== expectedSecret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // Import proxy setup before AI calls
+    await import('@/lib/gemini/proxy-setup');
+
+    const workerId = createLeaseOwner('worker');
+    const summary = await drainPipelineJobs(
+      {
+        db: createDatabaseAdapter(),
+        ai: createAIAdapter(),
+        selectAI: createAIAdapter,
+        queue: createJobQueue(),
+        workerId,
+        logger: {
+          log: (message: string) => console.log(`[Worker ${workerId}] ${message}`),
+          error: (message: string, error?: unknown) => console.error(`[Worker ${workerId}] ${message}`, error),
+          warn: (message: string) => console.warn(`[Worker ${workerId}] ${message}`),
+        },
+      },
+      { timeBudgetMs: TIME_BUDGET_MS, jobTimeMs: JOB_TIME_MS }
+    );
+
+    return NextResponse.json({ workerId, ...summary });
+  } catch (error) {
+    console.error('[Worker] Error draining pipeline jobs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process pipeline jobs',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,13 +2,23 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getUser } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { projects, runs, hypotheses } from '@/lib/db/schema';
-import { eq, and, isNull, inArray, desc } from 'drizzle-orm';
+import { eq, and, isNull, inArray, desc, getTableColumns } from 'drizzle-orm';
+import { parseScoreQuery } from '@/lib/asip/hypothesis-scores';
+import {
+  step3Scores,
+  step4Scores,
+  scoreJoins,
+  scoreSummaryColumns,
+  scoreFilterConditions,
+  scoreOrderBy,
+} from '@/lib/asip/db-adapter';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
 }
 
 // GET /api/projects/[id]/hypotheses - List all hypotheses for a project
+// Supports the same score sort / filter parameters as /api/runs/[runId]/hypotheses
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
     const { id } = await context.params;
@@ -18,6 +28,12 @@ export async function GET(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
     }
 
+    const parsedQuery = parseScoreQuery(request.nextUrl.searchParams);
+    if ('error' in parsedQuery) {
+      return NextResponse.json({ error: parsedQuery.error }, { status: 400 });
+    }
+    const { query } = parsedQuery;
+
     const user = await getUser();
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -53,10 +69,16 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
     // Get all hypotheses for all runs in this project
     const projectHypotheses = await db
-      .select()
+      .select({
+        ...getTableColumns(hypotheses),
+        step3Scores: scoreSummaryColumns(3),
+        step4Scores: scoreSummaryColumns(4),
+      })
       .from(hypotheses)
-      .where(inArray(hypotheses.runId, runIds))
-      .orderBy(desc(hypotheses.createdAt));
+      .leftJoin(step3Scores, scoreJoins.step3)
+      .leftJoin(step4Scores, scoreJoins.step4)
+      .where(and(inArray(hypotheses.runId, runIds), ...scoreFilterConditions(query)))
+      .orderBy(...scoreOrderBy(query), desc(hypotheses.createdAt));
 
     return NextResponse.json(projectHypotheses);
   } catch (error) {
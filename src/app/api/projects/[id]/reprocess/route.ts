@@ -5,6 +5,10 @@ import { db } from '@/lib/db';
 import { projects, resources, runs } from '@/lib/db/schema';
 import { eq, and, isNull } from 'drizzle-orm';
 import { getBaseUrl, getInternalApiHeaders } from '@/lib/utils/get-base-url';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { createJobQueue } from '@/lib/asip/job-queue';
+import { usesStandaloneWorker } from '@/lib/asip/pipeline-jobs';
+import { enqueueSuccessors } from '@/lib/asip/pipeline-worker';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -116,7 +120,9 @@ export async function POST(request: NextRequest, context: RouteContext) {
     const baseUrl = getBaseUrl();
     const cronSecret = process.env.CRON_SECRET;
 
-    if (cronSecret) {
+    if (usesStandaloneWorker()) {
+      await enqueueSuccessors({ db: createDatabaseAdapter(), queue: createJobQueue() }, run.id);
+    } else if (cronSecret) {
       after(async () => {
         try {
           console.log(`[Reprocess] Triggering pipeline for run ${run.id}`);
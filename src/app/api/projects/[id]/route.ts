@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { projects } from '@/lib/db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { isAIProvider, type AIProvider } from '@/lib/asip/ai-provider';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/projects/[id] - Update the project name and / or its AI provider
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const projectId = parseInt(id, 10);
+
+    if (isNaN(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const updates: { name?: string; aiProvider?: AIProvider } = {};
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        return NextResponse.json({ error: 'Project name is required' }, { status: 400 });
+      }
+      updates.name = body.name.trim();
+    }
+    if (body.aiProvider !== undefined) {
+      if (!isAIProvider(body.aiProvider)) {
+        return NextResponse.json({ error: 'Invalid AI provider' }, { status: 400 });
+      }
+      updates.aiProvider = body.aiProvider;
+    }
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const [project] = await db
+      .update(projects)
+      .set(updates)
+      .where(
+        and(
+          eq(projects.id, projectId),
+          eq(projects.userId, user.id),
+          isNull(projects.deletedAt)
+        )
+      )
+      .returning();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    console.error('Failed to update project:', error);
+    return NextResponse.json(
+      { error: 'Failed to update project' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getUser } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { projects, runs } from '@/lib/db/schema';
-import { eq, and, isNull } from 'drizzle-orm';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { getRunSpend, parseBudgetUsd } from '@/lib/asip/run-budget';
 
 interface RouteContext {
   params: Promise<{ id: string; runId: string }>;
@@ -56,12 +58,15 @@ export async function GET(request: NextRequest, context: RouteContext) {
         currentStep: runs.currentStep,
         currentLoop: runs.currentLoop,
         progressInfo: runs.progressInfo,
-        debugPrompts: runs.debugPrompts,
+        promptSnapshot: runs.promptSnapshot,
         errorMessage: runs.errorMessage,
+        leaseOwner: runs.leaseOwner,
+        leaseAcquiredAt: runs.leaseAcquiredAt,
+        leaseExpiresAt: runs.leaseExpiresAt,
         createdAt: runs.createdAt,
         updatedAt: runs.updatedAt,
         completedAt: runs.completedAt,
-        // Exclude heavy columns: step*IndividualOutputs, integratedList, executionTiming, geminiInteractions
+        // Exclude heavy columns: step*IndividualOutputs, integratedList, executionTiming, geminiInteractions, debugPrompts
       })
       .from(runs)
       .where(
@@ -85,7 +90,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
   }
 }
 
-// PATCH /api/projects/[id]/runs/[runId] - Update run status
+// PATCH /api/projects/[id]/runs/[runId] - Update run status (and budgetUsd, null removes it)
 export async function PATCH(request: NextRequest, context: RouteContext) {
   try {
     const { id, runId } = await context.params;
@@ -152,11 +157,40 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
+    let budgetUsd: number | null | undefined;
+    try {
+      budgetUsd = parseBudgetUsd(body.budgetUsd);
+    } catch {
+      return NextResponse.json({ error: 'budgetUsd must be a positive number' }, { status: 400 });
+    }
+
+    // Resuming a run over its budget needs a higher budget (it would pause again right away);
+    // usage of unpriced models needs prices or no budget
+    const isResume = existingRun.status === 'paused' && status === 'running';
+    const effectiveBudget = budgetUsd === undefined ? existingRun.budgetUsd : budgetUsd;
+    if (isResume && effectiveBudget != null) {
+      const spend = await getRunSpend({ db: createDatabaseAdapter() }, rId);
+      if (spend && spend.unpricedModels.length > 0) {
+        return NextResponse.json(
+          { error: 'Run usage includes models without a price', budgetUsd: effectiveBudget, ...spend },
+          { status: 409 }
+        );
+      }
+      if (spend && spend.spentUsd >= effectiveBudget) {
+        return NextResponse.json(
+          { error: 'Run budget is exhausted', budgetUsd: effectiveBudget, spentUsd: spend.spentUsd },
+          { status: 409 }
+        );
+      }
+    }
+
     const [updatedRun] = await db
       .update(runs)
       .set({
         status: status || existingRun.status,
         ...(status === 'completed' && { completedAt: new Date() }),
+        ...(budgetUsd !== undefined && { budgetUsd }),
+        ...(isResume && { progressInfo: sql`${runs.progressInfo} - 'pauseReason'` }),
       })
       .where(eq(runs.id, rId))
       .returning();
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { projects, resources } from '@/lib/db/schema';
+import { eq, and, isNull, inArray } from 'drizzle-orm';
+import { getStepUsageAverages } from '@/lib/asip/db-adapter';
+import { getPriceTable } from '@/lib/asip/cost-accounting';
+import { estimateRunCost } from '@/lib/asip/run-budget';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/[id]/runs/estimate - Estimate the cost of a run before it starts
+// (?targetSpecId=&technicalAssetsId=&hypothesisCount=&loopCount=&modelChoice=)
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const projectId = parseInt(id, 10);
+
+    if (isNaN(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project ownership
+    const [project] = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(
+        and(
+          eq(projects.id, projectId),
+          eq(projects.userId, user.id),
+          isNull(projects.deletedAt)
+        )
+      );
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const hypothesisCount = parseInt(params.get('hypothesisCount') || '5', 10);
+    const loopCount = parseInt(params.get('loopCount') || '1', 10);
+    const modelChoice = params.get('modelChoice') === 'flash' ? 'flash' : 'pro';
+    const resourceIds = [params.get('targetSpecId'), params.get('technicalAssetsId')]
+      .map(value => parseInt(value || '', 10))
+      .filter(value => !isNaN(value));
+
+    if (isNaN(hypothesisCount) || hypothesisCount < 1 || isNaN(loopCount) || loopCount < 1) {
+      return NextResponse.json({ error: 'Invalid hypothesis or loop count' }, { status: 400 });
+    }
+
+    // Resource sizes (only this project's resources count)
+    const resourceRows = resourceIds.length > 0
+      ? await db
+          .select({ content: resources.content })
+          .from(resources)
+          .where(and(inArray(resources.id, resourceIds), eq(resources.projectId, projectId)))
+      : [];
+    const resourceChars = resourceRows.reduce((sum, row) => sum + row.content.length, 0);
+
+    const estimate = estimateRunCost(
+      { hypothesisCount, loopCount, modelChoice, resourceChars },
+      await getStepUsageAverages(),
+      getPriceTable()
+    );
+
+    return NextResponse.json(estimate);
+  } catch (error) {
+    console.error('Failed to estimate run cost:', error);
+    return NextResponse.json(
+      { error: 'Failed to estimate run cost' },
+      { status: 500 }
+    );
+  }
+}
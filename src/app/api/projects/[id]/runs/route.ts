@@ -7,6 +7,11 @@ import { eq, and, isNull, desc } from 'drizzle-orm';
 import { createMockRun, getMockRuns } from '@/lib/api-mock';
 import { mockProjects } from '@/lib/db/mock';
 import { getBaseUrl, getInternalApiHeaders } from '@/lib/utils/get-base-url';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { createJobQueue } from '@/lib/asip/job-queue';
+import { usesStandaloneWorker } from '@/lib/asip/pipeline-jobs';
+import { enqueueSuccessors } from '@/lib/asip/pipeline-worker';
+import { parseBudgetUsd } from '@/lib/asip/run-budget';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -69,6 +74,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
         loopCount: runs.loopCount,
         loopIndex: runs.loopIndex,
         modelChoice: runs.modelChoice,
+        budgetUsd: runs.budgetUsd,
         status: runs.status,
         currentStep: runs.currentStep,
         currentLoop: runs.currentLoop,
@@ -154,6 +160,16 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
+    let budgetUsd: number | null | undefined;
+    try {
+      budgetUsd = parseBudgetUsd(body.budgetUsd);
+    } catch {
+      return NextResponse.json(
+        { error: 'budgetUsd must be a positive number' },
+        { status: 400 }
+      );
+    }
+
     // Verify resources exist and belong to project
     if (targetSpecId) {
       const [targetSpec] = await db
@@ -210,6 +226,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
         hypothesisCount: hypothesisCount || 5,
         loopCount: loopCount || 1,
         modelChoice: modelChoice || 'pro',
+        budgetUsd: budgetUsd ?? null,
         status: 'pending',
         currentStep: 0,
         currentLoop: 1,
@@ -218,13 +235,15 @@ export async function POST(request: NextRequest, context: RouteContext) {
       })
       .returning();
 
-    // Start the pipeline via process endpoint (self-chaining)
+    // Start the pipeline via process endpoint (or the queue, drained by the standalone worker)
     const baseUrl = getBaseUrl();
     const cronSecret = process.env.CRON_SECRET;
 
     console.log(`[Runs] About to trigger pipeline - baseUrl: ${baseUrl}, CRON_SECRET set: ${!!cronSecret}, length: ${cronSecret?.length || 0}`);
 
-    if (cronSecret) {
+    if (usesStandaloneWorker()) {
+      await enqueueSuccessors({ db: createDatabaseAdapter(), queue: createJobQueue() }, run.id);
+    } else if (cronSecret) {
       after(async () => {
         try {
           const targetUrl = `${baseUrl}/api/runs/${run.id}/process`;
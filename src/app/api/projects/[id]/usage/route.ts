@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { projects } from '@/lib/db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { getUsageGroups } from '@/lib/asip/db-adapter';
+import { getPriceTable, summarizeProjectUsage } from '@/lib/asip/cost-accounting';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/[id]/usage - Get token usage and estimated cost per run and model
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const projectId = parseInt(id, 10);
+
+    if (isNaN(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project ownership
+    const [project] = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(
+        and(
+          eq(projects.id, projectId),
+          eq(projects.userId, user.id),
+          isNull(projects.deletedAt)
+        )
+      );
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const groups = await getUsageGroups({ projectId });
+    return NextResponse.json(summarizeProjectUsage(groups, getPriceTable()));
+  } catch (error) {
+    console.error('Failed to fetch project usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project usage' },
+      { status: 500 }
+    );
+  }
+}
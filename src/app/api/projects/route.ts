@@ -3,6 +3,7 @@ import { getUser } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { projects } from '@/lib/db/schema';
 import { eq, isNull, desc, and } from 'drizzle-orm';
+import { isAIProvider } from '@/lib/asip/ai-provider';
 
 export async function GET() {
   try {
@@ -37,7 +38,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, description } = body;
+    const { name, description, aiProvider } = body;
 
     if (!name?.trim()) {
       return NextResponse.json(
@@ -46,12 +47,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (aiProvider !== undefined && !isAIProvider(aiProvider)) {
+      return NextResponse.json(
+        { error: 'Invalid AI provider' },
+        { status: 400 }
+      );
+    }
+
     const [project] = await db
       .insert(projects)
       .values({
         name: name.trim(),
         description: description?.trim() || null,
         userId: user.id,
+        aiProvider: aiProvider ?? 'gemini',
       })
       .returning();
 
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { runs, projects, hypotheses } from '@/lib/db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { normalizeDebugPrompts, mergeDebugPrompts } from '@/lib/asip/debug-prompts';
+
+interface RouteContext {
+  params: Promise<{ runId: string }>;
+}
+
+// GET /api/runs/[runId]/debug-prompts - Get recorded prompts (run-level + all hypotheses)
+// Optional ?hypothesis=<uuid> limits hypothesis entries to one hypothesis
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { runId } = await context.params;
+    const rId = parseInt(runId, 10);
+
+    if (isNaN(rId)) {
+      return NextResponse.json({ error: 'Invalid run ID' }, { status: 400 });
+    }
+
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [run] = await db
+      .select({
+        id: runs.id,
+        projectId: runs.projectId,
+        debugPrompts: runs.debugPrompts,
+      })
+      .from(runs)
+      .where(eq(runs.id, rId));
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    // Verify user owns the project
+    const [project] = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(
+        and(
+          eq(projects.id, run.projectId),
+          eq(projects.userId, user.id),
+          isNull(projects.deletedAt)
+        )
+      );
+
+    if (!project) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const hypothesisUuid = request.nextUrl.searchParams.get('hypothesis');
+    const hypothesisRows = await db
+      .select({ debugPrompts: hypotheses.debugPrompts })
+      .from(hypotheses)
+      .where(
+        and(
+          eq(hypotheses.runId, rId),
+          isNull(hypotheses.deletedAt),
+          hypothesisUuid ? eq(hypotheses.uuid, hypothesisUuid) : undefined
+        )
+      );
+
+    const entries = mergeDebugPrompts(
+      hypothesisUuid ? [] : normalizeDebugPrompts(run.debugPrompts),
+      hypothesisRows.map(h => normalizeDebugPrompts(h.debugPrompts))
+    );
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Failed to fetch debug prompts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch debug prompts' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,11 @@ import { getUser } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { runs, projects, hypotheses } from '@/lib/db/schema';
 import { eq, and, isNull } from 'drizzle-orm';
+import {
+  buildIntegratedList,
+  integratedListToTable,
+  type IntegratedList,
+} from '@/lib/asip/integrated-list';
 
 interface RouteContext {
   params: Promise<{ runId: string }>;
@@ -57,31 +62,35 @@ export async function GET(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Get hypotheses for this run
-    const runHypotheses = await db
-      .select()
-      .from(hypotheses)
-      .where(
-        and(
-          eq(hypotheses.runId, rId),
-          isNull(hypotheses.deletedAt)
-        )
-      )
-      .orderBy(hypotheses.hypothesisNumber);
+    // Integrated list (Step 5 rows); runs completed before it was stored are rebuilt from step5Output
+    let integratedList = run.integratedList as IntegratedList | null;
+    if (!integratedList) {
+      const runHypotheses = await db
+        .select({
+          uuid: hypotheses.uuid,
+          hypothesisNumber: hypotheses.hypothesisNumber,
+          loopNumber: hypotheses.loopNumber,
+          displayTitle: hypotheses.displayTitle,
+          step5Output: hypotheses.step5Output,
+          processingStatus: hypotheses.processingStatus,
+        })
+        .from(hypotheses)
+        .where(
+          and(
+            eq(hypotheses.runId, rId),
+            isNull(hypotheses.deletedAt)
+          )
+        );
+      integratedList = buildIntegratedList(runHypotheses);
+    }
 
-    if (format === 'tsv') {
-      // Generate TSV
-      const headers = ['番号', 'タイトル', '概要', 'ステータス'];
-      const rows = runHypotheses.map((h) => [
-        h.hypothesisNumber,
-        h.displayTitle || '',
-        h.step2_1Summary || '',
-        h.processingStatus || 'pending',
-      ]);
+    const { header: headers, rows } = integratedListToTable(integratedList);
 
+    if (format === 'tsv') {
+      // Generate TSV (cells never contain tabs or newlines per the Step 5 contract, sanitize anyway)
       const tsv = [
         headers.join('\t'),
-        ...rows.map((row) => row.join('\t')),
+        ...rows.map((row) => row.map((cell) => cell.replace(/[\t\r\n]+/g, ' ')).join('\t')),
       ].join('\n');
 
       // Encode filename for Content-Disposition (RFC 5987)
@@ -98,16 +107,8 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
     if (format === 'excel') {
       // For Excel, we'd need a library like xlsx
-      // For now, return TSV with xlsx extension hint
-      const headers = ['番号', 'タイトル', '概要', 'ステータス'];
-      const rows = runHypotheses.map((h) => [
-        h.hypothesisNumber,
-        h.displayTitle || '',
-        h.step2_1Summary || '',
-        h.processingStatus || 'pending',
-      ]);
-
-      const csv = [
+      // For now, return CSV (BOM so Excel reads UTF-8)
+      const csv = '\uFEFF' + [
         headers.join(','),
         ...rows.map((row) =>
           row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(',')
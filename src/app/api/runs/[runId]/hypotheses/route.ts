@@ -3,12 +3,22 @@ import { getUser } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { runs, projects, hypotheses } from '@/lib/db/schema';
 import { eq, and, isNull } from 'drizzle-orm';
+import { parseScoreQuery } from '@/lib/asip/hypothesis-scores';
+import {
+  step3Scores,
+  step4Scores,
+  scoreJoins,
+  scoreSummaryColumns,
+  scoreFilterConditions,
+  scoreOrderBy,
+} from '@/lib/asip/db-adapter';
 
 interface RouteContext {
   params: Promise<{ runId: string }>;
 }
 
 // GET /api/runs/[runId]/hypotheses - Get all hypotheses for a run
+// Supports score sort / filter, e.g. ?sort=step3.weightedTotal&order=desc&step4.entryProbability=高
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
     const { runId } = await context.params;
@@ -18,6 +28,12 @@ export async function GET(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Invalid run ID' }, { status: 400 });
     }
 
+    const parsedQuery = parseScoreQuery(request.nextUrl.searchParams);
+    if ('error' in parsedQuery) {
+      return NextResponse.json({ error: parsedQuery.error }, { status: 400 });
+    }
+    const { query } = parsedQuery;
+
     const user = await getUser();
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -59,23 +75,30 @@ export async function GET(request: NextRequest, context: RouteContext) {
         runId: hypotheses.runId,
         hypothesisNumber: hypotheses.hypothesisNumber,
         indexInRun: hypotheses.indexInRun,
+        loopNumber: hypotheses.loopNumber,
         displayTitle: hypotheses.displayTitle,
         contentHash: hypotheses.contentHash,
         step2_1Summary: hypotheses.step2_1Summary, // Keep summary for sidebar display
         processingStatus: hypotheses.processingStatus,
         currentInteractionId: hypotheses.currentInteractionId,
         errorMessage: hypotheses.errorMessage,
+        formatViolations: hypotheses.formatViolations, // Format violation flag in the sidebar
         createdAt: hypotheses.createdAt,
         deletedAt: hypotheses.deletedAt,
+        step3Scores: scoreSummaryColumns(3),
+        step4Scores: scoreSummaryColumns(4),
       })
       .from(hypotheses)
+      .leftJoin(step3Scores, scoreJoins.step3)
+      .leftJoin(step4Scores, scoreJoins.step4)
       .where(
         and(
           eq(hypotheses.runId, rId),
-          isNull(hypotheses.deletedAt)
+          isNull(hypotheses.deletedAt),
+          ...scoreFilterConditions(query)
         )
       )
-      .orderBy(hypotheses.hypothesisNumber);
+      .orderBy(...scoreOrderBy(query), hypotheses.hypothesisNumber);
 
     return NextResponse.json(runHypotheses);
   } catch (error) {
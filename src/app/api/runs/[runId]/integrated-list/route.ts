@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { runs, projects, hypotheses } from '@/lib/db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { buildIntegratedList, type IntegratedList } from '@/lib/asip/integrated-list';
+
+interface RouteContext {
+  params: Promise<{ runId: string }>;
+}
+
+// GET /api/runs/[runId]/integrated-list - Get the Step 5 integrated list
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { runId } = await context.params;
+    const rId = parseInt(runId, 10);
+
+    if (isNaN(rId)) {
+      return NextResponse.json({ error: 'Invalid run ID' }, { status: 400 });
+    }
+
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // integratedList is excluded from the run detail API, so it is served here
+    const [run] = await db
+      .select({
+        id: runs.id,
+        projectId: runs.projectId,
+        integratedList: runs.integratedList,
+      })
+      .from(runs)
+      .where(eq(runs.id, rId));
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    // Verify user owns the project
+    const [project] = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(
+        and(
+          eq(projects.id, run.projectId),
+          eq(projects.userId, user.id),
+          isNull(projects.deletedAt)
+        )
+      );
+
+    if (!project) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (run.integratedList) {
+      return NextResponse.json(run.integratedList as IntegratedList);
+    }
+
+    // Not stored yet (run in progress or completed before it existed): build from step5Output
+    const runHypotheses = await db
+      .select({
+        uuid: hypotheses.uuid,
+        hypothesisNumber: hypotheses.hypothesisNumber,
+        loopNumber: hypotheses.loopNumber,
+        displayTitle: hypotheses.displayTitle,
+        step5Output: hypotheses.step5Output,
+        processingStatus: hypotheses.processingStatus,
+      })
+      .from(hypotheses)
+      .where(and(eq(hypotheses.runId, rId), isNull(hypotheses.deletedAt)));
+
+    return NextResponse.json(buildIntegratedList(runHypotheses));
+  } catch (error) {
+    console.error('Failed to fetch integrated list:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch integrated list' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,9 @@
  * Nudge Run API
  *
  * Client-callable endpoint to nudge a stuck run forward.
- * Uses session authentication and internally calls the process endpoint.
- * Acts as a fallback when after() chain breaks in serverless environments.
+ * Uses session authentication and internally calls the process endpoint
+ * (with the standalone worker, it only makes sure the run has queued jobs).
+ * Acts as a fallback when the run's jobs are not being drained.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,6 +13,11 @@ import { db } from '@/lib/db';
 import { runs, projects } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { getBaseUrl, getInternalApiHeaders } from '@/lib/utils/get-base-url';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { createJobQueue } from '@/lib/asip/job-queue';
+import { usesStandaloneWorker } from '@/lib/asip/pipeline-jobs';
+import { enqueueSuccessors } from '@/lib/asip/pipeline-worker';
+import { getRunWork } from '@/lib/asip/step-executor';
 
 interface RouteContext {
   params: Promise<{ runId: string }>;
@@ -69,6 +75,14 @@ export async function POST(request: NextRequest, context: RouteContext) {
       });
     }
 
+    // The standalone worker executes the jobs; no HTTP self-call (on-prem installs have no public URL)
+    if (usesStandaloneWorker()) {
+      const deps = { db: createDatabaseAdapter(), queue: createJobQueue() };
+      await enqueueSuccessors(deps, runId);
+      const work = await getRunWork(deps, runId);
+      return NextResponse.json({ nudged: true, queued: true, phase: work.phase, hasMore: work.phase !== null });
+    }
+
     // Call the process endpoint internally
     const cronSecret = process.env.CRON_SECRET;
     if (!cronSecret) {
@@ -99,6 +113,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
       nudged: true,
       phase: result.phase,
       hasMore: result.hasMore,
+      // Another invocation holds the run lease and keeps the run moving
+      ...(result.phase === 'busy' && { message: result.error, lease: result.lease }),
     });
 
   } catch (error) {
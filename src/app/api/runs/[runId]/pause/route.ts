@@ -3,6 +3,8 @@ import { getUser } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { runs } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { recordPausedInteractions } from '@/lib/asip/run-control';
 
 interface RouteContext {
   params: Promise<{ runId: string }>;
@@ -48,7 +50,10 @@ export async function POST(request: NextRequest, context: RouteContext) {
       .where(eq(runs.id, rId))
       .returning();
 
-    return NextResponse.json(updatedRun);
+    // In-flight Deep Research keeps running; resume polls it again
+    const audit = await recordPausedInteractions({ db: createDatabaseAdapter() }, rId, user.id);
+
+    return NextResponse.json({ ...updatedRun, interactions: audit.interactions });
   } catch (error) {
     console.error('Failed to pause run:', error);
     return NextResponse.json(
@@ -1,20 +1,23 @@
 /**
  * Process Run Step API
  *
- * This endpoint executes the next step in a pipeline run.
+ * This endpoint drives one run through the pipeline job queue: it enqueues
+ * the run's next jobs and executes that run's due jobs within the time budget.
+ * Jobs left behind are picked up by the queue workers (cron, /api/jobs/worker).
  * It's designed to be called:
- * 1. Via after() for self-chaining during active execution
- * 2. Via cron for recovery of stuck runs
+ * 1. Right after a run is created, resumed or reopened
+ * 2. Via nudge when a run looks stuck
  *
  * Authentication: CRON_SECRET header (internal use only)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { after } from 'next/server';
-import { executeNextStep } from '@/lib/asip/step-executor';
+import { getRunWork } from '@/lib/asip/step-executor';
 import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
 import { createAIAdapter } from '@/lib/asip/ai-adapter';
-import { getBaseUrl, getInternalApiHeaders } from '@/lib/utils/get-base-url';
+import { createJobQueue } from '@/lib/asip/job-queue';
+import { JOB_TIME_MS, drainPipelineJobs, enqueueSuccessors } from '@/lib/asip/pipeline-worker';
+import { createLeaseOwner } from '@/lib/asip/run-lease';
 
 interface RouteContext {
   params: Promise<{ runId: string }>;
@@ -57,9 +60,14 @@ export async function POST(request: NextRequest, context: RouteContext) {
     // Import proxy setup before AI calls
     await import('@/lib/gemini/proxy-setup');
 
+    const workerId = createLeaseOwner('process');
     const deps = {
       db: createDatabaseAdapter(),
       ai: createAIAdapter(),
+      selectAI: createAIAdapter,
+      queue: createJobQueue(),
+      // Lock owner of the claimed jobs and owner of the run lease
+      workerId,
       logger: {
         log: (message: string) => console.log(`[Process ${runId}] ${message}`),
         error: (message: string, error?: unknown) => console.error(`[Process ${runId}] ${message}`, error),
@@ -67,89 +75,30 @@ export async function POST(request: NextRequest, context: RouteContext) {
       },
     };
 
-    console.log(`[Process] Starting step execution for run ${runId}`);
+    console.log(`[Process] Enqueuing and executing jobs for run ${runId}`);
 
-    // Execute steps in a loop to reduce after() dependency
-    // Time budget: 50 seconds (Vercel timeout is 60s for Pro)
-    const startTime = Date.now();
+    // Time budget: 50 seconds (Vercel timeout is 60s for Pro); jobs are claimed only while JOB_TIME_MS is left
     const TIME_BUDGET_MS = 50000;
-    const MAX_ITERATIONS = 20; // Safety limit
-
-    let result = await executeNextStep(deps, runId);
-    let iterations = 1;
-
-    console.log(`[Process] Step ${iterations} result for run ${runId}: phase=${result.phase}, hasMore=${result.hasMore}`);
-
-    // Continue executing steps while:
-    // - There are more steps
-    // - We have time budget remaining
-    // - We haven't hit the safety limit
-    // - The phase is a "quick" phase (polling, status updates)
-    const quickPhases = ['step2_1_polling', 'step2_2_polling', 'evaluation', 'step2_1_5'];
-
-    while (
-      result.hasMore &&
-      iterations < MAX_ITERATIONS &&
-      (Date.now() - startTime) < TIME_BUDGET_MS &&
-      quickPhases.includes(result.phase)
-    ) {
-      iterations++;
-      console.log(`[Process] Continuing to step ${iterations} for run ${runId} (elapsed: ${Date.now() - startTime}ms)`);
-
-      result = await executeNextStep(deps, runId);
-      console.log(`[Process] Step ${iterations} result: phase=${result.phase}, hasMore=${result.hasMore}`);
-    }
-
-    console.log(`[Process] Finished after ${iterations} iterations, elapsed: ${Date.now() - startTime}ms`);
-
-    // If there are more steps and we stopped due to time/phase, schedule via after()
-    if (result.hasMore) {
-      const baseUrl = getBaseUrl();
-      const reason = (Date.now() - startTime) >= TIME_BUDGET_MS ? 'time' :
-                     iterations >= MAX_ITERATIONS ? 'iterations' : 'slow_phase';
-
-      console.log(`[Process] Scheduling next step via after() (reason: ${reason})`);
-
-      after(async () => {
-        try {
-          console.log(`[Process] after() executing for run ${runId}`);
-
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-          const response = await fetch(`${baseUrl}/api/runs/${runId}/process`, {
-            method: 'POST',
-            headers: getInternalApiHeaders(expectedSecret),
-            redirect: 'manual',
-            signal: controller.signal,
-          });
-
-          clearTimeout(timeoutId);
-
-          if (response.status >= 300 && response.status < 400) {
-            console.error(`[Process] Blocked by Vercel Protection`);
-            return;
-          }
-
-          if (!response.ok) {
-            const body = await response.text();
-            console.error(`[Process] after() API error: ${response.status} - ${body}`);
-          } else {
-            console.log(`[Process] after() succeeded for run ${runId}`);
-          }
-        } catch (error) {
-          console.error(`[Process] after() failed for run ${runId}:`, error);
-        }
-      });
-    }
+
+    await enqueueSuccessors(deps, runId);
+    const summary = await drainPipelineJobs(deps, { timeBudgetMs: TIME_BUDGET_MS, jobTimeMs: JOB_TIME_MS, runId });
+
+    console.log(`[Process] Executed ${summary.results.length} jobs for run ${runId}, elapsed: ${summary.elapsedMs}ms`);
+
+    // Report the run-level outcome (phase 'busy' when another invocation holds the run lease)
+    const work = await getRunWork(deps, runId);
+    const runJobs = summary.results.filter(result => !result.hypothesisUuid);
+    const last = runJobs[runJobs.length - 1];
+    const busy = last?.outcome === 'busy';
 
     return NextResponse.json({
       runId,
-      phase: result.phase,
-      hasMore: result.hasMore,
-      error: result.error,
-      iterations,
-      elapsedMs: Date.now() - startTime,
+      phase: busy ? 'busy' : (work.phase ?? work.status),
+      hasMore: work.phase !== null,
+      error: last?.error,
+      ...(busy && { lease: last.lease }),
+      jobs: summary.results,
+      elapsedMs: summary.elapsedMs,
     });
   } catch (error) {
     console.error(`[Process] Error processing run ${runId}:`, error);
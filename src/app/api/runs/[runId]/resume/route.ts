@@ -2,13 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getUser } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { runs } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { createAIAdapter } from '@/lib/asip/ai-adapter';
+import { createJobQueue } from '@/lib/asip/job-queue';
+import { enqueueSuccessors } from '@/lib/asip/pipeline-worker';
+import { resumeRunInteractions } from '@/lib/asip/run-control';
+import { getRunSpend, parseBudgetUsd } from '@/lib/asip/run-budget';
 
 interface RouteContext {
   params: Promise<{ runId: string }>;
 }
 
-// POST /api/runs/[runId]/resume - Resume a paused run
+// POST /api/runs/[runId]/resume - Resume a paused run ({ budgetUsd } changes its budget, null removes it)
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
     const { runId } = await context.params;
@@ -41,14 +47,53 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Update to running status
+    const body = await request.json().catch(() => ({}));
+    let budgetUsd: number | null | undefined;
+    try {
+      budgetUsd = parseBudgetUsd(body?.budgetUsd);
+    } catch {
+      return NextResponse.json({ error: 'budgetUsd must be a positive number' }, { status: 400 });
+    }
+
+    // A run over its budget would pause again right away, so a higher budget is required;
+    // usage of unpriced models needs prices or no budget
+    const adapter = createDatabaseAdapter();
+    const effectiveBudget = budgetUsd === undefined ? run.budgetUsd : budgetUsd;
+    if (effectiveBudget != null) {
+      const spend = await getRunSpend({ db: adapter }, rId);
+      if (spend && spend.unpricedModels.length > 0) {
+        return NextResponse.json(
+          { error: 'Run usage includes models without a price', budgetUsd: effectiveBudget, ...spend },
+          { status: 409 }
+        );
+      }
+      if (spend && spend.spentUsd >= effectiveBudget) {
+        return NextResponse.json(
+          { error: 'Run budget is exhausted', budgetUsd: effectiveBudget, spentUsd: spend.spentUsd },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Restart Deep Research that ran past its wall time while paused
+    await import('@/lib/gemini/proxy-setup');
+    const audit = await resumeRunInteractions({ db: adapter, ai: createAIAdapter(), selectAI: createAIAdapter }, rId, user.id);
+
+    // Update to running status (a budget pause reason no longer applies)
     const [updatedRun] = await db
       .update(runs)
-      .set({ status: 'running' })
+      .set({
+        status: 'running',
+        progressInfo: sql`${runs.progressInfo} - 'pauseReason'`,
+        ...(budgetUsd !== undefined && { budgetUsd }),
+      })
       .where(eq(runs.id, rId))
       .returning();
 
-    return NextResponse.json(updatedRun);
+    // Queue the next step (jobs of a paused run were dropped when they came due)
+    await enqueueSuccessors({ db: adapter, queue: createJobQueue() }, rId);
+
+    return NextResponse.json({ ...updatedRun, interactions: audit.interactions });
   } catch (error) {
     console.error('Failed to resume run:', error);
     return NextResponse.json(
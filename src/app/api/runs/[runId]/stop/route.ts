@@ -3,12 +3,17 @@ import { getUser } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { runs } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { createDatabaseAdapter } from '@/lib/asip/db-adapter';
+import { createAIAdapter } from '@/lib/asip/ai-adapter';
+import { STOPPED_BY_USER_MESSAGE, cancelRunInteractions } from '@/lib/asip/run-control';
+import { getErrorMessage } from '@/lib/asip/errors';
 
 interface RouteContext {
   params: Promise<{ runId: string }>;
 }
 
 // POST /api/runs/[runId]/stop - Stop a running or paused run
+// (on a cancelled run, retries cancelling the Deep Research interactions it still holds)
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
     const { runId } = await context.params;
@@ -33,26 +38,43 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Run not found' }, { status: 404 });
     }
 
-    // Only allow stopping from running or paused state
-    if (run.status !== 'running' && run.status !== 'paused') {
+    // Only allow stopping from running or paused state, or retrying the cancellation of a stopped run
+    if (run.status !== 'running' && run.status !== 'paused' && run.status !== 'cancelled') {
       return NextResponse.json(
         { error: `Cannot stop run with status: ${run.status}` },
         { status: 400 }
       );
     }
 
-    // Update to cancelled status
-    const [updatedRun] = await db
-      .update(runs)
-      .set({
-        status: 'cancelled',
-        completedAt: new Date(),
-        errorMessage: 'ユーザーにより停止されました',
-      })
-      .where(eq(runs.id, rId))
-      .returning();
-
-    return NextResponse.json(updatedRun);
+    // Update to cancelled status first (queued jobs of the run are dropped when they come due,
+    // and a Deep Research start in flight sees the status after saving its handle)
+    let updatedRun = run;
+    if (run.status !== 'cancelled') {
+      [updatedRun] = await db
+        .update(runs)
+        .set({
+          status: 'cancelled',
+          completedAt: new Date(),
+          errorMessage: STOPPED_BY_USER_MESSAGE,
+        })
+        .where(eq(runs.id, rId))
+        .returning();
+    }
+
+    // Cancel in-flight Deep Research and delete its File Search stores. The run is already
+    // stopped, so a failure is reported with it; calling stop again retries the cancellation
+    try {
+      await import('@/lib/gemini/proxy-setup');
+      const audit = await cancelRunInteractions(
+        { db: createDatabaseAdapter(), ai: createAIAdapter(), selectAI: createAIAdapter },
+        rId,
+        user.id
+      );
+      return NextResponse.json({ ...updatedRun, interactions: audit.interactions });
+    } catch (error) {
+      console.error(`Failed to cancel the Deep Research interactions of run ${rId}:`, error);
+      return NextResponse.json({ ...updatedRun, interactions: [], cancelError: getErrorMessage(error) });
+    }
   } catch (error) {
     console.error('Failed to stop run:', error);
     return NextResponse.json(
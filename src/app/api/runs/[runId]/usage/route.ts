@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { runs, projects } from '@/lib/db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { getUsageGroups } from '@/lib/asip/db-adapter';
+import { getPriceTable, summarizeRunUsage } from '@/lib/asip/cost-accounting';
+
+interface RouteContext {
+  params: Promise<{ runId: string }>;
+}
+
+// GET /api/runs/[runId]/usage - Get token usage and estimated cost per step and hypothesis
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { runId } = await context.params;
+    const rId = parseInt(runId, 10);
+
+    if (isNaN(rId)) {
+      return NextResponse.json({ error: 'Invalid run ID' }, { status: 400 });
+    }
+
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [run] = await db
+      .select({ id: runs.id, projectId: runs.projectId })
+      .from(runs)
+      .where(eq(runs.id, rId));
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    // Verify user owns the project
+    const [project] = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(
+        and(
+          eq(projects.id, run.projectId),
+          eq(projects.userId, user.id),
+          isNull(projects.deletedAt)
+        )
+      );
+
+    if (!project) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const groups = await getUsageGroups({ runId: rId });
+    return NextResponse.json(summarizeRunUsage(groups, getPriceTable()));
+  } catch (error) {
+    console.error('Failed to fetch run usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch run usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState } from 'react';
-import { Play, Loader2, Target, Cpu, Settings2, Plus, Pencil, Trash2, X, Upload, FileText, Files, FolderInput, ChevronRight, ChevronDown, Filter, RefreshCcw } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Play, Loader2, Target, Cpu, Settings2, Plus, Pencil, Trash2, X, Upload, FileText, Files, FolderInput, ChevronRight, ChevronDown, Filter, RefreshCcw, Coins } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -45,6 +46,8 @@ import {
 import { Switch } from '@/components/ui/switch';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Checkbox } from '@/components/ui/checkbox';
+import { formatCost } from '@/lib/asip/cost-accounting';
+import type { RunCostEstimate } from '@/lib/asip/run-budget';
 
 const resourceFormSchema = z.object({
   name: z.string().min(1, '名前は必須です').max(200, '名前が長すぎます'),
@@ -59,6 +62,8 @@ interface ExecutionParams {
   hypothesisCount: number;
   loopCount: number;
   jobName: string;
+  modelChoice: 'pro' | 'flash';
+  budgetUsd?: number;
   existingFilter?: ExistingHypothesisFilter;
 }
 
@@ -122,6 +127,8 @@ export function ExecutionPanel({
   const [hypothesisCount, setHypothesisCount] = useState<number>(5);
   const [loopCount, setLoopCount] = useState<number>(1);
   const [jobName, setJobName] = useState<string>(generateDefaultJobName());
+  const [modelChoice, setModelChoice] = useState<'pro' | 'flash'>('pro');
+  const [budgetInput, setBudgetInput] = useState<string>('');
   
   // Reprocess mode state
   const [reprocessMode, setReprocessMode] = useState(false);
@@ -159,7 +166,28 @@ export function ExecutionPanel({
   });
 
   // Computed values
-  const canExecute = selectedTargetSpec && selectedTechnicalAssets && !isExecuting;
+  const budgetUsd = budgetInput.trim() === '' ? undefined : Number(budgetInput);
+  const isBudgetValid = budgetUsd === undefined || (Number.isFinite(budgetUsd) && budgetUsd > 0);
+  const canExecute = selectedTargetSpec && selectedTechnicalAssets && isBudgetValid && !isExecuting;
+
+  // Cost estimate of the run as configured
+  const { data: estimate, isLoading: isEstimating } = useQuery<RunCostEstimate>({
+    queryKey: ['projects', projectId, 'runs', 'estimate', selectedTargetSpec, selectedTechnicalAssets, hypothesisCount, loopCount, modelChoice],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        targetSpecId: selectedTargetSpec,
+        technicalAssetsId: selectedTechnicalAssets,
+        hypothesisCount: String(hypothesisCount),
+        loopCount: String(loopCount),
+        modelChoice,
+      });
+      const res = await fetch(`/api/projects/${projectId}/runs/estimate?${params}`);
+      if (!res.ok) throw new Error('Failed to estimate run cost');
+      return res.json();
+    },
+    enabled: !reprocessMode && !!selectedTargetSpec && !!selectedTechnicalAssets,
+  });
+  const exceedsBudget = !!estimate && budgetUsd !== undefined && isBudgetValid && estimate.totalUsd > budgetUsd;
 
   // Handlers
   const handleExecute = () => {
@@ -171,6 +199,8 @@ export function ExecutionPanel({
       hypothesisCount,
       loopCount,
       jobName,
+      modelChoice,
+      budgetUsd: isBudgetValid ? budgetUsd : undefined,
     };
     
     if (useExistingFilter && (filterTargetSpecs.length > 0 || filterTechnicalAssets.length > 0)) {
@@ -460,6 +490,83 @@ export function ExecutionPanel({
             </div>
           </div>
 
+          {/* Model Choice and Budget */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>モデル選択</Label>
+              <Select
+                value={modelChoice}
+                onValueChange={(value) => setModelChoice(value as 'pro' | 'flash')}
+                disabled={isExecuting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pro">Gemini Pro</SelectItem>
+                  <SelectItem value="flash">Gemini Flash</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="budget-usd">予算上限（USD・任意）</Label>
+              <Input
+                id="budget-usd"
+                type="number"
+                min={0}
+                step="0.01"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                placeholder="上限なし"
+                disabled={isExecuting}
+                data-testid="input-budget-usd"
+              />
+              {!isBudgetValid && (
+                <p className="text-xs text-status-error mt-1">正の数を入力してください</p>
+              )}
+            </div>
+          </div>
+
+          {/* Cost Estimate */}
+          {selectedTargetSpec && selectedTechnicalAssets && (
+            <div className="border rounded-md p-3 space-y-2 text-sm" data-testid="run-cost-estimate">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 font-medium">
+                  <Coins className="h-4 w-4" />
+                  推定コスト
+                </span>
+                {isEstimating ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : estimate ? (
+                  <span className={exceedsBudget ? 'text-status-error font-medium' : 'font-medium'}>
+                    {formatCost(estimate.totalUsd)}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">-</span>
+                )}
+              </div>
+              {estimate && (
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  {estimate.steps.map((step) => (
+                    <div key={step.step} className="flex justify-between">
+                      <span>
+                        {step.step} × {step.calls}
+                        {step.basis === 'default' && '（既定値）'}
+                      </span>
+                      <span>{step.costUsd === null ? '価格未設定' : formatCost(step.costUsd)}</span>
+                    </div>
+                  ))}
+                  <p>過去の実行の平均使用量から算出した目安です（実績がないステップは既定値）。</p>
+                </div>
+              )}
+              {exceedsBudget && (
+                <p className="text-xs text-status-error">
+                  推定コストが予算上限を超えています。上限に達すると実行は一時停止します。
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Job Name */}
           <div>
             <Label htmlFor="job-name">ジョブ名</Label>
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { History, ChevronRight, Download, Loader2, CheckCircle, XCircle, Clock, FileSpreadsheet, AlertTriangle, FileText, Archive } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -19,8 +20,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { format } from 'date-fns';
 import { ja } from 'date-fns/locale';
 import type { Run, Resource } from '@/lib/db/schema';
+import { formatCost, formatTokens, type ProjectUsageSummary, type UsageTotals } from '@/lib/asip/cost-accounting';
 
 interface HistoryPanelProps {
+  projectId: number;
   runs: Run[];
   resources: Resource[];
   onDownloadTSV: (runId: number) => void;
@@ -48,13 +51,27 @@ interface IndividualReport {
   hasContent: boolean;
 }
 
-export function HistoryPanel({ runs, resources, onDownloadTSV, onDownloadExcel, onDownloadStep2Word, onDownloadIndividualReport }: HistoryPanelProps) {
+export function HistoryPanel({ projectId, runs, resources, onDownloadTSV, onDownloadExcel, onDownloadStep2Word, onDownloadIndividualReport }: HistoryPanelProps) {
   const [selectedRun, setSelectedRun] = useState<Run | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('summary');
   const [individualReports, setIndividualReports] = useState<IndividualReport[]>([]);
   const [loadingReports, setLoadingReports] = useState(false);
 
+  const hasActiveRun = runs.some(run => run.status === 'running');
+  const { data: usage } = useQuery({
+    queryKey: ['projects', projectId, 'usage'],
+    queryFn: async () => {
+      const res = await fetch(`/api/projects/${projectId}/usage`);
+      if (!res.ok) throw new Error('Failed to fetch project usage');
+      return res.json() as Promise<ProjectUsageSummary>;
+    },
+    refetchInterval: hasActiveRun ? 30000 : false,
+  });
+
+  const getRunUsage = (runId: number): UsageTotals | undefined =>
+    usage?.byRun.find(entry => entry.runId === runId);
+
   const handleRunClick = (run: Run) => {
     setSelectedRun(run);
     setDetailsOpen(true);
@@ -133,6 +150,7 @@ export function HistoryPanel({ runs, resources, onDownloadTSV, onDownloadExcel,
               {runs.map((run) => {
                 const config = statusConfig[run.status] || defaultStatus;
                 const StatusIcon = config.icon;
+                const runUsage = getRunUsage(run.id);
 
                 return (
                   <div
@@ -150,6 +168,7 @@ export function HistoryPanel({ runs, resources, onDownloadTSV, onDownloadExcel,
                           <p className="font-medium">{run.jobName}</p>
                           <p className="text-xs font-light text-muted-foreground">
                             {formatDate(run.createdAt)}
+                            {runUsage && ` ・ ${formatCost(runUsage.costUsd)}`}
                           </p>
                         </div>
                       </div>
@@ -217,6 +236,21 @@ export function HistoryPanel({ runs, resources, onDownloadTSV, onDownloadExcel,
                       {selectedRun.completedAt ? formatDate(selectedRun.completedAt) : '未完了'}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-sm font-medium">推定コスト</p>
+                    {(() => {
+                      const runUsage = getRunUsage(selectedRun.id);
+                      if (!runUsage) return <p className="mt-1 text-sm font-light">記録なし</p>;
+                      return (
+                        <p className="mt-1 text-sm font-light" data-testid="text-history-run-cost">
+                          {formatCost(runUsage.costUsd)}
+                          <span className="text-muted-foreground">
+                            {' '}（入力 {formatTokens(runUsage.inputTokens)} / 出力 {formatTokens(runUsage.outputTokens + runUsage.thinkingTokens)} トークン、{runUsage.calls}回）
+                          </span>
+                        </p>
+                      );
+                    })()}
+                  </div>
                 </div>
 
                 <Separator className="bg-border/50" />
@@ -0,0 +1,168 @@
+import Link from 'next/link';
+import { ArrowLeft, Coins } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import { formatCost, formatTokens, type ProjectUsageSummary, type UsageTotals } from '@/lib/asip/cost-accounting';
+
+interface ProjectCostViewProps {
+  project: { id: number; name: string };
+  runs: Array<{ id: number; jobName: string; status: string; createdAt: Date }>;
+  usage: ProjectUsageSummary;
+}
+
+function UsageCells({ totals }: { totals: UsageTotals }) {
+  return (
+    <>
+      <TableCell className="text-right font-mono">{totals.calls}</TableCell>
+      <TableCell className="text-right font-mono">{formatTokens(totals.inputTokens)}</TableCell>
+      <TableCell className="text-right font-mono">{formatTokens(totals.outputTokens)}</TableCell>
+      <TableCell className="text-right font-mono">{formatTokens(totals.thinkingTokens)}</TableCell>
+      <TableCell className="text-right font-mono">{totals.groundingCalls}</TableCell>
+      <TableCell className="text-right font-mono font-medium">
+        {formatCost(totals.costUsd)}
+        {totals.unpricedModels.length > 0 && '+'}
+      </TableCell>
+    </>
+  );
+}
+
+function UsageHeads() {
+  return (
+    <>
+      <TableHead className="text-right">呼び出し</TableHead>
+      <TableHead className="text-right">入力</TableHead>
+      <TableHead className="text-right">出力</TableHead>
+      <TableHead className="text-right">思考</TableHead>
+      <TableHead className="text-right">検索</TableHead>
+      <TableHead className="text-right">推定コスト</TableHead>
+    </>
+  );
+}
+
+export function ProjectCostView({ project, runs, usage }: ProjectCostViewProps) {
+  const { total } = usage;
+  const runUsage = new Map(usage.byRun.map(entry => [entry.runId, entry]));
+  const runsWithUsage = runs.filter(run => runUsage.has(run.id));
+
+  return (
+    <div className="min-h-screen">
+      <main className="max-w-6xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center gap-4 fade-in">
+          <Link href={`/projects/${project.id}`}>
+            <Button variant="ghost" size="icon" data-testid="button-back-project">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-display font-black tracking-tight" data-testid="text-cost-title">
+              コスト
+            </h1>
+            <p className="text-muted-foreground mt-1 font-light">{project.name}</p>
+          </div>
+        </div>
+
+        <Card className="fade-in">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 font-display">
+              <Coins className="h-5 w-5 text-agc-gold" />
+              推定コスト合計
+            </CardTitle>
+            <CardDescription>
+              Gemini が報告したトークン使用量と価格表から算出した概算です（実際の請求額とは異なる場合があります）
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-3xl font-mono font-bold" data-testid="text-project-cost">
+              {formatCost(total.costUsd)}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              呼び出し {total.calls}回 ・ 入力 {formatTokens(total.inputTokens)} ・ 出力 {formatTokens(total.outputTokens)} ・
+              思考 {formatTokens(total.thinkingTokens)} トークン ・ 検索 {total.groundingCalls}回
+            </p>
+            {total.unpricedModels.length > 0 && (
+              <p className="text-sm text-status-warning">
+                価格未設定のモデルはコストに含まれていません: {total.unpricedModels.join(', ')}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="fade-in stagger-1">
+          <CardHeader>
+            <CardTitle className="font-display">実行別</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {runsWithUsage.length === 0 ? (
+              <p className="text-sm text-muted-foreground">使用量の記録はまだありません</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ジョブ</TableHead>
+                    <TableHead>開始</TableHead>
+                    <UsageHeads />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runsWithUsage.map(run => (
+                    <TableRow key={run.id} data-testid={`row-run-cost-${run.id}`}>
+                      <TableCell>
+                        <Link href={`/projects/${project.id}/runs/${run.id}`} className="hover:underline">
+                          {run.jobName}
+                        </Link>
+                        {run.status === 'running' && (
+                          <Badge variant="running" className="ml-2">処理中</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {format(new Date(run.createdAt), 'yyyy/MM/dd HH:mm', { locale: ja })}
+                      </TableCell>
+                      <UsageCells totals={runUsage.get(run.id)!} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {usage.byModel.length > 0 && (
+          <Card className="fade-in stagger-2">
+            <CardHeader>
+              <CardTitle className="font-display">モデル別</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>モデル</TableHead>
+                    <UsageHeads />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {usage.byModel.map(entry => (
+                    <TableRow key={entry.model}>
+                      <TableCell className="font-mono text-sm">{entry.model}</TableCell>
+                      <UsageCells totals={entry} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Loader2, ArrowLeft, Pencil, Trash2, Check, X } from 'lucide-react';
+import { Loader2, ArrowLeft, Pencil, Trash2, Check, X, Coins } from 'lucide-react';
 import Link from 'next/link';
 import { Header } from '@/components/layout/header';
 import { ExecutionPanel } from './execution-panel';
@@ -21,9 +21,18 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import type { Project, Resource, Run, Hypothesis } from '@/lib/db/schema';
+import { formatCost } from '@/lib/asip/cost-accounting';
+import { AI_PROVIDERS, AI_PROVIDER_LABELS, type AIProvider } from '@/lib/asip/ai-provider';
 
 interface ProjectWorkspaceProps {
   project: Project;
@@ -37,6 +46,7 @@ export function ProjectWorkspace({ project, initialResources, initialRuns }: Pro
   const queryClient = useQueryClient();
   
   const [isEditingName, setIsEditingName] = useState(false);
+  const [aiProvider, setAIProvider] = useState<AIProvider>(project.aiProvider);
   const [editedName, setEditedName] = useState('');
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
@@ -80,6 +90,32 @@ export function ProjectWorkspace({ project, initialResources, initialRuns }: Pro
     refetchInterval: runs.some((r) => r.status === 'running') ? 5000 : false,
   });
 
+  const updateAIProviderMutation = useMutation({
+    mutationFn: async (provider: AIProvider) => {
+      const res = await fetch(`/api/projects/${project.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ aiProvider: provider }),
+      });
+      if (!res.ok) throw new Error('Failed to update AI provider');
+      return res.json();
+    },
+    onSuccess: (_, provider) => {
+      setAIProvider(provider);
+      toast({
+        title: 'AIプロバイダを変更しました',
+        description: `以降の実行は${AI_PROVIDER_LABELS[provider]}で処理されます。`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'エラー',
+        description: 'AIプロバイダの変更に失敗しました。',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const updateProjectMutation = useMutation({
     mutationFn: async (name: string) => {
       const res = await fetch(`/api/projects/${project.id}`, {
@@ -299,13 +335,34 @@ export function ProjectWorkspace({ project, initialResources, initialRuns }: Pro
   });
 
   const resumeRunMutation = useMutation({
-    mutationFn: async (runId: number) => {
+    mutationFn: async ({ runId, budgetUsd }: { runId: number; budgetUsd?: number }) => {
       const res = await fetch(`/api/runs/${runId}/resume`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(budgetUsd === undefined ? {} : { budgetUsd }),
       });
+      if (res.status === 409) {
+        // Budget exhausted: resuming needs a higher budget
+        const data: { spentUsd: number; budgetUsd: number } = await res.json();
+        return { budgetExhausted: data };
+      }
       if (!res.ok) throw new Error('Failed to resume run');
-    },
-    onSuccess: async () => {
+      return { budgetExhausted: null };
+    },
+    onSuccess: async ({ budgetExhausted }, { runId }) => {
+      if (budgetExhausted) {
+        const input = window.prompt(
+          `予算上限（${formatCost(budgetExhausted.budgetUsd)}）に達しています（使用済み ${formatCost(budgetExhausted.spentUsd)}）。\n` +
+          '再開するには新しい予算（USD）を入力してください。',
+          String(Math.ceil(budgetExhausted.spentUsd * 1.5))
+        );
+        const budgetUsd = input ? Number(input) : NaN;
+        if (Number.isFinite(budgetUsd) && budgetUsd > 0) {
+          resumeRunMutation.mutate({ runId, budgetUsd });
+        }
+        return;
+      }
+
       await queryClient.invalidateQueries({ queryKey: ['projects', project.id, 'runs'] });
       await queryClient.refetchQueries({ queryKey: ['projects', project.id, 'runs'] });
       toast({
@@ -321,13 +378,26 @@ export function ProjectWorkspace({ project, initialResources, initialRuns }: Pro
         method: 'POST',
       });
       if (!res.ok) throw new Error('Failed to stop run');
+      const data: { interactions?: unknown[]; cancelError?: string } = await res.json();
+      return { runId, cancelledCount: data.interactions?.length ?? 0, cancelError: data.cancelError };
     },
-    onSuccess: async () => {
+    onSuccess: async ({ runId, cancelledCount, cancelError }) => {
       await queryClient.invalidateQueries({ queryKey: ['projects', project.id, 'runs'] });
       await queryClient.refetchQueries({ queryKey: ['projects', project.id, 'runs'] });
+
+      // The run is stopped, but its Deep Research may still be running (and billed)
+      if (cancelError) {
+        if (window.confirm(`処理は停止しましたが、実行中の Deep Research をキャンセルできませんでした（${cancelError}）。\nもう一度キャンセルしますか？`)) {
+          stopRunMutation.mutate(runId);
+        }
+        return;
+      }
+
       toast({
         title: '停止しました',
-        description: 'パイプラインの処理を停止しました。',
+        description: cancelledCount > 0
+          ? `パイプラインの処理を停止し、実行中の Deep Research ${cancelledCount}件をキャンセルしました。`
+          : 'パイプラインの処理を停止しました。',
       });
     },
   });
@@ -579,6 +649,31 @@ export function ProjectWorkspace({ project, initialResources, initialRuns }: Pro
                 >
                   <Trash2 className="h-4 w-4" />
                 </Button>
+                <div className="ml-auto flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">AIプロバイダ</span>
+                  <Select
+                    value={aiProvider}
+                    onValueChange={(value) => updateAIProviderMutation.mutate(value as AIProvider)}
+                    disabled={updateAIProviderMutation.isPending}
+                  >
+                    <SelectTrigger className="w-52 h-9" data-testid="select-ai-provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AI_PROVIDERS.map((provider) => (
+                        <SelectItem key={provider} value={provider}>
+                          {AI_PROVIDER_LABELS[provider]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Link href={`/projects/${project.id}/cost`}>
+                  <Button variant="outline" size="sm" className="gap-2" data-testid="link-project-cost">
+                    <Coins className="h-4 w-4" />
+                    コスト
+                  </Button>
+                </Link>
               </>
             )}
           </div>
@@ -616,7 +711,7 @@ export function ProjectWorkspace({ project, initialResources, initialRuns }: Pro
             <RunProgressDisplay
               run={activeRun}
               onPause={(runId) => pauseRunMutation.mutate(runId)}
-              onResume={(runId) => resumeRunMutation.mutate(runId)}
+              onResume={(runId) => resumeRunMutation.mutate({ runId })}
               onStop={(runId) => stopRunMutation.mutate(runId)}
             />
           </div>
@@ -640,6 +735,7 @@ export function ProjectWorkspace({ project, initialResources, initialRuns }: Pro
           </div>
           <div className="min-h-[300px] lg:min-h-0 lg:h-full">
             <HistoryPanel
+              projectId={project.id}
               runs={sortedRuns}
               resources={resources}
               onDownloadTSV={handleDownloadTSV}
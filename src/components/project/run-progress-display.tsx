@@ -30,6 +30,7 @@ import {
   type ProgressInfo,
   type ParallelItem,
 } from '@/lib/run-progress';
+import { RunCostBadge } from '@/components/run/run-cost-badge';
 
 interface RunProgressDisplayProps {
   run: Run;
@@ -386,6 +387,7 @@ export function RunProgressDisplay({
                 {formatElapsedTime(elapsedSeconds)}
               </span>
             </div>
+            <RunCostBadge runId={run.id} isActive={!isPaused} budgetUsd={run.budgetUsd} />
             <ControlBar
               runId={run.id}
               status={run.status}
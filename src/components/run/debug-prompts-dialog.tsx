@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Bug, Clock, Paperclip, Loader2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Bug, Clock, Paperclip, Loader2, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -20,19 +21,35 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-
-interface DebugPromptEntry {
-  step: string;
-  timestamp: string;
-  prompt: string;
-  attachments: string[];
-}
+import {
+  DEBUG_PROMPT_STEP_LABELS,
+  type DebugPromptAttachment,
+  type DebugPromptEntry,
+} from '@/lib/asip/debug-prompts';
 
 interface DebugPromptsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   runId: number | null;
-  debugPrompts?: unknown; // From run.debugPrompts
+}
+
+// Entries recorded before sizes were tracked only have file names
+type RecordedAttachment = DebugPromptAttachment | string;
+
+function formatAttachment(attachment: RecordedAttachment): string {
+  if (typeof attachment === 'string') return attachment;
+  return `${attachment.name} (${formatBytes(attachment.size)})`;
+}
+
+function formatBytes(size: number): string {
+  if (size < 1024) return `${size}B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)}KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+function formatEntryLabel(entry: DebugPromptEntry): string {
+  const step = DEBUG_PROMPT_STEP_LABELS[entry.step] || entry.step;
+  return entry.hypothesisNumber !== undefined ? `${step} - 仮説 ${entry.hypothesisNumber}` : step;
 }
 
 function formatDate(dateString: string): string {
@@ -51,43 +68,28 @@ export function DebugPromptsDialog({
   open,
   onOpenChange,
   runId,
-  debugPrompts,
 }: DebugPromptsDialogProps) {
   const [selectedStep, setSelectedStep] = useState<string>('');
-  const [entries, setEntries] = useState<DebugPromptEntry[]>([]);
-  const [loading, setLoading] = useState(false);
 
-  // Parse debug prompts from run data
+  // Run-level and per-hypothesis prompts, merged by the API (loaded only while open)
+  const { data: entries = [], isLoading: loading } = useQuery({
+    queryKey: ['runs', runId, 'debug-prompts'],
+    queryFn: async () => {
+      const res = await fetch(`/api/runs/${runId}/debug-prompts`);
+      if (!res.ok) throw new Error('Failed to fetch debug prompts');
+      const data = (await res.json()) as { entries: DebugPromptEntry[] };
+      return data.entries;
+    },
+    enabled: open && runId !== null,
+  });
+
   useEffect(() => {
-    if (open && debugPrompts) {
-      setLoading(true);
-      try {
-        // debugPrompts could be an array of entries or an object with entries property
-        let parsedEntries: DebugPromptEntry[] = [];
-
-        if (Array.isArray(debugPrompts)) {
-          parsedEntries = debugPrompts as DebugPromptEntry[];
-        } else if (typeof debugPrompts === 'object' && debugPrompts !== null) {
-          const data = debugPrompts as Record<string, unknown>;
-          if (Array.isArray(data.entries)) {
-            parsedEntries = data.entries as DebugPromptEntry[];
-          }
-        }
-
-        setEntries(parsedEntries);
-        if (parsedEntries.length > 0) {
-          setSelectedStep(`0-${parsedEntries[0].step}`);
-        }
-      } catch {
-        setEntries([]);
-      } finally {
-        setLoading(false);
-      }
-    } else if (!open) {
+    if (!open) {
       setSelectedStep('');
-      setEntries([]);
+    } else if (!selectedStep && entries.length > 0) {
+      setSelectedStep(`0-${entries[0].step}`);
     }
-  }, [open, debugPrompts]);
+  }, [open, entries, selectedStep]);
 
   const selectedIndex = selectedStep ? parseInt(selectedStep.split('-')[0]) : -1;
   const selectedEntry = entries[selectedIndex];
@@ -132,7 +134,7 @@ export function DebugPromptsDialog({
                 <SelectContent>
                   {entries.map((entry, index) => (
                     <SelectItem key={index} value={`${index}-${entry.step}`}>
-                      {entry.step}
+                      {formatEntryLabel(entry)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -141,11 +143,26 @@ export function DebugPromptsDialog({
 
             {selectedEntry && (
               <div className="space-y-3">
-                <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                  <Clock className="h-3 w-3" />
-                  <span>送信時刻: {formatDate(selectedEntry.timestamp)}</span>
+                <div className="flex items-center gap-4 text-xs text-muted-foreground flex-wrap">
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    送信時刻: {formatDate(selectedEntry.timestamp)}
+                  </span>
+                  {selectedEntry.model && <span>モデル: {selectedEntry.model}</span>}
+                  <span>
+                    応答: {selectedEntry.responseLength != null
+                      ? `${selectedEntry.responseLength.toLocaleString()}文字`
+                      : selectedEntry.error ? '-' : '待機中'}
+                  </span>
                 </div>
 
+                {selectedEntry.error && (
+                  <div className="flex items-center gap-2 text-xs text-destructive">
+                    <AlertCircle className="h-3 w-3" />
+                    {selectedEntry.error}
+                  </div>
+                )}
+
                 {selectedEntry.attachments &&
                   selectedEntry.attachments.length > 0 && (
                     <div className="flex items-center gap-2 flex-wrap">
@@ -153,13 +170,13 @@ export function DebugPromptsDialog({
                         <Paperclip className="h-4 w-4" />
                         添付ファイル:
                       </span>
-                      {selectedEntry.attachments.map((attachment, idx) => (
+                      {(selectedEntry.attachments as RecordedAttachment[]).map((attachment, idx) => (
                         <Badge
                           key={idx}
                           variant="secondary"
                           data-testid={`badge-attachment-${idx}`}
                         >
-                          {attachment}
+                          {formatAttachment(attachment)}
                         </Badge>
                       ))}
                     </div>
@@ -0,0 +1,186 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatTime } from '@/lib/run-progress';
+import {
+  TIMING_STEP_LABELS,
+  getTimingRange,
+  type StepTimingSummary,
+  type TimingEntry,
+  type TimingStep,
+} from '@/lib/asip/execution-timing';
+
+interface ExecutionTimingPanelProps {
+  runId: number;
+  isActive: boolean;
+}
+
+interface TimingResponse {
+  entries: TimingEntry[];
+  summary: StepTimingSummary[];
+}
+
+const STEP_COLORS: Record<TimingStep, string> = {
+  step2_1_start: 'bg-slate-400',
+  step2_1: 'bg-blue-500',
+  step2_1_5: 'bg-cyan-500',
+  step2_2_start: 'bg-slate-400',
+  step2_2: 'bg-indigo-500',
+  step3: 'bg-amber-500',
+  step4: 'bg-orange-500',
+  step5: 'bg-green-500',
+};
+
+interface TimelineLane {
+  key: string;
+  label: string;
+  entries: TimingEntry[];
+}
+
+/**
+ * Group entries into Gantt lanes: run-level steps per loop, then one lane per hypothesis
+ */
+function buildLanes(entries: TimingEntry[]): TimelineLane[] {
+  const lanes = new Map<string, TimelineLane>();
+
+  for (const entry of entries) {
+    const key = entry.hypothesisUuid || `run-${entry.loop ?? 1}`;
+    if (!lanes.has(key)) {
+      lanes.set(key, {
+        key,
+        label: entry.hypothesisUuid
+          ? `仮説 ${entry.hypothesisNumber ?? '-'}`
+          : `S2-1 (ループ${entry.loop ?? 1})`,
+        entries: [],
+      });
+    }
+    lanes.get(key)!.entries.push(entry);
+  }
+
+  return [...lanes.values()].sort((a, b) => {
+    const aIsRun = a.key.startsWith('run-');
+    const bIsRun = b.key.startsWith('run-');
+    if (aIsRun !== bIsRun) return aIsRun ? -1 : 1;
+    return Date.parse(a.entries[0].startedAt) - Date.parse(b.entries[0].startedAt);
+  });
+}
+
+export function ExecutionTimingPanel({ runId, isActive }: ExecutionTimingPanelProps) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['runs', runId, 'timing'],
+    queryFn: async () => {
+      const res = await fetch(`/api/runs/${runId}/timing`);
+      if (!res.ok) throw new Error('Failed to fetch execution timing');
+      return res.json() as Promise<TimingResponse>;
+    },
+    refetchInterval: isActive ? 15000 : false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        読み込み中...
+      </div>
+    );
+  }
+
+  if (!data || data.entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">実行時間の記録はまだありません</p>;
+  }
+
+  const range = getTimingRange(data);
+  const totalSpan = range ? Math.max(1, range.end - range.start) : 1;
+  const lanes = buildLanes(data.entries);
+
+  return (
+    <div className="space-y-6">
+      {/* Breakdown per step */}
+      <div>
+        <p className="text-sm text-muted-foreground mb-2">
+          ステップ別内訳（全体 {formatTime(totalSpan)}）
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>ステップ</TableHead>
+              <TableHead className="text-right">回数</TableHead>
+              <TableHead className="text-right">合計</TableHead>
+              <TableHead className="text-right">平均</TableHead>
+              <TableHead className="text-right">最大</TableHead>
+              <TableHead className="text-right">平均並列数</TableHead>
+              <TableHead className="text-right">エラー</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.summary.map((s) => (
+              <TableRow key={s.step}>
+                <TableCell className="font-medium">
+                  <span className={`inline-block h-2 w-2 rounded-full mr-2 ${STEP_COLORS[s.step]}`} />
+                  {TIMING_STEP_LABELS[s.step]}
+                </TableCell>
+                <TableCell className="text-right">{s.count}</TableCell>
+                <TableCell className="text-right">{formatTime(s.totalMs)}</TableCell>
+                <TableCell className="text-right">{formatTime(s.avgMs)}</TableCell>
+                <TableCell className="text-right">{formatTime(s.maxMs)}</TableCell>
+                <TableCell className="text-right">{s.avgConcurrency.toFixed(1)}</TableCell>
+                <TableCell className={`text-right ${s.errorCount > 0 ? 'text-destructive' : ''}`}>
+                  {s.errorCount}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Gantt-style timeline */}
+      <div>
+        <p className="text-sm text-muted-foreground mb-2">タイムライン</p>
+        <div className="space-y-1">
+          {lanes.map((lane) => (
+            <div key={lane.key} className="flex items-center gap-2">
+              <span className="w-28 flex-shrink-0 truncate text-xs text-muted-foreground">
+                {lane.label}
+              </span>
+              <div className="relative flex-1 h-4 rounded bg-muted">
+                {lane.entries.map((entry, index) => {
+                  const left = ((Date.parse(entry.startedAt) - range!.start) / totalSpan) * 100;
+                  const width = (entry.durationMs / totalSpan) * 100;
+                  return (
+                    <div
+                      key={index}
+                      className={`absolute top-0 h-full rounded-sm ${STEP_COLORS[entry.step]} ${
+                        entry.outcome === 'error' ? 'ring-2 ring-destructive' : ''
+                      }`}
+                      style={{ left: `${left}%`, width: `max(${width}%, 2px)` }}
+                      title={`${TIMING_STEP_LABELS[entry.step]}: ${formatTime(entry.durationMs)}${
+                        entry.error ? ` (${entry.error})` : ''
+                      }`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-3 mt-3 text-xs text-muted-foreground">
+          {data.summary.map((s) => (
+            <span key={s.step} className="flex items-center gap-1">
+              <span className={`inline-block h-2 w-2 rounded-full ${STEP_COLORS[s.step]}`} />
+              {TIMING_STEP_LABELS[s.step]}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 'use client';
 
-import { CheckCircle, Clock, AlertCircle, Loader2, ChevronRight } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { CheckCircle, Clock, AlertCircle, AlertTriangle, Loader2, ChevronRight, RefreshCw } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { formatRetryStatus, getHypothesisRetryState, type HypothesisRetryState } from '@/lib/asip/retry-policy';
 import type { Hypothesis } from '@/lib/db/schema';
 
 interface HypothesisCardProps {
@@ -105,11 +107,47 @@ function StepIndicator({ currentStep }: { currentStep: string | null }) {
   );
 }
 
+// 一時的なエラー後の再試行待ち（残り秒数を毎秒更新）
+function RetryStatus({ retry }: { retry: HypothesisRetryState }) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [retry.nextRetryAt]);
+
+  return (
+    <div
+      className="flex items-center gap-1 text-xs text-amber-700 dark:text-amber-400 mt-1.5 bg-amber-100/50 dark:bg-amber-950/50 px-2 py-1 rounded"
+      title={retry.lastError}
+    >
+      <RefreshCw className="h-3 w-3 shrink-0" />
+      <span className="shrink-0">{formatRetryStatus(retry, now)}</span>
+      <span className="truncate text-amber-700/70 dark:text-amber-400/70">{retry.lastError}</span>
+    </div>
+  );
+}
+
+// 形式修正後も解析できなかったステップ（hypotheses.format_violations）
+function FormatViolationFlag({ steps }: { steps: string[] }) {
+  return (
+    <div
+      className="flex items-center gap-1 text-xs text-amber-700 dark:text-amber-400 mt-1.5 bg-amber-100/50 dark:bg-amber-950/50 px-2 py-1 rounded"
+      title="自動の形式修正後も出力を解析できませんでした。スコアが欠けている可能性があります"
+    >
+      <AlertTriangle className="h-3 w-3 shrink-0" />
+      <span>形式違反: {steps.map((step) => step.replace('step', 'S')).join(', ')}</span>
+    </div>
+  );
+}
+
 export function HypothesisCard({ hypothesis, isSelected, onClick }: HypothesisCardProps) {
   const status = statusConfig[hypothesis.processingStatus || 'pending'] || statusConfig.pending;
   const StatusIcon = status.icon;
   const isProcessing = hypothesis.processingStatus?.startsWith('step');
   const isError = hypothesis.processingStatus === 'error';
+  const retry = isProcessing ? getHypothesisRetryState(hypothesis.fullData) : null;
+  const formatViolations = hypothesis.formatViolations ?? [];
 
   return (
     <button
@@ -128,6 +166,11 @@ export function HypothesisCard({ hypothesis, isSelected, onClick }: HypothesisCa
             <span className="text-xs font-mono text-muted-foreground">
               #{hypothesis.hypothesisNumber}
             </span>
+            {hypothesis.loopNumber > 1 && (
+              <span className="text-[10px] text-muted-foreground">
+                ループ{hypothesis.loopNumber}
+              </span>
+            )}
             <Badge variant={status.variant} className="gap-1 text-[10px]">
               <StatusIcon
                 className={cn(
@@ -151,6 +194,12 @@ export function HypothesisCard({ hypothesis, isSelected, onClick }: HypothesisCa
           {/* ステップ進捗インジケーター */}
           <StepIndicator currentStep={hypothesis.processingStatus} />
 
+          {/* 再試行待ち表示 */}
+          {retry && <RetryStatus retry={retry} />}
+
+          {/* 形式違反フラグ */}
+          {formatViolations.length > 0 && <FormatViolationFlag steps={formatViolations} />}
+
           {/* エラーメッセージ表示 */}
           {isError && hypothesis.errorMessage && (
             <p className="text-xs text-red-600 dark:text-red-400 mt-1.5 line-clamp-2 bg-red-100/50 dark:bg-red-950/50 px-2 py-1 rounded">
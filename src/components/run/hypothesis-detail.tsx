@@ -1,15 +1,39 @@
 'use client';
 
-import { FileText, Lightbulb, FlaskConical, Target, Layers, Loader2, AlertTriangle } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { FileText, Lightbulb, FlaskConical, Target, Layers, Loader2, AlertTriangle, RotateCcw } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import type { Hypothesis } from '@/lib/db/schema';
+import type { Hypothesis, HypothesisScore } from '@/lib/db/schema';
+import type { StepModels } from '@/lib/asip/model-selection';
+import type { StepInputRecord, StepInputs } from '@/lib/asip/step-inputs';
+import type { FormatRepairRecord, RepairableStep } from '@/lib/asip/format-repair';
+import { SCORE_AXES, type ScoreStep } from '@/lib/asip/hypothesis-scores';
+import {
+  getHypothesisRevisions,
+  getRerunBlocker,
+  RERUN_STEP_LABELS,
+  RERUN_STEPS,
+  type RerunStep,
+} from '@/lib/asip/hypothesis-rerun';
+import { useToast } from '@/hooks/use-toast';
+
+// GET /api/hypotheses/[uuid] adds the hypothesis_scores rows (absent in list data)
+export type HypothesisWithScores = Hypothesis & { scores?: HypothesisScore[] };
 
 interface HypothesisDetailProps {
-  hypothesis: Hypothesis;
+  hypothesis: HypothesisWithScores;
 }
 
 const statusConfig: Record<string, { label: string; variant: 'pending' | 'running' | 'completed' | 'error' }> = {
@@ -88,6 +112,195 @@ function StepPlaceholder({ stepName, isRunning }: { stepName: string; isRunning:
   );
 }
 
+// Model used for a step (recorded by the step executor in fullData.stepModels)
+function StepModelLabel({ model }: { model?: string }) {
+  if (!model) return null;
+  return (
+    <p className="mb-3 text-xs text-muted-foreground">
+      使用モデル: <span className="font-mono">{model}</span>
+    </p>
+  );
+}
+
+// Files a step received (recorded by the step executor in fullData.stepInputs)
+function StepInputsLabel({ inputs }: { inputs?: StepInputRecord }) {
+  if (!inputs) return null;
+  return (
+    <p className="-mt-2 mb-3 text-xs text-muted-foreground">
+      入力（{inputs.mode === 'file_search' ? 'File Search' : 'プロンプトに埋め込み'}）:{' '}
+      {inputs.files.length > 0 ? (
+        <span className="font-mono">{inputs.files.map((f) => f.name).join(', ')}</span>
+      ) : (
+        'なし'
+      )}
+      {inputs.missing && (
+        <span className="text-destructive">（未生成: {inputs.missing.join(', ')}）</span>
+      )}
+    </p>
+  );
+}
+
+// Repair of an output that did not parse (recorded by the step executor in fullData.formatRepairs)
+function FormatRepairNotice({ repair }: { repair?: FormatRepairRecord }) {
+  if (!repair) return null;
+  const repaired = repair.errors.length === 0;
+
+  return (
+    <div
+      className={
+        repaired
+          ? 'mb-4 p-3 rounded-md border text-xs text-muted-foreground'
+          : 'mb-4 p-3 rounded-md border border-status-warning/40 bg-status-warning/10 text-xs'
+      }
+    >
+      <p className="flex items-center gap-1 font-medium">
+        <AlertTriangle className={repaired ? 'h-3 w-3' : 'h-3 w-3 text-status-warning'} />
+        {repaired
+          ? `出力形式を自動修正しました（${repair.attempts}回）`
+          : `形式違反: ${repair.attempts}回の自動修正後も解析できませんでした`}
+      </p>
+      {!repaired && (
+        <ul className="mt-1 list-disc pl-5">
+          {repair.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      <details className="mt-2">
+        <summary className="cursor-pointer">修正前の出力（解析エラー {repair.originalErrors.length}件）</summary>
+        <ul className="mt-1 list-disc pl-5">
+          {repair.originalErrors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+        <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap rounded bg-muted/50 p-2 font-mono">
+          {repair.originalOutput}
+        </pre>
+      </details>
+    </div>
+  );
+}
+
+// Stored Step 3 / 4 scores (hypothesis_scores) with the path that produced them
+function StoredScoreTable({ score }: { score: HypothesisScore }) {
+  const axes = SCORE_AXES[score.step as ScoreStep] || [];
+  const hasRationales = Object.keys(score.rationales).length > 0;
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border bg-muted/30">
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <h3 className="text-sm font-semibold">スコア（{axes.length}軸）</h3>
+        {score.source === 'structured' ? (
+          <Badge variant="success">構造化出力</Badge>
+        ) : (
+          <Badge variant="secondary">テキスト解析（正規表現）</Badge>
+        )}
+        <span className="text-xs text-muted-foreground">
+          魅力度: {score.verdict ?? '-'}
+          {score.step === 4 && <>／参入確率: {score.entryProbability ?? '-'}</>}
+          ／加重合計: <span className="font-mono">{score.weightedTotal?.toFixed(1) ?? '-'}</span>
+        </span>
+      </div>
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="border-b bg-muted/50">
+            <th className="px-3 py-2 text-left font-medium">評価軸</th>
+            <th className="px-3 py-2 text-center font-medium w-24">スコア</th>
+            {hasRationales && <th className="px-3 py-2 text-left font-medium">根拠</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {axes.map(({ key, label, weight }) => (
+            <tr key={key} className="border-b">
+              <td className="px-3 py-2">{label}（{weight}％）</td>
+              <td className="px-3 py-2 text-center font-mono">{score.axisScores[key] ?? '-'}</td>
+              {hasRationales && (
+                <td className="px-3 py-2 text-xs text-muted-foreground">{score.rationales[key] ?? ''}</td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {score.parseErrors.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-status-warning">
+          {score.parseErrors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// "ここから再実行" menu (POST /api/hypotheses/[uuid]/rerun)
+function RerunMenu({ hypothesis }: { hypothesis: Hypothesis }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const rerunMutation = useMutation({
+    mutationFn: async (fromStep: RerunStep) => {
+      const res = await fetch(`/api/hypotheses/${hypothesis.uuid}/rerun`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fromStep }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to rerun hypothesis');
+      }
+      return res.json();
+    },
+    onSuccess: (_data, fromStep) => {
+      queryClient.invalidateQueries({ queryKey: ['runs', hypothesis.runId] });
+      queryClient.invalidateQueries({ queryKey: ['hypotheses', hypothesis.uuid] });
+      toast({
+        title: '再実行を開始しました',
+        description: `${RERUN_STEP_LABELS[fromStep]}から再実行します。以前の出力は履歴として保存されています。`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'エラー',
+        description: `再実行できませんでした: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleRerun = (fromStep: RerunStep) => {
+    if (confirm(`${RERUN_STEP_LABELS[fromStep]}以降の出力をクリアして再実行しますか？`)) {
+      rerunMutation.mutate(fromStep);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={rerunMutation.isPending}>
+          {rerunMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <RotateCcw className="h-4 w-4 mr-1" />
+          )}
+          ここから再実行
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs">再実行するステップ</DropdownMenuLabel>
+        {RERUN_STEPS.map((step) => (
+          <DropdownMenuItem
+            key={step}
+            onClick={() => handleRerun(step)}
+            disabled={getRerunBlocker(hypothesis, step) !== null}
+          >
+            {RERUN_STEP_LABELS[step]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 // Technical evaluation score table (8 axes)
 function TechnicalScoreTable({ scores }: { scores: TechnicalScores }) {
   const scoreItems = [
@@ -224,6 +437,14 @@ export function HypothesisDetail({ hypothesis }: HypothesisDetailProps) {
 
   // Parse scores from fullData
   const scores = parseScoresFromData(hypothesis.fullData);
+  const stepModels = ((hypothesis.fullData as { stepModels?: StepModels } | null)?.stepModels) || {};
+  const stepInputs = ((hypothesis.fullData as { stepInputs?: StepInputs } | null)?.stepInputs) || {};
+  const formatRepairs = ((hypothesis.fullData as {
+    formatRepairs?: Partial<Record<RepairableStep, FormatRepairRecord>>;
+  } | null)?.formatRepairs) || {};
+  const revisionCount = getHypothesisRevisions(hypothesis.fullData).length;
+  const step3Score = hypothesis.scores?.find((score) => score.step === 3);
+  const step4Score = hypothesis.scores?.find((score) => score.step === 4);
 
   // Determine which step is currently being processed
   const isStep2_2Running = currentStep === 'step2_2';
@@ -248,6 +469,9 @@ export function HypothesisDetail({ hypothesis }: HypothesisDetailProps) {
                 )}
                 {status.label}
               </Badge>
+              {revisionCount > 0 && (
+                <span className="text-xs text-muted-foreground">再実行 {revisionCount}回</span>
+              )}
             </div>
             <h2 className="text-lg font-semibold">
               {hypothesis.displayTitle || `仮説 ${hypothesis.hypothesisNumber}`}
@@ -258,6 +482,7 @@ export function HypothesisDetail({ hypothesis }: HypothesisDetailProps) {
               </p>
             )}
           </div>
+          {hypothesis.runId && <RerunMenu hypothesis={hypothesis} />}
         </div>
 
         {/* Error banner */}
@@ -305,7 +530,11 @@ export function HypothesisDetail({ hypothesis }: HypothesisDetailProps) {
             <ScrollArea className="h-full">
               <div className="p-4">
                 {hypothesis.step2_2Output ? (
-                  <MarkdownContent content={hypothesis.step2_2Output} />
+                  <>
+                    <StepModelLabel model={stepModels.step2_2} />
+                    <StepInputsLabel inputs={stepInputs.step2_2} />
+                    <MarkdownContent content={hypothesis.step2_2Output} />
+                  </>
                 ) : (
                   <StepPlaceholder
                     stepName="S2-2 (テーマの詳細検討)"
@@ -322,6 +551,10 @@ export function HypothesisDetail({ hypothesis }: HypothesisDetailProps) {
               <div className="p-4">
                 {hypothesis.step3Output ? (
                   <>
+                    <StepModelLabel model={stepModels.step3} />
+                    <StepInputsLabel inputs={stepInputs.step3} />
+                    <FormatRepairNotice repair={formatRepairs.step3} />
+                    {step3Score && <StoredScoreTable score={step3Score} />}
                     {scores.technical && (
                       <TechnicalScoreTable scores={scores.technical} />
                     )}
@@ -343,6 +576,10 @@ export function HypothesisDetail({ hypothesis }: HypothesisDetailProps) {
               <div className="p-4">
                 {hypothesis.step4Output ? (
                   <>
+                    <StepModelLabel model={stepModels.step4} />
+                    <StepInputsLabel inputs={stepInputs.step4} />
+                    <FormatRepairNotice repair={formatRepairs.step4} />
+                    {step4Score && <StoredScoreTable score={step4Score} />}
                     {scores.attractiveness && (
                       <AttractivenessScoreTable scores={scores.attractiveness} />
                     )}
@@ -363,7 +600,12 @@ export function HypothesisDetail({ hypothesis }: HypothesisDetailProps) {
             <ScrollArea className="h-full">
               <div className="p-4">
                 {hypothesis.step5Output ? (
-                  <MarkdownContent content={hypothesis.step5Output} />
+                  <>
+                    <StepModelLabel model={stepModels.step5} />
+                    <StepInputsLabel inputs={stepInputs.step5} />
+                    <FormatRepairNotice repair={formatRepairs.step5} />
+                    <MarkdownContent content={hypothesis.step5Output} />
+                  </>
                 ) : (
                   <StepPlaceholder
                     stepName="S5 (テーマ一覧表作成)"
@@ -27,9 +27,11 @@ interface HypothesisSidebarProps {
   hypotheses: Hypothesis[];
   selectedId: string | null;
   onSelect: (hypothesis: Hypothesis) => void;
+  loopCount?: number;
 }
 
 type SortMode = 'number' | 'status';
+type LoopFilter = 'all' | number;
 type FilterMode = 'all' | 'completed' | 'error';
 type ViewMode = 'card' | 'table';
 
@@ -59,10 +61,23 @@ function StatusBadge({ status }: { status: string | null }) {
   return <Badge variant={config.variant} className="text-[10px]">{config.label}</Badge>;
 }
 
-export function HypothesisSidebar({ hypotheses, selectedId, onSelect }: HypothesisSidebarProps) {
+export function HypothesisSidebar({ hypotheses, selectedId, onSelect, loopCount = 1 }: HypothesisSidebarProps) {
   const [sortMode, setSortMode] = useState<SortMode>('number');
   const [filterMode, setFilterMode] = useState<FilterMode>('all');
   const [viewMode, setViewMode] = useState<ViewMode>('card');
+  const [loopFilter, setLoopFilter] = useState<LoopFilter>('all');
+
+  // ループ一覧（未実行のループも含めて表示）
+  const loops = useMemo(() => {
+    const maxLoop = Math.max(loopCount, ...hypotheses.map(h => h.loopNumber ?? 1));
+    return Array.from({ length: maxLoop }, (_, i) => i + 1);
+  }, [hypotheses, loopCount]);
+
+  // ループで絞り込み
+  const loopHypotheses = useMemo(() => {
+    if (loopFilter === 'all') return hypotheses;
+    return hypotheses.filter(h => (h.loopNumber ?? 1) === loopFilter);
+  }, [hypotheses, loopFilter]);
 
   // ステータス集計
   const statusCounts = useMemo(() => {
@@ -72,7 +87,7 @@ export function HypothesisSidebar({ hypotheses, selectedId, onSelect }: Hypothes
       processing: 0,
       pending: 0,
     };
-    hypotheses.forEach(h => {
+    loopHypotheses.forEach(h => {
       const status = h.processingStatus || 'pending';
       if (status === 'completed') counts.completed++;
       else if (status === 'error') counts.error++;
@@ -80,28 +95,28 @@ export function HypothesisSidebar({ hypotheses, selectedId, onSelect }: Hypothes
       else counts.processing++;
     });
     return counts;
-  }, [hypotheses]);
+  }, [loopHypotheses]);
 
   // プログレス計算（完了 + エラー = 処理済み）
   const progress = useMemo(() => {
-    if (hypotheses.length === 0) return { completed: 0, error: 0, processing: 0 };
-    const total = hypotheses.length;
+    if (loopHypotheses.length === 0) return { completed: 0, error: 0, processing: 0 };
+    const total = loopHypotheses.length;
     return {
       completed: (statusCounts.completed / total) * 100,
       error: (statusCounts.error / total) * 100,
       processing: (statusCounts.processing / total) * 100,
     };
-  }, [hypotheses.length, statusCounts]);
+  }, [loopHypotheses.length, statusCounts]);
 
   // フィルタリング
   const filteredHypotheses = useMemo(() => {
-    return hypotheses.filter(h => {
+    return loopHypotheses.filter(h => {
       if (filterMode === 'all') return true;
       if (filterMode === 'completed') return h.processingStatus === 'completed';
       if (filterMode === 'error') return h.processingStatus === 'error';
       return true;
     });
-  }, [hypotheses, filterMode]);
+  }, [loopHypotheses, filterMode]);
 
   // ソート
   const sortedHypotheses = useMemo(() => {
@@ -131,7 +146,7 @@ export function HypothesisSidebar({ hypotheses, selectedId, onSelect }: Hypothes
           <Lightbulb className="h-5 w-5 text-primary" />
           <h2 className="font-semibold">仮説一覧</h2>
           <span className="text-xs text-muted-foreground ml-auto">
-            {hypotheses.length}件
+            {loopHypotheses.length}件
           </span>
         </div>
 
@@ -173,6 +188,31 @@ export function HypothesisSidebar({ hypotheses, selectedId, onSelect }: Hypothes
           )}
         </div>
 
+        {/* ループ切替 */}
+        {loops.length > 1 && (
+          <div className="flex items-center gap-1 overflow-x-auto">
+            <Button
+              variant={loopFilter === 'all' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setLoopFilter('all')}
+              className="h-7 px-2 text-xs shrink-0"
+            >
+              全ループ
+            </Button>
+            {loops.map(loop => (
+              <Button
+                key={loop}
+                variant={loopFilter === loop ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setLoopFilter(loop)}
+                className="h-7 px-2 text-xs shrink-0"
+              >
+                ループ {loop}
+              </Button>
+            ))}
+          </div>
+        )}
+
         {/* ソート・フィルター・ビュー切替 */}
         <div className="flex items-center gap-2">
           <Button
@@ -217,7 +257,7 @@ export function HypothesisSidebar({ hypotheses, selectedId, onSelect }: Hypothes
 
       {/* Hypothesis List */}
       <ScrollArea className="flex-1">
-        {hypotheses.length === 0 ? (
+        {loopHypotheses.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-12 text-center p-2">
             <Lightbulb className="h-10 w-10 text-muted-foreground/30 mb-3" />
             <p className="text-sm text-muted-foreground">
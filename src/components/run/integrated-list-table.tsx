@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  sortIntegratedRows,
+  type IntegratedList,
+  type SortDirection,
+} from '@/lib/asip/integrated-list';
+import { STEP5_NUMERIC_COLUMNS } from '@/lib/parsers';
+
+interface IntegratedListTableProps {
+  runId: number;
+  isActive: boolean;
+  onSelectHypothesis?: (uuid: string) => void;
+}
+
+export function IntegratedListTable({ runId, isActive, onSelectHypothesis }: IntegratedListTableProps) {
+  const [sortColumn, setSortColumn] = useState<string | null>(null);
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['runs', runId, 'integrated-list'],
+    queryFn: async () => {
+      const res = await fetch(`/api/runs/${runId}/integrated-list`);
+      if (!res.ok) throw new Error('Failed to fetch integrated list');
+      return res.json() as Promise<IntegratedList>;
+    },
+    refetchInterval: isActive ? 15000 : false,
+  });
+
+  // Click cycles: new column (desc for numbers, asc for text) -> reversed -> unsorted
+  const handleSort = (column: string) => {
+    const initial: SortDirection = STEP5_NUMERIC_COLUMNS.has(column) ? 'desc' : 'asc';
+    if (sortColumn !== column) {
+      setSortColumn(column);
+      setSortDirection(initial);
+    } else if (sortDirection === initial) {
+      setSortDirection(initial === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortColumn(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        読み込み中...
+      </div>
+    );
+  }
+
+  if (!data || data.rows.length === 0) {
+    return <p className="p-4 text-sm text-muted-foreground">統合リストはまだありません</p>;
+  }
+
+  const rows = sortIntegratedRows(data.rows, sortColumn, sortDirection);
+  const errorCount = data.rows.filter((row) => row.errors.length > 0).length;
+
+  return (
+    <div className="h-full overflow-auto">
+      {errorCount > 0 && (
+        <div className="flex items-center gap-2 px-4 py-2 text-xs text-amber-700 bg-amber-50 border-b">
+          <AlertTriangle className="h-3 w-3" />
+          {errorCount}件の仮説でStep5の出力を読み取れませんでした
+        </div>
+      )}
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="sticky left-0 bg-background w-12">番号</TableHead>
+            {data.columns.map((column) => {
+              const Icon = sortColumn !== column ? ArrowUpDown : sortDirection === 'asc' ? ArrowUp : ArrowDown;
+              return (
+                <TableHead key={column} className="whitespace-nowrap">
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 hover:text-foreground"
+                    onClick={() => handleSort(column)}
+                  >
+                    {column}
+                    <Icon className={`h-3 w-3 ${sortColumn === column ? '' : 'opacity-30'}`} />
+                  </button>
+                </TableHead>
+              );
+            })}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow
+              key={row.hypothesisUuid}
+              className={onSelectHypothesis ? 'cursor-pointer' : undefined}
+              onClick={() => onSelectHypothesis?.(row.hypothesisUuid)}
+            >
+              <TableCell className="sticky left-0 bg-background font-medium">
+                {row.hypothesisNumber}
+              </TableCell>
+              {row.values ? (
+                data.columns.map((column) => (
+                  <TableCell
+                    key={column}
+                    className={`max-w-[240px] truncate ${STEP5_NUMERIC_COLUMNS.has(column) ? 'text-right' : ''}`}
+                    title={row.values![column]}
+                  >
+                    {row.values![column]}
+                  </TableCell>
+                ))
+              ) : (
+                <TableCell colSpan={data.columns.length}>
+                  <span className="mr-2">{row.title}</span>
+                  <Badge variant="destructive" className="text-[10px]">読み取りエラー</Badge>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {data.rows.some((row) => row.values && row.errors.length > 0) && (
+        <p className="px-4 py-2 text-xs text-muted-foreground">
+          ※ 一部の行は列数やヘッダーが期待値と異なるため、値がずれている可能性があります
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { Coins } from 'lucide-react';
+import { formatCost, formatTokens, type RunUsageSummary } from '@/lib/asip/cost-accounting';
+
+interface RunCostBadgeProps {
+  runId: number;
+  isActive: boolean;
+  budgetUsd?: number | null;
+}
+
+/**
+ * Estimated cost of a run so far, against its budget when set (token usage in the tooltip)
+ */
+export function RunCostBadge({ runId, isActive, budgetUsd }: RunCostBadgeProps) {
+  const { data } = useQuery({
+    queryKey: ['runs', runId, 'usage'],
+    queryFn: async () => {
+      const res = await fetch(`/api/runs/${runId}/usage`);
+      if (!res.ok) throw new Error('Failed to fetch run usage');
+      return res.json() as Promise<RunUsageSummary>;
+    },
+    refetchInterval: isActive ? 30000 : false,
+  });
+
+  if (!data || (data.total.calls === 0 && budgetUsd == null)) return null;
+
+  const { total } = data;
+  const overBudget = budgetUsd != null && total.costUsd >= budgetUsd;
+  const title = [
+    `呼び出し ${total.calls}回`,
+    `入力 ${formatTokens(total.inputTokens)} / 出力 ${formatTokens(total.outputTokens)} / 思考 ${formatTokens(total.thinkingTokens)} トークン`,
+    `検索 ${total.groundingCalls}回`,
+    ...(total.unpricedModels.length > 0 ? [`価格未設定: ${total.unpricedModels.join(', ')}`] : []),
+  ].join('\n');
+
+  return (
+    <div
+      className={`flex items-center gap-1 text-sm font-mono ${overBudget ? 'text-status-error' : 'text-muted-foreground'}`}
+      title={title}
+      data-testid="text-run-cost"
+    >
+      <Coins className="h-4 w-4" />
+      <span>
+        {formatCost(total.costUsd)}
+        {total.unpricedModels.length > 0 && '+'}
+        {budgetUsd != null && ` / ${formatCost(budgetUsd)}`}
+      </span>
+      {overBudget && <span data-testid="text-budget-exceeded">予算超過</span>}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import {
   Archive,
   Upload,
   Bug,
+  Lock,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -27,12 +28,21 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { HypothesisSidebar } from './hypothesis-sidebar';
-import { HypothesisDetail } from './hypothesis-detail';
+import { HypothesisDetail, type HypothesisWithScores } from './hypothesis-detail';
 import { RunProgressDisplay } from './run-progress-display';
 import { CsvImportModal } from './csv-import-modal';
 import { DebugPromptsDialog } from './debug-prompts-dialog';
+import { ExecutionTimingPanel } from './execution-timing-panel';
+import { IntegratedListTable } from './integrated-list-table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import type { Project, Run, Resource, Hypothesis } from '@/lib/db/schema';
 import type { ProgressInfo } from '@/lib/run-progress/types';
+import type { PromptSnapshot } from '@/lib/asip/prompt-snapshot';
+import { AVAILABLE_STEPS, STEP_NAMES } from '@/lib/prompts/defaults';
+import { STEP_MODEL_MAP, type GenerationStep, type StepModels } from '@/lib/asip/model-selection';
+import { AI_PROVIDER_LABELS } from '@/lib/asip/ai-provider';
+import { getActiveRunLease } from '@/lib/asip/run-lease';
+import { formatCost } from '@/lib/asip/cost-accounting';
 
 interface RunDetailViewProps {
   project: Project;
@@ -54,6 +64,36 @@ const STEP_LABELS = [
   '完了',
 ];
 
+const MODEL_STEP_LABELS: Record<string, string> = {
+  step2_1_5: 'S2-1.5',
+  step3: 'S3',
+  step4: 'S4',
+  step5: 'S5',
+};
+
+/**
+ * Models per step: those recorded in the hypotheses (fullData.stepModels), or
+ * for Gemini runs the planned ones until a step has run (OpenAI-compatible
+ * endpoints map requests to their own models, so only recorded ones are shown)
+ */
+function getStepModelRows(
+  project: Pick<Project, 'aiProvider'>,
+  run: Pick<Run, 'modelChoice'>,
+  hypotheses: Pick<Hypothesis, 'fullData'>[]
+): Array<{ step: string; models: string[] }> {
+  return Object.keys(MODEL_STEP_LABELS).map((step) => {
+    const recorded = new Set<string>();
+    for (const h of hypotheses) {
+      const model = (h.fullData as { stepModels?: StepModels } | null)?.stepModels?.[step as GenerationStep];
+      if (model) recorded.add(model);
+    }
+    const models = recorded.size > 0 || project.aiProvider !== 'gemini'
+      ? [...recorded]
+      : [STEP_MODEL_MAP[run.modelChoice][step as GenerationStep]];
+    return { step, models };
+  }).filter((row) => row.models.length > 0);
+}
+
 const statusLabels: Record<string, { label: string; className: string }> = {
   pending: { label: '待機中', className: 'bg-gray-100 text-gray-700' },
   running: { label: '実行中', className: 'bg-blue-100 text-blue-700' },
@@ -74,6 +114,8 @@ export function RunDetailView({
   const [isDownloading, setIsDownloading] = useState<string | null>(null);
   const [csvImportOpen, setCsvImportOpen] = useState(false);
   const [debugPromptsOpen, setDebugPromptsOpen] = useState(false);
+  const [timingOpen, setTimingOpen] = useState(false);
+  const [mainView, setMainView] = useState<'detail' | 'list'>('detail');
 
   // CSV export handler
   const handleExportCSV = () => {
@@ -237,6 +279,8 @@ export function RunDetailView({
     },
   });
 
+  const promptSnapshot = run.promptSnapshot as PromptSnapshot | null;
+
   // React Query: Hypotheses list data with conditional polling (light data for sidebar)
   const { data: hypotheses = initialHypotheses } = useQuery({
     queryKey: ['runs', initialRun.id, 'hypotheses'],
@@ -259,7 +303,7 @@ export function RunDetailView({
       if (!selectedHypothesisId) return null;
       const res = await fetch(`/api/hypotheses/${selectedHypothesisId}`);
       if (!res.ok) throw new Error('Failed to fetch hypothesis details');
-      return res.json() as Promise<Hypothesis>;
+      return res.json() as Promise<HypothesisWithScores>;
     },
     enabled: !!selectedHypothesisId,
     // Refetch when run is processing, as hypothesis data may be updated
@@ -285,18 +329,41 @@ export function RunDetailView({
     },
   });
 
-  // Mutation: Resume run
+  // Mutation: Resume run (a run over its budget asks for a higher budget)
   const resumeMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (budgetUsd?: number) => {
       const res = await fetch(`/api/projects/${project.id}/runs/${run.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: 'running' }),
+        body: JSON.stringify({ status: 'running', ...(budgetUsd !== undefined && { budgetUsd }) }),
       });
+      if (res.status === 409) {
+        const data: { spentUsd: number; budgetUsd: number; unpricedModels?: string[] } = await res.json();
+        return { budgetExhausted: data, run: null };
+      }
       if (!res.ok) throw new Error('Failed to resume run');
-      return res.json() as Promise<Run>;
+      return { budgetExhausted: null, run: await res.json() as Run };
     },
-    onSuccess: (updatedRun) => {
+    onSuccess: ({ budgetExhausted, run: updatedRun }) => {
+      if (budgetExhausted?.unpricedModels?.length) {
+        window.alert(
+          `料金が未設定のモデル（${budgetExhausted.unpricedModels.join(', ')}）を使用したため、予算を確認できません。\n` +
+          'GEMINI_PRICE_TABLE に料金を設定するか、予算上限を外してから再開してください。'
+        );
+        return;
+      }
+      if (budgetExhausted) {
+        const input = window.prompt(
+          `予算上限（${formatCost(budgetExhausted.budgetUsd)}）に達しています（使用済み ${formatCost(budgetExhausted.spentUsd)}）。\n` +
+          '再開するには新しい予算（USD）を入力してください。',
+          String(Math.ceil(budgetExhausted.spentUsd * 1.5))
+        );
+        const budgetUsd = input ? Number(input) : NaN;
+        if (Number.isFinite(budgetUsd) && budgetUsd > 0) {
+          resumeMutation.mutate(budgetUsd);
+        }
+        return;
+      }
       queryClient.setQueryData(['runs', initialRun.id], updatedRun);
     },
   });
@@ -321,6 +388,8 @@ export function RunDetailView({
     pauseMutation.isPending || resumeMutation.isPending || cancelMutation.isPending;
 
   const status = statusLabels[run.status] || statusLabels.pending;
+  // Invocation currently executing a step (refreshed with the run query)
+  const runLease = getActiveRunLease(run);
   const progress = Math.round((run.currentStep / (STEP_LABELS.length - 1)) * 100);
 
   // Selected hypothesis: Use full data from separate query, or fall back to list data for basic info
@@ -353,6 +422,16 @@ export function RunDetailView({
           >
             {status.label}
           </span>
+          {runLease && (
+            <span
+              className="flex items-center gap-1 text-xs text-muted-foreground"
+              title={`取得: ${new Date(runLease.acquiredAt).toLocaleString('ja-JP')}`}
+            >
+              <Lock className="h-3 w-3" />
+              実行中: <span className="font-mono">{runLease.owner}</span>
+              （{new Date(runLease.expiresAt).toLocaleTimeString('ja-JP')}まで）
+            </span>
+          )}
           {run.status === 'running' && (
             <Button
               variant="outline"
@@ -372,7 +451,7 @@ export function RunDetailView({
             <Button
               variant="outline"
               size="sm"
-              onClick={() => resumeMutation.mutate()}
+              onClick={() => resumeMutation.mutate(undefined)}
               disabled={isUpdating}
             >
               {resumeMutation.isPending ? (
@@ -424,7 +503,7 @@ export function RunDetailView({
             variant="outline"
             size="sm"
             onClick={() => setDebugPromptsOpen(true)}
-            disabled={!run.debugPrompts}
+            disabled={run.status === 'pending'}
           >
             <Bug className="h-4 w-4 mr-1" />
             プロンプト確認
@@ -527,8 +606,9 @@ export function RunDetailView({
             status={run.status}
             runCreatedAt={run.createdAt ? new Date(run.createdAt).toISOString() : undefined}
             runId={run.id}
+            budgetUsd={run.budgetUsd}
             onPause={(id) => pauseMutation.mutate()}
-            onResume={(id) => resumeMutation.mutate()}
+            onResume={(id) => resumeMutation.mutate(undefined)}
             onStop={(id) => cancelMutation.mutate()}
             isPauseRequested={pauseMutation.isPending}
           />
@@ -541,34 +621,77 @@ export function RunDetailView({
         <div className="w-full lg:w-[300px] lg:flex-shrink-0 h-[300px] lg:h-auto overflow-auto">
           <HypothesisSidebar
             hypotheses={hypotheses}
+            loopCount={run.loopCount}
             selectedId={selectedHypothesisId}
-            onSelect={(hypothesis) => setSelectedHypothesisId(hypothesis.uuid)}
+            onSelect={(hypothesis) => {
+              setSelectedHypothesisId(hypothesis.uuid);
+              setMainView('detail');
+            }}
           />
         </div>
 
-        {/* Right: Detail Area */}
-        <div className="flex-1 overflow-hidden bg-background">
-          {selectedHypothesisId && isLoadingHypothesis && !selectedHypothesis ? (
-            <div className="flex flex-col items-center justify-center h-full text-center p-8">
-              <Loader2 className="h-12 w-12 text-primary animate-spin mb-4" />
-              <p className="text-sm text-muted-foreground">仮説データを読み込み中...</p>
-            </div>
-          ) : selectedHypothesis ? (
-            <HypothesisDetail hypothesis={selectedHypothesis} />
-          ) : (
-            <div className="flex flex-col items-center justify-center h-full text-center p-8">
-              <Lightbulb className="h-16 w-16 text-muted-foreground/20 mb-4" />
-              <h3 className="text-lg font-medium text-muted-foreground mb-2">
-                仮説を選択してください
-              </h3>
-              <p className="text-sm text-muted-foreground max-w-md">
-                左側のリストから仮説を選択すると、詳細調査、技術評価、競合分析、統合評価の結果を確認できます。
-              </p>
-            </div>
-          )}
+        {/* Right: Detail Area / Integrated List */}
+        <div className="flex-1 flex flex-col overflow-hidden bg-background">
+          <Tabs
+            value={mainView}
+            onValueChange={(value) => setMainView(value as 'detail' | 'list')}
+            className="px-4 pt-2 border-b"
+          >
+            <TabsList>
+              <TabsTrigger value="detail">仮説詳細</TabsTrigger>
+              <TabsTrigger value="list">統合リスト</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="flex-1 overflow-hidden">
+            {mainView === 'list' ? (
+              <IntegratedListTable
+                runId={run.id}
+                isActive={run.status === 'running' || run.status === 'pending'}
+                onSelectHypothesis={(uuid) => {
+                  setSelectedHypothesisId(uuid);
+                  setMainView('detail');
+                }}
+              />
+            ) : selectedHypothesisId && isLoadingHypothesis && !selectedHypothesis ? (
+              <div className="flex flex-col items-center justify-center h-full text-center p-8">
+                <Loader2 className="h-12 w-12 text-primary animate-spin mb-4" />
+                <p className="text-sm text-muted-foreground">仮説データを読み込み中...</p>
+              </div>
+            ) : selectedHypothesis ? (
+              <HypothesisDetail hypothesis={selectedHypothesis} />
+            ) : (
+              <div className="flex flex-col items-center justify-center h-full text-center p-8">
+                <Lightbulb className="h-16 w-16 text-muted-foreground/20 mb-4" />
+                <h3 className="text-lg font-medium text-muted-foreground mb-2">
+                  仮説を選択してください
+                </h3>
+                <p className="text-sm text-muted-foreground max-w-md">
+                  左側のリストから仮説を選択すると、詳細調査、技術評価、競合分析、統合評価の結果を確認できます。
+                </p>
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
+      {/* Execution Timing Panel (loaded when opened) */}
+      <details
+        className="border-t"
+        onToggle={(e) => setTimingOpen((e.currentTarget as HTMLDetailsElement).open)}
+      >
+        <summary className="p-3 cursor-pointer text-sm font-medium text-muted-foreground hover:text-foreground transition-colors">
+          実行時間の内訳を表示
+        </summary>
+        <div className="p-4 border-t bg-muted/20">
+          {timingOpen && (
+            <ExecutionTimingPanel
+              runId={run.id}
+              isActive={run.status === 'running' || run.status === 'pending'}
+            />
+          )}
+        </div>
+      </details>
+
       {/* Configuration Panel (Collapsed by default) */}
       <details className="border-t">
         <summary className="p-3 cursor-pointer text-sm font-medium text-muted-foreground hover:text-foreground transition-colors">
@@ -599,8 +722,15 @@ export function RunDetailView({
             <div>
               <dt className="text-muted-foreground">モデル</dt>
               <dd className="font-medium">
-                {run.modelChoice === 'pro' ? 'Gemini Pro' : 'Gemini Flash'}
+                {project.aiProvider !== 'gemini'
+                  ? AI_PROVIDER_LABELS[project.aiProvider]
+                  : run.modelChoice === 'pro' ? 'Gemini Pro' : 'Gemini Flash'}
               </dd>
+              {getStepModelRows(project, run, hypotheses).map(({ step, models }) => (
+                <dd key={step} className="text-xs text-muted-foreground font-mono">
+                  {MODEL_STEP_LABELS[step]}: {models.join(', ')}
+                </dd>
+              ))}
             </div>
             <div>
               <dt className="text-muted-foreground">現在のループ</dt>
@@ -610,6 +740,26 @@ export function RunDetailView({
             </div>
           </dl>
 
+          {/* Prompt versions pinned at run start */}
+          {promptSnapshot && (
+            <div className="mt-4">
+              <p className="text-sm text-muted-foreground mb-2">使用プロンプト</p>
+              <dl className="grid grid-cols-2 md:grid-cols-3 gap-2 text-xs">
+                {AVAILABLE_STEPS.map((step) => {
+                  const entry = promptSnapshot.steps[String(step)];
+                  return (
+                    <div key={step}>
+                      <dt className="text-muted-foreground truncate">{STEP_NAMES[step]}</dt>
+                      <dd className="font-medium">
+                        {entry?.source === 'version' ? `v${entry.version}` : '既定（組み込み）'}
+                      </dd>
+                    </div>
+                  );
+                })}
+              </dl>
+            </div>
+          )}
+
           {/* Error Message */}
           {run.errorMessage && (
             <div className="mt-4 p-3 bg-destructive/10 border border-destructive/20 rounded-md">
@@ -640,7 +790,6 @@ export function RunDetailView({
         open={debugPromptsOpen}
         onOpenChange={setDebugPromptsOpen}
         runId={run.id}
-        debugPrompts={run.debugPrompts}
       />
     </div>
   );
@@ -21,6 +21,7 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import type { ProgressInfo, ParallelItem } from '@/lib/run-progress/types';
 import { PHASE_LABELS, STEP_LABELS, DEEP_RESEARCH_PHASES } from '@/lib/run-progress/types';
+import { RunCostBadge } from './run-cost-badge';
 
 interface RunProgressDisplayProps {
   currentStep: number;
@@ -30,6 +31,7 @@ interface RunProgressDisplayProps {
   status: string;
   runCreatedAt?: string;
   runId?: number;
+  budgetUsd?: number | null;
   onPause?: (runId: number) => void;
   onResume?: (runId: number) => void;
   onStop?: (runId: number) => void;
@@ -59,6 +61,7 @@ export function RunProgressDisplay({
   status,
   runCreatedAt,
   runId,
+  budgetUsd,
   onPause,
   onResume,
   onStop,
@@ -135,6 +138,7 @@ export function RunProgressDisplay({
                 {formatElapsedTime(elapsedSeconds)}
               </span>
             </div>
+            {runId && <RunCostBadge runId={runId} isActive={!isPaused} budgetUsd={budgetUsd} />}
             {runId && (
               <div className="flex items-center gap-1">
                 {isPaused ? (
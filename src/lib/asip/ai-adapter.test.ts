@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createAIAdapter } from './ai-adapter';
+import { RateLimitError } from './errors';
+import {
+  createFileSearchStore,
+  deleteFileSearchStore,
+  releaseDeepResearchSlot,
+  startDeepResearch,
+  uploadToFileSearchStore,
+  waitForDeepResearchRateLimit,
+} from '@/lib/gemini/interactions';
+
+vi.mock('@/lib/gemini/interactions', () => ({
+  DEEP_RESEARCH_START_MAX_WAIT_MS: 10_000,
+  waitForDeepResearchRateLimit: vi.fn(),
+  releaseDeepResearchSlot: vi.fn(),
+  createFileSearchStore: vi.fn(),
+  uploadToFileSearchStore: vi.fn(),
+  deleteFileSearchStore: vi.fn(),
+  startDeepResearch: vi.fn(),
+}));
+
+const PARAMS = {
+  prompt: 'research',
+  files: [{ name: 'target_specification', content: 'spec' }],
+  storeName: 'asip-1-abcdef12',
+};
+
+describe('ai-adapter', () => {
+  describe('startDeepResearchAsync', () => {
+    beforeEach(() => {
+      vi.mocked(waitForDeepResearchRateLimit).mockReset().mockResolvedValue('lease-1');
+      vi.mocked(releaseDeepResearchSlot).mockReset().mockResolvedValue(undefined);
+      vi.mocked(createFileSearchStore).mockReset().mockResolvedValue('fileSearchStores/store-1');
+      vi.mocked(uploadToFileSearchStore).mockReset().mockResolvedValue('target_specification');
+      vi.mocked(deleteFileSearchStore).mockReset().mockResolvedValue(undefined);
+      vi.mocked(startDeepResearch).mockReset().mockResolvedValue({ interactionId: 'interaction-1', slotLeaseId: 'lease-1' });
+    });
+
+    it('takes a slot with a short wait before creating the store', async () => {
+      const handle = await createAIAdapter().startDeepResearchAsync!(PARAMS);
+
+      expect(handle).toEqual({
+        interactionId: 'interaction-1',
+        fileSearchStoreName: 'fileSearchStores/store-1',
+        slotLeaseId: 'lease-1',
+      });
+      expect(waitForDeepResearchRateLimit).toHaveBeenCalledWith('asip-1-abcdef12', 10_000);
+      expect(vi.mocked(waitForDeepResearchRateLimit).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(createFileSearchStore).mock.invocationCallOrder[0]);
+      expect(startDeepResearch).toHaveBeenCalledWith(expect.objectContaining({ slotLeaseId: 'lease-1' }));
+    });
+
+    it('creates nothing when the limiter stays full', async () => {
+      vi.mocked(waitForDeepResearchRateLimit).mockRejectedValue(
+        new Error('Deep Research concurrency limit reached: no slot became free in time (retry in 42s)')
+      );
+
+      const error = await createAIAdapter().startDeepResearchAsync!(PARAMS).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.details).toEqual({ retryAfterSeconds: 42 });
+      expect(createFileSearchStore).not.toHaveBeenCalled();
+    });
+
+    it('releases the slot and deletes the store when the start fails', async () => {
+      vi.mocked(uploadToFileSearchStore).mockRejectedValue(new Error('503 Service Unavailable'));
+
+      await expect(createAIAdapter().startDeepResearchAsync!(PARAMS)).rejects.toThrow('503');
+
+      expect(releaseDeepResearchSlot).toHaveBeenCalledWith('lease-1');
+      expect(deleteFileSearchStore).toHaveBeenCalledWith('fileSearchStores/store-1');
+      expect(startDeepResearch).not.toHaveBeenCalled();
+    });
+  });
+});
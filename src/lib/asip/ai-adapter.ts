@@ -8,19 +8,57 @@
 import {
   executeDeepResearch as geminiDeepResearch,
   generateContent as geminiGenerateContent,
+  generateContentWithFileSearch,
   createFileSearchStore,
   uploadToFileSearchStore,
   startDeepResearch,
   getInteractionStatus,
+  cancelInteraction,
   deleteFileSearchStore,
+  forceDeleteFileSearchStore,
+  listFileSearchStores,
   releaseDeepResearchSlot,
+  waitForDeepResearchRateLimit,
+  DEEP_RESEARCH_START_MAX_WAIT_MS,
 } from '@/lib/gemini/interactions';
-import { AIOperations, DeepResearchHandle, DeepResearchStatus } from './pipeline-core';
+import { AIOperations, DeepResearchHandle, DeepResearchStatus, ResponseSchema } from './pipeline-core';
+import { classifyGeminiError } from './errors';
+import type { FileSearchStoreClient } from './store-gc';
+import type { TokenUsage } from './cost-accounting';
+import type { AIProvider } from './ai-provider';
+import { createOpenAICompatibleAdapter } from './openai-compatible-adapter';
+import { createResearchJobStore } from './research-job-store';
+import { withCassette } from './ai-cassette';
 
 /**
- * Create AI adapter using Gemini API
+ * Run a Gemini call, rethrowing failures as classified ASIP errors
+ * (RateLimitError, TimeoutError, DeepResearchError, ContentGenerationError)
  */
-export function createAIAdapter(): AIOperations {
+async function classified<T>(
+  operation: string,
+  kind: 'deep_research' | 'content',
+  call: () => Promise<T>
+): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw classifyGeminiError(error, operation, kind);
+  }
+}
+
+/**
+ * Create AI adapter of a provider (Gemini API by default)
+ * Failures are thrown as classified ASIP errors (see errors.ts).
+ * With AI_CASSETTE_MODE set, calls are recorded to or replayed from a cassette (ai-cassette.ts).
+ */
+export function createAIAdapter(provider: AIProvider = 'gemini'): AIOperations {
+  const adapter = provider === 'openai_compatible'
+    ? createOpenAICompatibleAdapter({ store: createResearchJobStore() })
+    : createGeminiAdapter();
+  return withCassette(adapter);
+}
+
+function createGeminiAdapter(): AIOperations {
   return {
     // Legacy blocking method (kept for compatibility with tests)
     async executeDeepResearch(params: {
@@ -29,12 +67,12 @@ export function createAIAdapter(): AIOperations {
       storeName: string;
       onProgress?: (phase: string, detail: string) => void;
     }): Promise<string> {
-      return geminiDeepResearch({
+      return classified('executeDeepResearch', 'deep_research', () => geminiDeepResearch({
         prompt: params.prompt,
         files: params.files,
         storeName: params.storeName,
         onProgress: params.onProgress,
-      });
+      }));
     },
 
     /**
@@ -48,30 +86,48 @@ export function createAIAdapter(): AIOperations {
     }): Promise<DeepResearchHandle> {
       console.log(`[AI Adapter] Starting async Deep Research: ${params.storeName}`);
 
-      // 1. Create File Search Store
-      const fileSearchStoreName = await createFileSearchStore(params.storeName);
+      return classified('startDeepResearch', 'deep_research', async () => {
+        // 1. Take a rate limiter slot (held until cleanup) before anything is created,
+        //    so that a full limiter leaves no store behind; the job retries later
+        const slotLeaseId = await waitForDeepResearchRateLimit(params.storeName, DEEP_RESEARCH_START_MAX_WAIT_MS);
+        let fileSearchStoreName: string | null = null;
 
-      // 2. Upload files
-      for (const file of params.files) {
-        await uploadToFileSearchStore({
-          storeName: fileSearchStoreName,
-          content: file.content,
-          displayName: file.name,
-        });
-      }
+        try {
+          // 2. Create File Search Store
+          fileSearchStoreName = await createFileSearchStore(params.storeName);
 
-      // 3. Start Deep Research (returns immediately)
-      const { interactionId } = await startDeepResearch({
-        prompt: params.prompt,
-        fileSearchStoreName,
-      });
+          // 3. Upload files
+          for (const file of params.files) {
+            await uploadToFileSearchStore({
+              storeName: fileSearchStoreName,
+              content: file.content,
+              displayName: file.name,
+            });
+          }
 
-      console.log(`[AI Adapter] Deep Research started: ${interactionId}`);
+          // 4. Start Deep Research (returns immediately)
+          const { interactionId } = await startDeepResearch({
+            prompt: params.prompt,
+            fileSearchStoreName,
+            slotLeaseId,
+          });
 
-      return {
-        interactionId,
-        fileSearchStoreName,
-      };
+          console.log(`[AI Adapter] Deep Research started: ${interactionId}`);
+
+          return {
+            interactionId,
+            fileSearchStoreName,
+            slotLeaseId,
+          };
+        } catch (error) {
+          // No handle is returned, so nothing else would release the slot or delete the store
+          await releaseDeepResearchSlot(slotLeaseId);
+          if (fileSearchStoreName) {
+            await deleteFileSearchStore(fileSearchStoreName);
+          }
+          throw error;
+        }
+      });
     },
 
     /**
@@ -80,7 +136,9 @@ export function createAIAdapter(): AIOperations {
     async checkDeepResearchStatus(handle: DeepResearchHandle): Promise<DeepResearchStatus> {
       console.log(`[AI Adapter] Checking Deep Research status: ${handle.interactionId}`);
 
-      const status = await getInteractionStatus(handle.interactionId);
+      const status = await classified('getInteractionStatus', 'deep_research', () =>
+        getInteractionStatus(handle.interactionId)
+      );
 
       if (status.status === 'completed') {
         const outputs = status.outputs || [];
@@ -88,6 +146,7 @@ export function createAIAdapter(): AIOperations {
         return {
           status: 'completed',
           result: finalOutput?.text || '',
+          usage: status.usage,
         };
       }
 
@@ -95,6 +154,7 @@ export function createAIAdapter(): AIOperations {
         return {
           status: 'failed',
           error: status.error || 'Deep Research failed',
+          usage: status.usage,
         };
       }
 
@@ -103,23 +163,84 @@ export function createAIAdapter(): AIOperations {
       };
     },
 
+    /**
+     * Cancel a running Deep Research interaction
+     */
+    async cancelDeepResearch(handle: DeepResearchHandle): Promise<void> {
+      console.log(`[AI Adapter] Cancelling Deep Research: ${handle.interactionId}`);
+      await classified('cancelInteraction', 'deep_research', () => cancelInteraction(handle.interactionId));
+    },
+
     /**
      * Cleanup Deep Research resources
      */
     async cleanupDeepResearch(handle: DeepResearchHandle): Promise<void> {
       console.log(`[AI Adapter] Cleaning up Deep Research: ${handle.fileSearchStoreName}`);
-      releaseDeepResearchSlot();
+      // Handles saved before slot leases existed have nothing to release (their slot was per-instance)
+      if (handle.slotLeaseId) {
+        await releaseDeepResearchSlot(handle.slotLeaseId);
+      }
       await deleteFileSearchStore(handle.fileSearchStoreName);
     },
 
     async generateContent(params: {
       prompt: string;
       systemInstruction?: string;
+      model?: string;
+      onUsage?: (usage: TokenUsage) => void;
+      responseSchema?: ResponseSchema;
     }): Promise<string> {
-      return geminiGenerateContent({
+      return classified('generateContent', 'content', () => geminiGenerateContent({
         prompt: params.prompt,
+        model: params.model,
         systemInstruction: params.systemInstruction,
+        onUsage: params.onUsage,
+        responseSchema: params.responseSchema,
+      }));
+    },
+
+    /**
+     * Generate content with the inputs in a temporary File Search store (deleted afterwards)
+     */
+    async generateContentWithFiles(params: {
+      prompt: string;
+      files: Array<{ name: string; content: string }>;
+      storeName: string;
+      model?: string;
+      onUsage?: (usage: TokenUsage) => void;
+    }): Promise<string> {
+      return classified('generateContentWithFiles', 'content', async () => {
+        const fileSearchStoreName = await createFileSearchStore(params.storeName);
+
+        try {
+          for (const file of params.files) {
+            await uploadToFileSearchStore({
+              storeName: fileSearchStoreName,
+              content: file.content,
+              displayName: file.name,
+            });
+          }
+
+          return await generateContentWithFileSearch({
+            prompt: params.prompt,
+            fileSearchStoreName,
+            model: params.model,
+            onUsage: params.onUsage,
+          });
+        } finally {
+          await deleteFileSearchStore(fileSearchStoreName);
+        }
       });
     },
   };
 }
+
+/**
+ * File Search store client for the store GC (store-gc.ts)
+ */
+export function createFileSearchStoreClient(): FileSearchStoreClient {
+  return {
+    listStores: () => listFileSearchStores(),
+    deleteStore: (name: string) => forceDeleteFileSearchStore(name),
+  };
+}
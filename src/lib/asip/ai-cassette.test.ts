@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  cassetteKey,
+  createMemoryCassetteStore,
+  getCassetteConfig,
+  withCassette,
+  type Cassette,
+  type CassetteConfig,
+} from './ai-cassette';
+import { ContentGenerationError, isRetryableError } from './errors';
+import type { AIOperations, DeepResearchStatus } from './pipeline-core';
+
+const usage = { inputTokens: 100, outputTokens: 20, thinkingTokens: 5, cachedTokens: 0, groundingCalls: 0 };
+const files = [{ name: 'target.md', content: '対象企業の概要' }];
+
+function createInner(): AIOperations {
+  let polls = 0;
+  return {
+    executeDeepResearch: vi.fn(async () => 'blocking report'),
+    startDeepResearchAsync: vi.fn(async () => ({ interactionId: 'interactions/1', fileSearchStoreName: 'stores/1' })),
+    checkDeepResearchStatus: vi.fn(async (): Promise<DeepResearchStatus> =>
+      ++polls < 2
+        ? { status: 'in_progress' }
+        : { status: 'completed', result: '調査レポート', usage, model: 'deep-research-pro' }
+    ),
+    cleanupDeepResearch: vi.fn(async () => undefined),
+    generateContent: vi.fn(async params => {
+      params.onUsage?.(usage, 'gemini-flash');
+      return `response to ${params.prompt}`;
+    }),
+  };
+}
+
+const config = (mode: CassetteConfig['mode']): CassetteConfig => ({
+  mode,
+  path: 'unused.json',
+  deepResearchDelayMs: 1000,
+});
+
+async function record(cassette: Cassette) {
+  const inner = createInner();
+  const ai = withCassette(inner, config('record'), { store: createMemoryCassetteStore(cassette) });
+
+  await ai.generateContent({ prompt: 'Step 1', systemInstruction: 'sys', model: 'gemini-flash' });
+  const handle = await ai.startDeepResearchAsync!({ prompt: 'Step 2-1', files, storeName: 'run-1' });
+  await ai.checkDeepResearchStatus!(handle);
+  await ai.checkDeepResearchStatus!(handle);
+  return { inner, handle };
+}
+
+describe('ai-cassette', () => {
+  it('reads the mode from the environment', () => {
+    expect(getCassetteConfig({}).mode).toBe('off');
+    expect(getCassetteConfig({ AI_CASSETTE_MODE: 'replay', AI_CASSETTE_PATH: 'demo.json' })).toMatchObject({
+      mode: 'replay',
+      path: 'demo.json',
+    });
+    expect(getCassetteConfig({ AI_CASSETTE_MODE: 'live' }).mode).toBe('off');
+  });
+
+  it('refuses to record with a Gemini base URL override', () => {
+    const fake = { GOOGLE_GEMINI_BASE_URL: 'http://fake-gemini:3100' };
+
+    expect(() => getCassetteConfig({ AI_CASSETTE_MODE: 'record', ...fake })).toThrow('GOOGLE_GEMINI_BASE_URL');
+    expect(getCassetteConfig({ AI_CASSETTE_MODE: 'record', GOOGLE_GEMINI_BASE_URL: '' }).mode).toBe('record');
+    expect(getCassetteConfig({ AI_CASSETTE_MODE: 'replay', ...fake }).mode).toBe('replay');
+  });
+
+  it('records responses and finished Deep Research keyed by the request', async () => {
+    const cassette: Cassette = { version: 1, entries: {} };
+    const { handle } = await record(cassette);
+
+    const generateKey = cassetteKey({ kind: 'generate', model: 'gemini-flash', prompt: 'Step 1', systemInstruction: 'sys' });
+    expect(cassette.entries[generateKey]).toMatchObject({
+      kind: 'generate',
+      response: 'response to Step 1',
+      usage,
+      usageModel: 'gemini-flash',
+    });
+
+    expect(handle.cassetteKey).toBe(cassetteKey({ kind: 'deep_research', prompt: 'Step 2-1', files }));
+    expect(cassette.entries[handle.cassetteKey!]).toMatchObject({
+      kind: 'deep_research',
+      status: 'completed',
+      result: '調査レポート',
+      promptPreview: 'Step 2-1',
+    });
+    expect(Object.keys(cassette.entries)).toHaveLength(2);
+  });
+
+  it('replays recorded calls offline, with Deep Research in progress until the delay passes', async () => {
+    const cassette: Cassette = { version: 1, entries: {} };
+    await record(cassette);
+
+    let now = 10_000;
+    const inner = createInner();
+    const ai = withCassette(inner, config('replay'), { store: createMemoryCassetteStore(cassette), now: () => now });
+    const onUsage = vi.fn();
+
+    expect(await ai.generateContent({ prompt: 'Step 1', systemInstruction: 'sys', model: 'gemini-flash', onUsage }))
+      .toBe('response to Step 1');
+    expect(onUsage).toHaveBeenCalledWith(usage, 'gemini-flash');
+
+    const handle = await ai.startDeepResearchAsync!({ prompt: 'Step 2-1', files, storeName: 'run-1' });
+    expect(await ai.checkDeepResearchStatus!(handle)).toEqual({ status: 'in_progress' });
+    now += 1000;
+    expect(await ai.checkDeepResearchStatus!(handle)).toEqual({
+      status: 'completed',
+      result: '調査レポート',
+      usage,
+      model: 'deep-research-pro',
+    });
+
+    expect(inner.generateContent).not.toHaveBeenCalled();
+    expect(inner.startDeepResearchAsync).not.toHaveBeenCalled();
+    expect(ai.generateContentWithFiles).toBeUndefined();
+  });
+
+  it('fails without retries for requests missing from the cassette', async () => {
+    const ai = withCassette(createInner(), config('replay'), { store: createMemoryCassetteStore() });
+
+    const error = await ai.generateContent({ prompt: 'unknown prompt' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ContentGenerationError);
+    expect(error.message).toContain('unknown prompt');
+    expect(isRetryableError(error)).toBe(false);
+  });
+
+  it('leaves the adapter unchanged when the mode is off', () => {
+    const inner = createInner();
+    expect(withCassette(inner, config('off'))).toBe(inner);
+  });
+});
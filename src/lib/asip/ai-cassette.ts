@@ -0,0 +1,388 @@
+/**
+ * AI Cassette - record / replay of AI calls for deterministic offline runs
+ *
+ * Record mode wraps a provider adapter and saves every request / response
+ * pair to a cassette file, keyed by a hash of the request (kind, model,
+ * prompt, system instruction, attached files and response schema). Replay mode serves the
+ * cassette without calling any API: Deep Research reports in_progress for
+ * a while after it starts, then the recorded result, so the step executor
+ * runs its full polling path. Selected by AI_CASSETTE_MODE / AI_CASSETTE_PATH
+ * for e2e tests and demos.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { AIOperations, DeepResearchHandle, DeepResearchStatus, ResponseSchema } from './pipeline-core';
+import type { TokenUsage } from './cost-accounting';
+import { ContentGenerationError, DeepResearchError, getErrorMessage } from './errors';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  path: string;
+  deepResearchDelayMs: number; // How long a replayed Deep Research stays in_progress
+}
+
+export type CassetteEntryKind = 'generate' | 'deep_research';
+
+/**
+ * One recorded call
+ * generate: response; deep_research: status with result or error
+ */
+export interface CassetteEntry {
+  kind: CassetteEntryKind;
+  model: string | null; // Requested model (null for the provider default)
+  promptPreview: string; // Start of the prompt, to find an entry by eye
+  response?: string;
+  status?: 'completed' | 'failed';
+  result?: string;
+  error?: string;
+  usage?: TokenUsage;
+  usageModel?: string; // Model reported with the usage
+  recordedAt: string;
+}
+
+export interface Cassette {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+}
+
+/**
+ * Storage of a cassette (a JSON file in createFileCassetteStore)
+ */
+export interface CassetteStore {
+  read(): Promise<Cassette>;
+  // Add entries to the stored cassette (entries recorded by other adapters are kept)
+  upsert(key: string, entry: CassetteEntry): Promise<void>;
+}
+
+export interface CassetteOptions {
+  store?: CassetteStore; // File store of config.path when omitted
+  now?: () => number;
+}
+
+export const DEFAULT_CASSETTE_PATH = 'e2e/cassettes/pipeline.json';
+const DEFAULT_DEEP_RESEARCH_DELAY_MS = 5000;
+const PROMPT_PREVIEW_LENGTH = 120;
+
+// Replayed handles: cassette-<key>-<started at ms>
+const REPLAY_HANDLE_PATTERN = /^cassette-([0-9a-f]{64})-(\d+)$/;
+
+/**
+ * Cassette settings (AI_CASSETTE_*); mode is off unless AI_CASSETTE_MODE is record or replay
+ * Record mode is refused with a GOOGLE_GEMINI_BASE_URL override, which would record the fake server's answers.
+ */
+export function getCassetteConfig(env: Record<string, string | undefined> = process.env): CassetteConfig {
+  const mode = env.AI_CASSETTE_MODE;
+  if (mode === 'record' && env.GOOGLE_GEMINI_BASE_URL?.trim()) {
+    throw new Error(
+      `AI_CASSETTE_MODE=record needs the real Gemini API; unset GOOGLE_GEMINI_BASE_URL (${env.GOOGLE_GEMINI_BASE_URL})`
+    );
+  }
+  const delayMs = Number(env.AI_CASSETTE_DEEP_RESEARCH_DELAY_MS);
+  return {
+    mode: mode === 'record' || mode === 'replay' ? mode : 'off',
+    path: env.AI_CASSETTE_PATH || DEFAULT_CASSETTE_PATH,
+    deepResearchDelayMs: Number.isFinite(delayMs) && delayMs >= 0 ? delayMs : DEFAULT_DEEP_RESEARCH_DELAY_MS,
+  };
+}
+
+/**
+ * Key of a request (sha256 hex)
+ */
+export function cassetteKey(params: {
+  kind: CassetteEntryKind;
+  model?: string;
+  prompt: string;
+  systemInstruction?: string;
+  files?: Array<{ name: string; content: string }>;
+  responseSchema?: ResponseSchema;
+}): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      params.kind,
+      params.model ?? null,
+      params.prompt,
+      params.systemInstruction ?? null,
+      (params.files || []).map(file => [file.name, file.content]),
+      // Only when set, so entries recorded before structured output keep their keys
+      ...(params.responseSchema ? [params.responseSchema] : []),
+    ]))
+    .digest('hex');
+}
+
+function emptyCassette(): Cassette {
+  return { version: 1, entries: {} };
+}
+
+// Writes to the same file, serialized within this process
+const fileWrites = new Map<string, Promise<void>>();
+
+export function createFileCassetteStore(path: string): CassetteStore {
+  async function read(): Promise<Cassette> {
+    try {
+      const parsed = JSON.parse(await readFile(path, 'utf-8')) as Cassette;
+      return parsed && parsed.entries ? parsed : emptyCassette();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return emptyCassette();
+      throw error;
+    }
+  }
+
+  return {
+    read,
+
+    upsert(key, entry) {
+      const write = (fileWrites.get(path) || Promise.resolve())
+        .catch(() => undefined)
+        .then(async () => {
+          const cassette = await read();
+          cassette.entries[key] = entry;
+          await mkdir(dirname(path), { recursive: true });
+          await writeFile(path, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+        });
+      fileWrites.set(path, write);
+      return write;
+    },
+  };
+}
+
+export function createMemoryCassetteStore(cassette: Cassette = emptyCassette()): CassetteStore {
+  return {
+    async read() {
+      return cassette;
+    },
+    async upsert(key, entry) {
+      cassette.entries[key] = entry;
+    },
+  };
+}
+
+function preview(prompt: string): string {
+  return prompt.slice(0, PROMPT_PREVIEW_LENGTH);
+}
+
+/**
+ * Wrap an adapter so it records every call to the cassette
+ * Calls still go to the wrapped adapter; failures of generate calls are not recorded
+ */
+export function createRecordingAdapter(inner: AIOperations, store: CassetteStore): AIOperations {
+  async function recordGenerate(
+    key: string,
+    params: { prompt: string; model?: string; onUsage?: (usage: TokenUsage, model?: string) => void },
+    call: (onUsage: (usage: TokenUsage, model?: string) => void) => Promise<string>
+  ): Promise<string> {
+    let usage: TokenUsage | undefined;
+    let usageModel: string | undefined;
+    const response = await call((u, model) => {
+      usage = u;
+      usageModel = model;
+      params.onUsage?.(u, model);
+    });
+    await store.upsert(key, {
+      kind: 'generate',
+      model: params.model ?? null,
+      promptPreview: preview(params.prompt),
+      response,
+      usage,
+      usageModel,
+      recordedAt: new Date().toISOString(),
+    });
+    return response;
+  }
+
+  const adapter: AIOperations = {
+    ...inner,
+
+    async executeDeepResearch(params) {
+      const key = cassetteKey({ kind: 'deep_research', prompt: params.prompt, files: params.files });
+      const entry = { kind: 'deep_research' as const, model: null, promptPreview: preview(params.prompt) };
+      try {
+        const result = await inner.executeDeepResearch(params);
+        await store.upsert(key, { ...entry, status: 'completed', result, recordedAt: new Date().toISOString() });
+        return result;
+      } catch (error) {
+        await store.upsert(key, {
+          ...entry,
+          status: 'failed',
+          error: getErrorMessage(error),
+          recordedAt: new Date().toISOString(),
+        });
+        throw error;
+      }
+    },
+
+    async generateContent(params) {
+      const key = cassetteKey({
+        kind: 'generate',
+        model: params.model,
+        prompt: params.prompt,
+        systemInstruction: params.systemInstruction,
+        responseSchema: params.responseSchema,
+      });
+      return recordGenerate(key, params, onUsage => inner.generateContent({ ...params, onUsage }));
+    },
+  };
+
+  if (inner.startDeepResearchAsync && inner.checkDeepResearchStatus) {
+    const start = inner.startDeepResearchAsync.bind(inner);
+    const check = inner.checkDeepResearchStatus.bind(inner);
+    const pending = new Map<string, string>(); // interactionId -> prompt preview
+
+    adapter.startDeepResearchAsync = async params => {
+      const handle = await start(params);
+      pending.set(handle.interactionId, preview(params.prompt));
+      return {
+        ...handle,
+        cassetteKey: cassetteKey({ kind: 'deep_research', prompt: params.prompt, files: params.files }),
+      };
+    };
+
+    adapter.checkDeepResearchStatus = async (handle: DeepResearchHandle): Promise<DeepResearchStatus> => {
+      const status = await check(handle);
+      if (handle.cassetteKey && (status.status === 'completed' || status.status === 'failed')) {
+        await store.upsert(handle.cassetteKey, {
+          kind: 'deep_research',
+          model: null,
+          promptPreview: pending.get(handle.interactionId) ?? '',
+          status: status.status,
+          result: status.result,
+          error: status.error,
+          usage: status.usage,
+          usageModel: status.model,
+          recordedAt: new Date().toISOString(),
+        });
+        pending.delete(handle.interactionId);
+      }
+      return status;
+    };
+  }
+
+  if (inner.generateContentWithFiles) {
+    const generateWithFiles = inner.generateContentWithFiles.bind(inner);
+    adapter.generateContentWithFiles = async params => {
+      const key = cassetteKey({ kind: 'generate', model: params.model, prompt: params.prompt, files: params.files });
+      return recordGenerate(key, params, onUsage => generateWithFiles({ ...params, onUsage }));
+    };
+  }
+
+  return adapter;
+}
+
+/**
+ * Adapter serving calls from the cassette (no API calls)
+ * generateContentWithFiles is offered only when the recorded provider offers it,
+ * so the step executor takes the same path as when recording.
+ * A call missing from the cassette fails without retries.
+ */
+export function createReplayAdapter(
+  recordedProvider: Pick<AIOperations, 'generateContentWithFiles'>,
+  store: CassetteStore,
+  options: { deepResearchDelayMs: number; now?: () => number }
+): AIOperations {
+  const now = options.now ?? Date.now;
+  let cassette: Promise<Cassette> | null = null;
+
+  async function lookup(key: string, kind: CassetteEntryKind, prompt: string, operation: string) {
+    cassette ??= store.read();
+    const entry = (await cassette).entries[key];
+    if (entry && entry.kind === kind) return entry;
+
+    const message = `Cassette has no ${kind} entry ${key.slice(0, 12)} for: ${preview(prompt)}`;
+    throw kind === 'deep_research'
+      ? new DeepResearchError(message, operation)
+      : new ContentGenerationError(message, operation);
+  }
+
+  async function replayGenerate(
+    key: string,
+    params: { prompt: string; onUsage?: (usage: TokenUsage, model?: string) => void },
+    operation: string
+  ): Promise<string> {
+    const entry = await lookup(key, 'generate', params.prompt, operation);
+    if (entry.usage) params.onUsage?.(entry.usage, entry.usageModel);
+    return entry.response ?? '';
+  }
+
+  const adapter: AIOperations = {
+    async executeDeepResearch(params) {
+      const key = cassetteKey({ kind: 'deep_research', prompt: params.prompt, files: params.files });
+      const entry = await lookup(key, 'deep_research', params.prompt, 'executeDeepResearch');
+      if (entry.status === 'failed') {
+        throw new DeepResearchError(entry.error || 'Deep Research failed', 'executeDeepResearch');
+      }
+      return entry.result ?? '';
+    },
+
+    async startDeepResearchAsync(params) {
+      const key = cassetteKey({ kind: 'deep_research', prompt: params.prompt, files: params.files });
+      await lookup(key, 'deep_research', params.prompt, 'startDeepResearch');
+      return { interactionId: `cassette-${key}-${now()}`, fileSearchStoreName: '' };
+    },
+
+    async checkDeepResearchStatus(handle) {
+      const match = handle.interactionId.match(REPLAY_HANDLE_PATTERN);
+      if (!match) {
+        return { status: 'failed', error: `Not a cassette handle: ${handle.interactionId}` };
+      }
+      if (now() - Number(match[2]) < options.deepResearchDelayMs) {
+        return { status: 'in_progress' };
+      }
+
+      const entry = await lookup(match[1], 'deep_research', handle.interactionId, 'getInteractionStatus');
+      return entry.status === 'failed'
+        ? { status: 'failed', error: entry.error || 'Deep Research failed', usage: entry.usage, model: entry.usageModel }
+        : { status: 'completed', result: entry.result ?? '', usage: entry.usage, model: entry.usageModel };
+    },
+
+    async cancelDeepResearch() {
+      // Nothing runs
+    },
+
+    async cleanupDeepResearch() {
+      // Nothing to release
+    },
+
+    async generateContent(params) {
+      const key = cassetteKey({
+        kind: 'generate',
+        model: params.model,
+        prompt: params.prompt,
+        systemInstruction: params.systemInstruction,
+        responseSchema: params.responseSchema,
+      });
+      return replayGenerate(key, params, 'generateContent');
+    },
+  };
+
+  if (recordedProvider.generateContentWithFiles) {
+    adapter.generateContentWithFiles = async params => {
+      const key = cassetteKey({ kind: 'generate', model: params.model, prompt: params.prompt, files: params.files });
+      return replayGenerate(key, params, 'generateContentWithFiles');
+    };
+  }
+
+  return adapter;
+}
+
+/**
+ * Apply the cassette mode to a provider adapter (unchanged when the mode is off)
+ */
+export function withCassette(
+  adapter: AIOperations,
+  config: CassetteConfig = getCassetteConfig(),
+  options: CassetteOptions = {}
+): AIOperations {
+  if (config.mode === 'off') return adapter;
+
+  const store = options.store ?? createFileCassetteStore(config.path);
+  if (config.mode === 'record') {
+    console.log(`[AI Cassette] Recording to ${config.path}`);
+    return createRecordingAdapter(adapter, store);
+  }
+
+  console.log(`[AI Cassette] Replaying from ${config.path}`);
+  return createReplayAdapter(adapter, store, { deepResearchDelayMs: config.deepResearchDelayMs, now: options.now });
+}
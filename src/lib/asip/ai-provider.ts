@@ -0,0 +1,41 @@
+/**
+ * AI Provider - which AIOperations implementation a project's runs use
+ *
+ * Projects choose a provider (projects.ai_provider): Gemini, or an
+ * OpenAI-compatible endpoint (vLLM, self-hosted gateways) for engagements
+ * whose inputs must stay on-prem. Callers that serve many runs pass a
+ * selector; the step executor and run control switch to the run's provider
+ * after loading the run.
+ */
+
+import type { AIOperations, RunData } from './pipeline-core';
+
+export type AIProvider = 'gemini' | 'openai_compatible';
+
+export const AI_PROVIDERS: AIProvider[] = ['gemini', 'openai_compatible'];
+
+export const AI_PROVIDER_LABELS: Record<AIProvider, string> = {
+  gemini: 'Gemini',
+  openai_compatible: 'OpenAI互換（オンプレ）',
+};
+
+/**
+ * Creates the AIOperations of a provider (createAIAdapter in ai-adapter.ts)
+ */
+export type AISelector = (provider: AIProvider) => AIOperations;
+
+export function isAIProvider(value: unknown): value is AIProvider {
+  return typeof value === 'string' && (AI_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Dependencies with the AI of the run's provider
+ * (unchanged without a selector, or for runs of Gemini projects)
+ */
+export function withRunAI<D extends { ai: AIOperations; selectAI?: AISelector }>(
+  deps: D,
+  run: Pick<RunData, 'aiProvider'>
+): D {
+  if (!deps.selectAI || !run.aiProvider || run.aiProvider === 'gemini') return deps;
+  return { ...deps, ai: deps.selectAI(run.aiProvider) };
+}
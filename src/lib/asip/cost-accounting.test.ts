@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PRICE_TABLE,
+  estimateCost,
+  formatCost,
+  formatTokens,
+  getPriceTable,
+  summarizeProjectUsage,
+  summarizeRunUsage,
+  type UsageGroup,
+} from './cost-accounting';
+import { MODELS } from '@/lib/gemini/models';
+import { usageFromGenerateContent, usageFromInteraction } from '@/lib/gemini/usage';
+
+function group(overrides: Partial<UsageGroup>): UsageGroup {
+  return {
+    runId: 1,
+    hypothesisUuid: null,
+    step: 'step3',
+    model: MODELS.PRO,
+    calls: 1,
+    inputTokens: 0,
+    outputTokens: 0,
+    thinkingTokens: 0,
+    cachedTokens: 0,
+    groundingCalls: 0,
+    ...overrides,
+  };
+}
+
+describe('cost-accounting', () => {
+  describe('estimateCost', () => {
+    it('prices input, cached input, output, thinking and grounding separately', () => {
+      const table = {
+        m: { inputPerMillion: 2, outputPerMillion: 10, cachedInputPerMillion: 0.5, groundingPerThousand: 20 },
+      };
+      const cost = estimateCost(
+        { inputTokens: 1_000_000, cachedTokens: 200_000, outputTokens: 100_000, thinkingTokens: 50_000, groundingCalls: 10 },
+        'm',
+        table
+      );
+
+      // 0.8M * 2 + 0.2M * 0.5 + 0.15M * 10 + 10 * 0.02
+      expect(cost).toBeCloseTo(1.6 + 0.1 + 1.5 + 0.2);
+    });
+
+    it('returns null for a model without a price', () => {
+      expect(estimateCost(group({}), 'unknown-model', DEFAULT_PRICE_TABLE)).toBeNull();
+    });
+  });
+
+  describe('getPriceTable', () => {
+    it('merges GEMINI_PRICE_TABLE over the defaults', () => {
+      const table = getPriceTable({
+        GEMINI_PRICE_TABLE: JSON.stringify({ 'custom-model': { inputPerMillion: 1, outputPerMillion: 2 } }),
+      });
+
+      expect(table['custom-model']).toEqual({ inputPerMillion: 1, outputPerMillion: 2 });
+      expect(table[MODELS.PRO]).toEqual(DEFAULT_PRICE_TABLE[MODELS.PRO]);
+    });
+
+    it('falls back to the defaults on invalid JSON', () => {
+      expect(getPriceTable({ GEMINI_PRICE_TABLE: '{not json' })).toBe(DEFAULT_PRICE_TABLE);
+    });
+  });
+
+  describe('summaries', () => {
+    const table = {
+      [MODELS.PRO]: { inputPerMillion: 1_000_000, outputPerMillion: 0 },
+      [MODELS.FLASH]: { inputPerMillion: 100_000, outputPerMillion: 0 },
+    };
+    const groups = [
+      group({ step: 'step2_1', inputTokens: 1 }),
+      group({ step: 'step3', hypothesisUuid: 'h1', inputTokens: 2, calls: 2 }),
+      group({ step: 'step4', hypothesisUuid: 'h1', model: MODELS.FLASH, inputTokens: 10 }),
+      group({ runId: 2, step: 'step3', hypothesisUuid: 'h2', model: 'unknown-model', inputTokens: 5 }),
+    ];
+
+    it('rolls a run up per step and per hypothesis', () => {
+      const summary = summarizeRunUsage(groups.slice(0, 3), table);
+
+      expect(summary.total).toMatchObject({ calls: 4, inputTokens: 13, costUsd: 4, unpricedModels: [] });
+      expect(summary.byStep.map(s => [s.step, s.costUsd])).toEqual([['step2_1', 1], ['step3', 2], ['step4', 1]]);
+      expect(summary.byHypothesis).toEqual([expect.objectContaining({ hypothesisUuid: 'h1', calls: 3, costUsd: 3 })]);
+    });
+
+    it('rolls a project up per run and per model and reports unpriced models', () => {
+      const summary = summarizeProjectUsage(groups, table);
+
+      expect(summary.total).toMatchObject({ calls: 5, costUsd: 4, unpricedModels: ['unknown-model'] });
+      expect(summary.byRun.map(r => [r.runId, r.costUsd])).toEqual([[1, 4], [2, 0]]);
+      expect(summary.byModel.map(m => m.model)).toEqual([MODELS.PRO, MODELS.FLASH, 'unknown-model']);
+    });
+  });
+
+  describe('usage parsing', () => {
+    it('reads generateContent usage metadata and grounding queries', () => {
+      expect(usageFromGenerateContent({
+        usageMetadata: {
+          promptTokenCount: 100,
+          toolUsePromptTokenCount: 20,
+          candidatesTokenCount: 50,
+          thoughtsTokenCount: 30,
+          cachedContentTokenCount: 40,
+        },
+        candidates: [{ groundingMetadata: { webSearchQueries: ['a', 'b'] } }],
+      })).toEqual({ inputTokens: 120, outputTokens: 50, thinkingTokens: 30, cachedTokens: 40, groundingCalls: 2 });
+
+      expect(usageFromGenerateContent({})).toBeNull();
+    });
+
+    it('reads interaction usage and counts Google Search calls', () => {
+      expect(usageFromInteraction({
+        usage: { total_input_tokens: 1000, total_tool_use_tokens: 500, total_output_tokens: 200, total_reasoning_tokens: 300 },
+        outputs: [
+          { type: 'google_search_call', arguments: { queries: ['a', 'b', 'c'] } },
+          { type: 'google_search_call' },
+          { type: 'text' },
+        ],
+      })).toEqual({ inputTokens: 1500, outputTokens: 200, thinkingTokens: 300, cachedTokens: 0, groundingCalls: 4 });
+    });
+  });
+
+  it('formats costs and token counts', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.004)).toBe('<$0.01');
+    expect(formatCost(12.345)).toBe('$12.35');
+    expect(formatTokens(850)).toBe('850');
+    expect(formatTokens(12_345)).toBe('12.3k');
+    expect(formatTokens(1_250_000)).toBe('1.25M');
+  });
+});
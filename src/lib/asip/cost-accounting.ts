@@ -0,0 +1,201 @@
+/**
+ * Cost Accounting - token usage of every Gemini call and its estimated cost
+ *
+ * Each generateContent call and each completed Deep Research interaction is
+ * recorded in ai_usage with the model and the usage Gemini reported. Costs
+ * are not stored: they are estimated when usage is read, from a price table
+ * (GEMINI_PRICE_TABLE overrides the defaults), and rolled up per hypothesis,
+ * step, run and project.
+ */
+
+import { MODELS } from '@/lib/gemini/models';
+import { EMPTY_TOKEN_USAGE, type TokenUsage } from '@/lib/gemini/usage';
+
+export type { TokenUsage } from '@/lib/gemini/usage';
+
+/**
+ * Usage of one call, as recorded (ai_usage row)
+ */
+export interface UsageRecord extends TokenUsage {
+  step: string;
+  model: string;
+  hypothesisUuid?: string;
+  interactionId?: string;
+}
+
+/**
+ * Prices of a model in USD
+ * - thinking tokens are billed as output unless thinkingPerMillion is set
+ * - cached input tokens are billed at cachedInputPerMillion (input price when unset)
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  thinkingPerMillion?: number;
+  cachedInputPerMillion?: number;
+  groundingPerThousand?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Gemini API list prices (prompts up to 200k tokens); Deep Research is billed at
+// the rates of its underlying model plus Google Search queries
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  [MODELS.PRO]: { inputPerMillion: 2, outputPerMillion: 12, cachedInputPerMillion: 0.2, groundingPerThousand: 14 },
+  [MODELS.FLASH]: { inputPerMillion: 0.5, outputPerMillion: 3, cachedInputPerMillion: 0.05, groundingPerThousand: 14 },
+  [MODELS.DEEP_RESEARCH]: { inputPerMillion: 2, outputPerMillion: 12, cachedInputPerMillion: 0.2, groundingPerThousand: 14 },
+};
+
+/**
+ * Usage summed over calls, with the estimated cost
+ * - unpricedModels: models missing from the price table (their calls add no cost)
+ */
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  costUsd: number;
+  unpricedModels: string[];
+}
+
+/**
+ * Usage of calls grouped by run, hypothesis, step and model (read from ai_usage)
+ */
+export interface UsageGroup extends TokenUsage {
+  runId: number;
+  hypothesisUuid: string | null;
+  step: string;
+  model: string;
+  calls: number;
+}
+
+export interface RunUsageSummary {
+  total: UsageTotals;
+  byStep: Array<{ step: string } & UsageTotals>;
+  byHypothesis: Array<{ hypothesisUuid: string } & UsageTotals>;
+}
+
+export interface ProjectUsageSummary {
+  total: UsageTotals;
+  byRun: Array<{ runId: number } & UsageTotals>;
+  byModel: Array<{ model: string } & UsageTotals>;
+}
+
+/**
+ * Price table with the overrides of GEMINI_PRICE_TABLE
+ * (JSON keyed by model, e.g. {"gemini-3-pro-preview":{"inputPerMillion":2,"outputPerMillion":12}})
+ */
+export function getPriceTable(env: Record<string, string | undefined> = process.env): PriceTable {
+  const raw = env.GEMINI_PRICE_TABLE;
+  if (!raw) return DEFAULT_PRICE_TABLE;
+
+  try {
+    const overrides = JSON.parse(raw) as PriceTable;
+    return { ...DEFAULT_PRICE_TABLE, ...overrides };
+  } catch {
+    console.warn('[CostAccounting] GEMINI_PRICE_TABLE is not valid JSON, using the default prices');
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+/**
+ * Estimated cost of the usage of a model in USD (null when the model has no price)
+ */
+export function estimateCost(usage: TokenUsage, model: string, table: PriceTable): number | null {
+  const price = table[model];
+  if (!price) return null;
+
+  const cached = Math.min(usage.cachedTokens, usage.inputTokens);
+  const perToken = (perMillion: number) => perMillion / 1_000_000;
+
+  return (
+    (usage.inputTokens - cached) * perToken(price.inputPerMillion) +
+    cached * perToken(price.cachedInputPerMillion ?? price.inputPerMillion) +
+    usage.outputTokens * perToken(price.outputPerMillion) +
+    usage.thinkingTokens * perToken(price.thinkingPerMillion ?? price.outputPerMillion) +
+    usage.groundingCalls * ((price.groundingPerThousand ?? 0) / 1000)
+  );
+}
+
+function emptyTotals(): UsageTotals {
+  return { ...EMPTY_TOKEN_USAGE, calls: 0, costUsd: 0, unpricedModels: [] };
+}
+
+/**
+ * Sum groups of calls into totals
+ */
+export function sumUsage(groups: Array<TokenUsage & { model: string; calls: number }>, table: PriceTable): UsageTotals {
+  const totals = emptyTotals();
+
+  for (const group of groups) {
+    totals.calls += group.calls;
+    totals.inputTokens += group.inputTokens;
+    totals.outputTokens += group.outputTokens;
+    totals.thinkingTokens += group.thinkingTokens;
+    totals.cachedTokens += group.cachedTokens;
+    totals.groundingCalls += group.groundingCalls;
+
+    const cost = estimateCost(group, group.model, table);
+    if (cost === null) {
+      if (!totals.unpricedModels.includes(group.model)) totals.unpricedModels.push(group.model);
+    } else {
+      totals.costUsd += cost;
+    }
+  }
+
+  return totals;
+}
+
+function rollUp<K extends string | number>(
+  groups: UsageGroup[],
+  keyOf: (group: UsageGroup) => K | null,
+  table: PriceTable
+): Array<[K, UsageTotals]> {
+  const byKey = new Map<K, UsageGroup[]>();
+  for (const group of groups) {
+    const key = keyOf(group);
+    if (key === null) continue;
+    byKey.set(key, [...(byKey.get(key) || []), group]);
+  }
+  return [...byKey.entries()].map(([key, members]) => [key, sumUsage(members, table)]);
+}
+
+/**
+ * Totals of a run, per step and per hypothesis (run-level calls have no hypothesis)
+ */
+export function summarizeRunUsage(groups: UsageGroup[], table: PriceTable): RunUsageSummary {
+  return {
+    total: sumUsage(groups, table),
+    byStep: rollUp(groups, g => g.step, table).map(([step, totals]) => ({ step, ...totals })),
+    byHypothesis: rollUp(groups, g => g.hypothesisUuid, table).map(([hypothesisUuid, totals]) => ({
+      hypothesisUuid,
+      ...totals,
+    })),
+  };
+}
+
+/**
+ * Totals of a project, per run and per model
+ */
+export function summarizeProjectUsage(groups: UsageGroup[], table: PriceTable): ProjectUsageSummary {
+  return {
+    total: sumUsage(groups, table),
+    byRun: rollUp(groups, g => g.runId, table).map(([runId, totals]) => ({ runId, ...totals })),
+    byModel: rollUp(groups, g => g.model, table).map(([model, totals]) => ({ model, ...totals })),
+  };
+}
+
+/**
+ * Cost label, e.g. "$1.23" ("<$0.01" for small non-zero amounts)
+ */
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Token count label, e.g. "850", "12.3k", "1.25M"
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
@@ -5,8 +5,9 @@
  */
 
 import { db } from '@/lib/db';
-import { runs, resources, hypotheses } from '@/lib/db/schema';
-import { eq, and, inArray, isNull } from 'drizzle-orm';
+import { projects, runs, resources, hypotheses, hypothesisScores, promptVersions, stepFileAttachments, runAuditEntries, aiUsage } from '@/lib/db/schema';
+import { eq, and, inArray, isNull, sql, getTableColumns, type AnyColumn, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
 import {
   DatabaseOperations,
   RunData,
@@ -17,6 +18,16 @@ import {
   HypothesisProcessingStatus,
 } from './pipeline-core';
 import { ExtendedDatabaseOperations } from './step-executor';
+import type { ActivePromptVersion, PromptSnapshot } from './prompt-snapshot';
+import type { ExecutionTiming, TimingEntry } from './execution-timing';
+import type { DebugPromptEntry } from './debug-prompts';
+import type { IntegratedList } from './integrated-list';
+import type { HypothesisScoreRecord, ScoreField, ScoreQuery, ScoreStep } from './hypothesis-scores';
+import type { StepAttachmentSettings } from './step-inputs';
+import { getActiveRunLease, type RunLeaseResult } from './run-lease';
+import type { RunAuditEntry } from './run-control';
+import type { UsageGroup, UsageRecord } from './cost-accounting';
+import type { StepUsageAverage } from './run-budget';
 
 /**
  * Extended run data with status and step info
@@ -25,16 +36,347 @@ export interface ExtendedRunData extends RunData {
   status: string;
   currentStep: number;
   step2_1Output: string | null;
+  step2_1Outputs: Record<string, string>;
   updatedAt: Date;
 }
 
+// Hypothesis columns read by the pipeline (debugPrompts is write-only here and can be large)
+const { debugPrompts: _debugPrompts, ...pipelineHypothesisColumns } = getTableColumns(hypotheses);
+
+/**
+ * Append a prompt record to the hypothesis (or run, for run-level steps)
+ * The append happens in SQL so parallel evaluations do not overwrite each other.
+ */
+export async function appendDebugPrompt(runId: number, entry: DebugPromptEntry): Promise<void> {
+  const value = sql`jsonb_build_array(${JSON.stringify(entry)}::jsonb)`;
+
+  if (entry.hypothesisUuid) {
+    await db
+      .update(hypotheses)
+      .set({ debugPrompts: sql`coalesce(${hypotheses.debugPrompts}, '[]'::jsonb) || ${value}` })
+      .where(eq(hypotheses.uuid, entry.hypothesisUuid));
+    return;
+  }
+
+  // Legacy { entries } values are replaced by a plain array
+  await db
+    .update(runs)
+    .set({
+      debugPrompts: sql`(case when jsonb_typeof(${runs.debugPrompts}) = 'array' then ${runs.debugPrompts} else '[]'::jsonb end) || ${value}`,
+    })
+    .where(eq(runs.id, runId));
+}
+
+/**
+ * Fill in the response length of a Deep Research prompt record once the interaction completes
+ */
+export async function setDebugPromptResponseLength(
+  runId: number,
+  target: { hypothesisUuid?: string; interactionId: string },
+  responseLength: number
+): Promise<void> {
+  const patch = (column: typeof runs.debugPrompts | typeof hypotheses.debugPrompts) => sql`(
+    select coalesce(jsonb_agg(
+      case when e->>'interactionId' = ${target.interactionId}
+        then e || jsonb_build_object('responseLength', ${responseLength}::int)
+        else e end
+      order by ord
+    ), '[]'::jsonb)
+    from jsonb_array_elements(${column}) with ordinality as t(e, ord)
+  )`;
+
+  if (target.hypothesisUuid) {
+    await db
+      .update(hypotheses)
+      .set({ debugPrompts: patch(hypotheses.debugPrompts) })
+      .where(and(
+        eq(hypotheses.uuid, target.hypothesisUuid),
+        sql`jsonb_typeof(${hypotheses.debugPrompts}) = 'array'`
+      ));
+    return;
+  }
+
+  await db
+    .update(runs)
+    .set({ debugPrompts: patch(runs.debugPrompts) })
+    .where(and(eq(runs.id, runId), sql`jsonb_typeof(${runs.debugPrompts}) = 'array'`));
+}
+
+/**
+ * Upsert the parsed scores of one hypothesis and step
+ */
+export async function saveHypothesisScores(
+  runId: number,
+  hypothesisUuid: string,
+  record: HypothesisScoreRecord
+): Promise<void> {
+  const values = {
+    runId,
+    source: record.source,
+    verdict: record.verdict,
+    entryProbability: record.entryProbability,
+    weightedTotal: record.weightedTotal,
+    axisScores: record.axisScores,
+    rationales: record.rationales,
+    parseErrors: record.parseErrors,
+    updatedAt: new Date(),
+  };
+
+  await db
+    .insert(hypothesisScores)
+    .values({ hypothesisUuid, step: record.step, ...values })
+    .onConflictDoUpdate({
+      target: [hypothesisScores.hypothesisUuid, hypothesisScores.step],
+      set: values,
+    });
+}
+
+/**
+ * Take the execution lease on a run
+ * The row is locked with SKIP LOCKED, so an invocation taking the lease at the
+ * same moment is treated as the holder instead of waiting for it.
+ */
+export async function acquireRunLease(runId: number, owner: string, ttlMs: number): Promise<RunLeaseResult> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx
+      .select({
+        leaseOwner: runs.leaseOwner,
+        leaseAcquiredAt: runs.leaseAcquiredAt,
+        leaseExpiresAt: runs.leaseExpiresAt,
+      })
+      .from(runs)
+      .where(eq(runs.id, runId))
+      .for('update', { skipLocked: true });
+
+    if (!row) {
+      return { acquired: false, lease: null };
+    }
+
+    const now = new Date();
+    const current = getActiveRunLease(row, now);
+    if (current && current.owner !== owner) {
+      return { acquired: false, lease: current };
+    }
+
+    const expiresAt = new Date(now.getTime() + ttlMs);
+    await tx
+      .update(runs)
+      .set({ leaseOwner: owner, leaseAcquiredAt: now, leaseExpiresAt: expiresAt })
+      .where(eq(runs.id, runId));
+
+    return {
+      acquired: true,
+      lease: { owner, acquiredAt: now.toISOString(), expiresAt: expiresAt.toISOString() },
+    };
+  });
+}
+
+/**
+ * Release the execution lease (only if still held by owner)
+ */
+export async function releaseRunLease(runId: number, owner: string): Promise<void> {
+  await db
+    .update(runs)
+    .set({ leaseOwner: null, leaseAcquiredAt: null, leaseExpiresAt: null })
+    .where(and(eq(runs.id, runId), eq(runs.leaseOwner, owner)));
+}
+
+/**
+ * Append timing entries in a single statement (queue jobs of the same run write concurrently)
+ */
+export async function appendExecutionTiming(runId: number, entries: TimingEntry[]): Promise<void> {
+  const value = sql`${JSON.stringify(entries)}::jsonb`;
+  await db
+    .update(runs)
+    .set({
+      executionTiming: sql`jsonb_build_object('entries', coalesce(${runs.executionTiming} -> 'entries', '[]'::jsonb) || ${value})`,
+    })
+    .where(eq(runs.id, runId));
+}
+
+/**
+ * Record a stop / pause / resume of a run
+ */
+export async function appendRunAuditEntry(entry: RunAuditEntry): Promise<void> {
+  await db.insert(runAuditEntries).values({
+    runId: entry.runId,
+    action: entry.action,
+    actor: entry.actor,
+    interactions: entry.interactions,
+  });
+}
+
+/**
+ * Record the token usage of a Gemini call (the project is taken from the run)
+ */
+export async function recordAIUsage(runId: number, record: UsageRecord): Promise<void> {
+  await db.insert(aiUsage).values({
+    runId,
+    projectId: sql`(select ${runs.projectId} from ${runs} where ${runs.id} = ${runId})`,
+    hypothesisUuid: record.hypothesisUuid ?? null,
+    step: record.step,
+    model: record.model,
+    interactionId: record.interactionId ?? null,
+    inputTokens: record.inputTokens,
+    outputTokens: record.outputTokens,
+    thinkingTokens: record.thinkingTokens,
+    cachedTokens: record.cachedTokens,
+    groundingCalls: record.groundingCalls,
+  });
+}
+
+/**
+ * Token usage of a run or a project, summed per run, hypothesis, step and model
+ */
+export async function getUsageGroups(filter: { runId: number } | { projectId: number }): Promise<UsageGroup[]> {
+  const total = (column: AnyColumn) => sql<number>`coalesce(sum(${column}), 0)::int`;
+
+  return db
+    .select({
+      runId: aiUsage.runId,
+      hypothesisUuid: aiUsage.hypothesisUuid,
+      step: aiUsage.step,
+      model: aiUsage.model,
+      calls: sql<number>`count(*)::int`,
+      inputTokens: total(aiUsage.inputTokens),
+      outputTokens: total(aiUsage.outputTokens),
+      thinkingTokens: total(aiUsage.thinkingTokens),
+      cachedTokens: total(aiUsage.cachedTokens),
+      groundingCalls: total(aiUsage.groundingCalls),
+    })
+    .from(aiUsage)
+    .where('runId' in filter ? eq(aiUsage.runId, filter.runId) : eq(aiUsage.projectId, filter.projectId))
+    .groupBy(aiUsage.runId, aiUsage.hypothesisUuid, aiUsage.step, aiUsage.model)
+    .orderBy(aiUsage.runId, aiUsage.step);
+}
+
+/**
+ * Average usage of one call per step and model over the recorded usage (for run cost estimates)
+ */
+export async function getStepUsageAverages(): Promise<StepUsageAverage[]> {
+  const average = (column: AnyColumn) => sql<number>`coalesce(round(avg(${column})), 0)::int`;
+
+  return db
+    .select({
+      step: aiUsage.step,
+      model: aiUsage.model,
+      calls: sql<number>`count(*)::int`,
+      inputTokens: average(aiUsage.inputTokens),
+      outputTokens: average(aiUsage.outputTokens),
+      thinkingTokens: average(aiUsage.thinkingTokens),
+      cachedTokens: average(aiUsage.cachedTokens),
+      groundingCalls: average(aiUsage.groundingCalls),
+    })
+    .from(aiUsage)
+    .groupBy(aiUsage.step, aiUsage.model);
+}
+
+/**
+ * File Search stores referenced by the Deep Research handles of active runs
+ * (Step 2-1 in progressInfo, Step 2-2 in the hypotheses' fullData)
+ */
+export async function findLiveStoreNames(): Promise<Set<string>> {
+  const active = inArray(runs.status, ['pending', 'running', 'paused']);
+
+  const runRows = await db
+    .select({
+      step2_1: sql<string | null>`${runs.progressInfo} -> 'deepResearchHandle' ->> 'fileSearchStoreName'`,
+      legacy: sql<string | null>`${runs.progressInfo} -> 'hypothesisDeepResearchHandle' -> 'handle' ->> 'fileSearchStoreName'`,
+    })
+    .from(runs)
+    .where(active);
+
+  const hypothesisRows = await db
+    .select({ step2_2: sql<string | null>`${hypotheses.fullData} -> 'deepResearchHandle' ->> 'fileSearchStoreName'` })
+    .from(hypotheses)
+    .innerJoin(runs, eq(hypotheses.runId, runs.id))
+    .where(and(active, sql`${hypotheses.fullData} -> 'deepResearchHandle' is not null`));
+
+  const names = [
+    ...runRows.flatMap(row => [row.step2_1, row.legacy]),
+    ...hypothesisRows.map(row => row.step2_2),
+  ];
+  return new Set(names.filter((name): name is string => !!name));
+}
+
+// Score rows joined per step for sorting / filtering hypothesis lists
+export const step3Scores = alias(hypothesisScores, 'step3_scores');
+export const step4Scores = alias(hypothesisScores, 'step4_scores');
+
+const scoreTables = { 3: step3Scores, 4: step4Scores } as const;
+
+/**
+ * Join conditions for step3Scores / step4Scores (use with leftJoin)
+ */
+export const scoreJoins = {
+  step3: and(eq(step3Scores.hypothesisUuid, hypotheses.uuid), eq(step3Scores.step, 3))!,
+  step4: and(eq(step4Scores.hypothesisUuid, hypotheses.uuid), eq(step4Scores.step, 4))!,
+};
+
+/**
+ * Score summary columns for a hypothesis list select (null until the step is parsed)
+ */
+export function scoreSummaryColumns(step: ScoreStep) {
+  const table = scoreTables[step];
+  return {
+    source: table.source,
+    verdict: table.verdict,
+    entryProbability: table.entryProbability,
+    weightedTotal: table.weightedTotal,
+    axisScores: table.axisScores,
+    parseErrors: table.parseErrors,
+  };
+}
+
+function scoreFieldSql(field: ScoreField): SQL {
+  const table = scoreTables[field.step];
+  switch (field.key) {
+    case 'weightedTotal':
+      return sql`${table.weightedTotal}`;
+    case 'verdict':
+      return sql`${table.verdict}`;
+    case 'entryProbability':
+      return sql`${table.entryProbability}`;
+    default:
+      return sql`(${table.axisScores}->>${field.key})::real`;
+  }
+}
+
+/**
+ * WHERE conditions for the score filters of a query
+ */
+export function scoreFilterConditions(query: ScoreQuery): SQL[] {
+  return query.filters.map(filter => {
+    const value = scoreFieldSql(filter.field);
+    if (filter.op === 'in') return inArray(value, filter.values);
+    return filter.op === 'min' ? sql`${value} >= ${filter.value}` : sql`${value} <= ${filter.value}`;
+  });
+}
+
+/**
+ * ORDER BY for the sort field (verdicts rank 高 > 中 > 低, unscored hypotheses last)
+ */
+export function scoreOrderBy(query: ScoreQuery): SQL[] {
+  if (!query.sort) return [];
+
+  const field = scoreFieldSql(query.sort);
+  const value = query.sort.key === 'verdict' || query.sort.key === 'entryProbability'
+    ? sql`case when ${field} = '高' then 3 when ${field} like '中%' then 2 when ${field} = '低' then 1 end`
+    : field;
+  return [query.order === 'asc' ? sql`${value} asc nulls last` : sql`${value} desc nulls last`];
+}
+
 /**
  * Create database adapter using Drizzle ORM
  */
 export function createDatabaseAdapter(): ExtendedDatabaseOperations {
   return {
     async getRun(runId: number): Promise<ExtendedRunData | null> {
-      const [run] = await db.select().from(runs).where(eq(runs.id, runId));
+      const [run] = await db
+        .select({ ...getTableColumns(runs), aiProvider: projects.aiProvider })
+        .from(runs)
+        .leftJoin(projects, eq(projects.id, runs.projectId))
+        .where(eq(runs.id, runId));
       if (!run) return null;
 
       return {
@@ -45,9 +387,17 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
         targetSpecId: run.targetSpecId,
         technicalAssetsId: run.technicalAssetsId,
         progressInfo: run.progressInfo as RunData['progressInfo'],
+        promptSnapshot: run.promptSnapshot as PromptSnapshot | null,
+        executionTiming: run.executionTiming as ExecutionTiming | null,
+        modelChoice: run.modelChoice,
+        loopCount: run.loopCount,
+        currentLoop: run.currentLoop,
+        budgetUsd: run.budgetUsd,
+        aiProvider: run.aiProvider ?? 'gemini',
         status: run.status,
         currentStep: run.currentStep,
         step2_1Output: run.step2_1Output,
+        step2_1Outputs: run.step2_1Outputs,
         updatedAt: run.updatedAt,
       };
     },
@@ -67,10 +417,15 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
       updates: Partial<{
         status: RunStatus;
         currentStep: number;
+        currentLoop: number;
         errorMessage: string | null;
         step2_1Output: string;
+        step2_1Outputs: Record<string, string>;
         completedAt: Date;
         progressInfo: ProgressInfo;
+        promptSnapshot: PromptSnapshot;
+        executionTiming: ExecutionTiming;
+        integratedList: IntegratedList;
         updatedAt: Date;
       }>
     ): Promise<void> {
@@ -83,6 +438,7 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
       runId: number;
       hypothesisNumber: number;
       indexInRun: number;
+      loopNumber?: number;
       displayTitle: string;
       step2_1Summary: string;
       processingStatus: HypothesisProcessingStatus;
@@ -94,6 +450,7 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
         runId: data.runId,
         hypothesisNumber: data.hypothesisNumber,
         indexInRun: data.indexInRun,
+        loopNumber: data.loopNumber,
         displayTitle: data.displayTitle,
         step2_1Summary: data.step2_1Summary,
         processingStatus: data.processingStatus,
@@ -102,13 +459,17 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
     },
 
     async getHypothesis(uuid: string): Promise<HypothesisData | null> {
-      const [hypothesis] = await db.select().from(hypotheses).where(eq(hypotheses.uuid, uuid));
+      const [hypothesis] = await db
+        .select(pipelineHypothesisColumns)
+        .from(hypotheses)
+        .where(eq(hypotheses.uuid, uuid));
       if (!hypothesis) return null;
 
       return {
         uuid: hypothesis.uuid,
         displayTitle: hypothesis.displayTitle,
         hypothesisNumber: hypothesis.hypothesisNumber,
+        loopNumber: hypothesis.loopNumber,
         step2_1Summary: hypothesis.step2_1Summary,
         step2_2Output: hypothesis.step2_2Output,
         step3Output: hypothesis.step3Output,
@@ -116,6 +477,7 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
         step5Output: hypothesis.step5Output,
         processingStatus: hypothesis.processingStatus as HypothesisProcessingStatus | null,
         errorMessage: hypothesis.errorMessage,
+        formatViolations: hypothesis.formatViolations,
         fullData: hypothesis.fullData as Record<string, unknown> | null,
       };
     },
@@ -129,6 +491,7 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
         step4Output: string;
         step5Output: string;
         errorMessage: string;
+        formatViolations: string[];
         fullData: Record<string, unknown>;
       }>
     ): Promise<void> {
@@ -137,7 +500,7 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
 
     async getHypothesesForRun(runId: number): Promise<HypothesisData[]> {
       const results = await db
-        .select()
+        .select(pipelineHypothesisColumns)
         .from(hypotheses)
         .where(and(eq(hypotheses.runId, runId), isNull(hypotheses.deletedAt)));
 
@@ -145,6 +508,7 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
         uuid: h.uuid,
         displayTitle: h.displayTitle,
         hypothesisNumber: h.hypothesisNumber,
+        loopNumber: h.loopNumber,
         step2_1Summary: h.step2_1Summary,
         step2_2Output: h.step2_2Output,
         step3Output: h.step3Output,
@@ -152,6 +516,7 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
         step5Output: h.step5Output,
         processingStatus: h.processingStatus as HypothesisProcessingStatus | null,
         errorMessage: h.errorMessage,
+        formatViolations: h.formatViolations,
         fullData: h.fullData as Record<string, unknown> | null,
       }));
     },
@@ -211,5 +576,40 @@ export function createDatabaseAdapter(): ExtendedDatabaseOperations {
         summary: h.step2_1Summary || '',
       }));
     },
+
+    async getActivePromptVersions(): Promise<ActivePromptVersion[]> {
+      return db
+        .select({
+          id: promptVersions.id,
+          stepNumber: promptVersions.stepNumber,
+          version: promptVersions.version,
+          content: promptVersions.content,
+        })
+        .from(promptVersions)
+        .where(eq(promptVersions.isActive, true));
+    },
+
+    appendDebugPrompt,
+    saveHypothesisScores,
+
+    async getStepAttachmentSettings(): Promise<StepAttachmentSettings> {
+      const rows = await db
+        .select({ stepNumber: stepFileAttachments.stepNumber, attachedFiles: stepFileAttachments.attachedFiles })
+        .from(stepFileAttachments);
+
+      return Object.fromEntries(rows.map(row => [row.stepNumber, row.attachedFiles || []]));
+    },
+    setDebugPromptResponseLength,
+    acquireRunLease,
+    releaseRunLease,
+    appendExecutionTiming,
+    appendRunAuditEntry,
+    recordAIUsage,
+
+    async getRunUsage(runId: number): Promise<UsageGroup[]> {
+      return getUsageGroups({ runId });
+    },
+
+    getStepUsageAverages,
   };
 }
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { buildDebugPromptEntry, normalizeDebugPrompts, mergeDebugPrompts } from './debug-prompts';
+
+describe('debug-prompts', () => {
+  it('records attachment names with byte sizes and the response length', () => {
+    const entry = buildDebugPromptEntry({
+      step: 'step3',
+      prompt: 'evaluate',
+      files: [{ name: 'target_specification', content: 'ab' }, { name: 'technical_assets', content: '技術' }],
+      hypothesisUuid: 'h1',
+      hypothesisNumber: 2,
+      model: 'gemini-3-pro-preview',
+      response: 'result',
+      timestamp: new Date('2026-01-01T00:00:00Z'),
+    });
+
+    expect(entry).toEqual({
+      step: 'step3',
+      hypothesisUuid: 'h1',
+      hypothesisNumber: 2,
+      timestamp: '2026-01-01T00:00:00.000Z',
+      prompt: 'evaluate',
+      attachments: [
+        { name: 'target_specification', size: 2 },
+        { name: 'technical_assets', size: 6 },
+      ],
+      model: 'gemini-3-pro-preview',
+      responseLength: 6,
+    });
+  });
+
+  it('leaves responseLength null when there is no response yet', () => {
+    const entry = buildDebugPromptEntry({ step: 'step2_2', prompt: 'p', interactionId: 'int-1' });
+
+    expect(entry.responseLength).toBeNull();
+    expect(entry.interactionId).toBe('int-1');
+    expect(entry.attachments).toEqual([]);
+  });
+
+  it('reads plain arrays and the legacy { entries } shape', () => {
+    const entry = buildDebugPromptEntry({ step: 'step2_1', prompt: 'p' });
+
+    expect(normalizeDebugPrompts([entry])).toEqual([entry]);
+    expect(normalizeDebugPrompts({ entries: [entry] })).toEqual([entry]);
+    expect(normalizeDebugPrompts(null)).toEqual([]);
+  });
+
+  it('merges run and hypothesis entries in call order', () => {
+    const at = (iso: string, step: string) =>
+      buildDebugPromptEntry({ step, prompt: step, timestamp: new Date(iso) });
+
+    const merged = mergeDebugPrompts(
+      [at('2026-01-01T00:00:00Z', 'step2_1'), at('2026-01-01T01:00:00Z', 'step2_1_5')],
+      [[at('2026-01-01T02:00:00Z', 'step3')], [at('2026-01-01T01:30:00Z', 'step2_2')]]
+    );
+
+    expect(merged.map(e => e.step)).toEqual(['step2_1', 'step2_1_5', 'step2_2', 'step3']);
+  });
+});
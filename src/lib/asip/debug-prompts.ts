@@ -0,0 +1,109 @@
+/**
+ * Debug Prompts - records the exact prompts sent to Gemini
+ *
+ * Run-level calls (Step 2-1, 2-1.5) are stored in runs.debugPrompts,
+ * hypothesis calls (Step 2-2 to 5) in hypotheses.debugPrompts, so large runs
+ * do not grow a single row. Both columns hold a plain array of entries.
+ */
+
+/**
+ * Attached file recorded with a prompt (content is not stored)
+ */
+export interface DebugPromptAttachment {
+  name: string;
+  size: number;
+}
+
+/**
+ * Single recorded AI call
+ * - responseLength is null while a Deep Research interaction is still running,
+ *   and is filled in by interactionId when polling completes
+ */
+export interface DebugPromptEntry {
+  step: string;
+  hypothesisUuid?: string;
+  hypothesisNumber?: number;
+  timestamp: string;
+  prompt: string;
+  attachments: DebugPromptAttachment[];
+  model?: string;
+  interactionId?: string;
+  responseLength: number | null;
+  error?: string;
+}
+
+/**
+ * Step labels shown in the debug dialog
+ */
+export const DEBUG_PROMPT_STEP_LABELS: Record<string, string> = {
+  step2_1: 'S2-1 Deep Research',
+  step2_1_5: 'S2-1.5 構造化',
+  step2_2: 'S2-2 Deep Research',
+  step3: 'S3 魅力度評価',
+  step4: 'S4 参入検討',
+  step5: 'S5 一覧表作成',
+  step3_repair: 'S3 形式修正',
+  step4_repair: 'S4 形式修正',
+  step5_repair: 'S5 形式修正',
+  reprocess_extraction: '再処理: 仮説抽出',
+};
+
+/**
+ * Build an entry for a call
+ */
+export function buildDebugPromptEntry(params: {
+  step: string;
+  prompt: string;
+  files?: Array<{ name: string; content: string }>;
+  hypothesisUuid?: string;
+  hypothesisNumber?: number;
+  model?: string;
+  interactionId?: string;
+  response?: string | null;
+  error?: string;
+  timestamp?: Date;
+}): DebugPromptEntry {
+  const encoder = new TextEncoder();
+
+  return {
+    step: params.step,
+    ...(params.hypothesisUuid && { hypothesisUuid: params.hypothesisUuid }),
+    ...(params.hypothesisNumber !== undefined && { hypothesisNumber: params.hypothesisNumber }),
+    timestamp: (params.timestamp || new Date()).toISOString(),
+    prompt: params.prompt,
+    attachments: (params.files || []).map(f => ({
+      name: f.name,
+      size: encoder.encode(f.content).length,
+    })),
+    ...(params.model && { model: params.model }),
+    ...(params.interactionId && { interactionId: params.interactionId }),
+    responseLength: typeof params.response === 'string' ? params.response.length : null,
+    ...(params.error && { error: params.error }),
+  };
+}
+
+/**
+ * Read entries from a debugPrompts column value
+ * Accepts a plain array or the legacy { entries } shape.
+ */
+export function normalizeDebugPrompts(value: unknown): DebugPromptEntry[] {
+  if (Array.isArray(value)) {
+    return value as DebugPromptEntry[];
+  }
+  if (value && typeof value === 'object' && Array.isArray((value as { entries?: unknown }).entries)) {
+    return (value as { entries: DebugPromptEntry[] }).entries;
+  }
+  return [];
+}
+
+/**
+ * Merge run-level and hypothesis entries in call order
+ */
+export function mergeDebugPrompts(
+  runEntries: DebugPromptEntry[],
+  hypothesisEntries: DebugPromptEntry[][]
+): DebugPromptEntry[] {
+  return [...runEntries, ...hypothesisEntries.flat()].sort(
+    (a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)
+  );
+}
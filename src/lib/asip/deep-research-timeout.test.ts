@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getDeepResearchOvertime, getDeepResearchTimeoutConfig } from './deep-research-timeout';
+
+const NOW = new Date('2026-01-01T12:00:00.000Z');
+
+describe('deep-research-timeout', () => {
+  it('reads the wall time per step and the restart limit from the environment', () => {
+    expect(getDeepResearchTimeoutConfig({})).toEqual({
+      maxWallMs: { step2_1: 3_600_000, step2_2: 3_600_000 },
+      maxRestarts: 1,
+    });
+    expect(getDeepResearchTimeoutConfig({
+      DEEP_RESEARCH_TIMEOUT_MINUTES_STEP2_1: '30',
+      DEEP_RESEARCH_TIMEOUT_MINUTES_STEP2_2: '45',
+      DEEP_RESEARCH_MAX_RESTARTS: '0',
+    })).toEqual({
+      maxWallMs: { step2_1: 1_800_000, step2_2: 2_700_000 },
+      maxRestarts: 0,
+    });
+    expect(getDeepResearchTimeoutConfig({ DEEP_RESEARCH_MAX_RESTARTS: 'many' }).maxRestarts).toBe(1);
+  });
+
+  it('reports the wall time only once the step maximum is exceeded', () => {
+    const config = getDeepResearchTimeoutConfig({ DEEP_RESEARCH_TIMEOUT_MINUTES_STEP2_2: '10' });
+
+    expect(getDeepResearchOvertime('step2_2', '2026-01-01T11:55:00.000Z', NOW, config)).toBeNull();
+    expect(getDeepResearchOvertime('step2_2', '2026-01-01T11:45:00.000Z', NOW, config)).toEqual({ elapsedMs: 900_000 });
+    expect(getDeepResearchOvertime('step2_1', '2026-01-01T11:45:00.000Z', NOW, config)).toBeNull();
+    expect(getDeepResearchOvertime('step2_2', undefined, NOW, config)).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Deep Research Timeout - maximum wall time of an interaction
+ *
+ * Gemini can keep answering in_progress for an interaction that never ends.
+ * When a run's Step 2-1 interaction or a hypothesis' Step 2-2 interaction
+ * runs longer than the step's maximum wall time, the executor cancels it
+ * (when the adapter can), cleans up its File Search store and starts it again,
+ * up to maxRestarts times; after that the run / hypothesis is marked as error.
+ */
+
+export type DeepResearchStep = 'step2_1' | 'step2_2';
+
+export interface DeepResearchTimeoutConfig {
+  maxWallMs: Record<DeepResearchStep, number>;
+  maxRestarts: number;
+}
+
+const DEFAULT_MAX_WALL_MINUTES = 60;
+const DEFAULT_MAX_RESTARTS = 1;
+
+/**
+ * Interaction stopped for exceeding its wall time (listed by the watchdog)
+ */
+export interface TimedOutInteraction {
+  runId: number;
+  hypothesisUuid: string | null;
+  step: DeepResearchStep;
+  interactionId: string;
+  elapsedMs: number;
+  restarts: number; // Restarts before this timeout
+  action: 'restarted' | 'failed';
+}
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Timeout settings from the environment
+ * (DEEP_RESEARCH_TIMEOUT_MINUTES_STEP2_1 / _STEP2_2, DEEP_RESEARCH_MAX_RESTARTS)
+ */
+export function getDeepResearchTimeoutConfig(
+  env: Record<string, string | undefined> = process.env
+): DeepResearchTimeoutConfig {
+  return {
+    maxWallMs: {
+      step2_1: readPositiveNumber(env.DEEP_RESEARCH_TIMEOUT_MINUTES_STEP2_1, DEFAULT_MAX_WALL_MINUTES) * 60 * 1000,
+      step2_2: readPositiveNumber(env.DEEP_RESEARCH_TIMEOUT_MINUTES_STEP2_2, DEFAULT_MAX_WALL_MINUTES) * 60 * 1000,
+    },
+    maxRestarts: readPositiveNumber(env.DEEP_RESEARCH_MAX_RESTARTS, DEFAULT_MAX_RESTARTS),
+  };
+}
+
+/**
+ * Wall time of an interaction past the step's maximum (null while within it, or when the start is unknown)
+ */
+export function getDeepResearchOvertime(
+  step: DeepResearchStep,
+  startedAt: string | undefined,
+  now: Date,
+  config: DeepResearchTimeoutConfig
+): { elapsedMs: number } | null {
+  const started = startedAt ? Date.parse(startedAt) : NaN;
+  if (Number.isNaN(started)) return null;
+
+  const elapsedMs = now.getTime() - started;
+  return elapsedMs > config.maxWallMs[step] ? { elapsedMs } : null;
+}
+
+/**
+ * Error message of a run / hypothesis whose interaction timed out after its last restart
+ */
+export function formatDeepResearchTimeoutMessage(
+  step: DeepResearchStep,
+  config: DeepResearchTimeoutConfig,
+  restarts: number
+): string {
+  const minutes = Math.round(config.maxWallMs[step] / 60000);
+  const label = step === 'step2_1' ? 'Step 2-1' : 'Step 2-2';
+  return `${label} の Deep Research が制限時間（${minutes}分）を超えました（再起動 ${restarts}回）`;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  advanceResearchJob,
+  parseResearchQuestions,
+  startResearchJob,
+  toDeepResearchStatus,
+  type ResearchCompletion,
+  type ResearchJob,
+  type ResearchJobStore,
+} from './emulated-research';
+import { ContentGenerationError, TimeoutError } from './errors';
+
+const USAGE = { inputTokens: 100, outputTokens: 10, thinkingTokens: 0, cachedTokens: 0, groundingCalls: 0 };
+
+/**
+ * In-memory job store; claim fails while the job is locked
+ */
+function createMemoryStore() {
+  const jobs = new Map<string, ResearchJob & { locked?: boolean }>();
+  const store: ResearchJobStore = {
+    create: async job => { jobs.set(job.id, structuredClone(job)); },
+    get: async id => (jobs.has(id) ? structuredClone(jobs.get(id)!) : null),
+    claim: async id => {
+      const job = jobs.get(id);
+      if (!job || job.locked || job.status !== 'in_progress') return null;
+      job.locked = true;
+      return structuredClone({ ...job, locked: undefined });
+    },
+    save: async job => {
+      if (jobs.get(job.id)?.status !== 'in_progress') return;
+      jobs.set(job.id, structuredClone(job));
+    },
+    cancel: async id => {
+      const job = jobs.get(id);
+      if (job?.status === 'in_progress') jobs.set(id, { ...job, status: 'cancelled', locked: false });
+    },
+    delete: async id => { jobs.delete(id); },
+  };
+  return { store, jobs };
+}
+
+function scriptedCompletion(texts: string[]): ResearchCompletion {
+  const queue = [...texts];
+  return vi.fn(async () => ({ text: queue.shift() ?? '', usage: USAGE }));
+}
+
+describe('emulated-research', () => {
+  const files = [{ name: 'technical_assets.json', content: '{"assets":[]}' }];
+
+  it('plans, investigates each question and reports, one step per poll', async () => {
+    const { store } = createMemoryStore();
+    const complete = scriptedCompletion(['["市場規模", "競合"]', '市場メモ', '競合メモ', '最終レポート']);
+    const deps = { store, complete };
+
+    const job = await startResearchJob(deps, { prompt: 'Step 2-1 prompt', files, model: 'local-model' });
+    expect(toDeepResearchStatus(await store.get(job.id))).toEqual({ status: 'pending' });
+
+    const statuses = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push(toDeepResearchStatus(await advanceResearchJob(deps, job.id)));
+    }
+
+    expect(statuses.map(s => s.status)).toEqual(['in_progress', 'in_progress', 'in_progress', 'completed']);
+    expect(statuses[3]).toEqual({
+      status: 'completed',
+      result: '最終レポート',
+      usage: { ...USAGE, inputTokens: 400, outputTokens: 40 },
+      model: 'local-model',
+    });
+
+    // The report sees the original prompt, the files and the findings
+    const reportPrompt = vi.mocked(complete).mock.calls[3][0].prompt;
+    expect(reportPrompt).toContain('Step 2-1 prompt');
+    expect(reportPrompt).toContain('=== technical_assets.json ===');
+    expect(reportPrompt).toContain('### 競合\n競合メモ');
+  });
+
+  it('leaves a job claimed by another poll alone', async () => {
+    const { store, jobs } = createMemoryStore();
+    const complete = scriptedCompletion(['["a"]']);
+    const job = await startResearchJob({ store }, { prompt: 'p', files, model: 'm' });
+    jobs.get(job.id)!.locked = true;
+
+    const result = await advanceResearchJob({ store, complete }, job.id);
+
+    expect(result?.questions).toBeNull();
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it('retries a step after a retryable failure and fails the job on a permanent one', async () => {
+    const { store } = createMemoryStore();
+    const complete = vi.fn<ResearchCompletion>()
+      .mockRejectedValueOnce(new TimeoutError('researchStep'))
+      .mockRejectedValueOnce(new ContentGenerationError('invalid model', 'researchStep', undefined, false));
+    const job = await startResearchJob({ store }, { prompt: 'p', files, model: 'm' });
+
+    const retried = await advanceResearchJob({ store, complete }, job.id);
+    expect(toDeepResearchStatus(retried).status).toBe('pending');
+
+    const failed = await advanceResearchJob({ store, complete }, job.id);
+    expect(toDeepResearchStatus(failed)).toMatchObject({ status: 'failed', error: expect.stringContaining('invalid model') });
+  });
+
+  it('reports cancelled and missing jobs as failed', async () => {
+    const { store } = createMemoryStore();
+    const job = await startResearchJob({ store }, { prompt: 'p', files, model: 'm' });
+    await store.cancel(job.id);
+
+    expect(toDeepResearchStatus(await store.get(job.id))).toMatchObject({ status: 'failed' });
+    expect(toDeepResearchStatus(null)).toEqual({ status: 'failed', error: 'Research job not found' });
+  });
+
+  it('parses the planned questions from JSON or from a list', () => {
+    expect(parseResearchQuestions('```json\n["A", "B"]\n```')).toEqual(['A', 'B']);
+    expect(parseResearchQuestions('1. A\n2) B\n- C')).toEqual(['A', 'B', 'C']);
+    expect(parseResearchQuestions(JSON.stringify(['1', '2', '3', '4', '5', '6']))).toHaveLength(5);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Emulated Deep Research - multi-step research job for providers without Deep Research
+ *
+ * A job is stored when research starts and advanced one model call per status
+ * check, so it progresses in the background of the pipeline's polling like a
+ * Deep Research interaction:
+ *   1. plan: split the research prompt into a few questions
+ *   2. investigate: answer each question from the attached files
+ *   3. report: answer the original prompt from the files and the findings
+ * There is no web search; everything the model reads is the attached files.
+ * A poll that finds the job claimed by another poll leaves it alone.
+ */
+
+import { randomUUID } from 'crypto';
+import { EMPTY_TOKEN_USAGE, type TokenUsage } from '@/lib/gemini/usage';
+import type { DeepResearchStatus } from './pipeline-core';
+import { getErrorMessage, isRetryableError } from './errors';
+
+export type ResearchJobStatus = 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface ResearchFile {
+  name: string;
+  content: string;
+}
+
+/**
+ * Stored state of a research job
+ */
+export interface ResearchJob {
+  id: string;
+  status: ResearchJobStatus;
+  prompt: string;
+  files: ResearchFile[];
+  model: string;
+  questions: string[] | null; // Null until planned
+  findings: string[]; // One per investigated question
+  result: string | null;
+  error: string | null;
+  usage: TokenUsage; // Summed over the calls of the job
+}
+
+/**
+ * Storage of research jobs (Postgres in research-job-store.ts)
+ */
+export interface ResearchJobStore {
+  create(job: ResearchJob): Promise<void>;
+  get(id: string): Promise<ResearchJob | null>;
+  // Lock an in-progress job for one step (null when it is locked by another poll or finished)
+  claim(id: string, lockMs: number): Promise<ResearchJob | null>;
+  // Save the job and release the lock (a job cancelled meanwhile stays cancelled)
+  save(job: ResearchJob): Promise<void>;
+  cancel(id: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * One model call of the job
+ */
+export type ResearchCompletion = (params: {
+  prompt: string;
+  systemInstruction: string;
+  model: string;
+}) => Promise<{ text: string; usage: TokenUsage | null }>;
+
+export interface EmulatedResearchDependencies {
+  store: ResearchJobStore;
+  complete: ResearchCompletion;
+  logger?: {
+    log: (message: string) => void;
+    warn: (message: string) => void;
+  };
+}
+
+export const MAX_RESEARCH_QUESTIONS = 5;
+
+// A step holds the lock at most this long (a crashed poll frees the job after it)
+export const RESEARCH_STEP_LOCK_MS = 10 * 60 * 1000;
+
+const SYSTEM_INSTRUCTION =
+  'あなたは事業開発のリサーチアナリストです。添付ファイルの内容と一般的な専門知識のみを根拠とし、' +
+  '根拠のない数値や出典を作らないでください。Web検索は利用できません。';
+
+function formatFiles(files: ResearchFile[]): string {
+  if (files.length === 0) return '（添付ファイルなし）';
+  return files.map(file => `=== ${file.name} ===\n${file.content}`).join('\n\n');
+}
+
+function planPrompt(job: ResearchJob): string {
+  return `以下のリサーチ依頼に答えるために調べるべき論点を最大${MAX_RESEARCH_QUESTIONS}件、` +
+    `JSON の文字列配列（例: ["論点1", "論点2"]）だけで出力してください。\n\n` +
+    `=== リサーチ依頼 ===\n${job.prompt}\n\n=== 添付ファイル ===\n${formatFiles(job.files)}`;
+}
+
+function investigatePrompt(job: ResearchJob, question: string): string {
+  return `リサーチ依頼の論点「${question}」について、添付ファイルから読み取れる事実と、` +
+    `そこから言える示唆を箇条書きでまとめてください。不明な点は不明と書いてください。\n\n` +
+    `=== リサーチ依頼 ===\n${job.prompt}\n\n=== 添付ファイル ===\n${formatFiles(job.files)}`;
+}
+
+function reportPrompt(job: ResearchJob): string {
+  const notes = (job.questions || [])
+    .map((question, i) => `### ${question}\n${job.findings[i] ?? ''}`)
+    .join('\n\n');
+  return `${job.prompt}\n\n=== 添付ファイル ===\n${formatFiles(job.files)}\n\n` +
+    `=== 調査メモ（事前調査の結果） ===\n${notes}`;
+}
+
+/**
+ * Questions of a plan response (a JSON array, or one question per line as a fallback)
+ */
+export function parseResearchQuestions(text: string): string[] {
+  const match = text.match(/\[[\s\S]*\]/);
+  if (match) {
+    try {
+      const parsed = JSON.parse(match[0]);
+      if (Array.isArray(parsed)) {
+        const questions = parsed.filter((q): q is string => typeof q === 'string' && q.trim() !== '');
+        if (questions.length > 0) return questions.slice(0, MAX_RESEARCH_QUESTIONS).map(q => q.trim());
+      }
+    } catch {
+      // Fall through to the line-based parse
+    }
+  }
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(line => line !== '' && !line.startsWith('```'))
+    .slice(0, MAX_RESEARCH_QUESTIONS);
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage | null): TokenUsage {
+  if (!usage) return total;
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    thinkingTokens: total.thinkingTokens + usage.thinkingTokens,
+    cachedTokens: total.cachedTokens + usage.cachedTokens,
+    groundingCalls: total.groundingCalls + usage.groundingCalls,
+  };
+}
+
+/**
+ * Store a new job (the first step runs on the first status check)
+ */
+export async function startResearchJob(
+  deps: Pick<EmulatedResearchDependencies, 'store'>,
+  params: { prompt: string; files: ResearchFile[]; model: string }
+): Promise<ResearchJob> {
+  const job: ResearchJob = {
+    id: randomUUID(),
+    status: 'in_progress',
+    prompt: params.prompt,
+    files: params.files,
+    model: params.model,
+    questions: null,
+    findings: [],
+    result: null,
+    error: null,
+    usage: EMPTY_TOKEN_USAGE,
+  };
+  await deps.store.create(job);
+  return job;
+}
+
+/**
+ * Run the next step of a job
+ * - retryable failures leave the job where it was (the next poll tries the step again)
+ * - other failures fail the job
+ * Returns the job as saved, or as stored when another poll holds it
+ */
+export async function advanceResearchJob(deps: EmulatedResearchDependencies, id: string): Promise<ResearchJob | null> {
+  const { store, complete } = deps;
+
+  const job = await store.claim(id, RESEARCH_STEP_LOCK_MS);
+  if (!job) return store.get(id);
+
+  const call = async (prompt: string) => {
+    const { text, usage } = await complete({ prompt, systemInstruction: SYSTEM_INSTRUCTION, model: job.model });
+    job.usage = addUsage(job.usage, usage);
+    return text;
+  };
+
+  try {
+    if (job.questions === null) {
+      job.questions = parseResearchQuestions(await call(planPrompt(job)));
+      deps.logger?.log(`Research job ${id}: planned ${job.questions.length} questions`);
+    } else if (job.findings.length < job.questions.length) {
+      const question = job.questions[job.findings.length];
+      job.findings = [...job.findings, await call(investigatePrompt(job, question))];
+      deps.logger?.log(`Research job ${id}: investigated ${job.findings.length}/${job.questions.length}`);
+    } else {
+      job.result = await call(reportPrompt(job));
+      job.status = 'completed';
+      deps.logger?.log(`Research job ${id}: completed`);
+    }
+  } catch (error) {
+    if (isRetryableError(error)) {
+      deps.logger?.warn(`Research job ${id}: step failed, retrying on the next poll: ${getErrorMessage(error)}`);
+    } else {
+      job.status = 'failed';
+      job.error = getErrorMessage(error);
+    }
+  }
+
+  await store.save(job);
+  return job;
+}
+
+/**
+ * Status of a job in the shape of a Deep Research status
+ */
+export function toDeepResearchStatus(job: ResearchJob | null): DeepResearchStatus {
+  if (!job) {
+    return { status: 'failed', error: 'Research job not found' };
+  }
+
+  switch (job.status) {
+    case 'completed':
+      return { status: 'completed', result: job.result || '', usage: job.usage, model: job.model };
+    case 'failed':
+      return { status: 'failed', error: job.error || 'Research job failed', usage: job.usage, model: job.model };
+    case 'cancelled':
+      return { status: 'failed', error: 'Research job was cancelled', usage: job.usage, model: job.model };
+    default:
+      return { status: job.questions === null ? 'pending' : 'in_progress' };
+  }
+}
@@ -12,6 +12,8 @@ import {
   isASIPError,
   getErrorMessage,
   wrapError,
+  classifyGeminiError,
+  isRetryableError,
 } from './errors';
 
 describe('errors', () => {
@@ -138,6 +140,76 @@ describe('errors', () => {
       expect(error.message).toBe('操作がタイムアウトしました: Deep Research (30000ms)');
       expect(error.details).toEqual({ operation: 'Deep Research', timeoutMs: 30000 });
     });
+
+    it('creates error without a known timeout', () => {
+      expect(new TimeoutError('generateContent').message).toBe('操作がタイムアウトしました: generateContent');
+    });
+  });
+
+  describe('classifyGeminiError', () => {
+    it('classifies 429 responses as rate limit errors with the suggested wait', () => {
+      const error = classifyGeminiError(
+        Object.assign(new Error('got status: 429 Too Many Requests. {"retryDelay": "37s"}'), { status: 429 }),
+        'generateContent',
+        'content'
+      );
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.details).toEqual({ retryAfterSeconds: 37 });
+    });
+
+    it('reads the status from the message of a wrapped error', () => {
+      const cause = new Error('[GoogleGenerativeAI Error]: Error fetching from https://example: [503 Service Unavailable] overloaded');
+      const error = classifyGeminiError(
+        new Error(`Failed to generate content: ${cause.message}`, { cause }),
+        'generateContent',
+        'content'
+      );
+
+      expect(error).toBeInstanceOf(ContentGenerationError);
+      expect(isRetryableError(error)).toBe(true);
+    });
+
+    it('classifies network resets through the proxy as retryable', () => {
+      const reset = new TypeError('fetch failed', { cause: Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }) });
+      const error = classifyGeminiError(reset, 'start', 'deep_research');
+
+      expect(error).toBeInstanceOf(DeepResearchError);
+      expect(isRetryableError(error)).toBe(true);
+    });
+
+    it('classifies timeouts', () => {
+      const timeout = Object.assign(new Error('Connect Timeout Error'), { code: 'UND_ERR_CONNECT_TIMEOUT' });
+      expect(classifyGeminiError(timeout, 'status', 'deep_research')).toBeInstanceOf(TimeoutError);
+      expect(classifyGeminiError(new Error('504 Gateway Timeout'), 'generateContent', 'content')).toBeInstanceOf(TimeoutError);
+    });
+
+    it('classifies other client errors as non-retryable', () => {
+      const invalid = classifyGeminiError(
+        Object.assign(new Error('Request contains an invalid argument.'), { status: 400 }),
+        'generateContent',
+        'content'
+      );
+      const noKey = classifyGeminiError(new Error('GOOGLE_GENAI_API_KEY is not set'), 'start', 'deep_research');
+
+      expect(isRetryableError(invalid)).toBe(false);
+      expect(isRetryableError(noKey)).toBe(false);
+    });
+
+    it('returns ASIP errors as-is', () => {
+      const original = new MissingResourceError('both');
+      expect(classifyGeminiError(original, 'start', 'deep_research')).toBe(original);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('retries rate limits, timeouts and unknown errors but not other ASIP errors', () => {
+      expect(isRetryableError(new RateLimitError())).toBe(true);
+      expect(isRetryableError(new TimeoutError('x', 1))).toBe(true);
+      expect(isRetryableError(new Error('boom'))).toBe(true);
+      expect(isRetryableError(new ContentGenerationError('x', 'step3'))).toBe(false);
+      expect(isRetryableError(new HypothesisParsingError('x'))).toBe(false);
+    });
   });
 
   describe('isASIPError', () => {
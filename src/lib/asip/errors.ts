@@ -64,9 +64,10 @@ export class HypothesisNotFoundError extends ASIPError {
 
 /**
  * Error thrown when Deep Research fails
+ * (retryable: a transient failure such as a 5xx response or a network reset)
  */
 export class DeepResearchError extends ASIPError {
-  constructor(message: string, step: string, cause?: Error) {
+  constructor(message: string, step: string, cause?: Error, public readonly retryable = false) {
     super(
       `Deep Research 失敗 (${step}): ${message}`,
       'DEEP_RESEARCH_ERROR',
@@ -78,9 +79,10 @@ export class DeepResearchError extends ASIPError {
 
 /**
  * Error thrown when AI content generation fails
+ * (retryable: a transient failure such as a 5xx response or a network reset)
  */
 export class ContentGenerationError extends ASIPError {
-  constructor(message: string, step: string, cause?: Error) {
+  constructor(message: string, step: string, cause?: Error, public readonly retryable = false) {
     super(
       `コンテンツ生成失敗 (${step}): ${message}`,
       'CONTENT_GENERATION_ERROR',
@@ -118,9 +120,9 @@ export class RateLimitError extends ASIPError {
  * Error thrown when operation times out
  */
 export class TimeoutError extends ASIPError {
-  constructor(operation: string, timeoutMs: number) {
+  constructor(operation: string, timeoutMs?: number) {
     super(
-      `操作がタイムアウトしました: ${operation} (${timeoutMs}ms)`,
+      `操作がタイムアウトしました: ${operation}${timeoutMs !== undefined ? ` (${timeoutMs}ms)` : ''}`,
       'TIMEOUT_ERROR',
       { operation, timeoutMs }
     );
@@ -128,6 +130,125 @@ export class TimeoutError extends ASIPError {
   }
 }
 
+// Network failures (also through the proxy) that are worth retrying
+const TRANSIENT_NETWORK_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH',
+  'UND_ERR_SOCKET', 'UND_ERR_CLOSED',
+];
+const TIMEOUT_CODES = ['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'];
+
+// Google API status names and the HTTP status they stand for
+const GOOGLE_STATUS_CODES: Record<string, number> = {
+  INVALID_ARGUMENT: 400,
+  FAILED_PRECONDITION: 400,
+  UNAUTHENTICATED: 401,
+  PERMISSION_DENIED: 403,
+  NOT_FOUND: 404,
+  DEADLINE_EXCEEDED: 504,
+  RESOURCE_EXHAUSTED: 429,
+  INTERNAL: 500,
+  UNAVAILABLE: 503,
+};
+
+/**
+ * The error and its causes (Error.cause), outermost first
+ */
+function errorChain(error: unknown): Array<Record<string, unknown>> {
+  const chain: Array<Record<string, unknown>> = [];
+  let current: unknown = error;
+  while (current && typeof current === 'object' && chain.length < 5) {
+    chain.push(current as Record<string, unknown>);
+    current = (current as { cause?: unknown }).cause;
+  }
+  return chain;
+}
+
+/**
+ * HTTP status of a Gemini API error (status property, or as written in the message)
+ */
+function getHttpStatus(error: unknown): number | null {
+  for (const e of errorChain(error)) {
+    if (typeof e.status === 'number') return e.status;
+    if (typeof e.code === 'number' && e.code >= 400) return e.code;
+  }
+
+  const message = getErrorMessage(error);
+  const match = message.match(/\[(\d{3})[ \]]|status:? (\d{3})\b|"code": ?(\d{3})/i);
+  if (match) return Number(match[1] ?? match[2] ?? match[3]);
+
+  const statusName = Object.keys(GOOGLE_STATUS_CODES).find(name => message.includes(name));
+  return statusName ? GOOGLE_STATUS_CODES[statusName] : null;
+}
+
+/**
+ * Suggested wait of a 429 response ("retryDelay": "37s" / "Please retry in 37.5s")
+ */
+function getRetryAfterSeconds(message: string): number | undefined {
+  const match = message.match(/retry(?:Delay"?:\s*"| in )(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(Number(match[1])) : undefined;
+}
+
+/**
+ * Classify a Gemini API failure into an ASIP error
+ *
+ * - 429 / quota / rate limit: RateLimitError
+ * - 408 / 504 / socket and request timeouts: TimeoutError
+ * - 5xx and network resets: retryable DeepResearchError / ContentGenerationError
+ * - other 4xx (invalid request, auth, safety block): non-retryable
+ * - unknown failures: retryable (attempts are bounded by the retry policy)
+ */
+export function classifyGeminiError(
+  error: unknown,
+  operation: string,
+  kind: 'deep_research' | 'content'
+): ASIPError {
+  if (isASIPError(error)) {
+    return error;
+  }
+
+  const message = getErrorMessage(error);
+  const cause = error instanceof Error ? error : undefined;
+  const codes = errorChain(error).flatMap(e => [e.code, e.name]).filter((c): c is string => typeof c === 'string');
+  const status = getHttpStatus(error);
+  const failure = (retryable: boolean) =>
+    kind === 'deep_research'
+      ? new DeepResearchError(message, operation, cause, retryable)
+      : new ContentGenerationError(message, operation, cause, retryable);
+
+  if (status === 429 || /rate limit|too many requests|quota|limit reached/i.test(message)) {
+    return new RateLimitError(getRetryAfterSeconds(message));
+  }
+  if (status === 408 || status === 504 || codes.some(c => TIMEOUT_CODES.includes(c) || c === 'TimeoutError') ||
+      /timed? ?out/i.test(message)) {
+    return new TimeoutError(operation);
+  }
+  if (status !== null && status >= 400 && status < 500) {
+    return failure(false);
+  }
+  if ((status !== null && status >= 500) || codes.some(c => TRANSIENT_NETWORK_CODES.includes(c)) ||
+      /fetch failed|socket hang up|network|proxy/i.test(message)) {
+    return failure(true);
+  }
+  if (/API_KEY|is not set|SAFETY|blocked/i.test(message)) {
+    return failure(false);
+  }
+  return failure(true);
+}
+
+/**
+ * Whether a failed operation may succeed when tried again
+ * (errors other than ASIP errors are unknown failures and retried)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RateLimitError || error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof DeepResearchError || error instanceof ContentGenerationError) {
+    return error.retryable;
+  }
+  return !isASIPError(error);
+}
+
 /**
  * Check if an error is a specific ASIP error type
  */
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTimingRecorder,
+  appendTimingEntries,
+  summarizeExecutionTiming,
+  getTimingRange,
+  TimingEntry,
+} from './execution-timing';
+
+function entry(step: TimingEntry['step'], start: string, end: string, outcome: TimingEntry['outcome'] = 'success'): TimingEntry {
+  return {
+    step,
+    startedAt: start,
+    endedAt: end,
+    durationMs: Date.parse(end) - Date.parse(start),
+    outcome,
+  };
+}
+
+describe('execution-timing', () => {
+  it('records duration and outcome of a timed call', async () => {
+    const times = [new Date('2026-01-01T00:00:00Z'), new Date('2026-01-01T00:00:05Z')];
+    const recorder = createTimingRecorder(() => times.shift()!);
+
+    const result = await recorder.time('step3', async () => 'ok', { hypothesisUuid: 'h1', loop: 1 });
+
+    expect(result).toBe('ok');
+    expect(recorder.entries).toEqual([{
+      step: 'step3',
+      hypothesisUuid: 'h1',
+      loop: 1,
+      startedAt: '2026-01-01T00:00:00.000Z',
+      endedAt: '2026-01-01T00:00:05.000Z',
+      durationMs: 5000,
+      outcome: 'success',
+    }]);
+  });
+
+  it('records an error outcome and rethrows', async () => {
+    const recorder = createTimingRecorder();
+
+    await expect(
+      recorder.time('step4', async () => { throw new Error('boom'); })
+    ).rejects.toThrow('boom');
+
+    expect(recorder.entries[0]).toMatchObject({ step: 'step4', outcome: 'error', error: 'boom' });
+  });
+
+  it('appends to existing timing and tolerates empty columns', () => {
+    const first = entry('step2_1_start', '2026-01-01T00:00:00Z', '2026-01-01T00:00:10Z');
+    const second = entry('step2_1', '2026-01-01T00:00:10Z', '2026-01-01T00:20:10Z');
+
+    expect(appendTimingEntries(null, [first])).toEqual({ entries: [first] });
+    expect(appendTimingEntries({ entries: [first] }, [second]).entries).toEqual([first, second]);
+  });
+
+  it('summarizes steps with average concurrency', () => {
+    const timing = {
+      entries: [
+        entry('step2_2', '2026-01-01T00:00:00Z', '2026-01-01T00:10:00Z'),
+        entry('step2_2', '2026-01-01T00:00:00Z', '2026-01-01T00:10:00Z', 'error'),
+        entry('step3', '2026-01-01T00:10:00Z', '2026-01-01T00:11:00Z'),
+      ],
+    };
+
+    const [step2_2, step3] = summarizeExecutionTiming(timing);
+
+    expect(step2_2).toMatchObject({
+      step: 'step2_2',
+      count: 2,
+      errorCount: 1,
+      totalMs: 1_200_000,
+      avgMs: 600_000,
+      spanMs: 600_000,
+      avgConcurrency: 2,
+    });
+    expect(step3).toMatchObject({ step: 'step3', count: 1, avgConcurrency: 1 });
+    expect(getTimingRange(timing)).toEqual({
+      start: Date.parse('2026-01-01T00:00:00Z'),
+      end: Date.parse('2026-01-01T00:11:00Z'),
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Execution Timing - per-step wall time records stored in runs.executionTiming
+ *
+ * Each executeNextStep invocation collects entries in a recorder and appends
+ * them to the run in a single write, so parallel hypothesis evaluations in
+ * the same invocation do not overwrite each other.
+ */
+
+/**
+ * Timed steps
+ * - *_start: store upload + interaction start call
+ * - step2_1 / step2_2: Deep Research wall time (start complete -> poll complete)
+ */
+export type TimingStep =
+  | 'step2_1_start'
+  | 'step2_1'
+  | 'step2_1_5'
+  | 'step2_2_start'
+  | 'step2_2'
+  | 'step3'
+  | 'step4'
+  | 'step5';
+
+export type TimingOutcome = 'success' | 'error';
+
+/**
+ * Single timing record
+ */
+export interface TimingEntry {
+  step: TimingStep;
+  hypothesisUuid?: string;
+  hypothesisNumber?: number;
+  loop?: number;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  outcome: TimingOutcome;
+  error?: string;
+}
+
+/**
+ * Timing data stored in runs.executionTiming
+ */
+export interface ExecutionTiming {
+  entries: TimingEntry[];
+}
+
+/**
+ * Optional context attached to an entry
+ */
+export type TimingContext = Pick<TimingEntry, 'hypothesisUuid' | 'hypothesisNumber' | 'loop'>;
+
+/**
+ * Aggregated timing for one step
+ * avgConcurrency = total duration / span, i.e. how many ran side by side on average
+ */
+export interface StepTimingSummary {
+  step: TimingStep;
+  count: number;
+  errorCount: number;
+  totalMs: number;
+  avgMs: number;
+  maxMs: number;
+  spanMs: number;
+  avgConcurrency: number;
+}
+
+/**
+ * Display order and labels for timed steps
+ */
+export const TIMING_STEPS: TimingStep[] = [
+  'step2_1_start',
+  'step2_1',
+  'step2_1_5',
+  'step2_2_start',
+  'step2_2',
+  'step3',
+  'step4',
+  'step5',
+];
+
+export const TIMING_STEP_LABELS: Record<TimingStep, string> = {
+  step2_1_start: 'S2-1 開始',
+  step2_1: 'S2-1 Deep Research',
+  step2_1_5: 'S2-1.5 構造化',
+  step2_2_start: 'S2-2 開始',
+  step2_2: 'S2-2 Deep Research',
+  step3: 'S3 魅力度評価',
+  step4: 'S4 参入検討',
+  step5: 'S5 一覧表作成',
+};
+
+/**
+ * Collects timing entries during one executeNextStep invocation
+ */
+export interface TimingRecorder {
+  readonly entries: TimingEntry[];
+  record(
+    step: TimingStep,
+    startedAt: Date,
+    endedAt: Date,
+    outcome: TimingOutcome,
+    context?: TimingContext & { error?: string }
+  ): void;
+  time<T>(step: TimingStep, fn: () => Promise<T>, context?: TimingContext): Promise<T>;
+}
+
+/**
+ * Create a timing recorder
+ */
+export function createTimingRecorder(now: () => Date = () => new Date()): TimingRecorder {
+  const entries: TimingEntry[] = [];
+
+  const record: TimingRecorder['record'] = (step, startedAt, endedAt, outcome, context = {}) => {
+    entries.push({
+      step,
+      ...context,
+      startedAt: startedAt.toISOString(),
+      endedAt: endedAt.toISOString(),
+      durationMs: Math.max(0, endedAt.getTime() - startedAt.getTime()),
+      outcome,
+    });
+  };
+
+  return {
+    entries,
+    record,
+    async time(step, fn, context) {
+      const startedAt = now();
+      try {
+        const result = await fn();
+        record(step, startedAt, now(), 'success', context);
+        return result;
+      } catch (error) {
+        record(step, startedAt, now(), 'error', {
+          ...context,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Append entries to existing timing data (tolerates null / malformed column values)
+ */
+export function appendTimingEntries(
+  existing: ExecutionTiming | null | undefined,
+  entries: TimingEntry[]
+): ExecutionTiming {
+  const previous = Array.isArray(existing?.entries) ? existing.entries : [];
+  return { entries: [...previous, ...entries] };
+}
+
+/**
+ * Aggregate entries per step (steps without entries are omitted)
+ */
+export function summarizeExecutionTiming(timing: ExecutionTiming | null | undefined): StepTimingSummary[] {
+  const entries = timing?.entries || [];
+
+  return TIMING_STEPS.flatMap(step => {
+    const stepEntries = entries.filter(e => e.step === step);
+    if (stepEntries.length === 0) return [];
+
+    const totalMs = stepEntries.reduce((sum, e) => sum + e.durationMs, 0);
+    const start = Math.min(...stepEntries.map(e => Date.parse(e.startedAt)));
+    const end = Math.max(...stepEntries.map(e => Date.parse(e.endedAt)));
+    const spanMs = Math.max(0, end - start);
+
+    return [{
+      step,
+      count: stepEntries.length,
+      errorCount: stepEntries.filter(e => e.outcome === 'error').length,
+      totalMs,
+      avgMs: Math.round(totalMs / stepEntries.length),
+      maxMs: Math.max(...stepEntries.map(e => e.durationMs)),
+      spanMs,
+      avgConcurrency: spanMs > 0 ? totalMs / spanMs : 1,
+    }];
+  });
+}
+
+/**
+ * Time range covered by all entries, or null when there are none
+ */
+export function getTimingRange(
+  timing: ExecutionTiming | null | undefined
+): { start: number; end: number } | null {
+  const entries = timing?.entries || [];
+  if (entries.length === 0) return null;
+
+  return {
+    start: Math.min(...entries.map(e => Date.parse(e.startedAt))),
+    end: Math.max(...entries.map(e => Date.parse(e.endedAt))),
+  };
+}
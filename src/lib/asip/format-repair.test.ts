@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { STEP5_HEADER } from '@/lib/parsers';
+import {
+  buildFormatRepairPrompt,
+  getFormatRepairConfig,
+  repairOutputFormat,
+  updateFormatViolations,
+} from './format-repair';
+
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+
+const STEP5_OUTPUT = [
+  STEP5_HEADER.join('\t'),
+  STEP5_HEADER.map(() => '4').join('\t'),
+].join('\n');
+
+describe('format-repair', () => {
+  it('reads the attempt limit from the environment', () => {
+    expect(getFormatRepairConfig({}).maxAttempts).toBe(2);
+    expect(getFormatRepairConfig({ FORMAT_REPAIR_MAX_ATTEMPTS: '0' }).maxAttempts).toBe(0);
+    expect(getFormatRepairConfig({ FORMAT_REPAIR_MAX_ATTEMPTS: 'many' }).maxAttempts).toBe(2);
+  });
+
+  it('builds a prompt with the parser errors, the required format and the output', () => {
+    const prompt = buildFormatRepairPrompt('step4', '参入確率は中程度', ['AGCの参入確率を抽出できませんでした']);
+
+    expect(prompt).toContain('- AGCの参入確率を抽出できませんでした');
+    expect(prompt).toContain('- 資産転用性（AGC視点）（20％）：1〜5の整数');
+    expect(prompt.endsWith('=== 元の出力 ===\n参入確率は中程度')).toBe(true);
+    expect(buildFormatRepairPrompt('step5', 'x', ['e'])).toContain(STEP5_HEADER.join('\t'));
+  });
+
+  it('leaves outputs that parse alone', async () => {
+    const generate = vi.fn();
+
+    const result = await repairOutputFormat({ step: 'step5', output: STEP5_OUTPUT, maxAttempts: 2 }, generate);
+
+    expect(result).toEqual({ output: STEP5_OUTPUT, errors: [], repair: null });
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('stops at the first repaired output and keeps the original', async () => {
+    const generate = vi.fn().mockResolvedValue(STEP5_OUTPUT);
+
+    const result = await repairOutputFormat({ step: 'step5', output: 'not a table', maxAttempts: 2, now: NOW }, generate);
+
+    expect(result.output).toBe(STEP5_OUTPUT);
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(result.repair).toEqual({
+      originalOutput: 'not a table',
+      originalErrors: expect.arrayContaining(['データ行がありません']),
+      attempts: 1,
+      errors: [],
+      repairedAt: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('keeps the output with the fewest errors when every attempt fails', async () => {
+    const almost = STEP5_OUTPUT + '\n' + STEP5_HEADER.map(() => '3').join('\t');
+    const generate = vi.fn()
+      .mockResolvedValueOnce(almost)
+      .mockResolvedValueOnce('worse');
+
+    const result = await repairOutputFormat({ step: 'step5', output: 'not a table', maxAttempts: 2 }, generate);
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(generate.mock.calls[1][0]).toContain(almost);
+    expect(result.output).toBe(almost);
+    expect(result.errors).toEqual(['データ行が複数あります（2行）。1行目のみ使用します']);
+    expect(result.repair).toMatchObject({ attempts: 2, errors: result.errors });
+  });
+
+  it('updates the flagged steps in step order', () => {
+    expect(updateFormatViolations(['step5'], 'step3', true)).toEqual(['step3', 'step5']);
+    expect(updateFormatViolations(['step3', 'step5'], 'step3', false)).toEqual(['step5']);
+    expect(updateFormatViolations(null, 'step4', false)).toEqual([]);
+  });
+});
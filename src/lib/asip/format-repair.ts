@@ -0,0 +1,168 @@
+/**
+ * Format Repair - self-repair of Step 3 / 4 / 5 outputs that do not parse
+ *
+ * When an evaluation output fails its parser (Step 3 / 4 verdict, axes or
+ * total missing, Step 5 TSV header or columns off), the executor sends a
+ * repair prompt holding the output and the parser's errors, asking for the
+ * same content in the required format, up to maxAttempts times. The original
+ * output is kept in fullData.formatRepairs; steps whose output still fails
+ * are listed in hypotheses.format_violations and flagged in the sidebar.
+ */
+
+import { parseStep3Output, parseStep4Output, parseStep5Output, STEP5_HEADER } from '@/lib/parsers';
+import { SCORE_AXES } from './hypothesis-scores';
+
+export type RepairableStep = 'step3' | 'step4' | 'step5';
+
+export const REPAIRABLE_STEPS: RepairableStep[] = ['step3', 'step4', 'step5'];
+
+export interface FormatRepairConfig {
+  maxAttempts: number; // Repair prompts per output (0 disables repairs)
+}
+
+const DEFAULT_MAX_ATTEMPTS = 2;
+
+/**
+ * Repair of one step's output, kept in fullData.formatRepairs[step]
+ */
+export interface FormatRepairRecord {
+  originalOutput: string;
+  originalErrors: string[];
+  attempts: number;
+  errors: string[]; // Errors of the kept output (empty when the repair succeeded)
+  repairedAt: string;
+}
+
+/**
+ * Repair settings from the environment (FORMAT_REPAIR_MAX_ATTEMPTS)
+ */
+export function getFormatRepairConfig(env: Record<string, string | undefined> = process.env): FormatRepairConfig {
+  const value = env.FORMAT_REPAIR_MAX_ATTEMPTS;
+  const parsed = Number(value);
+  return {
+    maxAttempts: value !== undefined && value !== '' && Number.isInteger(parsed) && parsed >= 0
+      ? parsed
+      : DEFAULT_MAX_ATTEMPTS,
+  };
+}
+
+/**
+ * Parser errors of a step output (empty when it parses)
+ */
+export function getFormatErrors(step: RepairableStep, output: string): string[] {
+  switch (step) {
+    case 'step3':
+      return parseStep3Output(output).errors;
+    case 'step4':
+      return parseStep4Output(output).errors;
+    case 'step5':
+      return parseStep5Output(output).errors;
+  }
+}
+
+const STEP_LABELS: Record<RepairableStep, string> = {
+  step3: 'Step 3（技術×採算の成立可能性評価）',
+  step4: 'Step 4（AGC参入検討）',
+  step5: 'Step 5（テーマ一覧表の1行）',
+};
+
+// Lines the Step 3 / 4 parsers read, in the wording of the prompts
+const REQUIRED_LINES: Record<'step3' | 'step4', string[]> = {
+  step3: [
+    '当該テーマの魅力度：高／中（戦略要修正）／低 のいずれか',
+    ...SCORE_AXES[3].map(axis => `${axis.label}（${axis.weight}％）：1〜5の整数`),
+    '8項目の加重合計（100点満点）：小数第1位までの数値',
+  ],
+  step4: [
+    'AGCの事業価値×参入確率に基づく魅力度：高／中（戦略要修正）／低 のいずれか',
+    'AGCの参入確率：高／中／低 のいずれか',
+    ...SCORE_AXES[4].map(axis => `${axis.label}（AGC視点）（${axis.weight}％）：1〜5の整数`),
+    '7項目の加重合計（100点満点）：小数第1位までの数値',
+  ],
+};
+
+function requiredFormat(step: RepairableStep): string {
+  if (step === 'step5') {
+    return [
+      `ヘッダー1行とデータ1行の TSV（タブ区切り、コードブロックや説明文なし）で出力してください。`,
+      `ヘッダーは次の${STEP5_HEADER.length}列をこの順に完全一致で並べ、データ行も同じ列数にしてください。`,
+      STEP5_HEADER.join('\t'),
+    ].join('\n');
+  }
+  return [
+    '元の出力の構成と本文は保ったまま、次の各項目を「項目名：値」の形で1行ずつ必ず含めてください。',
+    ...REQUIRED_LINES[step].map(line => `- ${line}`),
+  ].join('\n');
+}
+
+/**
+ * Repair prompt for an output that does not parse
+ */
+export function buildFormatRepairPrompt(step: RepairableStep, output: string, errors: string[]): string {
+  return `# 出力形式の修正
+以下は ${STEP_LABELS[step]} の出力ですが、所定の出力形式に従っていないため解析できませんでした。
+評価の内容（判定・スコア・根拠・本文）は変えずに、下記の形式に従って出力全体を書き直してください。
+前置きや修正内容の説明は付けず、修正後の出力のみを返してください。
+
+=== 解析エラー ===
+${errors.map(error => `- ${error}`).join('\n')}
+
+=== 必須の形式 ===
+${requiredFormat(step)}
+
+=== 元の出力 ===
+${output}`;
+}
+
+/**
+ * Send repair prompts until the output parses or the attempts run out
+ * The kept output is the first one with the fewest errors (the original on a tie);
+ * repair is null when the output parsed as is.
+ */
+export async function repairOutputFormat(
+  params: { step: RepairableStep; output: string; maxAttempts: number; now?: Date },
+  generate: (prompt: string) => Promise<string>
+): Promise<{ output: string; errors: string[]; repair: FormatRepairRecord | null }> {
+  const { step, output, maxAttempts } = params;
+  const originalErrors = getFormatErrors(step, output);
+  if (originalErrors.length === 0) {
+    return { output, errors: [], repair: null };
+  }
+
+  let best = { output, errors: originalErrors };
+  let current = best;
+  let attempts = 0;
+  while (attempts < maxAttempts && best.errors.length > 0) {
+    attempts++;
+    const repaired = await generate(buildFormatRepairPrompt(step, current.output, current.errors));
+    current = { output: repaired, errors: getFormatErrors(step, repaired) };
+    if (current.errors.length < best.errors.length) best = current;
+  }
+
+  return {
+    ...best,
+    repair: {
+      originalOutput: output,
+      originalErrors,
+      attempts,
+      errors: best.errors,
+      repairedAt: (params.now ?? new Date()).toISOString(),
+    },
+  };
+}
+
+/**
+ * Steps flagged as format violations after a step's repair (sorted by step)
+ */
+export function updateFormatViolations(
+  violations: readonly string[] | null | undefined,
+  step: RepairableStep,
+  violated: boolean
+): RepairableStep[] {
+  const others = (violations || []).filter((s): s is RepairableStep => s !== step && isRepairableStep(s));
+  return REPAIRABLE_STEPS.filter(s => s === step ? violated : others.includes(s));
+}
+
+function isRepairableStep(value: string): value is RepairableStep {
+  return (REPAIRABLE_STEPS as string[]).includes(value);
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRerunUpdate,
+  getHypothesisRevisions,
+  getRerunBlocker,
+  isRerunStep,
+} from './hypothesis-rerun';
+
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+
+const completedHypothesis = {
+  processingStatus: 'completed' as const,
+  errorMessage: null,
+  step2_2Output: 'report',
+  step3Output: 'step3',
+  step4Output: 'step4',
+  step5Output: 'step5',
+  fullData: {
+    raw: { title: 'h' },
+    deepResearchStartedAt: '2025-12-31T00:00:00.000Z',
+    stepModels: { step2_2: 'dr', step3: 'pro', step4: 'pro', step5: 'pro' },
+    stepInputs: { step3: { mode: 'inline', files: [] }, step4: { mode: 'inline', files: [] } },
+  },
+};
+
+describe('hypothesis-rerun', () => {
+  describe('isRerunStep', () => {
+    it('accepts step2_2 to step5 only', () => {
+      expect(isRerunStep('step2_2')).toBe(true);
+      expect(isRerunStep('step5')).toBe(true);
+      expect(isRerunStep('step2_1')).toBe(false);
+      expect(isRerunStep(3)).toBe(false);
+    });
+  });
+
+  describe('getRerunBlocker', () => {
+    it('allows completed and errored hypotheses', () => {
+      expect(getRerunBlocker(completedHypothesis, 'step4')).toBeNull();
+      expect(getRerunBlocker({ ...completedHypothesis, processingStatus: 'error' }, 'step2_2')).toBeNull();
+    });
+
+    it('rejects hypotheses that are still being processed', () => {
+      expect(getRerunBlocker({ ...completedHypothesis, processingStatus: 'step3' }, 'step3')).toMatch(/still being processed/);
+    });
+
+    it('requires an output of the previous step', () => {
+      const failedAtStep4 = { ...completedHypothesis, processingStatus: 'error' as const, step4Output: null, step5Output: null };
+      expect(getRerunBlocker(failedAtStep4, 'step4')).toBeNull();
+      expect(getRerunBlocker(failedAtStep4, 'step5')).toMatch(/step4 has no output/);
+    });
+  });
+
+  describe('buildRerunUpdate', () => {
+    it('clears the step and later outputs and keeps them as a revision', () => {
+      const { update, revision, clearedScoreSteps } = buildRerunUpdate(completedHypothesis, 'step4', NOW);
+
+      expect(update).toMatchObject({
+        step4Output: null,
+        step5Output: null,
+        processingStatus: 'step2_2',
+        currentInteractionId: null,
+        errorMessage: null,
+      });
+      expect(update).not.toHaveProperty('step3Output');
+      expect(revision).toEqual({
+        revisedAt: '2026-01-01T00:00:00.000Z',
+        fromStep: 'step4',
+        processingStatus: 'completed',
+        outputs: { step4Output: 'step4', step5Output: 'step5' },
+        stepModels: completedHypothesis.fullData.stepModels,
+        stepInputs: completedHypothesis.fullData.stepInputs,
+      });
+      expect(clearedScoreSteps).toEqual([4]);
+    });
+
+    it('keeps the records of the steps that are not re-run', () => {
+      const { update } = buildRerunUpdate(completedHypothesis, 'step4', NOW);
+
+      expect(update.fullData.stepModels).toEqual({ step2_2: 'dr', step3: 'pro' });
+      expect(update.fullData.stepInputs).toEqual({ step3: { mode: 'inline', files: [] } });
+      expect(update.fullData.raw).toEqual({ title: 'h' });
+      expect(update.fullData.deepResearchStartedAt).toBe('2025-12-31T00:00:00.000Z');
+    });
+
+    it('drops the format violations and repairs of the cleared steps', () => {
+      const { update } = buildRerunUpdate({
+        ...completedHypothesis,
+        formatViolations: ['step3', 'step5'],
+        fullData: { ...completedHypothesis.fullData, formatRepairs: { step3: { attempts: 1 }, step5: { attempts: 2 } } },
+      }, 'step4', NOW);
+
+      expect(update.formatViolations).toEqual(['step3']);
+      expect(update.fullData.formatRepairs).toEqual({ step3: { attempts: 1 } });
+    });
+
+    it('sends a step2_2 rerun back to pending without the Deep Research state', () => {
+      const { update, clearedScoreSteps } = buildRerunUpdate(completedHypothesis, 'step2_2', NOW);
+
+      expect(update.processingStatus).toBe('pending');
+      expect(update.step2_2Output).toBeNull();
+      expect(update.fullData).not.toHaveProperty('deepResearchStartedAt');
+      expect(update.fullData.stepModels).toEqual({});
+      expect(clearedScoreSteps).toEqual([3, 4]);
+    });
+
+    it('appends to earlier revisions and records the error being replaced', () => {
+      const first = buildRerunUpdate(completedHypothesis, 'step5', NOW);
+      const failed = {
+        ...completedHypothesis,
+        processingStatus: 'error' as const,
+        errorMessage: 'Step 5 failed',
+        step5Output: null,
+        fullData: first.update.fullData,
+      };
+      const second = buildRerunUpdate(failed, 'step5', NOW);
+
+      const revisions = getHypothesisRevisions(second.update.fullData);
+      expect(revisions).toHaveLength(2);
+      expect(revisions[1]).toMatchObject({ processingStatus: 'error', errorMessage: 'Step 5 failed', outputs: {} });
+      expect(second.clearedScoreSteps).toEqual([]);
+    });
+  });
+
+  describe('getHypothesisRevisions', () => {
+    it('returns an empty list without revisions', () => {
+      expect(getHypothesisRevisions(null)).toEqual([]);
+      expect(getHypothesisRevisions({ revisions: 'invalid' })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Hypothesis Rerun - re-run one hypothesis from Step 2-2, 3, 4 or 5
+ *
+ * Outputs of the chosen step and later are cleared and moved into
+ * fullData.revisions, and processingStatus is set so that executeNextStep
+ * picks the hypothesis up again:
+ * - step2_2: 'pending' (a new Deep Research is started)
+ * - step3-5: 'step2_2' with its report kept (evaluation resumes at the first
+ *   step without an output)
+ * Format violations and repairs of the cleared steps are dropped with them.
+ */
+
+import type { HypothesisData, HypothesisProcessingStatus } from './pipeline-core';
+import type { ScoreStep } from './hypothesis-scores';
+
+export const RERUN_STEPS = ['step2_2', 'step3', 'step4', 'step5'] as const;
+
+export type RerunStep = (typeof RERUN_STEPS)[number];
+
+export const RERUN_STEP_LABELS: Record<RerunStep, string> = {
+  step2_2: 'S2-2 詳細調査',
+  step3: 'S3 技術評価',
+  step4: 'S4 参入魅力度',
+  step5: 'S5 統合評価',
+};
+
+type OutputKey = 'step2_2Output' | 'step3Output' | 'step4Output' | 'step5Output';
+
+const OUTPUT_KEYS: Record<RerunStep, OutputKey> = {
+  step2_2: 'step2_2Output',
+  step3: 'step3Output',
+  step4: 'step4Output',
+  step5: 'step5Output',
+};
+
+/**
+ * Outputs replaced by a rerun, kept in fullData.revisions (oldest first)
+ */
+export interface HypothesisRevision {
+  revisedAt: string;
+  fromStep: RerunStep;
+  processingStatus: HypothesisProcessingStatus | null;
+  errorMessage?: string;
+  outputs: Partial<Record<OutputKey, string>>;
+  stepModels?: unknown;
+  stepInputs?: unknown;
+  formatRepairs?: unknown;
+}
+
+/**
+ * Columns set on the hypothesis by a rerun
+ */
+export interface HypothesisRerunUpdate extends Partial<Record<OutputKey, null>> {
+  processingStatus: HypothesisProcessingStatus;
+  currentInteractionId: null;
+  errorMessage: null;
+  formatViolations: string[];
+  fullData: Record<string, unknown>;
+}
+
+type RerunSource = Pick<HypothesisData, 'processingStatus' | 'errorMessage' | 'formatViolations' | OutputKey> & {
+  fullData?: unknown;
+};
+
+export function isRerunStep(value: unknown): value is RerunStep {
+  return typeof value === 'string' && (RERUN_STEPS as readonly string[]).includes(value);
+}
+
+/**
+ * Why the hypothesis cannot be re-run from the step (null when it can)
+ * Only finished hypotheses are re-run, and the step before fromStep must have an output.
+ */
+export function getRerunBlocker(hypothesis: RerunSource, fromStep: RerunStep): string | null {
+  if (hypothesis.processingStatus !== 'completed' && hypothesis.processingStatus !== 'error') {
+    return `Hypothesis is still being processed (${hypothesis.processingStatus})`;
+  }
+
+  const index = RERUN_STEPS.indexOf(fromStep);
+  if (index > 0) {
+    const previous = RERUN_STEPS[index - 1];
+    if (!hypothesis[OUTPUT_KEYS[previous]]) {
+      return `Cannot rerun from ${fromStep}: ${previous} has no output`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the hypothesis update for a rerun
+ * Returns the columns to set and the Step 3 / Step 4 scores to delete.
+ */
+export function buildRerunUpdate(
+  hypothesis: RerunSource,
+  fromStep: RerunStep,
+  now: Date = new Date()
+): {
+  update: HypothesisRerunUpdate;
+  revision: HypothesisRevision;
+  clearedScoreSteps: ScoreStep[];
+} {
+  const cleared = RERUN_STEPS.slice(RERUN_STEPS.indexOf(fromStep));
+
+  const outputs: HypothesisRevision['outputs'] = {};
+  for (const step of cleared) {
+    const value = hypothesis[OUTPUT_KEYS[step]];
+    if (value) outputs[OUTPUT_KEYS[step]] = value;
+  }
+
+  const fullData = (hypothesis.fullData || {}) as Record<string, unknown> & {
+    revisions?: HypothesisRevision[];
+    stepModels?: Record<string, unknown>;
+    stepInputs?: Record<string, unknown>;
+    formatRepairs?: Record<string, unknown>;
+  };
+
+  const revision: HypothesisRevision = {
+    revisedAt: now.toISOString(),
+    fromStep,
+    processingStatus: hypothesis.processingStatus ?? null,
+    ...(hypothesis.errorMessage && { errorMessage: hypothesis.errorMessage }),
+    outputs,
+    ...(fullData.stepModels && { stepModels: fullData.stepModels }),
+    ...(fullData.stepInputs && { stepInputs: fullData.stepInputs }),
+    ...(fullData.formatRepairs && { formatRepairs: fullData.formatRepairs }),
+  };
+
+  // Drop the per-step records of the cleared steps; earlier ones still describe kept outputs
+  const omitCleared = (record?: Record<string, unknown>) =>
+    record && Object.fromEntries(Object.entries(record).filter(([key]) => !(cleared as readonly string[]).includes(key)));
+
+  const {
+    deepResearchHandle: _handle,
+    deepResearchStartedAt: _startedAt,
+    deepResearchRestarts: _restarts,
+    ...rest
+  } = fullData;
+
+  const nextFullData = {
+    ...(fromStep === 'step2_2' ? rest : fullData),
+    stepModels: omitCleared(fullData.stepModels),
+    stepInputs: omitCleared(fullData.stepInputs),
+    formatRepairs: omitCleared(fullData.formatRepairs),
+    revisions: [...(fullData.revisions || []), revision],
+  };
+
+  const update: HypothesisRerunUpdate = {
+    ...Object.fromEntries(cleared.map(step => [OUTPUT_KEYS[step], null])),
+    processingStatus: fromStep === 'step2_2' ? 'pending' : 'step2_2',
+    currentInteractionId: null,
+    errorMessage: null,
+    formatViolations: (hypothesis.formatViolations || []).filter(step => !(cleared as readonly string[]).includes(step)),
+    fullData: nextFullData,
+  };
+
+  const clearedScoreSteps = ([3, 4] as ScoreStep[]).filter(step =>
+    (cleared as readonly string[]).includes(`step${step}`)
+  );
+
+  return { update, revision, clearedScoreSteps };
+}
+
+/**
+ * Revisions recorded in fullData
+ */
+export function getHypothesisRevisions(fullData: unknown): HypothesisRevision[] {
+  const revisions = (fullData as { revisions?: unknown } | null)?.revisions;
+  return Array.isArray(revisions) ? (revisions as HypothesisRevision[]) : [];
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { buildScoreRecord, parseScoreQuery } from './hypothesis-scores';
+
+const STEP3_OUTPUT = `
+- 当該テーマの魅力度：中（戦略要修正）
+- 8項目の加重合計（100点満点）：80.0
+- 科学的妥当性（20％）：4
+- 製造実現性（15％）：3
+- 性能優位（20％）：5
+- 粗利率（20％）：4
+- 市場魅力度（10％）：4
+- 規制・安全環境（5％）：4
+- 知財防衛（5％）：3
+- 戦略適合（5％）：4
+`;
+
+const STEP4_OUTPUT = `
+- AGCの事業価値×参入確率に基づく魅力度：低
+- AGCの参入確率：中
+- 資産転用性（AGC視点）（20％）：2
+- 投資・運転と回収見通し（AGC視点）（20％）：2
+- サプライチェーン実現性（AGC視点）（15％）：3
+- 規制・安全適合（AGC視点）（15％）：3
+- FTO／知財自由度（AGC視点）（10％）：1
+- チャネル適合（AGC視点）（10％）：2
+- パートナー入手性（AGC視点）（10％）：2
+`;
+
+describe('hypothesis-scores', () => {
+  describe('buildScoreRecord', () => {
+    it('extracts verdict, total and axes from Step 3', () => {
+      const record = buildScoreRecord(3, STEP3_OUTPUT);
+
+      expect(record).toMatchObject({
+        step: 3,
+        verdict: '中（戦略要修正）',
+        entryProbability: null,
+        weightedTotal: 80,
+        parseErrors: [],
+      });
+      expect(record.axisScores.performanceAdvantage).toBe(5);
+    });
+
+    it('recalculates a missing Step 4 total and keeps the parse error', () => {
+      const record = buildScoreRecord(4, STEP4_OUTPUT);
+
+      expect(record.entryProbability).toBe('中');
+      expect(record.weightedTotal).toBe(44);
+      expect(record.parseErrors).toEqual(['7項目の加重合計を抽出できませんでした']);
+    });
+
+    it('flags a reported total that disagrees with the axes', () => {
+      const record = buildScoreRecord(3, STEP3_OUTPUT.replace('80.0', '78.0'));
+
+      expect(record.weightedTotal).toBe(78);
+      expect(record.parseErrors[0]).toContain('計算値: 80');
+    });
+
+    it('records every missing item for unparseable output', () => {
+      const record = buildScoreRecord(3, '評価できませんでした');
+
+      expect(record.verdict).toBeNull();
+      expect(record.weightedTotal).toBeNull();
+      expect(record.parseErrors).toHaveLength(10);
+    });
+  });
+
+  describe('parseScoreQuery', () => {
+    it('parses sort, order, verdict and range filters', () => {
+      const result = parseScoreQuery(new URLSearchParams(
+        'sort=step4.channelFit&order=asc&step3.verdict=高&step3.verdict=中（戦略要修正）&step3.weightedTotal.min=60&runId=1'
+      ));
+
+      expect(result).toEqual({
+        query: {
+          sort: { step: 4, key: 'channelFit' },
+          order: 'asc',
+          filters: [
+            { field: { step: 3, key: 'verdict' }, op: 'in', values: ['高', '中（戦略要修正）'] },
+            { field: { step: 3, key: 'weightedTotal' }, op: 'min', value: 60 },
+          ],
+        },
+      });
+    });
+
+    it('defaults to no sort, descending, no filters', () => {
+      expect(parseScoreQuery(new URLSearchParams())).toEqual({
+        query: { sort: null, order: 'desc', filters: [] },
+      });
+    });
+
+    it('rejects unknown fields and invalid values', () => {
+      expect(parseScoreQuery(new URLSearchParams('sort=step3.channelFit'))).toEqual({
+        error: 'Unknown sort field: step3.channelFit',
+      });
+      expect(parseScoreQuery(new URLSearchParams('step3.entryProbability=高'))).toHaveProperty('error');
+      expect(parseScoreQuery(new URLSearchParams('step3.verdict.min=1'))).toHaveProperty('error');
+      expect(parseScoreQuery(new URLSearchParams('step4.weightedTotal=80'))).toHaveProperty('error');
+      expect(parseScoreQuery(new URLSearchParams('step4.weightedTotal.max=abc'))).toHaveProperty('error');
+      expect(parseScoreQuery(new URLSearchParams('order=up'))).toHaveProperty('error');
+    });
+  });
+});
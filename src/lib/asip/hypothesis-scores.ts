@@ -0,0 +1,226 @@
+/**
+ * Hypothesis Scores - Step 3 / Step 4 evaluations parsed into hypothesis_scores rows
+ *
+ * Scores are parsed when each step completes. Parse failures are kept in
+ * parseErrors instead of failing the hypothesis, so a ranking can still be
+ * built from whatever was extracted. Scores come from the structured response
+ * when the provider returned one (structured-scores.ts), otherwise from the
+ * regex parsers.
+ */
+
+import {
+  parseStep3Output,
+  parseStep4Output,
+  calculateStep3WeightedTotal,
+  calculateStep4WeightedTotal,
+  type Step3ParsedData,
+  type Step4ParsedData,
+} from '@/lib/parsers';
+
+export type ScoreStep = 3 | 4;
+
+/**
+ * How the scores were extracted: validated structured response or regex parsers on the report
+ */
+export type ScoreSource = 'structured' | 'regex';
+
+export interface ScoreAxis {
+  key: string;
+  label: string;
+  weight: number;
+}
+
+/**
+ * Axes per step (keys match Step3ParsedData / Step4ParsedData scores)
+ */
+export const SCORE_AXES: Record<ScoreStep, ScoreAxis[]> = {
+  3: [
+    { key: 'scientificValidity', label: '科学的妥当性', weight: 20 },
+    { key: 'manufacturingFeasibility', label: '製造実現性', weight: 15 },
+    { key: 'performanceAdvantage', label: '性能優位', weight: 20 },
+    { key: 'grossMargin', label: '粗利率', weight: 20 },
+    { key: 'marketAttractiveness', label: '市場魅力度', weight: 10 },
+    { key: 'regulatorySafety', label: '規制・安全環境', weight: 5 },
+    { key: 'ipProtection', label: '知財防衛', weight: 5 },
+    { key: 'strategicFit', label: '戦略適合', weight: 5 },
+  ],
+  4: [
+    { key: 'assetTransferability', label: '資産転用性', weight: 20 },
+    { key: 'investmentRecovery', label: '投資・運転と回収見通し', weight: 20 },
+    { key: 'supplyChainFeasibility', label: 'サプライチェーン実現性', weight: 15 },
+    { key: 'regulatoryCompliance', label: '規制・安全適合', weight: 15 },
+    { key: 'ftoIpFreedom', label: 'FTO／知財自由度', weight: 10 },
+    { key: 'channelFit', label: 'チャネル適合', weight: 10 },
+    { key: 'partnerAvailability', label: 'パートナー入手性', weight: 10 },
+  ],
+};
+
+/**
+ * Parsed scores for one hypothesis and step (one hypothesis_scores row)
+ */
+export interface HypothesisScoreRecord {
+  step: ScoreStep;
+  source: ScoreSource;
+  verdict: string | null;
+  entryProbability: string | null;
+  weightedTotal: number | null;
+  axisScores: Record<string, number | null>;
+  rationales: Record<string, string>; // Per-axis rationale (structured responses only)
+  parseErrors: string[];
+}
+
+/**
+ * Parse a Step 3 / Step 4 output into a score record
+ * A missing weighted total is recalculated from the axes; a reported total
+ * that disagrees with the axes is kept but flagged.
+ */
+export function buildScoreRecord(step: ScoreStep, output: string): HypothesisScoreRecord {
+  if (step === 3) {
+    const result = parseStep3Output(output);
+    const scores = result.data!.scores;
+    return withCheckedTotal({
+      step,
+      source: 'regex',
+      verdict: result.data!.attractiveness,
+      entryProbability: null,
+      weightedTotal: result.data!.weightedTotal,
+      axisScores: { ...scores },
+      rationales: {},
+      parseErrors: result.errors,
+    }, calculateStep3WeightedTotal(scores));
+  }
+
+  const result = parseStep4Output(output);
+  const scores = result.data!.scores;
+  return withCheckedTotal({
+    step,
+    source: 'regex',
+    verdict: result.data!.attractiveness,
+    entryProbability: result.data!.entryProbability,
+    weightedTotal: result.data!.weightedTotal,
+    axisScores: { ...scores },
+    rationales: {},
+    parseErrors: result.errors,
+  }, calculateStep4WeightedTotal(scores));
+}
+
+/**
+ * Score record of a validated structured response (every axis present)
+ * The reported weighted total is checked against the axes like parsed ones.
+ */
+export function buildStructuredScoreRecord(
+  step: ScoreStep,
+  fields: Pick<HypothesisScoreRecord, 'verdict' | 'entryProbability' | 'weightedTotal' | 'axisScores' | 'rationales'>
+): HypothesisScoreRecord {
+  const calculated = step === 3
+    ? calculateStep3WeightedTotal(fields.axisScores as Step3ParsedData['scores'])
+    : calculateStep4WeightedTotal(fields.axisScores as Step4ParsedData['scores']);
+  return withCheckedTotal({ step, source: 'structured', ...fields, parseErrors: [] }, calculated);
+}
+
+function withCheckedTotal(record: HypothesisScoreRecord, calculated: number | null): HypothesisScoreRecord {
+  if (calculated === null) return record;
+  if (record.weightedTotal === null) {
+    return { ...record, weightedTotal: calculated };
+  }
+  if (Math.abs(record.weightedTotal - calculated) > 0.1) {
+    return {
+      ...record,
+      parseErrors: [
+        ...record.parseErrors,
+        `加重合計が各軸スコアからの計算値と一致しません（出力: ${record.weightedTotal}、計算値: ${calculated}）`,
+      ],
+    };
+  }
+  return record;
+}
+
+// ============================================
+// Sort / filter query (GET .../hypotheses?sort=step3.weightedTotal&order=desc&step3.verdict=高)
+// ============================================
+
+/**
+ * A sortable / filterable field: weightedTotal, verdict, entryProbability (Step 4) or an axis key
+ */
+export interface ScoreField {
+  step: ScoreStep;
+  key: string;
+}
+
+export type ScoreFilter =
+  | { field: ScoreField; op: 'in'; values: string[] }
+  | { field: ScoreField; op: 'min' | 'max'; value: number };
+
+export interface ScoreQuery {
+  sort: ScoreField | null;
+  order: 'asc' | 'desc';
+  filters: ScoreFilter[];
+}
+
+const TEXT_KEYS = ['verdict', 'entryProbability'];
+
+/**
+ * Whether the key is a numeric field (weighted total or axis) of the step
+ */
+export function isNumericScoreKey(step: ScoreStep, key: string): boolean {
+  return key === 'weightedTotal' || SCORE_AXES[step].some(axis => axis.key === key);
+}
+
+function parseScoreField(name: string): ScoreField | null {
+  const match = name.match(/^step([34])\.(\w+)$/);
+  if (!match) return null;
+
+  const step = Number(match[1]) as ScoreStep;
+  const key = match[2];
+  if (key === 'entryProbability' && step !== 4) return null;
+  if (!TEXT_KEYS.includes(key) && !isNumericScoreKey(step, key)) return null;
+  return { step, key };
+}
+
+/**
+ * Parse sort / filter query parameters
+ * - sort=step3.weightedTotal | step4.channelFit | ... , order=asc|desc (default desc)
+ * - step3.verdict=高 (repeatable), step4.entryProbability=中
+ * - step3.weightedTotal.min=60, step4.ftoIpFreedom.max=2
+ * Unrelated parameters are ignored; invalid score parameters return an error message.
+ */
+export function parseScoreQuery(params: URLSearchParams): { query: ScoreQuery } | { error: string } {
+  const query: ScoreQuery = { sort: null, order: 'desc', filters: [] };
+
+  const sort = params.get('sort');
+  if (sort) {
+    const field = parseScoreField(sort);
+    if (!field) return { error: `Unknown sort field: ${sort}` };
+    query.sort = field;
+  }
+
+  const order = params.get('order');
+  if (order) {
+    if (order !== 'asc' && order !== 'desc') return { error: `Invalid order: ${order}` };
+    query.order = order;
+  }
+
+  for (const name of new Set(params.keys())) {
+    if (!name.startsWith('step')) continue;
+
+    const bound = name.match(/^(.+)\.(min|max)$/);
+    const field = parseScoreField(bound ? bound[1] : name);
+    if (!field) return { error: `Unknown score filter: ${name}` };
+
+    if (bound) {
+      if (!isNumericScoreKey(field.step, field.key)) {
+        return { error: `Range filter requires a numeric field: ${name}` };
+      }
+      const value = Number(params.get(name));
+      if (isNaN(value)) return { error: `Invalid number for ${name}` };
+      query.filters.push({ field, op: bound[2] as 'min' | 'max', value });
+    } else {
+      if (isNumericScoreKey(field.step, field.key)) {
+        return { error: `Use ${name}.min / ${name}.max for numeric fields` };
+      }
+      query.filters.push({ field, op: 'in', values: params.getAll(name) });
+    }
+  }
+
+  return { query };
+}
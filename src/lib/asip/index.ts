@@ -16,6 +16,7 @@ export {
   structureHypothesesWithAI,
   type DatabaseOperations,
   type AIOperations,
+  type ResponseSchema,
   type PipelineDependencies,
   type RunData,
   type ResourceData,
@@ -28,6 +29,7 @@ export {
 // Adapters
 export { createDatabaseAdapter } from './db-adapter';
 export { createAIAdapter } from './ai-adapter';
+export { createOpenAICompatibleAdapter, type OpenAICompatibleAdapterOptions } from './openai-compatible-adapter';
 
 // Utilities
 export {
@@ -53,6 +55,306 @@ export {
   formatPrompt,
 } from './prompts';
 
+// Prompt snapshot (active prompt versions pinned per run)
+export {
+  buildPromptSnapshot,
+  getSnapshotPrompt,
+  renderStepPrompt,
+  type ActivePromptVersion,
+  type PromptSnapshot,
+  type PromptSnapshotEntry,
+} from './prompt-snapshot';
+
+// Model selection (modelChoice -> per-step model)
+export {
+  STEP_MODEL_MAP,
+  DEEP_RESEARCH_MODEL,
+  resolveStepModel,
+  type ModelChoice,
+  type GenerationStep,
+  type StepModels,
+} from './model-selection';
+
+// Execution timing (runs.executionTiming)
+export {
+  TIMING_STEPS,
+  TIMING_STEP_LABELS,
+  createTimingRecorder,
+  appendTimingEntries,
+  summarizeExecutionTiming,
+  getTimingRange,
+  type TimingStep,
+  type TimingOutcome,
+  type TimingEntry,
+  type ExecutionTiming,
+  type StepTimingSummary,
+  type TimingRecorder,
+} from './execution-timing';
+
+// Debug prompts (runs.debugPrompts / hypotheses.debugPrompts)
+export {
+  DEBUG_PROMPT_STEP_LABELS,
+  buildDebugPromptEntry,
+  normalizeDebugPrompts,
+  mergeDebugPrompts,
+  type DebugPromptEntry,
+  type DebugPromptAttachment,
+} from './debug-prompts';
+
+// Integrated list (runs.integratedList)
+export {
+  buildIntegratedList,
+  integratedListToTable,
+  sortIntegratedRows,
+  type IntegratedList,
+  type IntegratedListRow,
+  type SortDirection,
+} from './integrated-list';
+
+// Hypothesis scores (hypothesis_scores)
+export {
+  SCORE_AXES,
+  buildScoreRecord,
+  buildStructuredScoreRecord,
+  parseScoreQuery,
+  isNumericScoreKey,
+  type ScoreStep,
+  type ScoreSource,
+  type ScoreAxis,
+  type HypothesisScoreRecord,
+  type ScoreField,
+  type ScoreFilter,
+  type ScoreQuery,
+} from './hypothesis-scores';
+
+// Structured Step 3 / 4 scores (response schema + zod validation)
+export {
+  evaluationResponseSchema,
+  parseStructuredEvaluation,
+  scoreEvaluationResponse,
+  type StructuredEvaluationResult,
+} from './structured-scores';
+
+// Self-repair of Step 3 / 4 / 5 outputs that do not parse
+export {
+  REPAIRABLE_STEPS,
+  getFormatRepairConfig,
+  getFormatErrors,
+  buildFormatRepairPrompt,
+  repairOutputFormat,
+  updateFormatViolations,
+  type RepairableStep,
+  type FormatRepairConfig,
+  type FormatRepairRecord,
+} from './format-repair';
+
+// Per-hypothesis rerun (POST /api/hypotheses/[uuid]/rerun)
+export {
+  RERUN_STEPS,
+  RERUN_STEP_LABELS,
+  isRerunStep,
+  getRerunBlocker,
+  buildRerunUpdate,
+  getHypothesisRevisions,
+  type RerunStep,
+  type HypothesisRevision,
+  type HypothesisRerunUpdate,
+} from './hypothesis-rerun';
+
+// Evaluation step inputs (step_file_attachments -> fullData.stepInputs)
+export {
+  resolveAttachedFileIds,
+  buildStepInputFiles,
+  formatInlineInputs,
+  buildStepInputRecord,
+  type EvaluationStepNumber,
+  type StepAttachmentSettings,
+  type StepInputSources,
+  type StepInputFile,
+  type StepInputMode,
+  type StepInputRecord,
+  type StepInputs,
+} from './step-inputs';
+
+// Run execution lease
+export {
+  RUN_LEASE_TTL_MS,
+  createLeaseOwner,
+  getActiveRunLease,
+  type RunLease,
+  type RunLeaseResult,
+} from './run-lease';
+
+// Pipeline job queue (pipeline_jobs)
+export {
+  POLL_INTERVAL_MS,
+  BUSY_RETRY_MS,
+  JOB_LOCK_TTL_MS,
+  MAX_JOB_ATTEMPTS,
+  getJobKey,
+  getJobBackoffMs,
+  planPipelineJobs,
+  usesStandaloneWorker,
+  createMemoryJobQueue,
+  type PipelineJob,
+  type PipelineJobRequest,
+  type PipelineJobQueue,
+  type MemoryJobQueue,
+} from './pipeline-jobs';
+export {
+  JOB_TIME_MS,
+  WORKER_CONCURRENCY,
+  runPipelineJob,
+  drainPipelineJobs,
+  enqueueSuccessors,
+  sleepUnlessAborted,
+  type PipelineWorkerDependencies,
+  type JobOutcome,
+  type JobResult,
+  type DrainOptions,
+  type DrainSummary,
+} from './pipeline-worker';
+export { createJobQueue, findActiveRunsWithoutJobs } from './job-queue';
+export {
+  trackClaimedJobs,
+  releaseClaimedJobs,
+  runStandaloneWorker,
+  type StandaloneWorkerOptions,
+} from './standalone-worker';
+
+// Evaluation retries (fullData.retry)
+export {
+  MAX_EVALUATION_RETRIES,
+  getRetryDelayMs,
+  getHypothesisRetryState,
+  planRetry,
+  getRetryWaitMs,
+  formatRetryStatus,
+  type HypothesisRetryState,
+  type RetryDecision,
+} from './retry-policy';
+
+// Deep Research wall time limit
+export {
+  getDeepResearchTimeoutConfig,
+  getDeepResearchOvertime,
+  formatDeepResearchTimeoutMessage,
+  type DeepResearchStep,
+  type DeepResearchTimeoutConfig,
+  type TimedOutInteraction,
+} from './deep-research-timeout';
+
+// Run control (stop / pause / resume of in-flight Deep Research)
+export {
+  STOPPED_BY_USER_MESSAGE,
+  findLiveInteractions,
+  cancelRunInteractions,
+  recordPausedInteractions,
+  resumeRunInteractions,
+  type RunControlAction,
+  type RunControlDependencies,
+  type LiveInteraction,
+  type RunAuditInteraction,
+  type RunAuditEntry,
+} from './run-control';
+
+// File Search store GC
+export {
+  STORE_NAME_PREFIX,
+  DEFAULT_STORE_GC_GRACE_MS,
+  getStoreGcGraceMs,
+  collectOrphanedStores,
+  type FileSearchStoreInfo,
+  type FileSearchStoreClient,
+  type StoreGcDependencies,
+  type StoreGcOptions,
+  type CollectedStore,
+  type StoreGcReport,
+} from './store-gc';
+
+// Token usage and cost accounting
+export {
+  DEFAULT_PRICE_TABLE,
+  getPriceTable,
+  estimateCost,
+  sumUsage,
+  summarizeRunUsage,
+  summarizeProjectUsage,
+  formatCost,
+  formatTokens,
+  type TokenUsage,
+  type UsageRecord,
+  type ModelPrice,
+  type PriceTable,
+  type UsageTotals,
+  type UsageGroup,
+  type RunUsageSummary,
+  type ProjectUsageSummary,
+} from './cost-accounting';
+
+// AI provider per project
+export {
+  AI_PROVIDERS,
+  AI_PROVIDER_LABELS,
+  isAIProvider,
+  withRunAI,
+  type AIProvider,
+  type AISelector,
+} from './ai-provider';
+
+// Emulated Deep Research (OpenAI-compatible providers)
+export {
+  MAX_RESEARCH_QUESTIONS,
+  startResearchJob,
+  advanceResearchJob,
+  toDeepResearchStatus,
+  parseResearchQuestions,
+  type ResearchJob,
+  type ResearchJobStatus,
+  type ResearchJobStore,
+  type ResearchFile,
+  type ResearchCompletion,
+  type EmulatedResearchDependencies,
+} from './emulated-research';
+
+// Run cost estimate and budget cap
+export {
+  BUDGET_EXCEEDED_MESSAGE,
+  BUDGET_UNPRICED_MESSAGE,
+  estimateRunCost,
+  parseBudgetUsd,
+  getRunSpend,
+  pauseIfOverBudget,
+  checkDeepResearchBudget,
+  type BudgetPauseReason,
+  type RunSpend,
+  type StepUsageAverage,
+  type EstimatedStep,
+  type RunCostEstimateInput,
+  type StepCostEstimate,
+  type RunCostEstimate,
+  type BudgetDependencies,
+} from './run-budget';
+
+// AI cassettes (record / replay of AI calls)
+export {
+  DEFAULT_CASSETTE_PATH,
+  getCassetteConfig,
+  cassetteKey,
+  createFileCassetteStore,
+  createMemoryCassetteStore,
+  createRecordingAdapter,
+  createReplayAdapter,
+  withCassette,
+  type CassetteMode,
+  type CassetteConfig,
+  type CassetteEntryKind,
+  type CassetteEntry,
+  type Cassette,
+  type CassetteStore,
+  type CassetteOptions,
+} from './ai-cassette';
+
 // Errors
 export {
   ASIPError,
@@ -67,4 +369,6 @@ export {
   isASIPError,
   getErrorMessage,
   wrapError,
+  classifyGeminiError,
+  isRetryableError,
 } from './errors';
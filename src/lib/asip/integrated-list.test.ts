@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { STEP5_HEADER } from '@/lib/parsers';
+import type { HypothesisProcessingStatus } from './pipeline-core';
+import { buildIntegratedList, integratedListToTable, sortIntegratedRows } from './integrated-list';
+
+const TOTAL = '8項目の加重合計（100点満点）';
+
+function step5Output(title: string, total: string): string {
+  const values = STEP5_HEADER.map(column => (column === '仮説タイトル' ? title : column === TOTAL ? total : 'x'));
+  return `${STEP5_HEADER.join('\t')}\n${values.join('\t')}`;
+}
+
+function hypothesis(n: number, step5: string | null, processingStatus: HypothesisProcessingStatus = 'completed') {
+  return {
+    uuid: `h${n}`,
+    hypothesisNumber: n,
+    loopNumber: 1,
+    displayTitle: `仮説${n}`,
+    step5Output: step5,
+    processingStatus,
+  };
+}
+
+describe('integrated-list', () => {
+  const list = buildIntegratedList(
+    [
+      hypothesis(2, step5Output('B', '9.5')),
+      hypothesis(1, step5Output('A', '72')),
+      hypothesis(3, null, 'error'),
+    ],
+    new Date('2026-01-01T00:00:00Z')
+  );
+
+  it('builds one row per hypothesis in number order', () => {
+    expect(list.columns).toEqual([...STEP5_HEADER]);
+    expect(list.generatedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(list.rows.map(r => r.hypothesisNumber)).toEqual([1, 2, 3]);
+    expect(list.rows[0].values?.[TOTAL]).toBe('72');
+    expect(list.rows[2]).toMatchObject({
+      values: null,
+      errors: ['処理エラーのためStep5の出力がありません'],
+    });
+  });
+
+  it('converts to a download table keeping rows without Step 5 values', () => {
+    const table = integratedListToTable(list);
+
+    expect(table.header).toEqual(['番号', ...STEP5_HEADER]);
+    expect(table.rows[0][1]).toBe('A');
+    expect(table.rows[2].slice(0, 3)).toEqual(['3', '仮説3', '']);
+  });
+
+  it('sorts numeric columns as numbers with empty cells last', () => {
+    const desc = sortIntegratedRows(list.rows, TOTAL, 'desc');
+    const asc = sortIntegratedRows(list.rows, TOTAL, 'asc');
+
+    expect(desc.map(r => r.hypothesisNumber)).toEqual([1, 2, 3]);
+    expect(asc.map(r => r.hypothesisNumber)).toEqual([2, 1, 3]);
+    expect(sortIntegratedRows(list.rows, null, 'asc')).toBe(list.rows);
+  });
+});
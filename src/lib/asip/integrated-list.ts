@@ -0,0 +1,117 @@
+/**
+ * Integrated List - Step 5 rows of all hypotheses, stored in runs.integratedList
+ *
+ * Built when a run completes. Downloads and the integrated-list tab read it;
+ * runs completed before it existed are rebuilt on the fly from step5Output.
+ */
+
+import { parseStep5Output, STEP5_HEADER, STEP5_NUMERIC_COLUMNS } from '@/lib/parsers';
+import type { HypothesisData } from './pipeline-core';
+
+/**
+ * One hypothesis row (values is null when Step 5 output is missing or unreadable)
+ */
+export interface IntegratedListRow {
+  hypothesisUuid: string;
+  hypothesisNumber: number;
+  loopNumber: number;
+  title: string;
+  values: Record<string, string> | null;
+  errors: string[];
+}
+
+/**
+ * Integrated list stored in runs.integratedList
+ */
+export interface IntegratedList {
+  columns: string[];
+  rows: IntegratedListRow[];
+  generatedAt: string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+type IntegratedListSource = Pick<
+  HypothesisData,
+  'uuid' | 'hypothesisNumber' | 'loopNumber' | 'displayTitle' | 'step5Output' | 'processingStatus'
+>;
+
+/**
+ * Build the integrated list from hypotheses (sorted by hypothesis number)
+ */
+export function buildIntegratedList(
+  hypotheses: IntegratedListSource[],
+  generatedAt: Date = new Date()
+): IntegratedList {
+  const rows = [...hypotheses]
+    .sort((a, b) => a.hypothesisNumber - b.hypothesisNumber)
+    .map((h): IntegratedListRow => {
+      const base = {
+        hypothesisUuid: h.uuid,
+        hypothesisNumber: h.hypothesisNumber,
+        loopNumber: h.loopNumber ?? 1,
+        title: h.displayTitle || '',
+      };
+
+      if (!h.step5Output) {
+        const reason = h.processingStatus === 'error' ? '処理エラーのためStep5の出力がありません' : 'Step5の出力がありません';
+        return { ...base, values: null, errors: [reason] };
+      }
+
+      const result = parseStep5Output(h.step5Output);
+      return { ...base, values: result.data?.values ?? null, errors: result.errors };
+    });
+
+  return {
+    columns: [...STEP5_HEADER],
+    rows,
+    generatedAt: generatedAt.toISOString(),
+  };
+}
+
+/**
+ * Convert to a plain table for TSV/CSV downloads
+ * Rows without Step 5 values keep the number and title so every hypothesis is listed.
+ */
+export function integratedListToTable(list: IntegratedList): { header: string[]; rows: string[][] } {
+  const [titleColumn] = list.columns;
+
+  return {
+    header: ['番号', ...list.columns],
+    rows: list.rows.map(row => [
+      String(row.hypothesisNumber),
+      ...list.columns.map(column =>
+        row.values?.[column] ?? (column === titleColumn ? row.title : '')
+      ),
+    ]),
+  };
+}
+
+/**
+ * Sort rows by a column (numeric columns compare as numbers, empty cells always last)
+ */
+export function sortIntegratedRows(
+  rows: IntegratedListRow[],
+  column: string | null,
+  direction: SortDirection
+): IntegratedListRow[] {
+  if (!column) return rows;
+
+  const sign = direction === 'asc' ? 1 : -1;
+  const numeric = STEP5_NUMERIC_COLUMNS.has(column);
+  const valueOf = (row: IntegratedListRow) => row.values?.[column] ?? '';
+
+  return [...rows].sort((a, b) => {
+    const av = valueOf(a);
+    const bv = valueOf(b);
+    if (!av || !bv) return av ? -1 : bv ? 1 : 0;
+
+    if (numeric) {
+      const an = parseFloat(av);
+      const bn = parseFloat(bv);
+      if (isNaN(an) || isNaN(bn)) return isNaN(an) ? (isNaN(bn) ? 0 : 1) : -1;
+      return (an - bn) * sign;
+    }
+    return av.localeCompare(bv, 'ja') * sign;
+  });
+}
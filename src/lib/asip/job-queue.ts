@@ -0,0 +1,160 @@
+/**
+ * Postgres storage for pipeline jobs (pipeline_jobs)
+ *
+ * Due jobs are selected FOR UPDATE SKIP LOCKED and locked for one worker, so
+ * concurrent workers (worker endpoint, cron, process route, other instances)
+ * never claim the same job.
+ */
+
+import { and, asc, eq, inArray, isNull, lte, min, notExists, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { pipelineJobs, runs, type PipelineJobRow } from '@/lib/db/schema';
+import type { PipelinePhase } from './step-executor';
+import { JOB_LOCK_TTL_MS, getJobKey, type PipelineJob, type PipelineJobQueue } from './pipeline-jobs';
+
+function toJob(row: PipelineJobRow): PipelineJob {
+  return {
+    id: row.id,
+    runId: row.runId,
+    hypothesisUuid: row.hypothesisUuid,
+    phase: row.phase as PipelinePhase,
+    attempt: row.attempt,
+    runAfter: row.runAfter.toISOString(),
+    lockedBy: row.lockedBy,
+    lockedUntil: row.lockedUntil?.toISOString() ?? null,
+    lastError: row.lastError,
+    enqueuedAt: row.enqueuedAt.toISOString(),
+  };
+}
+
+/**
+ * Jobs that are not locked by a live worker
+ */
+function unlocked(now: Date): SQL {
+  return or(isNull(pipelineJobs.lockedUntil), lte(pipelineJobs.lockedUntil, now))!;
+}
+
+export function createJobQueue(): PipelineJobQueue {
+  return {
+    async enqueue(requests, now) {
+      for (const request of requests) {
+        const values = {
+          jobKey: getJobKey(request),
+          runId: request.runId,
+          hypothesisUuid: request.hypothesisUuid ?? null,
+          phase: request.phase,
+          runAfter: new Date(now.getTime() + (request.delayMs ?? 0)),
+          enqueuedAt: now,
+        };
+
+        if (request.hypothesisUuid) {
+          await db.insert(pipelineJobs).values(values).onConflictDoNothing({ target: pipelineJobs.jobKey });
+          continue;
+        }
+
+        // Bumping enqueued_at keeps a job that is running right now from being deleted on completion
+        await db
+          .insert(pipelineJobs)
+          .values(values)
+          .onConflictDoUpdate({
+            target: pipelineJobs.jobKey,
+            set: {
+              phase: values.phase,
+              runAfter: sql`least(${pipelineJobs.runAfter}, excluded.run_after)`,
+              enqueuedAt: sql`greatest(excluded.enqueued_at, ${pipelineJobs.enqueuedAt} + interval '1 millisecond')`,
+            },
+          });
+      }
+    },
+
+    async claim(workerId, limit, now, options = {}) {
+      return db.transaction(async (tx) => {
+        const due = await tx
+          .select({ id: pipelineJobs.id })
+          .from(pipelineJobs)
+          .where(
+            and(
+              lte(pipelineJobs.runAfter, now),
+              unlocked(now),
+              options.runId !== undefined ? eq(pipelineJobs.runId, options.runId) : undefined
+            )
+          )
+          .orderBy(asc(pipelineJobs.runAfter))
+          .limit(limit)
+          .for('update', { skipLocked: true });
+
+        const claimed: PipelineJob[] = [];
+        for (const { id } of due) {
+          const [row] = await tx
+            .update(pipelineJobs)
+            .set({
+              attempt: sql`${pipelineJobs.attempt} + 1`,
+              lockedBy: workerId,
+              lockedUntil: new Date(now.getTime() + JOB_LOCK_TTL_MS),
+            })
+            .where(eq(pipelineJobs.id, id))
+            .returning();
+          claimed.push(toJob(row));
+        }
+        return claimed;
+      });
+    },
+
+    async complete(job) {
+      const deleted = await db
+        .delete(pipelineJobs)
+        .where(and(eq(pipelineJobs.id, job.id), eq(pipelineJobs.enqueuedAt, new Date(job.enqueuedAt))))
+        .returning({ id: pipelineJobs.id });
+
+      if (deleted.length === 0) {
+        await db
+          .update(pipelineJobs)
+          .set({ lockedBy: null, lockedUntil: null, attempt: 0 })
+          .where(eq(pipelineJobs.id, job.id));
+      }
+    },
+
+    async reschedule(job, runAfter, update) {
+      await db
+        .update(pipelineJobs)
+        .set({
+          runAfter,
+          attempt: update.attempt,
+          lastError: update.lastError ?? null,
+          lockedBy: null,
+          lockedUntil: null,
+        })
+        .where(eq(pipelineJobs.id, job.id));
+    },
+
+    async getNextRunAfter(now, options = {}) {
+      const [row] = await db
+        .select({ next: min(pipelineJobs.runAfter) })
+        .from(pipelineJobs)
+        .where(
+          and(
+            unlocked(now),
+            options.runId !== undefined ? eq(pipelineJobs.runId, options.runId) : undefined
+          )
+        );
+      return row?.next ?? null;
+    },
+  };
+}
+
+/**
+ * Active runs without any queued job (runs started before the queue existed,
+ * or whose successor jobs could not be enqueued)
+ */
+export async function findActiveRunsWithoutJobs(): Promise<number[]> {
+  const rows = await db
+    .select({ id: runs.id })
+    .from(runs)
+    .where(
+      and(
+        inArray(runs.status, ['running', 'pending']),
+        notExists(db.select({ id: pipelineJobs.id }).from(pipelineJobs).where(eq(pipelineJobs.runId, runs.id)))
+      )
+    );
+  return rows.map(row => row.id);
+}
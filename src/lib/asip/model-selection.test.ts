@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { resolveStepModel, STEP_MODEL_MAP } from './model-selection';
+
+describe('model-selection', () => {
+  it('uses flash for structuring and pro for evaluation when pro is chosen', () => {
+    expect(resolveStepModel('pro', 'step2_1_5')).toBe('gemini-3-flash-preview');
+    expect(resolveStepModel('pro', 'step3')).toBe('gemini-3-pro-preview');
+    expect(resolveStepModel('pro', 'step4')).toBe('gemini-3-pro-preview');
+  });
+
+  it('uses flash for every generation step when flash is chosen', () => {
+    expect(Object.values(STEP_MODEL_MAP.flash)).toEqual(
+      Array(4).fill('gemini-3-flash-preview')
+    );
+  });
+
+  it('defaults to the pro map when modelChoice is missing', () => {
+    expect(resolveStepModel(null, 'step5')).toBe(STEP_MODEL_MAP.pro.step5);
+    expect(resolveStepModel(undefined, 'step5')).toBe(STEP_MODEL_MAP.pro.step5);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Model Selection - maps a run's modelChoice to the model used by each step
+ *
+ * Deep Research steps (2-1, 2-2) always run on the Deep Research agent.
+ * Content generation steps use the per-step map below.
+ */
+
+import { MODELS } from '@/lib/gemini/models';
+
+/**
+ * Model choice stored in runs.modelChoice
+ */
+export type ModelChoice = 'pro' | 'flash';
+
+/**
+ * Steps that call generateContent
+ */
+export type GenerationStep = 'step2_1_5' | 'step3' | 'step4' | 'step5';
+
+/**
+ * Models actually used per hypothesis step (stored in hypothesis fullData.stepModels)
+ */
+export type StepModels = Partial<Record<GenerationStep | 'step2_2', string>>;
+
+/**
+ * Per-step model map for each model choice
+ * Structuring (2-1.5) is a light extraction task, so it always uses flash.
+ */
+export const STEP_MODEL_MAP: Record<ModelChoice, Record<GenerationStep, string>> = {
+  pro: {
+    step2_1_5: MODELS.FLASH,
+    step3: MODELS.PRO,
+    step4: MODELS.PRO,
+    step5: MODELS.PRO,
+  },
+  flash: {
+    step2_1_5: MODELS.FLASH,
+    step3: MODELS.FLASH,
+    step4: MODELS.FLASH,
+    step5: MODELS.FLASH,
+  },
+};
+
+/**
+ * Model used by Deep Research steps
+ */
+export const DEEP_RESEARCH_MODEL: string = MODELS.DEEP_RESEARCH;
+
+/**
+ * Resolve the model for a generation step (defaults to 'pro' like the runs table)
+ */
+export function resolveStepModel(
+  modelChoice: ModelChoice | null | undefined,
+  step: GenerationStep
+): string {
+  return STEP_MODEL_MAP[modelChoice || 'pro'][step];
+}
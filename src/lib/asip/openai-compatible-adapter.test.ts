@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createOpenAICompatibleAdapter } from './openai-compatible-adapter';
+import { ContentGenerationError, RateLimitError } from './errors';
+import { MODELS } from '@/lib/gemini/models';
+import { getOpenAICompatibleConfig, type OpenAICompatibleConfig } from '@/lib/openai-compatible/client';
+import type { ResearchJob, ResearchJobStore } from './emulated-research';
+
+const config: OpenAICompatibleConfig = {
+  baseUrl: 'http://llm.internal/v1',
+  model: 'qwen-72b',
+  flashModel: 'qwen-7b',
+  researchModel: 'qwen-72b',
+  timeoutMs: 1000,
+  structuredOutput: false,
+};
+
+function chatResponse(content: string, model = 'qwen-72b') {
+  return new Response(JSON.stringify({
+    model,
+    choices: [{ message: { role: 'assistant', content } }],
+    usage: { prompt_tokens: 120, completion_tokens: 30, completion_tokens_details: { reasoning_tokens: 10 } },
+  }), { status: 200 });
+}
+
+function createStore(): ResearchJobStore {
+  const jobs = new Map<string, ResearchJob>();
+  return {
+    create: async job => { jobs.set(job.id, { ...job }); },
+    get: async id => jobs.get(id) ?? null,
+    claim: async id => (jobs.get(id)?.status === 'in_progress' ? { ...jobs.get(id)! } : null),
+    save: async job => { jobs.set(job.id, { ...job }); },
+    cancel: async id => { jobs.set(id, { ...jobs.get(id)!, status: 'cancelled' }); },
+    delete: async id => { jobs.delete(id); },
+  };
+}
+
+describe('openai-compatible-adapter', () => {
+  it('sends chat completions with the mapped model and reports the usage', async () => {
+    const fetchImpl = vi.fn(async () => chatResponse('評価結果', 'qwen-7b'));
+    const ai = createOpenAICompatibleAdapter({ store: createStore(), config, fetchImpl });
+    const onUsage = vi.fn();
+
+    const text = await ai.generateContent({ prompt: 'Step 3', systemInstruction: 'sys', model: MODELS.FLASH, onUsage });
+
+    expect(text).toBe('評価結果');
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://llm.internal/v1/chat/completions');
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'qwen-7b',
+      messages: [{ role: 'system', content: 'sys' }, { role: 'user', content: 'Step 3' }],
+    });
+    expect(onUsage).toHaveBeenCalledWith(
+      { inputTokens: 120, outputTokens: 20, thinkingTokens: 10, cachedTokens: 0, groundingCalls: 0 },
+      'qwen-7b'
+    );
+  });
+
+  it('sends the response schema only to endpoints with structured output enabled', async () => {
+    const responseSchema = { type: 'object' as const, properties: { report: { type: 'string' as const } } };
+    const plainFetch = vi.fn(async () => chatResponse('評価結果'));
+    const plain = createOpenAICompatibleAdapter({ store: createStore(), config, fetchImpl: plainFetch });
+    await plain.generateContent({ prompt: 'Step 3', responseSchema });
+    const [, plainInit] = plainFetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(plainInit.body as string)).not.toHaveProperty('response_format');
+
+    const structuredFetch = vi.fn(async () => chatResponse('{"report":"評価結果"}'));
+    const structured = createOpenAICompatibleAdapter({
+      store: createStore(),
+      config: { ...config, structuredOutput: true },
+      fetchImpl: structuredFetch,
+    });
+    await structured.generateContent({ prompt: 'Step 3', responseSchema });
+    const [, structuredInit] = structuredFetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(structuredInit.body as string).response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: responseSchema },
+    });
+  });
+
+  it('classifies HTTP failures like Gemini failures', async () => {
+    const rateLimited = createOpenAICompatibleAdapter({
+      store: createStore(),
+      config,
+      fetchImpl: vi.fn(async () => new Response('slow down', { status: 429, statusText: 'Too Many Requests' })),
+    });
+    await expect(rateLimited.generateContent({ prompt: 'p' })).rejects.toBeInstanceOf(RateLimitError);
+
+    const invalid = createOpenAICompatibleAdapter({
+      store: createStore(),
+      config,
+      fetchImpl: vi.fn(async () => new Response('bad model', { status: 400, statusText: 'Bad Request' })),
+    });
+    const error = await invalid.generateContent({ prompt: 'p' }).catch(e => e);
+    expect(error).toBeInstanceOf(ContentGenerationError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('emulates Deep Research as a research job advanced by status checks', async () => {
+    const replies = ['["論点"]', 'メモ', 'レポート'];
+    const fetchImpl = vi.fn(async () => chatResponse(replies.shift()!));
+    const store = createStore();
+    const ai = createOpenAICompatibleAdapter({ store, config, fetchImpl });
+
+    const handle = await ai.startDeepResearchAsync!({ prompt: 'research', files: [], storeName: 'asip-run-1-step2_1' });
+    expect(handle.fileSearchStoreName).toBe('');
+    expect(ai.getDeepResearchModel!()).toBe('qwen-72b');
+
+    expect((await ai.checkDeepResearchStatus!(handle)).status).toBe('in_progress');
+    expect((await ai.checkDeepResearchStatus!(handle)).status).toBe('in_progress');
+    expect(await ai.checkDeepResearchStatus!(handle)).toMatchObject({
+      status: 'completed',
+      result: 'レポート',
+      model: 'qwen-72b',
+      usage: { inputTokens: 360 },
+    });
+
+    await ai.cleanupDeepResearch!(handle);
+    expect(await store.get(handle.interactionId)).toBeNull();
+  });
+
+  it('requires the endpoint and model to be configured', () => {
+    expect(() => getOpenAICompatibleConfig({})).toThrow('is not set');
+    expect(getOpenAICompatibleConfig({
+      OPENAI_COMPATIBLE_BASE_URL: 'http://llm.internal/v1/',
+      OPENAI_COMPATIBLE_MODEL: 'qwen-72b',
+    })).toMatchObject({
+      baseUrl: 'http://llm.internal/v1',
+      flashModel: 'qwen-72b',
+      researchModel: 'qwen-72b',
+      structuredOutput: false,
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * AI Adapter for OpenAI-compatible endpoints
+ *
+ * Implements AIOperations on any chat-completions endpoint (vLLM, self-hosted
+ * gateways), so a project's inputs never leave the premises. Deep Research
+ * is emulated by research jobs (emulated-research.ts); there is no File
+ * Search, so files are always inlined. Pro / Flash model requests map to the
+ * configured models.
+ */
+
+import { MODELS } from '@/lib/gemini/models';
+import {
+  createChatCompletion,
+  getOpenAICompatibleConfig,
+  type ChatMessage,
+  type OpenAICompatibleConfig,
+} from '@/lib/openai-compatible/client';
+import { AIOperations, DeepResearchHandle, DeepResearchStatus, ResponseSchema } from './pipeline-core';
+import { classifyGeminiError } from './errors';
+import type { TokenUsage } from './cost-accounting';
+import {
+  MAX_RESEARCH_QUESTIONS,
+  advanceResearchJob,
+  startResearchJob,
+  toDeepResearchStatus,
+  type EmulatedResearchDependencies,
+  type ResearchCompletion,
+  type ResearchJobStore,
+} from './emulated-research';
+
+export interface OpenAICompatibleAdapterOptions {
+  store: ResearchJobStore; // createResearchJobStore() in research-job-store.ts
+  config?: OpenAICompatibleConfig; // Read from the environment on first use when omitted
+  fetchImpl?: typeof fetch;
+}
+
+// Emulated research jobs have no File Search store
+const NO_STORE = '';
+
+// Steps a blocking research may take (plan + questions + report, with retries)
+const MAX_BLOCKING_STEPS = (MAX_RESEARCH_QUESTIONS + 2) * 3;
+
+/**
+ * Create AI adapter for the configured OpenAI-compatible endpoint
+ * Failures are thrown as classified ASIP errors like the Gemini adapter's
+ */
+export function createOpenAICompatibleAdapter(options: OpenAICompatibleAdapterOptions): AIOperations {
+  let config = options.config;
+  const getConfig = () => (config ??= getOpenAICompatibleConfig());
+
+  const resolveModel = (model?: string) =>
+    model === MODELS.FLASH ? getConfig().flashModel : getConfig().model;
+
+  async function chat(
+    operation: string,
+    kind: 'deep_research' | 'content',
+    model: string,
+    messages: ChatMessage[],
+    jsonSchema?: { name: string; schema: object }
+  ) {
+    try {
+      return await createChatCompletion(getConfig(), { model, messages, jsonSchema }, options.fetchImpl);
+    } catch (error) {
+      throw classifyGeminiError(error, operation, kind);
+    }
+  }
+
+  const complete: ResearchCompletion = async ({ prompt, systemInstruction, model }) => {
+    const { text, usage } = await chat('researchStep', 'deep_research', model, [
+      { role: 'system', content: systemInstruction },
+      { role: 'user', content: prompt },
+    ]);
+    return { text, usage };
+  };
+
+  const research: EmulatedResearchDependencies = {
+    store: options.store,
+    complete,
+    logger: {
+      log: (message: string) => console.log(`[OpenAI Adapter] ${message}`),
+      warn: (message: string) => console.warn(`[OpenAI Adapter] ${message}`),
+    },
+  };
+
+  return {
+    // Blocking research: runs every step of a job in this call
+    async executeDeepResearch(params: {
+      prompt: string;
+      files: Array<{ name: string; content: string }>;
+      storeName: string;
+      onProgress?: (phase: string, detail: string) => void;
+    }): Promise<string> {
+      const job = await startResearchJob(research, {
+        prompt: params.prompt,
+        files: params.files,
+        model: getConfig().researchModel,
+      });
+
+      try {
+        for (let step = 0; step < MAX_BLOCKING_STEPS; step++) {
+          const status = toDeepResearchStatus(await advanceResearchJob(research, job.id));
+          if (status.status === 'completed') return status.result || '';
+          if (status.status === 'failed') {
+            throw classifyGeminiError(new Error(status.error), 'executeDeepResearch', 'deep_research');
+          }
+          params.onProgress?.('research', status.status);
+        }
+        throw classifyGeminiError(new Error('Research job timed out'), 'executeDeepResearch', 'deep_research');
+      } finally {
+        await options.store.delete(job.id);
+      }
+    },
+
+    /**
+     * Store a research job (its steps run as the pipeline polls it)
+     */
+    async startDeepResearchAsync(params: {
+      prompt: string;
+      files: Array<{ name: string; content: string }>;
+      storeName: string;
+    }): Promise<DeepResearchHandle> {
+      const job = await startResearchJob(research, {
+        prompt: params.prompt,
+        files: params.files,
+        model: getConfig().researchModel,
+      });
+      console.log(`[OpenAI Adapter] Research job started: ${job.id} (${params.storeName})`);
+      return { interactionId: job.id, fileSearchStoreName: NO_STORE };
+    },
+
+    /**
+     * Run the next step of the research job and report its status
+     */
+    async checkDeepResearchStatus(handle: DeepResearchHandle): Promise<DeepResearchStatus> {
+      return toDeepResearchStatus(await advanceResearchJob(research, handle.interactionId));
+    },
+
+    async cancelDeepResearch(handle: DeepResearchHandle): Promise<void> {
+      console.log(`[OpenAI Adapter] Cancelling research job: ${handle.interactionId}`);
+      await options.store.cancel(handle.interactionId);
+    },
+
+    async cleanupDeepResearch(handle: DeepResearchHandle): Promise<void> {
+      await options.store.delete(handle.interactionId);
+    },
+
+    getDeepResearchModel(): string {
+      return getConfig().researchModel;
+    },
+
+    async generateContent(params: {
+      prompt: string;
+      systemInstruction?: string;
+      model?: string;
+      onUsage?: (usage: TokenUsage, model?: string) => void;
+      responseSchema?: ResponseSchema;
+    }): Promise<string> {
+      const messages: ChatMessage[] = [
+        ...(params.systemInstruction ? [{ role: 'system' as const, content: params.systemInstruction }] : []),
+        { role: 'user', content: params.prompt },
+      ];
+      // Endpoints without json_schema support get the plain prompt and answer in text
+      const jsonSchema = params.responseSchema && getConfig().structuredOutput
+        ? { name: 'response', schema: params.responseSchema }
+        : undefined;
+      const result = await chat('generateContent', 'content', resolveModel(params.model), messages, jsonSchema);
+      if (result.usage) params.onUsage?.(result.usage, result.model);
+      return result.text;
+    },
+  };
+}
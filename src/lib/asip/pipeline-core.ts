@@ -15,6 +15,18 @@ import {
   ParsedHypothesis,
 } from './utils';
 import { formatPrompt, STEP3_PROMPT, STEP4_PROMPT, STEP5_PROMPT, buildInstructionDocument, ExistingHypothesis } from './prompts';
+import type { ActivePromptVersion, PromptSnapshot } from './prompt-snapshot';
+import type { ModelChoice } from './model-selection';
+import type { ExecutionTiming, TimingEntry } from './execution-timing';
+import type { DebugPromptEntry } from './debug-prompts';
+import type { IntegratedList } from './integrated-list';
+import type { HypothesisScoreRecord } from './hypothesis-scores';
+import type { StepAttachmentSettings } from './step-inputs';
+import type { RunLeaseResult } from './run-lease';
+import type { RunAuditEntry } from './run-control';
+import type { TokenUsage, UsageGroup, UsageRecord } from './cost-accounting';
+import type { StepUsageAverage } from './run-budget';
+import type { AIProvider } from './ai-provider';
 
 /**
  * Run status type
@@ -74,6 +86,13 @@ export interface RunData {
     existingFilter?: ExistingHypothesisFilter;
     [key: string]: unknown;
   } | null;
+  promptSnapshot?: PromptSnapshot | null;
+  executionTiming?: ExecutionTiming | null;
+  modelChoice?: ModelChoice | null;
+  loopCount?: number;
+  currentLoop?: number;
+  budgetUsd?: number | null; // Spending cap in USD (see run-budget.ts)
+  aiProvider?: AIProvider; // Provider of the run's project (see ai-provider.ts)
 }
 
 /**
@@ -91,6 +110,7 @@ export interface HypothesisData {
   uuid: string;
   displayTitle: string | null;
   hypothesisNumber: number;
+  loopNumber?: number;
   step2_1Summary?: string | null;
   step2_2Output?: string | null;
   step3Output?: string | null;
@@ -98,6 +118,7 @@ export interface HypothesisData {
   step5Output?: string | null;
   processingStatus: HypothesisProcessingStatus | null;
   errorMessage?: string | null;
+  formatViolations?: string[]; // Steps whose output still fails its parser after repair (format-repair.ts)
   fullData?: Record<string, unknown> | null;
 }
 
@@ -110,10 +131,15 @@ export interface DatabaseOperations {
   updateRunStatus(runId: number, updates: Partial<{
     status: RunStatus;
     currentStep: number;
+    currentLoop: number;
     errorMessage: string | null;
     step2_1Output: string;
+    step2_1Outputs: Record<string, string>;
     completedAt: Date;
     progressInfo: ProgressInfo;
+    promptSnapshot: PromptSnapshot;
+    executionTiming: ExecutionTiming;
+    integratedList: IntegratedList;
     updatedAt: Date;
   }>): Promise<void>;
   createHypothesis(data: {
@@ -122,6 +148,7 @@ export interface DatabaseOperations {
     runId: number;
     hypothesisNumber: number;
     indexInRun: number;
+    loopNumber?: number;
     displayTitle: string;
     step2_1Summary: string;
     processingStatus: HypothesisProcessingStatus;
@@ -135,12 +162,29 @@ export interface DatabaseOperations {
     step4Output: string;
     step5Output: string;
     errorMessage: string;
+    formatViolations: string[];
     fullData: Record<string, unknown>;
   }>): Promise<void>;
   getExistingHypotheses?(
     projectId: number,
     filter: { targetSpecIds?: number[]; technicalAssetsIds?: number[] }
   ): Promise<Array<{ title: string; summary: string }>>;
+  getActivePromptVersions?(): Promise<ActivePromptVersion[]>;
+  appendDebugPrompt?(runId: number, entry: DebugPromptEntry): Promise<void>;
+  setDebugPromptResponseLength?(
+    runId: number,
+    target: { hypothesisUuid?: string; interactionId: string },
+    responseLength: number
+  ): Promise<void>;
+  saveHypothesisScores?(runId: number, hypothesisUuid: string, record: HypothesisScoreRecord): Promise<void>;
+  getStepAttachmentSettings?(): Promise<StepAttachmentSettings>;
+  acquireRunLease?(runId: number, owner: string, ttlMs: number): Promise<RunLeaseResult>;
+  releaseRunLease?(runId: number, owner: string): Promise<void>;
+  appendExecutionTiming?(runId: number, entries: TimingEntry[]): Promise<void>;
+  appendRunAuditEntry?(entry: RunAuditEntry): Promise<void>;
+  recordAIUsage?(runId: number, record: UsageRecord): Promise<void>;
+  getRunUsage?(runId: number): Promise<UsageGroup[]>;
+  getStepUsageAverages?(): Promise<StepUsageAverage[]>;
 }
 
 /**
@@ -150,6 +194,8 @@ export interface DeepResearchStatus {
   status: 'pending' | 'in_progress' | 'completed' | 'failed';
   result?: string;
   error?: string;
+  usage?: TokenUsage; // Reported when the interaction has finished
+  model?: string; // Model the usage was spent on (defaults to the Deep Research agent)
 }
 
 /**
@@ -158,6 +204,20 @@ export interface DeepResearchStatus {
 export interface DeepResearchHandle {
   interactionId: string;
   fileSearchStoreName: string;
+  slotLeaseId?: string; // Rate limiter slot, released by cleanupDeepResearch
+  cassetteKey?: string; // Cassette entry the result is recorded to (ai-cassette.ts record mode)
+}
+
+/**
+ * JSON schema of a structured response (the subset Gemini responseSchema and json_schema endpoints share)
+ */
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
 }
 
 /**
@@ -183,9 +243,30 @@ export interface AIOperations {
 
   cleanupDeepResearch?(handle: DeepResearchHandle): Promise<void>;
 
+  // Stop a running interaction remotely (it still needs cleanupDeepResearch)
+  cancelDeepResearch?(handle: DeepResearchHandle): Promise<void>;
+
+  // Model Deep Research runs on (the Gemini Deep Research agent when not implemented)
+  getDeepResearchModel?(): string;
+
   generateContent(params: {
     prompt: string;
     systemInstruction?: string;
+    /** Model to use (defaults to the adapter's default model) */
+    model?: string;
+    /** Receives the token usage of the call (and the model that ran it, when it differs) */
+    onUsage?: (usage: TokenUsage, model?: string) => void;
+    /** Ask for JSON matching the schema (adapters without schema support ignore it and answer in text) */
+    responseSchema?: ResponseSchema;
+  }): Promise<string>;
+
+  // Generation that reads its inputs via File Search (adapters without it get the files inlined)
+  generateContentWithFiles?(params: {
+    prompt: string;
+    files: Array<{ name: string; content: string }>;
+    storeName: string;
+    model?: string;
+    onUsage?: (usage: TokenUsage) => void;
   }): Promise<string>;
 }
 
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { getJobBackoffMs, getJobKey, planPipelineJobs, POLL_INTERVAL_MS } from './pipeline-jobs';
+
+describe('pipeline-jobs', () => {
+  describe('getJobKey', () => {
+    it('keys run-level jobs by run and evaluation jobs by hypothesis', () => {
+      expect(getJobKey({ runId: 7 })).toBe('run:7');
+      expect(getJobKey({ runId: 7, hypothesisUuid: 'h-1' })).toBe('hypothesis:h-1');
+    });
+  });
+
+  describe('getJobBackoffMs', () => {
+    it('doubles the delay per attempt up to 15 minutes', () => {
+      expect(getJobBackoffMs(1)).toBe(30_000);
+      expect(getJobBackoffMs(2)).toBe(60_000);
+      expect(getJobBackoffMs(3)).toBe(120_000);
+      expect(getJobBackoffMs(10)).toBe(15 * 60_000);
+    });
+  });
+
+  describe('planPipelineJobs', () => {
+    it('enqueues nothing for a finished or paused run', () => {
+      expect(planPipelineJobs(1, { status: 'completed', phase: null, evaluationTargets: [] })).toEqual([]);
+    });
+
+    it('runs the next phase immediately and delays polling', () => {
+      expect(planPipelineJobs(1, { status: 'running', phase: 'step2_1_5', evaluationTargets: [] })).toEqual([
+        { runId: 1, phase: 'step2_1_5', delayMs: 0 },
+      ]);
+      expect(planPipelineJobs(1, { status: 'running', phase: 'step2_2_polling', evaluationTargets: [] })).toEqual([
+        { runId: 1, phase: 'step2_2_polling', delayMs: POLL_INTERVAL_MS },
+      ]);
+    });
+
+    it('evaluates hypotheses in their own jobs alongside the run-level phase', () => {
+      expect(
+        planPipelineJobs(1, { status: 'running', phase: 'step2_2_polling', evaluationTargets: ['h-1'] })
+      ).toEqual([
+        { runId: 1, hypothesisUuid: 'h-1', phase: 'evaluation' },
+        { runId: 1, phase: 'step2_2_polling', delayMs: POLL_INTERVAL_MS },
+      ]);
+    });
+
+    it('leaves out the run-level job while only evaluations are left', () => {
+      expect(
+        planPipelineJobs(1, { status: 'running', phase: 'evaluation', evaluationTargets: ['h-1', 'h-2'] })
+      ).toEqual([
+        { runId: 1, hypothesisUuid: 'h-1', phase: 'evaluation' },
+        { runId: 1, hypothesisUuid: 'h-2', phase: 'evaluation' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Pipeline Jobs - durable queue driving the step executor
+ *
+ * Each run has at most one run-level job (executeNextStep) and one job per
+ * hypothesis being evaluated (executeHypothesisEvaluation). Workers claim due
+ * jobs with FOR UPDATE SKIP LOCKED (job-queue.ts); when a job finishes, the
+ * worker inspects the run and enqueues its successors (planPipelineJobs).
+ * Failed jobs are rescheduled with exponential backoff.
+ */
+
+import type { PipelinePhase, RunWork } from './step-executor';
+
+// Delay between Deep Research status checks
+export const POLL_INTERVAL_MS = 30 * 1000;
+
+// Delay before retrying a run whose lease is held by another invocation
+export const BUSY_RETRY_MS = 15 * 1000;
+
+// A job locked by a crashed worker becomes claimable again after this
+// (longer than any single step, as with the run lease)
+export const JOB_LOCK_TTL_MS = 15 * 60 * 1000;
+
+// Attempts (claims) before a failing job marks its run / hypothesis as error
+export const MAX_JOB_ATTEMPTS = 5;
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+/**
+ * Whether a standalone worker process (scripts/worker.ts) drains the queue
+ * (PIPELINE_WORKER=standalone). Routes then only enqueue jobs instead of
+ * calling /api/runs/[runId]/process over HTTP.
+ */
+export function usesStandaloneWorker(): boolean {
+  return process.env.PIPELINE_WORKER === 'standalone';
+}
+
+/**
+ * Queued job (pipeline_jobs row)
+ */
+export interface PipelineJob {
+  id: number;
+  runId: number;
+  hypothesisUuid: string | null;
+  phase: PipelinePhase;
+  attempt: number;
+  runAfter: string;
+  lockedBy: string | null;
+  lockedUntil: string | null;
+  lastError: string | null;
+  enqueuedAt: string;
+}
+
+/**
+ * Job to enqueue
+ */
+export interface PipelineJobRequest {
+  runId: number;
+  hypothesisUuid?: string;
+  phase: PipelinePhase;
+  delayMs?: number;
+}
+
+/**
+ * Queue storage (Postgres in job-queue.ts)
+ */
+export interface PipelineJobQueue {
+  /**
+   * Add jobs. A queued run-level job is moved forward to the earlier time;
+   * a queued hypothesis job is left as is.
+   */
+  enqueue(requests: PipelineJobRequest[], now: Date): Promise<void>;
+  /**
+   * Lock up to limit due jobs for a worker (optionally of one run only),
+   * counting the claim as an attempt
+   */
+  claim(workerId: string, limit: number, now: Date, options?: { runId?: number }): Promise<PipelineJob[]>;
+  /**
+   * Remove a finished job (a job re-enqueued while it ran is unlocked instead)
+   */
+  complete(job: PipelineJob): Promise<void>;
+  /**
+   * Unlock a job and run it again at runAfter
+   */
+  reschedule(job: PipelineJob, runAfter: Date, update: { attempt: number; lastError?: string }): Promise<void>;
+  /**
+   * Earliest run_after of the unlocked jobs (null when the queue is empty)
+   */
+  getNextRunAfter(now: Date, options?: { runId?: number }): Promise<Date | null>;
+}
+
+/**
+ * Unique key of a job: one per run and one per hypothesis
+ */
+export function getJobKey(request: { runId: number; hypothesisUuid?: string | null }): string {
+  return request.hypothesisUuid ? `hypothesis:${request.hypothesisUuid}` : `run:${request.runId}`;
+}
+
+/**
+ * Delay before retrying after the given number of failed attempts (30s, 1m, 2m, ... up to 15m)
+ */
+export function getJobBackoffMs(attempt: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1), BACKOFF_MAX_MS);
+}
+
+/**
+ * Successor jobs of a run
+ *
+ * Hypotheses are evaluated in their own jobs, alongside the run-level phase
+ * (e.g. while other hypotheses are still in Deep Research). While only
+ * evaluations are left, no run-level job is queued; the last evaluation job
+ * to finish enqueues the one that completes the run or starts the next loop.
+ */
+export function planPipelineJobs(runId: number, work: RunWork): PipelineJobRequest[] {
+  if (!work.phase) return [];
+
+  const jobs: PipelineJobRequest[] = work.evaluationTargets.map(hypothesisUuid => ({
+    runId,
+    hypothesisUuid,
+    phase: 'evaluation' as const,
+  }));
+
+  if (work.phase !== 'evaluation') {
+    const polling = work.phase === 'step2_1_polling' || work.phase === 'step2_2_polling';
+    jobs.push({ runId, phase: work.phase, delayMs: polling ? POLL_INTERVAL_MS : 0 });
+  }
+
+  return jobs;
+}
+
+/**
+ * In-memory queue with the semantics of job-queue.ts (single process; tests)
+ */
+export interface MemoryJobQueue extends PipelineJobQueue {
+  jobs: PipelineJob[];
+}
+
+export function createMemoryJobQueue(): MemoryJobQueue {
+  let nextId = 1;
+  const jobs: PipelineJob[] = [];
+
+  const isUnlocked = (job: PipelineJob, now: Date) =>
+    !job.lockedUntil || Date.parse(job.lockedUntil) <= now.getTime();
+  const inRun = (job: PipelineJob, runId?: number) => runId === undefined || job.runId === runId;
+
+  return {
+    jobs,
+
+    async enqueue(requests, now) {
+      for (const request of requests) {
+        const runAfter = new Date(now.getTime() + (request.delayMs ?? 0)).toISOString();
+        const existing = jobs.find(job => getJobKey(job) === getJobKey(request));
+
+        if (!existing) {
+          jobs.push({
+            id: nextId++,
+            runId: request.runId,
+            hypothesisUuid: request.hypothesisUuid ?? null,
+            phase: request.phase,
+            attempt: 0,
+            runAfter,
+            lockedBy: null,
+            lockedUntil: null,
+            lastError: null,
+            enqueuedAt: now.toISOString(),
+          });
+        } else if (!request.hypothesisUuid) {
+          existing.phase = request.phase;
+          existing.runAfter = runAfter < existing.runAfter ? runAfter : existing.runAfter;
+          existing.enqueuedAt = new Date(Math.max(now.getTime(), Date.parse(existing.enqueuedAt) + 1)).toISOString();
+        }
+      }
+    },
+
+    async claim(workerId, limit, now, options = {}) {
+      const due = jobs
+        .filter(job => inRun(job, options.runId) && isUnlocked(job, now) && Date.parse(job.runAfter) <= now.getTime())
+        .sort((a, b) => a.runAfter.localeCompare(b.runAfter))
+        .slice(0, limit);
+
+      for (const job of due) {
+        job.attempt += 1;
+        job.lockedBy = workerId;
+        job.lockedUntil = new Date(now.getTime() + JOB_LOCK_TTL_MS).toISOString();
+      }
+      return due.map(job => ({ ...job }));
+    },
+
+    async complete(job) {
+      const index = jobs.findIndex(j => j.id === job.id);
+      if (index === -1) return;
+
+      if (jobs[index].enqueuedAt === job.enqueuedAt) {
+        jobs.splice(index, 1);
+      } else {
+        Object.assign(jobs[index], { lockedBy: null, lockedUntil: null, attempt: 0 });
+      }
+    },
+
+    async reschedule(job, runAfter, update) {
+      const target = jobs.find(j => j.id === job.id);
+      if (!target) return;
+
+      Object.assign(target, {
+        runAfter: runAfter.toISOString(),
+        attempt: update.attempt,
+        lastError: update.lastError ?? null,
+        lockedBy: null,
+        lockedUntil: null,
+      });
+    },
+
+    async getNextRunAfter(now, options = {}) {
+      const times = jobs
+        .filter(job => inRun(job, options.runId) && isUnlocked(job, now))
+        .map(job => Date.parse(job.runAfter));
+      return times.length > 0 ? new Date(Math.min(...times)) : null;
+    },
+  };
+}
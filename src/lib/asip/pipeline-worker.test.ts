@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { drainPipelineJobs, runPipelineJob, type PipelineWorkerDependencies } from './pipeline-worker';
+import { BUSY_RETRY_MS, JOB_LOCK_TTL_MS, createMemoryJobQueue, type PipelineJobQueue } from './pipeline-jobs';
+import { executeHypothesisEvaluation, executeNextStep, getRunWork } from './step-executor';
+import type { ExtendedDatabaseOperations } from './step-executor';
+import type { AIOperations } from './pipeline-core';
+
+vi.mock('./step-executor', () => ({
+  executeNextStep: vi.fn(),
+  executeHypothesisEvaluation: vi.fn(),
+  getRunWork: vi.fn(),
+}));
+
+const START = new Date('2026-01-01T00:00:00.000Z');
+
+function createDeps(queue: PipelineJobQueue, clock: { now: number }): PipelineWorkerDependencies {
+  return {
+    db: {
+      updateRunStatus: vi.fn().mockResolvedValue(undefined),
+      updateHypothesis: vi.fn().mockResolvedValue(undefined),
+    } as unknown as ExtendedDatabaseOperations,
+    ai: {} as AIOperations,
+    queue,
+    workerId: 'worker-test',
+    now: () => new Date(clock.now),
+    sleep: async (ms: number) => { clock.now += ms; },
+    logger: { log: vi.fn(), error: vi.fn(), warn: vi.fn() },
+  };
+}
+
+describe('pipeline-worker', () => {
+  let clock: { now: number };
+
+  beforeEach(() => {
+    vi.mocked(executeNextStep).mockReset();
+    vi.mocked(executeHypothesisEvaluation).mockReset();
+    vi.mocked(getRunWork).mockReset().mockResolvedValue({ status: 'running', phase: null, evaluationTargets: [] });
+    clock = { now: START.getTime() };
+  });
+
+  describe('runPipelineJob', () => {
+    it('runs the run-level phase and enqueues its successors', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      const deps = createDeps(queue, clock);
+      await queue.enqueue([{ runId: 1, phase: 'step2_1_5' }], START);
+      vi.mocked(executeNextStep).mockResolvedValue({ phase: 'step2_1_5', hasMore: true });
+      vi.mocked(getRunWork).mockResolvedValue({ status: 'running', phase: 'step2_2_start', evaluationTargets: [] });
+
+      const [job] = await queue.claim('worker-test', 1, START);
+      const result = await runPipelineJob(deps, job);
+
+      expect(result.outcome).toBe('done');
+      expect(executeNextStep).toHaveBeenCalledWith(
+        expect.objectContaining({ leaseOwner: 'worker-test' }),
+        1,
+        { deferEvaluation: true, rethrowErrors: true }
+      );
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0]).toMatchObject({ phase: 'step2_2_start', lockedBy: null, attempt: 0 });
+    });
+
+    it('reports the Deep Research interactions a polling job timed out', async () => {
+      const queue = createMemoryJobQueue();
+      await queue.enqueue([{ runId: 1, phase: 'step2_2_polling' }], START);
+      const timedOut = [{
+        runId: 1,
+        hypothesisUuid: 'h-1',
+        step: 'step2_2' as const,
+        interactionId: 'interaction-1',
+        elapsedMs: 3_700_000,
+        restarts: 0,
+        action: 'restarted' as const,
+      }];
+      vi.mocked(executeNextStep).mockResolvedValue({ phase: 'step2_2_polling', hasMore: true, timedOut });
+
+      const [job] = await queue.claim('worker-test', 1, START);
+      const result = await runPipelineJob(createDeps(queue, clock), job);
+
+      expect(result).toMatchObject({ outcome: 'done', timedOut });
+    });
+
+    it('evaluates a hypothesis job', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      await queue.enqueue([{ runId: 1, hypothesisUuid: 'h-1', phase: 'evaluation' }], START);
+      vi.mocked(executeHypothesisEvaluation).mockResolvedValue({ status: 'completed' });
+
+      const [job] = await queue.claim('worker-test', 1, START);
+      const result = await runPipelineJob(createDeps(queue, clock), job);
+
+      expect(result.outcome).toBe('done');
+      expect(executeHypothesisEvaluation).toHaveBeenCalledWith(expect.anything(), 1, 'h-1');
+      expect(executeNextStep).not.toHaveBeenCalled();
+      expect(jobs).toHaveLength(0);
+    });
+
+    it('reschedules a hypothesis job at the retry time of its evaluation', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      const deps = createDeps(queue, clock);
+      await queue.enqueue([{ runId: 1, hypothesisUuid: 'h-1', phase: 'evaluation' }], START);
+      const retryAt = new Date(START.getTime() + 40_000);
+      vi.mocked(executeHypothesisEvaluation).mockResolvedValue({ status: 'retry', retryAt, error: '503 Service Unavailable' });
+
+      const [job] = await queue.claim('worker-test', 1, START);
+      const result = await runPipelineJob(deps, job);
+
+      expect(result).toMatchObject({ outcome: 'retry', error: '503 Service Unavailable' });
+      expect(jobs[0]).toMatchObject({ runAfter: retryAt.toISOString(), attempt: 0, lockedBy: null });
+      expect(getRunWork).not.toHaveBeenCalled();
+    });
+
+    it('completes a hypothesis job whose evaluation failed for good', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      const deps = createDeps(queue, clock);
+      await queue.enqueue([{ runId: 1, hypothesisUuid: 'h-1', phase: 'evaluation' }], START);
+      vi.mocked(executeHypothesisEvaluation).mockResolvedValue({ status: 'failed', error: '400 Bad Request' });
+
+      const [job] = await queue.claim('worker-test', 1, START);
+      const result = await runPipelineJob(deps, job);
+
+      expect(result).toMatchObject({ outcome: 'failed', error: '400 Bad Request' });
+      expect(jobs).toHaveLength(0);
+      expect(deps.db.updateHypothesis).not.toHaveBeenCalled();
+      expect(getRunWork).toHaveBeenCalledWith(deps, 1);
+    });
+
+    it('reschedules failures with backoff without marking the run as error', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      const deps = createDeps(queue, clock);
+      await queue.enqueue([{ runId: 1, phase: 'step2_2_start' }], START);
+      vi.mocked(executeNextStep).mockRejectedValue(new Error('503 Service Unavailable'));
+
+      const [job] = await queue.claim('worker-test', 1, START);
+      const result = await runPipelineJob(deps, job);
+
+      expect(result).toMatchObject({ outcome: 'retry', error: '503 Service Unavailable' });
+      expect(jobs[0]).toMatchObject({
+        attempt: 1,
+        lastError: '503 Service Unavailable',
+        runAfter: new Date(START.getTime() + 30_000).toISOString(),
+        lockedBy: null,
+      });
+      expect(deps.db.updateRunStatus).not.toHaveBeenCalled();
+    });
+
+    it('marks the run as error once the attempts are used up', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      const deps = createDeps(queue, clock);
+      await queue.enqueue([{ runId: 1, phase: 'step2_2_start' }], START);
+      jobs[0].attempt = 4;
+      vi.mocked(executeNextStep).mockRejectedValue(new Error('boom'));
+
+      const [job] = await queue.claim('worker-test', 1, START);
+      const result = await runPipelineJob(deps, job);
+
+      expect(result.outcome).toBe('failed');
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'error', errorMessage: 'boom' }));
+      expect(jobs).toHaveLength(0);
+    });
+
+    it('marks only the hypothesis as error when its evaluation keeps failing', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      const deps = createDeps(queue, clock);
+      await queue.enqueue([{ runId: 1, hypothesisUuid: 'h-1', phase: 'evaluation' }], START);
+      jobs[0].attempt = 4;
+      vi.mocked(executeHypothesisEvaluation).mockRejectedValue(new Error('Step 4 failed'));
+
+      const [job] = await queue.claim('worker-test', 1, START);
+      await runPipelineJob(deps, job);
+
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith('h-1', { processingStatus: 'error', errorMessage: 'Step 4 failed' });
+      expect(deps.db.updateRunStatus).not.toHaveBeenCalled();
+      expect(getRunWork).toHaveBeenCalledWith(deps, 1);
+    });
+
+    it('gives up on a job whose earlier claims never finished', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      const deps = createDeps(queue, clock);
+      await queue.enqueue([{ runId: 1, phase: 'step2_2_start' }], START);
+
+      // Each claim counts, even when the worker is killed before recording an outcome
+      for (let i = 0; i < 5; i++) {
+        const [claimed] = await queue.claim('worker-test', 1, new Date(clock.now));
+        expect(claimed.attempt).toBe(i + 1);
+        clock.now += JOB_LOCK_TTL_MS;
+      }
+      const [job] = await queue.claim('worker-test', 1, new Date(clock.now));
+      const result = await runPipelineJob(deps, job);
+
+      expect(result).toMatchObject({ outcome: 'failed', error: expect.stringContaining('did not finish in 5 attempts') });
+      expect(executeNextStep).not.toHaveBeenCalled();
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'error' }));
+      expect(jobs).toHaveLength(0);
+    });
+
+    it('retries a busy run later without counting an attempt', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      await queue.enqueue([{ runId: 1, phase: 'step2_2_polling' }], START);
+      const lease = { owner: 'process-1', acquiredAt: START.toISOString(), expiresAt: START.toISOString() };
+      vi.mocked(executeNextStep).mockResolvedValue({ phase: 'busy', hasMore: false, error: 'Run is already being processed', lease });
+
+      const [job] = await queue.claim('worker-test', 1, START);
+      const result = await runPipelineJob(createDeps(queue, clock), job);
+
+      expect(result).toMatchObject({ outcome: 'busy', lease });
+      expect(jobs[0]).toMatchObject({ attempt: 0, runAfter: new Date(START.getTime() + BUSY_RETRY_MS).toISOString() });
+      expect(getRunWork).not.toHaveBeenCalled();
+    });
+
+    it('starts a phase again later without counting an attempt when Deep Research slots are full', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      await queue.enqueue([{ runId: 1, phase: 'step2_2_start' }], START);
+      const retryAt = new Date(START.getTime() + 42_000).toISOString();
+      vi.mocked(executeNextStep).mockResolvedValue({ phase: 'step2_2_start', hasMore: true, retryAt });
+
+      const [job] = await queue.claim('worker-test', 1, START);
+      const result = await runPipelineJob(createDeps(queue, clock), job);
+
+      expect(result.outcome).toBe('retry');
+      expect(jobs[0]).toMatchObject({ attempt: 0, runAfter: retryAt, lockedBy: null });
+      expect(getRunWork).not.toHaveBeenCalled();
+    });
+
+    it('keeps a job that was re-enqueued while it ran', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      await queue.enqueue([{ runId: 1, phase: 'step2_2_polling' }], START);
+      const [job] = await queue.claim('worker-test', 1, START);
+
+      vi.mocked(executeNextStep).mockImplementation(async () => {
+        // An evaluation job of the same run finishes meanwhile
+        await queue.enqueue([{ runId: 1, phase: 'completed' }], START);
+        return { phase: 'step2_2_polling', hasMore: true };
+      });
+      await runPipelineJob(createDeps(queue, clock), job);
+
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0]).toMatchObject({ phase: 'completed', lockedBy: null });
+    });
+  });
+
+  describe('drainPipelineJobs', () => {
+    it('runs jobs until the queue is empty, waiting for jobs due within the budget', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      const deps = createDeps(queue, clock);
+      await queue.enqueue([{ runId: 1, phase: 'step2_2_polling' }], START);
+
+      // The first poll finds the research still running, the second one done
+      vi.mocked(executeNextStep).mockResolvedValue({ phase: 'step2_2_polling', hasMore: true });
+      vi.mocked(getRunWork)
+        .mockResolvedValueOnce({ status: 'running', phase: 'step2_2_polling', evaluationTargets: [] })
+        .mockResolvedValueOnce({ status: 'completed', phase: null, evaluationTargets: [] });
+
+      const summary = await drainPipelineJobs(deps, { timeBudgetMs: 50_000 });
+
+      expect(summary.drained).toBe(true);
+      expect(summary.results.map(r => r.outcome)).toEqual(['done', 'done']);
+      expect(summary.elapsedMs).toBe(30_000);
+      expect(jobs).toHaveLength(0);
+    });
+
+    it('leaves jobs due after the budget in the queue', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      await queue.enqueue([{ runId: 1, phase: 'step2_2_polling', delayMs: 60_000 }], START);
+
+      const summary = await drainPipelineJobs(createDeps(queue, clock), { timeBudgetMs: 50_000 });
+
+      expect(summary).toMatchObject({ results: [], drained: false, elapsedMs: 0 });
+      expect(jobs).toHaveLength(1);
+    });
+
+    it('stops claiming jobs when less than the job time is left of the budget', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      await queue.enqueue([{ runId: 1, phase: 'step2_2_polling', delayMs: 25_000 }], START);
+
+      const summary = await drainPipelineJobs(createDeps(queue, clock), { timeBudgetMs: 50_000, jobTimeMs: 30_000 });
+
+      expect(summary).toMatchObject({ results: [], drained: false, elapsedMs: 0 });
+      expect(jobs[0]).toMatchObject({ attempt: 0, lockedBy: null });
+      expect(executeNextStep).not.toHaveBeenCalled();
+    });
+
+    it('only claims the jobs of the given run', async () => {
+      const queue = createMemoryJobQueue();
+      const { jobs } = queue;
+      await queue.enqueue([{ runId: 1, phase: 'step2_1_5' }, { runId: 2, phase: 'step2_1_5' }], START);
+      vi.mocked(executeNextStep).mockResolvedValue({ phase: 'step2_1_5', hasMore: true });
+
+      const summary = await drainPipelineJobs(createDeps(queue, clock), { timeBudgetMs: 50_000, runId: 2 });
+
+      expect(summary.results.map(r => r.runId)).toEqual([2]);
+      expect(jobs.map(j => j.runId)).toEqual([1]);
+    });
+  });
+});
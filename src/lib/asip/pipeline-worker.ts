@@ -0,0 +1,269 @@
+/**
+ * Pipeline Worker - claims and executes pipeline jobs
+ *
+ * A run-level job runs executeNextStep for its run (evaluation deferred to
+ * hypothesis jobs); a hypothesis job runs executeHypothesisEvaluation. After
+ * a job, the worker enqueues the run's successor jobs. Errors are retried with
+ * backoff; after MAX_JOB_ATTEMPTS the run (or hypothesis) is marked as error.
+ * Evaluation failures are retried as the retry policy decides (retry-policy.ts).
+ */
+
+import {
+  executeHypothesisEvaluation,
+  executeNextStep,
+  getRunWork,
+  type PipelinePhase,
+  type StepExecutorDependencies,
+} from './step-executor';
+import {
+  BUSY_RETRY_MS,
+  MAX_JOB_ATTEMPTS,
+  getJobBackoffMs,
+  getJobKey,
+  planPipelineJobs,
+  type PipelineJob,
+  type PipelineJobQueue,
+} from './pipeline-jobs';
+import type { RunLease } from './run-lease';
+import type { TimedOutInteraction } from './deep-research-timeout';
+
+// Jobs executed side by side by one worker (matches the evaluation concurrency)
+export const WORKER_CONCURRENCY = 5;
+
+// Longest a single job is expected to take: one run-level phase, or one
+// evaluation step (3, 4 or 5) with its File Search upload and format repairs.
+// Routes with a function time limit stop claiming jobs when less than this is left
+export const JOB_TIME_MS = 30 * 1000;
+
+export interface PipelineWorkerDependencies extends StepExecutorDependencies {
+  queue: PipelineJobQueue;
+  workerId: string; // Lock owner of claimed jobs, also used as the run lease owner
+  now?: () => Date;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+export type JobOutcome = 'done' | 'busy' | 'retry' | 'failed';
+
+/**
+ * Result of one job
+ */
+export interface JobResult {
+  jobId: number;
+  runId: number;
+  hypothesisUuid: string | null;
+  phase: PipelinePhase;
+  outcome: JobOutcome;
+  error?: string;
+  lease?: RunLease | null; // Holder of the run lease when busy
+  timedOut?: TimedOutInteraction[]; // Deep Research interactions stopped by the job
+}
+
+export interface DrainOptions {
+  timeBudgetMs: number; // Claimed jobs finish within this (given jobTimeMs)
+  jobTimeMs?: number; // No job is claimed with less than this left of the budget (default 0)
+  runId?: number; // Only jobs of this run
+  concurrency?: number;
+  signal?: AbortSignal; // Stop claiming jobs (jobs already claimed still finish)
+  maxWaitMs?: number; // Look for newly enqueued jobs at least this often while waiting
+}
+
+/**
+ * Result of draining the queue (drained is false when jobs are left for a
+ * later invocation: the time budget ran out, jobs are due after it, or it was aborted)
+ */
+export interface DrainSummary {
+  results: JobResult[];
+  drained: boolean;
+  elapsedMs: number;
+}
+
+const defaultLogger = {
+  log: (message: string) => console.log(`[PipelineWorker] ${message}`),
+  error: (message: string, error?: unknown) => console.error(`[PipelineWorker] ${message}`, error),
+  warn: (message: string) => console.warn(`[PipelineWorker] ${message}`),
+};
+
+/**
+ * Wait for ms, or until the signal aborts
+ */
+export function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Enqueue the jobs that follow the run's current state
+ * (a failure only delays the run until the cron route re-enqueues it)
+ */
+export async function enqueueSuccessors(
+  deps: Pick<PipelineWorkerDependencies, 'db' | 'queue' | 'logger' | 'now'>,
+  runId: number
+): Promise<void> {
+  const { queue, logger = defaultLogger } = deps;
+  const now = deps.now ?? (() => new Date());
+
+  try {
+    const work = await getRunWork(deps, runId);
+    await queue.enqueue(planPipelineJobs(runId, work), now());
+  } catch (error) {
+    logger.error(`Failed to enqueue successor jobs for run ${runId}:`, error);
+  }
+}
+
+/**
+ * Mark the target of a job that has run out of attempts as error
+ */
+async function markJobFailed(deps: PipelineWorkerDependencies, job: PipelineJob, message: string): Promise<void> {
+  const { db } = deps;
+
+  if (job.hypothesisUuid) {
+    await db.updateHypothesis(job.hypothesisUuid, { processingStatus: 'error', errorMessage: message });
+    return;
+  }
+  await db.updateRunStatus(job.runId, { status: 'error', errorMessage: message, updatedAt: new Date() });
+}
+
+/**
+ * Execute one claimed job and schedule what follows
+ */
+export async function runPipelineJob(deps: PipelineWorkerDependencies, job: PipelineJob): Promise<JobResult> {
+  const { queue, logger = defaultLogger } = deps;
+  const now = deps.now ?? (() => new Date());
+  const base = { jobId: job.id, runId: job.runId, hypothesisUuid: job.hypothesisUuid, phase: job.phase };
+  let timedOut: TimedOutInteraction[] | undefined;
+
+  // Claims count as attempts, so a job whose worker keeps getting killed mid-job
+  // (e.g. by a function time limit) runs out of attempts instead of looping forever
+  if (job.attempt > MAX_JOB_ATTEMPTS) {
+    const message = `Job did not finish in ${MAX_JOB_ATTEMPTS} attempts (its worker stopped while running it)`;
+    logger.error(`Job ${getJobKey(job)} was claimed ${job.attempt} times without finishing, giving up`);
+    await markJobFailed(deps, job, message);
+    await queue.complete(job);
+    await enqueueSuccessors(deps, job.runId);
+    return { ...base, outcome: 'failed', error: message };
+  }
+
+  try {
+    if (job.hypothesisUuid) {
+      const result = await executeHypothesisEvaluation(deps, job.runId, job.hypothesisUuid);
+
+      // Retries of evaluation failures follow the hypothesis' retry state (fullData.retry), not job attempts
+      if (result.status === 'retry') {
+        await queue.reschedule(job, result.retryAt, { attempt: job.attempt - 1, lastError: result.error });
+        return { ...base, outcome: 'retry', error: result.error };
+      }
+      if (result.status === 'failed') {
+        await queue.complete(job);
+        await enqueueSuccessors(deps, job.runId);
+        return { ...base, outcome: 'failed', error: result.error };
+      }
+    } else {
+      const result = await executeNextStep(
+        { ...deps, leaseOwner: deps.workerId },
+        job.runId,
+        { deferEvaluation: true, rethrowErrors: true }
+      );
+
+      if (result.phase === 'busy') {
+        await queue.reschedule(job, new Date(now().getTime() + BUSY_RETRY_MS), { attempt: job.attempt - 1 });
+        return { ...base, outcome: 'busy', error: result.error, lease: result.lease };
+      }
+      // Deep Research slots were full: start again when one may be free, without counting an attempt
+      if (result.retryAt) {
+        await queue.reschedule(job, new Date(result.retryAt), { attempt: job.attempt - 1 });
+        return { ...base, outcome: 'retry' };
+      }
+      timedOut = result.timedOut;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const attempt = job.attempt;
+
+    if (attempt < MAX_JOB_ATTEMPTS) {
+      const delayMs = getJobBackoffMs(attempt);
+      logger.warn(`Job ${getJobKey(job)} failed (attempt ${attempt}/${MAX_JOB_ATTEMPTS}), retrying in ${delayMs / 1000}s: ${message}`);
+      await queue.reschedule(job, new Date(now().getTime() + delayMs), { attempt, lastError: message });
+      return { ...base, outcome: 'retry', error: message };
+    }
+
+    logger.error(`Job ${getJobKey(job)} failed ${attempt} times, giving up:`, error);
+    await markJobFailed(deps, job, message);
+    await queue.complete(job);
+    await enqueueSuccessors(deps, job.runId);
+    return { ...base, outcome: 'failed', error: message };
+  }
+
+  await queue.complete(job);
+  await enqueueSuccessors(deps, job.runId);
+  return { ...base, outcome: 'done', ...(timedOut && { timedOut }) };
+}
+
+/**
+ * Execute due jobs until none are left or the time budget runs out
+ *
+ * Jobs are claimed only while at least jobTimeMs is left, so that a function
+ * time limit after the budget does not kill them mid-job. Waits for jobs that
+ * become due while they can still be claimed (e.g. the next Deep Research
+ * poll); later ones are left to the next worker invocation.
+ */
+export async function drainPipelineJobs(
+  deps: PipelineWorkerDependencies,
+  options: DrainOptions
+): Promise<DrainSummary> {
+  const { queue, workerId, logger = defaultLogger } = deps;
+  const now = deps.now ?? (() => new Date());
+  const sleep = deps.sleep ?? sleepUnlessAborted;
+  const concurrency = options.concurrency ?? WORKER_CONCURRENCY;
+  const claimDeadlineMs = options.timeBudgetMs - (options.jobTimeMs ?? 0);
+
+  const startedAt = now().getTime();
+  const elapsed = () => now().getTime() - startedAt;
+  const results: JobResult[] = [];
+
+  while (elapsed() < claimDeadlineMs && !options.signal?.aborted) {
+    const jobs = await queue.claim(workerId, concurrency, now(), { runId: options.runId });
+
+    if (jobs.length === 0) {
+      const nextRunAfter = await queue.getNextRunAfter(now(), { runId: options.runId });
+      const waitMs = nextRunAfter ? nextRunAfter.getTime() - now().getTime() : null;
+      if (waitMs === null) {
+        return { results, drained: true, elapsedMs: elapsed() };
+      }
+      if (elapsed() + waitMs >= claimDeadlineMs) {
+        return { results, drained: false, elapsedMs: elapsed() };
+      }
+      await sleep(Math.min(Math.max(waitMs, 0), options.maxWaitMs ?? Infinity), options.signal);
+      continue;
+    }
+
+    logger.log(`Worker ${workerId} claimed ${jobs.length} jobs: ${jobs.map(getJobKey).join(', ')}`);
+
+    // A job that cannot even record its outcome stays locked and is retried after the lock expires
+    const settled = await Promise.all(
+      jobs.map(job =>
+        runPipelineJob(deps, job).catch((error): JobResult => {
+          logger.error(`Failed to record the outcome of job ${getJobKey(job)}:`, error);
+          return {
+            jobId: job.id,
+            runId: job.runId,
+            hypothesisUuid: job.hypothesisUuid,
+            phase: job.phase,
+            outcome: 'retry',
+            error: error instanceof Error ? error.message : 'Unknown error',
+          };
+        })
+      )
+    );
+    results.push(...settled);
+  }
+
+  return { results, drained: false, elapsedMs: elapsed() };
+}
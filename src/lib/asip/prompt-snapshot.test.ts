@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPromptSnapshot,
+  getSnapshotPrompt,
+  renderStepPrompt,
+  usesDataPlaceholders,
+} from './prompt-snapshot';
+
+describe('prompt-snapshot', () => {
+  describe('buildPromptSnapshot', () => {
+    it('records active versions and marks other steps as builtin', () => {
+      const snapshot = buildPromptSnapshot(
+        [{ id: 5, stepNumber: 3, version: 4, content: 'S3 prompt' }],
+        new Date('2026-01-20T00:00:00Z')
+      );
+
+      expect(snapshot.resolvedAt).toBe('2026-01-20T00:00:00.000Z');
+      expect(snapshot.steps['3']).toEqual({ source: 'version', versionId: 5, version: 4, content: 'S3 prompt' });
+      expect(snapshot.steps['21']).toEqual({ source: 'builtin', versionId: null, version: null, content: null });
+      expect(Object.keys(snapshot.steps)).toHaveLength(6);
+    });
+
+    it('ignores versions for unknown steps', () => {
+      const snapshot = buildPromptSnapshot([{ id: 1, stepNumber: 99, version: 1, content: 'x' }]);
+      expect(snapshot.steps['99']).toBeUndefined();
+    });
+  });
+
+  describe('getSnapshotPrompt', () => {
+    it('returns content for versioned steps and null otherwise', () => {
+      const snapshot = buildPromptSnapshot([{ id: 5, stepNumber: 4, version: 1, content: 'S4' }]);
+      expect(getSnapshotPrompt(snapshot, 4)).toBe('S4');
+      expect(getSnapshotPrompt(snapshot, 5)).toBeNull();
+      expect(getSnapshotPrompt(null, 4)).toBeNull();
+    });
+  });
+
+  describe('renderStepPrompt', () => {
+    it('appends context when the template has no data placeholders', () => {
+      expect(renderStepPrompt('Top {HYPOTHESIS_COUNT}', { HYPOTHESIS_COUNT: 1 }, 'CTX')).toBe('Top 1\n\nCTX');
+    });
+
+    it('does not append context when the template embeds inputs', () => {
+      const template = '評価対象:\n{STEP22_OUTPUT}';
+      expect(usesDataPlaceholders(template)).toBe(true);
+      expect(renderStepPrompt(template, { STEP22_OUTPUT: 'report' }, 'CTX')).toBe('評価対象:\nreport');
+    });
+  });
+});
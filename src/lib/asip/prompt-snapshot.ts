@@ -0,0 +1,111 @@
+/**
+ * Prompt Snapshot - pins the prompt text used by a run
+ *
+ * When a run starts, the active promptVersions row for each step is resolved
+ * and copied onto the run. Every later step reads from this snapshot, so
+ * editing prompts in Settings mid-run does not change a running pipeline,
+ * and each hypothesis can be traced back to the exact prompt that produced it.
+ */
+
+import { AVAILABLE_STEPS, type StepNumber } from '@/lib/prompts/defaults';
+import { formatPrompt } from './prompts';
+
+/**
+ * Active prompt version row (subset of promptVersions)
+ */
+export interface ActivePromptVersion {
+  id: number;
+  stepNumber: number;
+  version: number;
+  content: string;
+}
+
+/**
+ * Prompt resolved for a single step
+ * - source 'version': an active Settings version, content holds the exact text
+ * - source 'builtin': no active version, the built-in prompt in prompts.ts is used
+ */
+export interface PromptSnapshotEntry {
+  source: 'version' | 'builtin';
+  versionId: number | null;
+  version: number | null;
+  content: string | null;
+}
+
+/**
+ * Prompt snapshot stored in runs.promptSnapshot
+ */
+export interface PromptSnapshot {
+  resolvedAt: string;
+  steps: Record<string, PromptSnapshotEntry>;
+}
+
+/**
+ * Placeholders that inject input data (as opposed to settings like HYPOTHESIS_COUNT)
+ */
+const DATA_PLACEHOLDERS = [
+  'TARGET_SPEC',
+  'TECHNICAL_ASSETS',
+  'PREVIOUS_HYPOTHESES',
+  'STEP21_OUTPUT',
+  'HYPOTHESIS_TITLE',
+  'HYPOTHESIS_SUMMARY',
+  'STEP22_OUTPUT',
+  'STEP3_OUTPUT',
+  'STEP4_OUTPUT',
+];
+
+/**
+ * Build a snapshot from the currently active prompt versions
+ */
+export function buildPromptSnapshot(
+  activeVersions: ActivePromptVersion[],
+  resolvedAt: Date = new Date()
+): PromptSnapshot {
+  const steps: Record<string, PromptSnapshotEntry> = {};
+
+  for (const step of AVAILABLE_STEPS) {
+    const active = activeVersions.find(v => v.stepNumber === step);
+    steps[String(step)] = active
+      ? { source: 'version', versionId: active.id, version: active.version, content: active.content }
+      : { source: 'builtin', versionId: null, version: null, content: null };
+  }
+
+  return { resolvedAt: resolvedAt.toISOString(), steps };
+}
+
+/**
+ * Get the snapshotted prompt text for a step, or null if the built-in prompt applies
+ */
+export function getSnapshotPrompt(
+  snapshot: PromptSnapshot | null | undefined,
+  step: StepNumber
+): string | null {
+  const entry = snapshot?.steps?.[String(step)];
+  return entry?.source === 'version' && entry.content ? entry.content : null;
+}
+
+/**
+ * Check whether a prompt template embeds input data via placeholders
+ */
+export function usesDataPlaceholders(template: string): boolean {
+  return DATA_PLACEHOLDERS.some(key => template.includes(`{${key}}`));
+}
+
+/**
+ * Render a step prompt
+ *
+ * Templates that embed their inputs via placeholders are used as-is.
+ * Otherwise the context block is appended, which is how the built-in prompts work.
+ */
+export function renderStepPrompt(
+  template: string,
+  replacements: Record<string, string | number>,
+  context?: string
+): string {
+  const rendered = formatPrompt(template, replacements);
+  if (!context || usesDataPlaceholders(template)) {
+    return rendered;
+  }
+  return `${rendered}\n\n${context}`;
+}
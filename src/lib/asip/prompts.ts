@@ -1055,6 +1055,35 @@ P0 契約（Non-negotiables）
 5. エラーメッセージ（固定）
 - 必須ファイル不足時：「エラー: 必須ファイルが不足しています。」`;
 
+/**
+ * Step 2-1.5 structuring prompt (built-in default for step 211)
+ */
+export const STEP2_1_5_PROMPT = `以下のDeep Researchレポートから、最も有望な事業仮説を{HYPOTHESIS_COUNT}件抽出し、JSON形式で出力してください。
+
+=== Deep Research レポート ===
+{STEP21_OUTPUT}
+
+=== 重要な条件 ===
+1. 必ず{HYPOTHESIS_COUNT}件の仮説を抽出すること
+2. タイトルは具体的で分かりやすいものにすること
+3. 概要には市場機会、技術の活用方法を含めること
+4. 重複や類似した仮説は統合すること`;
+
+/**
+ * Output format appended to every Step 2-1.5 prompt (the executor parses this JSON)
+ */
+export const STEP2_1_5_OUTPUT_FORMAT = `=== 出力形式 ===
+以下のJSON形式で出力してください。JSONのみを出力し、他のテキストは含めないでください。
+
+{
+  "hypotheses": [
+    {
+      "title": "仮説のタイトル（50文字以内）",
+      "summary": "仮説の概要説明（500文字程度）"
+    }
+  ]
+}`;
+
 /**
  * Build instruction document for Deep Research
  */
@@ -1063,24 +1092,45 @@ export interface ExistingHypothesis {
   summary: string;
 }
 
+/**
+ * Build the "exclude these hypotheses" section appended to Step 2-1 instructions
+ */
+export function buildExclusionSection(existingHypotheses?: ExistingHypothesis[]): string {
+  if (!existingHypotheses || existingHypotheses.length === 0) {
+    return '';
+  }
+
+  const exclusionList = existingHypotheses
+    .map((h, i) => `${i + 1}. ${h.title}: ${h.summary.slice(0, 100)}...`)
+    .join('\n');
+  return `
+
+【除外すべき既存仮説】
+以下の仮説は既に生成済みです。これらと類似または重複する仮説は生成しないでください：
+${exclusionList}`;
+}
+
+/**
+ * Build the previous_hypotheses document (hypotheses from earlier loops of the same run)
+ */
+export function buildPreviousHypothesesDocument(previousHypotheses: ExistingHypothesis[]): string {
+  const list = previousHypotheses
+    .map((h, i) => `${i + 1}. ${h.title}\n   概要: ${h.summary.slice(0, 300)}`)
+    .join('\n');
+
+  return `【過去に生成した仮説】
+以下は同じ実行の過去ループで生成済みの仮説です。これらと重複・類似しない新しい仮説を生成してください。
+
+${list}`;
+}
+
 export function buildInstructionDocument(
   hypothesisCount: number,
   hasPreviousHypotheses: boolean,
   existingHypotheses?: ExistingHypothesis[]
 ): string {
   const hasExistingHypotheses = existingHypotheses && existingHypotheses.length > 0;
-
-  let exclusionSection = '';
-  if (hasExistingHypotheses) {
-    const exclusionList = existingHypotheses
-      .map((h, i) => `${i + 1}. ${h.title}: ${h.summary.slice(0, 100)}...`)
-      .join('\n');
-    exclusionSection = `
-
-【除外すべき既存仮説】
-以下の仮説は既に生成済みです。これらと類似または重複する仮説は生成しないでください：
-${exclusionList}`;
-  }
+  const exclusionSection = buildExclusionSection(existingHypotheses);
 
   return `【タスク】
 添付された「technical_assets」の技術資産を分析し、「target_specification」で指定された市場において、現在のトレンドと照らし合わせて、${hypothesisCount}件の新しい事業仮説を生成してください。
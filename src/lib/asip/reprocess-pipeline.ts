@@ -8,7 +8,7 @@
 
 import '@/lib/gemini/proxy-setup';
 import { db } from '@/lib/db';
-import { runs, resources, hypotheses } from '@/lib/db/schema';
+import { projects, runs, resources, hypotheses } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { createAIAdapter } from './ai-adapter';
 import {
@@ -19,6 +19,10 @@ import {
   buildHypothesisContext,
 } from './utils';
 import { formatPrompt, STEP3_PROMPT, STEP4_PROMPT, STEP5_PROMPT } from './prompts';
+import { appendDebugPrompt, saveHypothesisScores } from './db-adapter';
+import { buildDebugPromptEntry } from './debug-prompts';
+import { buildIntegratedList } from './integrated-list';
+import { ScoreStep, buildScoreRecord } from './hypothesis-scores';
 
 interface Logger {
   log: (message: string) => void;
@@ -32,6 +36,50 @@ const defaultLogger: Logger = {
   warn: (message: string) => console.warn(`[Reprocess] ${message}`),
 };
 
+/**
+ * Call generateContent and record the prompt in debugPrompts (recording failures are only logged)
+ */
+async function generateWithDebugPrompt(
+  ai: ReturnType<typeof createAIAdapter>,
+  runId: number,
+  params: { step: string; prompt: string; hypothesisUuid?: string; hypothesisNumber?: number },
+  logger: Logger
+): Promise<string> {
+  const { prompt, ...context } = params;
+  const timestamp = new Date();
+  let response: string | null = null;
+  let error: string | undefined;
+
+  try {
+    response = await ai.generateContent({ prompt });
+    return response;
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+    throw e;
+  } finally {
+    await appendDebugPrompt(runId, buildDebugPromptEntry({ ...context, prompt, response, error, timestamp }))
+      .catch(recordError => logger.warn(`Failed to record debug prompt for ${params.step}: ${recordError}`));
+  }
+}
+
+/**
+ * Parse Step 3 / 4 scores into hypothesis_scores (write failures are only logged)
+ */
+async function recordScores(
+  runId: number,
+  hypothesisUuid: string,
+  step: ScoreStep,
+  output: string,
+  logger: Logger
+): Promise<void> {
+  const record = buildScoreRecord(step, output);
+  if (record.parseErrors.length > 0) {
+    logger.warn(`Step ${step} scores of hypothesis ${hypothesisUuid}: ${record.parseErrors.join(' / ')}`);
+  }
+  await saveHypothesisScores(runId, hypothesisUuid, record)
+    .catch(error => logger.warn(`Failed to save Step ${step} scores for hypothesis ${hypothesisUuid}: ${error}`));
+}
+
 /**
  * Start the reprocess pipeline
  */
@@ -41,7 +89,6 @@ export async function startReprocessPipeline(
   customPrompt?: string | null
 ): Promise<void> {
   const logger = defaultLogger;
-  const ai = createAIAdapter();
 
   logger.log(`Starting reprocess run ${runId}`);
 
@@ -52,6 +99,13 @@ export async function startReprocessPipeline(
       throw new Error(`Run ${runId} not found`);
     }
 
+    // Use the AI provider of the run's project
+    const [project] = await db
+      .select({ aiProvider: projects.aiProvider })
+      .from(projects)
+      .where(eq(projects.id, run.projectId));
+    const ai = createAIAdapter(project?.aiProvider);
+
     // Get technical assets if specified
     let technicalAssetsContent = '';
     if (run.technicalAssetsId) {
@@ -113,7 +167,12 @@ ${customPrompt}
 3. 概要には市場機会、技術の活用方法、期待される効果を含めること
 4. 重複や類似した仮説は統合すること`;
 
-    const extractionResponse = await ai.generateContent({ prompt: extractionPrompt });
+    const extractionResponse = await generateWithDebugPrompt(
+      ai,
+      runId,
+      { step: 'reprocess_extraction', prompt: extractionPrompt },
+      logger
+    );
     const parsed = extractJsonFromResponse(extractionResponse, isHypothesesResponse);
 
     let parsedHypotheses = parsed ? validateAndCleanHypotheses(parsed.hypotheses) : [];
@@ -183,6 +242,7 @@ ${customPrompt}
       try {
         await processEvaluationSteps(
           ai,
+          runId,
           h.uuid,
           uploadedContent,
           technicalAssetsContent,
@@ -202,12 +262,26 @@ ${customPrompt}
 
     await Promise.all(evaluationPromises);
 
+    // Assemble Step 5 rows into the integrated list
+    const evaluatedHypotheses = await db
+      .select({
+        uuid: hypotheses.uuid,
+        hypothesisNumber: hypotheses.hypothesisNumber,
+        loopNumber: hypotheses.loopNumber,
+        displayTitle: hypotheses.displayTitle,
+        step5Output: hypotheses.step5Output,
+        processingStatus: hypotheses.processingStatus,
+      })
+      .from(hypotheses)
+      .where(eq(hypotheses.runId, runId));
+
     // Complete
     await db
       .update(runs)
       .set({
         status: 'completed',
         currentStep: 5,
+        integratedList: buildIntegratedList(evaluatedHypotheses),
         completedAt: new Date(),
         progressInfo: { message: '再処理が完了しました', phase: 'completed' },
       })
@@ -231,6 +305,7 @@ ${customPrompt}
  */
 async function processEvaluationSteps(
   ai: ReturnType<typeof createAIAdapter>,
+  runId: number,
   hypothesisUuid: string,
   uploadedContent: string,
   technicalAssetsContent: string,
@@ -243,6 +318,8 @@ async function processEvaluationSteps(
 
   if (!hypothesis) return;
 
+  const debugContext = { hypothesisUuid, hypothesisNumber: hypothesis.hypothesisNumber };
+
   const context = buildHypothesisContext({
     displayTitle: hypothesis.displayTitle,
     uuid: hypothesis.uuid,
@@ -260,11 +337,17 @@ async function processEvaluationSteps(
     .where(eq(hypotheses.uuid, hypothesisUuid));
 
   const step3Prompt = formatPrompt(STEP3_PROMPT, { HYPOTHESIS_COUNT: 1 }) + '\n\n' + context;
-  const step3Output = await ai.generateContent({ prompt: step3Prompt });
+  const step3Output = await generateWithDebugPrompt(
+    ai,
+    runId,
+    { step: 'step3', prompt: step3Prompt, ...debugContext },
+    logger
+  );
   await db
     .update(hypotheses)
     .set({ step3Output })
     .where(eq(hypotheses.uuid, hypothesisUuid));
+  await recordScores(runId, hypothesisUuid, 3, step3Output, logger);
 
   // Step 4: Competitive Analysis
   logger.log(`Step 4 for hypothesis ${hypothesisUuid}`);
@@ -278,11 +361,17 @@ async function processEvaluationSteps(
     '\n\n' +
     context +
     `\n\n=== Step 3 技術評価結果 ===\n${step3Output}`;
-  const step4Output = await ai.generateContent({ prompt: step4Prompt });
+  const step4Output = await generateWithDebugPrompt(
+    ai,
+    runId,
+    { step: 'step4', prompt: step4Prompt, ...debugContext },
+    logger
+  );
   await db
     .update(hypotheses)
     .set({ step4Output })
     .where(eq(hypotheses.uuid, hypothesisUuid));
+  await recordScores(runId, hypothesisUuid, 4, step4Output, logger);
 
   // Step 5: Integration
   logger.log(`Step 5 for hypothesis ${hypothesisUuid}`);
@@ -297,7 +386,12 @@ async function processEvaluationSteps(
     context +
     `\n\n=== Step 3 技術評価 ===\n${step3Output}` +
     `\n\n=== Step 4 競合分析 ===\n${step4Output}`;
-  const step5Output = await ai.generateContent({ prompt: step5Prompt });
+  const step5Output = await generateWithDebugPrompt(
+    ai,
+    runId,
+    { step: 'step5', prompt: step5Prompt, ...debugContext },
+    logger
+  );
 
   await db
     .update(hypotheses)
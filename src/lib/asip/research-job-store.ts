@@ -0,0 +1,93 @@
+/**
+ * Postgres storage for emulated research jobs (emulated_research_jobs)
+ *
+ * A job is claimed by setting locked_until in a conditional update, so two
+ * polls of the same handle never run a step of it side by side.
+ */
+
+import { and, eq, isNull, lte, or } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { emulatedResearchJobs, type EmulatedResearchJobRow } from '@/lib/db/schema';
+import type { TokenUsage } from '@/lib/gemini/usage';
+import type { ResearchFile, ResearchJob, ResearchJobStore } from './emulated-research';
+
+function toJob(row: EmulatedResearchJobRow): ResearchJob {
+  return {
+    id: row.id,
+    status: row.status,
+    prompt: row.prompt,
+    files: row.files as ResearchFile[],
+    model: row.model,
+    questions: row.questions as string[] | null,
+    findings: row.findings as string[],
+    result: row.result,
+    error: row.error,
+    usage: row.usage as TokenUsage,
+  };
+}
+
+export function createResearchJobStore(): ResearchJobStore {
+  return {
+    async create(job) {
+      await db.insert(emulatedResearchJobs).values({
+        id: job.id,
+        status: job.status,
+        prompt: job.prompt,
+        files: job.files,
+        model: job.model,
+        questions: job.questions,
+        findings: job.findings,
+        usage: job.usage,
+      });
+    },
+
+    async get(id) {
+      const [row] = await db.select().from(emulatedResearchJobs).where(eq(emulatedResearchJobs.id, id));
+      return row ? toJob(row) : null;
+    },
+
+    async claim(id, lockMs) {
+      const now = new Date();
+      const [row] = await db
+        .update(emulatedResearchJobs)
+        .set({ lockedUntil: new Date(now.getTime() + lockMs) })
+        .where(
+          and(
+            eq(emulatedResearchJobs.id, id),
+            eq(emulatedResearchJobs.status, 'in_progress'),
+            or(isNull(emulatedResearchJobs.lockedUntil), lte(emulatedResearchJobs.lockedUntil, now))
+          )
+        )
+        .returning();
+      return row ? toJob(row) : null;
+    },
+
+    async save(job) {
+      await db
+        .update(emulatedResearchJobs)
+        .set({
+          status: job.status,
+          questions: job.questions,
+          findings: job.findings,
+          result: job.result,
+          error: job.error,
+          usage: job.usage,
+          lockedUntil: null,
+          updatedAt: new Date(),
+        })
+        // A job cancelled while the step ran stays cancelled
+        .where(and(eq(emulatedResearchJobs.id, job.id), eq(emulatedResearchJobs.status, 'in_progress')));
+    },
+
+    async cancel(id) {
+      await db
+        .update(emulatedResearchJobs)
+        .set({ status: 'cancelled', lockedUntil: null, updatedAt: new Date() })
+        .where(and(eq(emulatedResearchJobs.id, id), eq(emulatedResearchJobs.status, 'in_progress')));
+    },
+
+    async delete(id) {
+      await db.delete(emulatedResearchJobs).where(eq(emulatedResearchJobs.id, id));
+    },
+  };
+}
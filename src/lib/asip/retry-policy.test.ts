@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_EVALUATION_RETRIES,
+  formatRetryStatus,
+  getHypothesisRetryState,
+  getRetryDelayMs,
+  planRetry,
+} from './retry-policy';
+import { ContentGenerationError, RateLimitError } from './errors';
+
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+
+describe('retry-policy', () => {
+  it('backs off exponentially, honoring the wait a 429 asks for', () => {
+    expect(getRetryDelayMs(new Error('x'), 1)).toBe(20_000);
+    expect(getRetryDelayMs(new Error('x'), 2)).toBe(40_000);
+    expect(getRetryDelayMs(new Error('x'), 10)).toBe(600_000);
+    expect(getRetryDelayMs(new RateLimitError(90), 1)).toBe(90_000);
+  });
+
+  it('counts attempts on top of the previous retry state', () => {
+    const first = planRetry(null, new ContentGenerationError('503', 'generateContent', undefined, true), NOW, 'step4');
+    expect(first).toEqual({
+      retry: true,
+      state: {
+        attempt: 1,
+        maxAttempts: MAX_EVALUATION_RETRIES,
+        nextRetryAt: '2026-01-01T00:00:20.000Z',
+        lastError: 'コンテンツ生成失敗 (generateContent): 503',
+        errorCode: 'CONTENT_GENERATION_ERROR',
+        step: 'step4',
+      },
+    });
+
+    const second = planRetry(first.retry ? first.state : null, new Error('fetch failed'), NOW);
+    expect(second).toMatchObject({ retry: true, state: { attempt: 2, nextRetryAt: '2026-01-01T00:00:40.000Z' } });
+  });
+
+  it('gives up on non-retryable errors and after the last retry', () => {
+    expect(planRetry(null, new ContentGenerationError('400', 'generateContent'), NOW)).toEqual({
+      retry: false,
+      reason: 'non_retryable',
+      message: 'コンテンツ生成失敗 (generateContent): 400',
+    });
+
+    const last = { attempt: MAX_EVALUATION_RETRIES, maxAttempts: MAX_EVALUATION_RETRIES, nextRetryAt: NOW.toISOString(), lastError: 'x', errorCode: 'UNKNOWN_ERROR' };
+    expect(planRetry(last, new Error('fetch failed'), NOW)).toMatchObject({ retry: false, reason: 'exhausted' });
+  });
+
+  it('reads and formats the retry state of a hypothesis', () => {
+    const retry = { attempt: 2, maxAttempts: 5, nextRetryAt: '2026-01-01T00:00:40.000Z', lastError: 'x', errorCode: 'RATE_LIMIT_ERROR' };
+
+    expect(getHypothesisRetryState({ retry })).toBe(retry);
+    expect(getHypothesisRetryState({ stepModels: {} })).toBeNull();
+    expect(getHypothesisRetryState(null)).toBeNull();
+    expect(formatRetryStatus(retry, NOW)).toBe('再試行 2/5（40秒後）');
+    expect(formatRetryStatus(retry, new Date('2026-01-01T00:01:00.000Z'))).toBe('再試行 2/5（まもなく）');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Retry Policy - retries of a hypothesis' Steps 3-5 after transient Gemini failures
+ *
+ * A failed evaluation is classified (classifyGeminiError / isRetryableError).
+ * Retryable failures keep the hypothesis in its step and record the attempt and
+ * the time of the next try in fullData.retry; the evaluation resumes from the
+ * failed step after an exponential backoff. Non-retryable failures, and
+ * failures after MAX_EVALUATION_RETRIES retries, mark the hypothesis as error.
+ */
+
+import { RateLimitError, getErrorMessage, isASIPError, isRetryableError } from './errors';
+
+// Retries of one hypothesis' evaluation before it is marked as error
+export const MAX_EVALUATION_RETRIES = 5;
+
+const RETRY_BASE_MS = 20 * 1000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+/**
+ * Pending retry of a hypothesis (fullData.retry)
+ */
+export interface HypothesisRetryState {
+  attempt: number; // Retries so far (1 after the first failure)
+  maxAttempts: number;
+  nextRetryAt: string;
+  lastError: string;
+  errorCode: string; // ASIP error code of the last failure (UNKNOWN_ERROR for other errors)
+  step?: string | null; // Step that failed (processingStatus)
+}
+
+export type RetryDecision =
+  | { retry: true; state: HypothesisRetryState }
+  | { retry: false; reason: 'non_retryable' | 'exhausted'; message: string };
+
+/**
+ * Delay before the given retry (20s, 40s, 80s, ... up to 10m; at least the wait a 429 response asks for)
+ */
+export function getRetryDelayMs(error: unknown, attempt: number): number {
+  const backoff = Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_MS);
+  const retryAfterSeconds = error instanceof RateLimitError ? error.details?.retryAfterSeconds : undefined;
+  return typeof retryAfterSeconds === 'number' ? Math.max(backoff, retryAfterSeconds * 1000) : backoff;
+}
+
+/**
+ * Retry state stored in a hypothesis' fullData, if any
+ */
+export function getHypothesisRetryState(fullData: unknown): HypothesisRetryState | null {
+  const retry = (fullData as { retry?: HypothesisRetryState } | null | undefined)?.retry;
+  return retry && typeof retry.attempt === 'number' && retry.nextRetryAt ? retry : null;
+}
+
+/**
+ * Decide whether a failed evaluation is retried, given the hypothesis' previous retry state
+ */
+export function planRetry(
+  previous: HypothesisRetryState | null,
+  error: unknown,
+  now: Date,
+  step?: string | null
+): RetryDecision {
+  const message = getErrorMessage(error);
+
+  if (!isRetryableError(error)) {
+    return { retry: false, reason: 'non_retryable', message };
+  }
+
+  const attempt = (previous?.attempt ?? 0) + 1;
+  if (attempt > MAX_EVALUATION_RETRIES) {
+    return { retry: false, reason: 'exhausted', message: `${message}（${MAX_EVALUATION_RETRIES}回再試行後）` };
+  }
+
+  return {
+    retry: true,
+    state: {
+      attempt,
+      maxAttempts: MAX_EVALUATION_RETRIES,
+      nextRetryAt: new Date(now.getTime() + getRetryDelayMs(error, attempt)).toISOString(),
+      lastError: message,
+      errorCode: isASIPError(error) ? error.code : 'UNKNOWN_ERROR',
+      step: step ?? null,
+    },
+  };
+}
+
+/**
+ * Milliseconds until the retry is due (0 when it is due now)
+ */
+export function getRetryWaitMs(state: HypothesisRetryState, now: Date): number {
+  return Math.max(0, Date.parse(state.nextRetryAt) - now.getTime());
+}
+
+/**
+ * Short label for the hypothesis card, e.g. "再試行 2/5（40秒後）"
+ */
+export function formatRetryStatus(state: HypothesisRetryState, now: Date): string {
+  const seconds = Math.ceil(getRetryWaitMs(state, now) / 1000);
+  const when = seconds > 0 ? `${seconds}秒後` : 'まもなく';
+  return `再試行 ${state.attempt}/${state.maxAttempts}（${when}）`;
+}
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  BUDGET_EXCEEDED_MESSAGE,
+  BUDGET_UNPRICED_MESSAGE,
+  checkDeepResearchBudget,
+  estimateRunCost,
+  parseBudgetUsd,
+  pauseIfOverBudget,
+  type StepUsageAverage,
+} from './run-budget';
+import type { PriceTable, UsageGroup } from './cost-accounting';
+import type { RunData } from './pipeline-core';
+import { DEEP_RESEARCH_MODEL, STEP_MODEL_MAP } from './model-selection';
+
+// $1 per million input tokens, everything else free
+const TABLE: PriceTable = {
+  [DEEP_RESEARCH_MODEL]: { inputPerMillion: 1, outputPerMillion: 0 },
+  [STEP_MODEL_MAP.pro.step3]: { inputPerMillion: 1, outputPerMillion: 0 },
+  [STEP_MODEL_MAP.flash.step3]: { inputPerMillion: 1, outputPerMillion: 0 },
+};
+
+const NOW = new Date('2026-01-02T00:00:00.000Z');
+
+function average(step: string, model: string, inputTokens: number): StepUsageAverage {
+  return { step, model, calls: 4, inputTokens, outputTokens: 0, thinkingTokens: 0, cachedTokens: 0, groundingCalls: 0 };
+}
+
+function usage(model: string, inputTokens: number): UsageGroup {
+  return {
+    runId: 1,
+    hypothesisUuid: null,
+    step: 'step3',
+    model,
+    calls: 1,
+    inputTokens,
+    outputTokens: 0,
+    thinkingTokens: 0,
+    cachedTokens: 0,
+    groundingCalls: 0,
+  };
+}
+
+const run: RunData = {
+  id: 1,
+  projectId: 100,
+  hypothesisCount: 3,
+  jobName: 'Budgeted Run',
+  targetSpecId: 10,
+  technicalAssetsId: 20,
+  progressInfo: { message: '評価中' },
+  budgetUsd: 1,
+};
+
+describe('run-budget', () => {
+  describe('estimateRunCost', () => {
+    it('multiplies the calls per step by the historical averages', () => {
+      const estimate = estimateRunCost(
+        { hypothesisCount: 3, loopCount: 2, modelChoice: 'pro', resourceChars: 0 },
+        [average('step2_2', DEEP_RESEARCH_MODEL, 500_000), average('step3', STEP_MODEL_MAP.pro.step3, 100_000)],
+        TABLE
+      );
+
+      const step2_2 = estimate.steps.find(s => s.step === 'step2_2')!;
+      expect(step2_2).toMatchObject({ calls: 6, basis: 'history' });
+      expect(step2_2.costUsd).toBeCloseTo(3);
+      expect(estimate.steps.find(s => s.step === 'step3')).toMatchObject({ calls: 6, basis: 'history' });
+      expect(estimate.steps.find(s => s.step === 'step2_1')).toMatchObject({ calls: 2, basis: 'default' });
+      expect(estimate.totalUsd).toBeCloseTo(
+        estimate.steps.reduce((sum, s) => sum + (s.costUsd ?? 0), 0)
+      );
+    });
+
+    it('sizes steps without history from the resources and leaves unpriced models out', () => {
+      const small = estimateRunCost({ hypothesisCount: 1, resourceChars: 0 }, [], TABLE);
+      const large = estimateRunCost({ hypothesisCount: 1, resourceChars: 2_000_000 }, [], TABLE);
+
+      const step3Small = small.steps.find(s => s.step === 'step3')!;
+      const step3Large = large.steps.find(s => s.step === 'step3')!;
+      expect(step3Large.usagePerCall.inputTokens - step3Small.usagePerCall.inputTokens).toBe(1_000_000);
+      expect(step3Large.costUsd! - step3Small.costUsd!).toBeCloseTo(1);
+
+      const unpriced = small.steps.filter(s => s.costUsd === null).map(s => s.model);
+      expect(unpriced.every(model => !(model in TABLE))).toBe(true);
+    });
+
+    it('uses the flash models for a flash run', () => {
+      const estimate = estimateRunCost({ hypothesisCount: 1, modelChoice: 'flash', resourceChars: 0 }, [], TABLE);
+      expect(estimate.steps.find(s => s.step === 'step3')!.model).toBe(STEP_MODEL_MAP.flash.step3);
+    });
+  });
+
+  describe('parseBudgetUsd', () => {
+    it('accepts positive numbers and clears the cap with null or an empty string', () => {
+      expect(parseBudgetUsd(undefined)).toBeUndefined();
+      expect(parseBudgetUsd(null)).toBeNull();
+      expect(parseBudgetUsd('')).toBeNull();
+      expect(parseBudgetUsd(2.5)).toBe(2.5);
+      expect(parseBudgetUsd('10')).toBe(10);
+    });
+
+    it('rejects zero, negative and non-numeric budgets', () => {
+      expect(() => parseBudgetUsd(0)).toThrow('budgetUsd must be a positive number');
+      expect(() => parseBudgetUsd(-1)).toThrow();
+      expect(() => parseBudgetUsd('lots')).toThrow();
+    });
+  });
+
+  describe('pauseIfOverBudget', () => {
+    function createDeps(groups: UsageGroup[]) {
+      return {
+        db: {
+          getRunUsage: vi.fn().mockResolvedValue(groups),
+          updateRunStatus: vi.fn().mockResolvedValue(undefined),
+        },
+        priceTable: TABLE,
+        now: () => NOW,
+      };
+    }
+
+    it('pauses the run with a budget pause reason once the spend reaches the budget', async () => {
+      const deps = createDeps([usage(DEEP_RESEARCH_MODEL, 1_200_000)]);
+
+      await expect(pauseIfOverBudget(deps, run)).resolves.toBe(true);
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(1, {
+        status: 'paused',
+        progressInfo: {
+          message: BUDGET_EXCEEDED_MESSAGE,
+          pauseReason: { reason: 'budget_exceeded', budgetUsd: 1, spentUsd: 1.2, pausedAt: NOW.toISOString() },
+        },
+        updatedAt: expect.any(Date),
+      });
+    });
+
+    it('lets the run continue below its budget or without one', async () => {
+      const under = createDeps([usage(DEEP_RESEARCH_MODEL, 500_000)]);
+      await expect(pauseIfOverBudget(under, run)).resolves.toBe(false);
+
+      const uncapped = createDeps([usage(DEEP_RESEARCH_MODEL, 5_000_000)]);
+      await expect(pauseIfOverBudget(uncapped, { ...run, budgetUsd: null })).resolves.toBe(false);
+      expect(uncapped.db.getRunUsage).not.toHaveBeenCalled();
+
+      expect(under.db.updateRunStatus).not.toHaveBeenCalled();
+      expect(uncapped.db.updateRunStatus).not.toHaveBeenCalled();
+    });
+
+    it('pauses a capped run whose usage includes models without a price', async () => {
+      const deps = createDeps([usage(DEEP_RESEARCH_MODEL, 250_000), usage('local-llm', 5_000_000)]);
+
+      await expect(pauseIfOverBudget(deps, run)).resolves.toBe(true);
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(1, expect.objectContaining({
+        progressInfo: {
+          message: BUDGET_UNPRICED_MESSAGE,
+          pauseReason: {
+            reason: 'unpriced_models',
+            budgetUsd: 1,
+            spentUsd: 0.25,
+            unpricedModels: ['local-llm'],
+            pausedAt: NOW.toISOString(),
+          },
+        },
+      }));
+      await expect(pauseIfOverBudget(deps, { ...run, budgetUsd: null })).resolves.toBe(false);
+    });
+
+    it('does not pause when the adapter cannot read usage', async () => {
+      const deps = { db: { updateRunStatus: vi.fn() }, priceTable: TABLE };
+      await expect(pauseIfOverBudget(deps, run)).resolves.toBe(false);
+    });
+  });
+
+  describe('checkDeepResearchBudget', () => {
+    // One Step 2-2 call is estimated at $0.5
+    function createDeps(groups: UsageGroup[]) {
+      return {
+        db: {
+          getRunUsage: vi.fn().mockResolvedValue(groups),
+          getStepUsageAverages: vi.fn().mockResolvedValue([average('step2_2', DEEP_RESEARCH_MODEL, 500_000)]),
+          updateRunStatus: vi.fn().mockResolvedValue(undefined),
+        },
+        priceTable: TABLE,
+        now: () => NOW,
+      };
+    }
+
+    it('counts running interactions at the estimated cost of a call', async () => {
+      const deps = createDeps([usage(DEEP_RESEARCH_MODEL, 400_000)]);
+
+      // $2 - $0.4 spent - $0.5 running leaves room for two more calls
+      await expect(checkDeepResearchBudget(deps, { ...run, budgetUsd: 2 }, { running: 1, resourceChars: 0 }))
+        .resolves.toEqual({ paused: false, startable: 2 });
+      await expect(checkDeepResearchBudget(deps, { ...run, budgetUsd: 2 }, { running: 3, resourceChars: 0 }))
+        .resolves.toEqual({ paused: false, startable: 0 });
+      expect(deps.db.updateRunStatus).not.toHaveBeenCalled();
+    });
+
+    it('pauses the run when not even one call fits and none is running', async () => {
+      const deps = createDeps([usage(DEEP_RESEARCH_MODEL, 600_000)]);
+
+      await expect(checkDeepResearchBudget(deps, run, { running: 0, resourceChars: 0 }))
+        .resolves.toEqual({ paused: true, startable: 0 });
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(1, expect.objectContaining({
+        status: 'paused',
+        progressInfo: expect.objectContaining({
+          pauseReason: { reason: 'budget_exceeded', budgetUsd: 1, spentUsd: 0.6, pausedAt: NOW.toISOString() },
+        }),
+      }));
+    });
+
+    it('starts nothing once the usage includes models without a price', async () => {
+      const deps = createDeps([usage('local-research', 100_000)]);
+
+      await expect(checkDeepResearchBudget(deps, { ...run, budgetUsd: 100 }, { running: 1, resourceChars: 0 }))
+        .resolves.toEqual({ paused: true, startable: 0 });
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(1, expect.objectContaining({
+        progressInfo: expect.objectContaining({
+          pauseReason: expect.objectContaining({ reason: 'unpriced_models', unpricedModels: ['local-research'] }),
+        }),
+      }));
+    });
+
+    it('does not limit runs without a budget', async () => {
+      const deps = createDeps([usage(DEEP_RESEARCH_MODEL, 5_000_000)]);
+
+      await expect(checkDeepResearchBudget(deps, { ...run, budgetUsd: null }, { running: 0, resourceChars: 0 }))
+        .resolves.toEqual({ paused: false, startable: null });
+      expect(deps.db.getRunUsage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Run Budget - pre-run cost estimate and the per-run spending cap
+ *
+ * The estimate multiplies the calls a run makes per step by the average
+ * usage of past calls (ai_usage), falling back to defaults sized from the
+ * run's resources. The cap (runs.budget_usd) is checked before new Step 2-2
+ * Deep Research and before new Step 3-5 evaluations: once the recorded spend
+ * reaches it, the run is paused with a budget pause reason. Deep Research
+ * usage is only recorded when an interaction finishes, so Step 2-2 starts are
+ * limited to the calls that fit in the rest of the budget, counting running
+ * interactions at the estimated cost of a call. Work already started (an
+ * evaluation past Step 3) still finishes, so the spend can end slightly above
+ * the cap. Calls of models missing from the price table add no cost, so a
+ * capped run whose usage includes them is paused (the cap cannot be enforced)
+ * until the models are priced (GEMINI_PRICE_TABLE) or the cap is removed.
+ */
+
+import { DEEP_RESEARCH_MODEL, STEP_MODEL_MAP, type ModelChoice } from './model-selection';
+import {
+  estimateCost,
+  getPriceTable,
+  sumUsage,
+  type PriceTable,
+  type TokenUsage,
+  type UsageGroup,
+} from './cost-accounting';
+import type { DatabaseOperations, RunData } from './pipeline-core';
+
+export const BUDGET_EXCEEDED_MESSAGE = '予算上限に達したため一時停止しました';
+export const BUDGET_UNPRICED_MESSAGE = '料金が未設定のモデルを使用したため、予算を確認できず一時停止しました';
+
+/**
+ * Reason a run was paused by the pipeline (progressInfo.pauseReason)
+ */
+export interface BudgetPauseReason {
+  reason: 'budget_exceeded' | 'unpriced_models';
+  budgetUsd: number;
+  spentUsd: number;
+  unpricedModels?: string[]; // Models without a price (unpriced_models)
+  pausedAt: string;
+}
+
+/**
+ * Spend recorded for a run; calls of unpricedModels are not in spentUsd
+ */
+export interface RunSpend {
+  spentUsd: number;
+  unpricedModels: string[];
+}
+
+/**
+ * Average usage of one call of a step on a model (from ai_usage)
+ */
+export interface StepUsageAverage extends TokenUsage {
+  step: string;
+  model: string;
+  calls: number; // Calls the average is taken over
+}
+
+export type EstimatedStep = 'step2_1' | 'step2_1_5' | 'step2_2' | 'step3' | 'step4' | 'step5';
+
+export interface RunCostEstimateInput {
+  hypothesisCount: number;
+  loopCount?: number;
+  modelChoice?: ModelChoice | null;
+  resourceChars: number; // Target spec + technical assets, sent with every step
+}
+
+export interface StepCostEstimate {
+  step: EstimatedStep;
+  model: string;
+  calls: number;
+  usagePerCall: TokenUsage;
+  costUsd: number | null; // Null when the model has no price
+  basis: 'history' | 'default';
+}
+
+export interface RunCostEstimate {
+  totalUsd: number;
+  steps: StepCostEstimate[];
+}
+
+// Rough characters per token of the (mostly Japanese) resources
+const CHARS_PER_TOKEN = 2;
+
+// Usage per call when no history exists (input excludes the resources)
+const DEFAULT_STEP_USAGE: Record<EstimatedStep, TokenUsage> = {
+  step2_1: { inputTokens: 200_000, outputTokens: 15_000, thinkingTokens: 30_000, cachedTokens: 0, groundingCalls: 80 },
+  step2_1_5: { inputTokens: 20_000, outputTokens: 8_000, thinkingTokens: 2_000, cachedTokens: 0, groundingCalls: 0 },
+  step2_2: { inputTokens: 150_000, outputTokens: 10_000, thinkingTokens: 20_000, cachedTokens: 0, groundingCalls: 60 },
+  step3: { inputTokens: 15_000, outputTokens: 5_000, thinkingTokens: 4_000, cachedTokens: 0, groundingCalls: 0 },
+  step4: { inputTokens: 20_000, outputTokens: 5_000, thinkingTokens: 4_000, cachedTokens: 0, groundingCalls: 0 },
+  step5: { inputTokens: 25_000, outputTokens: 3_000, thinkingTokens: 3_000, cachedTokens: 0, groundingCalls: 0 },
+};
+
+/**
+ * Steps a run calls, with their model and number of calls
+ */
+function plannedCalls(input: RunCostEstimateInput): Array<{ step: EstimatedStep; model: string; calls: number }> {
+  const models = STEP_MODEL_MAP[input.modelChoice || 'pro'];
+  const loops = Math.max(1, input.loopCount || 1);
+  const perHypothesis = Math.max(0, input.hypothesisCount) * loops;
+
+  return [
+    { step: 'step2_1', model: DEEP_RESEARCH_MODEL, calls: loops },
+    { step: 'step2_1_5', model: models.step2_1_5, calls: loops },
+    { step: 'step2_2', model: DEEP_RESEARCH_MODEL, calls: perHypothesis },
+    { step: 'step3', model: models.step3, calls: perHypothesis },
+    { step: 'step4', model: models.step4, calls: perHypothesis },
+    { step: 'step5', model: models.step5, calls: perHypothesis },
+  ];
+}
+
+/**
+ * Estimate the cost of a run before it starts
+ * - steps with history use its averages, but never less input than the resources of this run
+ * - steps without history use DEFAULT_STEP_USAGE plus the resources
+ */
+export function estimateRunCost(
+  input: RunCostEstimateInput,
+  averages: StepUsageAverage[],
+  table: PriceTable
+): RunCostEstimate {
+  const resourceTokens = Math.ceil(input.resourceChars / CHARS_PER_TOKEN);
+
+  const steps = plannedCalls(input).map(({ step, model, calls }): StepCostEstimate => {
+    const history = averages.find(a => a.step === step && a.model === model && a.calls > 0);
+    const base = DEFAULT_STEP_USAGE[step];
+    const usagePerCall: TokenUsage = history
+      ? { ...pickUsage(history), inputTokens: Math.max(history.inputTokens, resourceTokens) }
+      : { ...base, inputTokens: base.inputTokens + resourceTokens };
+
+    const perCall = estimateCost(usagePerCall, model, table);
+    return {
+      step,
+      model,
+      calls,
+      usagePerCall,
+      costUsd: perCall === null ? null : perCall * calls,
+      basis: history ? 'history' : 'default',
+    };
+  });
+
+  return { totalUsd: steps.reduce((sum, s) => sum + (s.costUsd ?? 0), 0), steps };
+}
+
+function pickUsage(usage: TokenUsage): TokenUsage {
+  const { inputTokens, outputTokens, thinkingTokens, cachedTokens, groundingCalls } = usage;
+  return { inputTokens, outputTokens, thinkingTokens, cachedTokens, groundingCalls };
+}
+
+/**
+ * Parse a budget from a request body (null / '' remove the cap)
+ */
+export function parseBudgetUsd(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const budget = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(budget) || budget <= 0) {
+    throw new Error('budgetUsd must be a positive number');
+  }
+  return budget;
+}
+
+export interface BudgetDependencies {
+  db: Pick<DatabaseOperations, 'getRunUsage' | 'getStepUsageAverages' | 'updateRunStatus'>;
+  priceTable?: PriceTable;
+  now?: () => Date;
+  logger?: {
+    log: (message: string) => void;
+    warn: (message: string) => void;
+  };
+}
+
+/**
+ * Spend recorded for a run in USD (null when the adapter cannot read usage)
+ */
+export async function getRunSpend(
+  deps: Pick<BudgetDependencies, 'db' | 'priceTable'>,
+  runId: number
+): Promise<RunSpend | null> {
+  if (!deps.db.getRunUsage) return null;
+  const groups: UsageGroup[] = await deps.db.getRunUsage(runId);
+  const { costUsd, unpricedModels } = sumUsage(groups, deps.priceTable ?? getPriceTable());
+  return { spentUsd: costUsd, unpricedModels };
+}
+
+/**
+ * Check the budget before starting new work; a run whose spend reached its
+ * budget (or includes unpriced models) is paused and true is returned
+ */
+export async function pauseIfOverBudget(deps: BudgetDependencies, run: RunData): Promise<boolean> {
+  if (run.budgetUsd == null) return false;
+
+  const spend = await getRunSpend(deps, run.id);
+  if (spend === null || (spend.unpricedModels.length === 0 && spend.spentUsd < run.budgetUsd)) return false;
+
+  await pauseForBudget(deps, run, run.budgetUsd, spend);
+  return true;
+}
+
+/**
+ * Budget check before Step 2-2 starts
+ * - startable: Deep Research calls that fit in the budget besides the running ones (null: no cap)
+ * - paused: the budget is used up, or not even one call fits and none is running
+ */
+export async function checkDeepResearchBudget(
+  deps: BudgetDependencies,
+  run: RunData,
+  params: { running: number; resourceChars: number }
+): Promise<{ paused: boolean; startable: number | null }> {
+  if (run.budgetUsd == null) return { paused: false, startable: null };
+
+  const spend = await getRunSpend(deps, run.id);
+  if (spend === null) return { paused: false, startable: null };
+  if (spend.unpricedModels.length > 0) {
+    await pauseForBudget(deps, run, run.budgetUsd, spend);
+    return { paused: true, startable: 0 };
+  }
+  const { spentUsd } = spend;
+
+  const table = deps.priceTable ?? getPriceTable();
+  const averages = deps.db.getStepUsageAverages ? await deps.db.getStepUsageAverages() : [];
+  const perCallUsd = estimateRunCost(
+    { hypothesisCount: 1, resourceChars: params.resourceChars },
+    averages,
+    table
+  ).steps.find(s => s.step === 'step2_2')?.costUsd ?? null;
+
+  const remainingUsd = run.budgetUsd - spentUsd;
+  const startable = perCallUsd
+    ? Math.max(0, Math.floor((remainingUsd - params.running * perCallUsd) / perCallUsd))
+    : null;
+
+  if (remainingUsd <= 0 || (startable === 0 && params.running === 0)) {
+    await pauseForBudget(deps, run, run.budgetUsd, spend);
+    return { paused: true, startable: 0 };
+  }
+  return { paused: false, startable };
+}
+
+async function pauseForBudget(deps: BudgetDependencies, run: RunData, budgetUsd: number, spend: RunSpend): Promise<void> {
+  const { spentUsd, unpricedModels } = spend;
+  const unpriced = unpricedModels.length > 0;
+  const pauseReason: BudgetPauseReason = {
+    reason: unpriced ? 'unpriced_models' : 'budget_exceeded',
+    budgetUsd,
+    spentUsd,
+    ...(unpriced && { unpricedModels }),
+    pausedAt: (deps.now ?? (() => new Date()))().toISOString(),
+  };
+  await deps.db.updateRunStatus(run.id, {
+    status: 'paused',
+    progressInfo: {
+      ...run.progressInfo,
+      pauseReason,
+      message: unpriced ? BUDGET_UNPRICED_MESSAGE : BUDGET_EXCEEDED_MESSAGE,
+    },
+    updatedAt: new Date(),
+  });
+  deps.logger?.warn(unpriced
+    ? `Run ${run.id} paused: its usage includes models without a price (${unpricedModels.join(', ')})`
+    : `Run ${run.id} paused: spent $${spentUsd.toFixed(4)} of its $${budgetUsd} budget`);
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  STOPPED_BY_USER_MESSAGE,
+  cancelRunInteractions,
+  findLiveInteractions,
+  recordPausedInteractions,
+  resumeRunInteractions,
+  type RunControlDependencies,
+} from './run-control';
+import type { AIOperations, HypothesisData } from './pipeline-core';
+import type { ExtendedDatabaseOperations } from './step-executor';
+
+const NOW = new Date('2026-01-01T12:00:00.000Z');
+const config = { maxWallMs: { step2_1: 60 * 60 * 1000, step2_2: 60 * 60 * 1000 }, maxRestarts: 1 };
+
+const runHandle = { interactionId: 'run-interaction', fileSearchStoreName: 'fileSearchStores/asip-run' };
+
+function hypothesis(uuid: string, fullData: Record<string, unknown>, overrides: Partial<HypothesisData> = {}): HypothesisData {
+  return {
+    uuid,
+    displayTitle: uuid,
+    hypothesisNumber: 1,
+    processingStatus: 'step2_2',
+    fullData,
+    ...overrides,
+  };
+}
+
+function createDeps(progressInfo: Record<string, unknown>, hypotheses: HypothesisData[]) {
+  const db = {
+    getRun: vi.fn().mockResolvedValue({ id: 1, projectId: 1, hypothesisCount: 2, status: 'paused', progressInfo }),
+    getHypothesesForRun: vi.fn().mockResolvedValue(hypotheses),
+    updateRunStatus: vi.fn().mockResolvedValue(undefined),
+    updateHypothesis: vi.fn().mockResolvedValue(undefined),
+    appendRunAuditEntry: vi.fn().mockResolvedValue(undefined),
+  };
+  const ai = {
+    cancelDeepResearch: vi.fn().mockResolvedValue(undefined),
+    cleanupDeepResearch: vi.fn().mockResolvedValue(undefined),
+  };
+  const deps: RunControlDependencies = {
+    db: db as unknown as ExtendedDatabaseOperations,
+    ai: ai as unknown as AIOperations,
+    now: () => NOW,
+    timeoutConfig: config,
+    logger: { log: vi.fn(), error: vi.fn(), warn: vi.fn() },
+  };
+  return { db, ai, deps };
+}
+
+describe('run-control', () => {
+  const h1Handle = { interactionId: 'h1-interaction', fileSearchStoreName: 'fileSearchStores/asip-h1' };
+  const h2Handle = { interactionId: 'h2-interaction', fileSearchStoreName: 'fileSearchStores/asip-h2' };
+
+  describe('findLiveInteractions', () => {
+    it('lists the run handle and hypothesis handles without a report', () => {
+      const interactions = findLiveInteractions(
+        { deepResearchHandle: runHandle, deepResearchStartedAt: '2026-01-01T11:00:00.000Z' },
+        [
+          hypothesis('h1', { deepResearchHandle: h1Handle }),
+          hypothesis('h2', { deepResearchHandle: h2Handle }, { step2_2Output: 'report' }),
+          hypothesis('h3', {}, { processingStatus: 'pending' }),
+        ]
+      );
+
+      expect(interactions).toEqual([
+        { hypothesisUuid: null, step: 'step2_1', handle: runHandle, startedAt: '2026-01-01T11:00:00.000Z' },
+        { hypothesisUuid: 'h1', step: 'step2_2', handle: h1Handle, startedAt: null },
+      ]);
+    });
+  });
+
+  describe('cancelRunInteractions', () => {
+    it('cancels every interaction, deletes its store, clears the handles and audits it', async () => {
+      const { db, ai, deps } = createDeps(
+        { deepResearchHandle: runHandle, existingFilter: { enabled: true } },
+        [hypothesis('h1', { deepResearchHandle: h1Handle, stepModels: { step2_2: 'x' } })]
+      );
+
+      const entry = await cancelRunInteractions(deps, 1, 'user-1');
+
+      expect(ai.cancelDeepResearch).toHaveBeenCalledWith(runHandle);
+      expect(ai.cancelDeepResearch).toHaveBeenCalledWith(h1Handle);
+      expect(ai.cleanupDeepResearch).toHaveBeenCalledTimes(2);
+      expect(db.updateRunStatus).toHaveBeenCalledWith(1, expect.objectContaining({
+        progressInfo: { deepResearchHandle: undefined, existingFilter: { enabled: true } },
+      }));
+      expect(db.updateHypothesis).toHaveBeenCalledWith('h1', {
+        processingStatus: 'error',
+        errorMessage: STOPPED_BY_USER_MESSAGE,
+        fullData: { deepResearchHandle: undefined, stepModels: { step2_2: 'x' } },
+      });
+      expect(entry).toEqual({
+        runId: 1,
+        action: 'stop',
+        actor: 'user-1',
+        interactions: [
+          expect.objectContaining({ hypothesisUuid: null, interactionId: 'run-interaction', outcome: 'cancelled' }),
+          expect.objectContaining({ hypothesisUuid: 'h1', fileSearchStoreName: 'fileSearchStores/asip-h1', outcome: 'cancelled' }),
+        ],
+      });
+      expect(db.appendRunAuditEntry).toHaveBeenCalledWith(entry);
+    });
+
+    it('still cleans up and clears the handle when the cancel fails', async () => {
+      const { db, ai, deps } = createDeps({}, [hypothesis('h1', { deepResearchHandle: h1Handle })]);
+      ai.cancelDeepResearch.mockRejectedValue(new Error('already finished'));
+
+      const entry = await cancelRunInteractions(deps, 1, 'user-1');
+
+      expect(ai.cleanupDeepResearch).toHaveBeenCalledWith(h1Handle);
+      expect(db.updateHypothesis).toHaveBeenCalledWith('h1', expect.objectContaining({ processingStatus: 'error' }));
+      expect(entry.interactions[0].errors).toEqual(['cancel: already finished']);
+    });
+  });
+
+  describe('recordPausedInteractions', () => {
+    it('keeps the handles and audits the interactions left running', async () => {
+      const { db, ai, deps } = createDeps({}, [hypothesis('h1', { deepResearchHandle: h1Handle })]);
+
+      const entry = await recordPausedInteractions(deps, 1, 'user-1');
+
+      expect(ai.cancelDeepResearch).not.toHaveBeenCalled();
+      expect(db.updateHypothesis).not.toHaveBeenCalled();
+      expect(entry.interactions).toEqual([expect.objectContaining({ hypothesisUuid: 'h1', outcome: 'kept' })]);
+      expect(db.appendRunAuditEntry).toHaveBeenCalledWith(expect.objectContaining({ action: 'pause' }));
+    });
+  });
+
+  describe('resumeRunInteractions', () => {
+    it('restarts interactions past their wall time and keeps the others for polling', async () => {
+      const { db, ai, deps } = createDeps({}, [
+        hypothesis('h1', { deepResearchHandle: h1Handle, deepResearchStartedAt: '2026-01-01T10:30:00.000Z', deepResearchRestarts: 1 }),
+        hypothesis('h2', { deepResearchHandle: h2Handle, deepResearchStartedAt: '2026-01-01T11:30:00.000Z' }),
+      ]);
+
+      const entry = await resumeRunInteractions(deps, 1, 'user-1');
+
+      expect(ai.cancelDeepResearch).toHaveBeenCalledTimes(1);
+      expect(ai.cleanupDeepResearch).toHaveBeenCalledWith(h1Handle);
+      expect(db.updateHypothesis).toHaveBeenCalledTimes(1);
+      expect(db.updateHypothesis).toHaveBeenCalledWith('h1', {
+        processingStatus: 'pending',
+        fullData: { deepResearchHandle: undefined, deepResearchStartedAt: undefined, deepResearchRestarts: 1 },
+      });
+      expect(entry.interactions).toEqual([
+        expect.objectContaining({ hypothesisUuid: 'h1', outcome: 'restarted', elapsedMs: 90 * 60 * 1000 }),
+        expect.objectContaining({ hypothesisUuid: 'h2', outcome: 'kept' }),
+      ]);
+    });
+
+    it('starts Step 2-1 again when the run-level interaction expired', async () => {
+      const { db, deps } = createDeps(
+        { deepResearchHandle: runHandle, deepResearchStartedAt: '2026-01-01T09:00:00.000Z', deepResearchRestarts: 1 },
+        []
+      );
+
+      await resumeRunInteractions(deps, 1, 'user-1');
+
+      expect(db.updateRunStatus).toHaveBeenCalledWith(1, expect.objectContaining({
+        currentStep: 0,
+        progressInfo: expect.objectContaining({ phase: 'step2_1_start', deepResearchRestarts: 1 }),
+      }));
+      expect(db.updateRunStatus.mock.calls[0][1].progressInfo).not.toHaveProperty('deepResearchHandle');
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Run Control - what stop / pause / resume do with in-flight Deep Research
+ *
+ * - stop: every live interaction of the run is cancelled and its File Search
+ *   store deleted; the handles are cleared and hypotheses still in Step 2-2
+ *   are marked as error. A start in flight during the stop is cancelled by
+ *   the executor, which re-reads the run status after saving its handle.
+ * - pause: the handles are kept (the interactions keep running remotely), so
+ *   that resume can poll them again.
+ * - resume: interactions past their wall time are abandoned and restarted
+ *   (not counted as timeout restarts); the others are polled again.
+ *
+ * Each action writes an audit entry listing the interactions it touched.
+ */
+
+import type { DeepResearchHandle, HypothesisData } from './pipeline-core';
+import type { StepExecutorDependencies } from './step-executor';
+import {
+  getDeepResearchOvertime,
+  getDeepResearchTimeoutConfig,
+  type DeepResearchStep,
+  type DeepResearchTimeoutConfig,
+} from './deep-research-timeout';
+import { getErrorMessage } from './errors';
+import { withRunAI } from './ai-provider';
+
+export type RunControlAction = 'stop' | 'pause' | 'resume';
+
+export const STOPPED_BY_USER_MESSAGE = 'ユーザーにより停止されました';
+
+/**
+ * Deep Research interaction referenced by a run (run-level Step 2-1 or a hypothesis' Step 2-2)
+ */
+export interface LiveInteraction {
+  hypothesisUuid: string | null;
+  step: DeepResearchStep;
+  handle: DeepResearchHandle;
+  startedAt: string | null;
+}
+
+/**
+ * What an action did with one interaction
+ * - cancelled: cancelled remotely and its store deleted (stop)
+ * - kept: left running, to be polled after resume (pause / resume)
+ * - restarted: past its wall time on resume, abandoned and started again
+ */
+export interface RunAuditInteraction {
+  hypothesisUuid: string | null;
+  step: DeepResearchStep;
+  interactionId: string;
+  fileSearchStoreName: string;
+  outcome: 'cancelled' | 'kept' | 'restarted';
+  elapsedMs?: number;
+  errors?: string[]; // Cancel / cleanup failures (the handle is cleared regardless)
+}
+
+/**
+ * Audit entry of a stop / pause / resume (run_audit_entries row)
+ */
+export interface RunAuditEntry {
+  runId: number;
+  action: RunControlAction;
+  actor: string | null; // User id
+  interactions: RunAuditInteraction[];
+}
+
+export interface RunControlDependencies extends Pick<StepExecutorDependencies, 'db' | 'ai' | 'selectAI' | 'logger'> {
+  now?: () => Date;
+  timeoutConfig?: DeepResearchTimeoutConfig;
+}
+
+interface ControlledProgressInfo {
+  deepResearchHandle?: DeepResearchHandle;
+  deepResearchStartedAt?: string;
+  deepResearchRestarts?: number;
+  existingFilter?: unknown;
+  [key: string]: unknown;
+}
+
+interface ControlledFullData {
+  deepResearchHandle?: DeepResearchHandle;
+  deepResearchStartedAt?: string;
+  [key: string]: unknown;
+}
+
+const defaultLogger = {
+  log: (message: string) => console.log(`[RunControl] ${message}`),
+  error: (message: string, error?: unknown) => console.error(`[RunControl] ${message}`, error),
+  warn: (message: string) => console.warn(`[RunControl] ${message}`),
+};
+
+/**
+ * Live interactions of a run: the Step 2-1 handle in progressInfo and the
+ * Step 2-2 handles of hypotheses that have no report yet
+ */
+export function findLiveInteractions(
+  progressInfo: Record<string, unknown> | null | undefined,
+  hypotheses: HypothesisData[]
+): LiveInteraction[] {
+  const interactions: LiveInteraction[] = [];
+  const runInfo = (progressInfo || {}) as ControlledProgressInfo;
+
+  if (runInfo.deepResearchHandle) {
+    interactions.push({
+      hypothesisUuid: null,
+      step: 'step2_1',
+      handle: runInfo.deepResearchHandle,
+      startedAt: runInfo.deepResearchStartedAt ?? null,
+    });
+  }
+
+  for (const h of hypotheses) {
+    const fullData = (h.fullData || {}) as ControlledFullData;
+    if (!fullData.deepResearchHandle || h.step2_2Output) continue;
+    interactions.push({
+      hypothesisUuid: h.uuid,
+      step: 'step2_2',
+      handle: fullData.deepResearchHandle,
+      startedAt: fullData.deepResearchStartedAt ?? null,
+    });
+  }
+
+  return interactions;
+}
+
+function toAuditInteraction(
+  interaction: LiveInteraction,
+  outcome: RunAuditInteraction['outcome'],
+  extra: Pick<RunAuditInteraction, 'elapsedMs' | 'errors'> = {}
+): RunAuditInteraction {
+  return {
+    hypothesisUuid: interaction.hypothesisUuid,
+    step: interaction.step,
+    interactionId: interaction.handle.interactionId,
+    fileSearchStoreName: interaction.handle.fileSearchStoreName,
+    outcome,
+    ...(extra.elapsedMs !== undefined && { elapsedMs: extra.elapsedMs }),
+    ...(extra.errors && extra.errors.length > 0 && { errors: extra.errors }),
+  };
+}
+
+/**
+ * Cancel an interaction and delete its store, collecting failures instead of throwing
+ */
+async function cancelInteraction(deps: RunControlDependencies, handle: DeepResearchHandle): Promise<string[]> {
+  const { ai, logger = defaultLogger } = deps;
+  const errors: string[] = [];
+
+  if (ai.cancelDeepResearch) {
+    try {
+      await ai.cancelDeepResearch(handle);
+    } catch (error) {
+      errors.push(`cancel: ${getErrorMessage(error)}`);
+    }
+  }
+  if (ai.cleanupDeepResearch) {
+    try {
+      await ai.cleanupDeepResearch(handle);
+    } catch (error) {
+      errors.push(`cleanup: ${getErrorMessage(error)}`);
+    }
+  }
+
+  for (const error of errors) {
+    logger.warn(`Deep Research ${handle.interactionId}: ${error}`);
+  }
+  return errors;
+}
+
+async function loadRun(deps: Pick<RunControlDependencies, 'db'>, runId: number) {
+  const run = await deps.db.getRun(runId);
+  if (!run) throw new Error(`Run ${runId} not found`);
+  const hypotheses = await deps.db.getHypothesesForRun(runId);
+  return { run, hypotheses };
+}
+
+/**
+ * Write the audit entry (a failure is only logged; the action itself has happened)
+ */
+async function recordAudit(deps: Pick<RunControlDependencies, 'db' | 'logger'>, entry: RunAuditEntry): Promise<RunAuditEntry> {
+  const { db, logger = defaultLogger } = deps;
+
+  if (db.appendRunAuditEntry) {
+    try {
+      await db.appendRunAuditEntry(entry);
+    } catch (error) {
+      logger.error(`Failed to write the ${entry.action} audit entry of run ${entry.runId}:`, error);
+    }
+  }
+  return entry;
+}
+
+/**
+ * Stop: cancel every live interaction of the run, delete their stores and clear the handles
+ */
+export async function cancelRunInteractions(
+  deps: RunControlDependencies,
+  runId: number,
+  actor: string | null
+): Promise<RunAuditEntry> {
+  const { db, logger = defaultLogger } = deps;
+  const { run, hypotheses } = await loadRun(deps, runId);
+  const runDeps = withRunAI(deps, run);
+  const interactions: RunAuditInteraction[] = [];
+
+  for (const interaction of findLiveInteractions(run.progressInfo, hypotheses)) {
+    const errors = await cancelInteraction(runDeps, interaction.handle);
+    interactions.push(toAuditInteraction(interaction, 'cancelled', { errors }));
+
+    if (interaction.hypothesisUuid) {
+      const hypothesis = hypotheses.find(h => h.uuid === interaction.hypothesisUuid)!;
+      await db.updateHypothesis(interaction.hypothesisUuid, {
+        processingStatus: 'error',
+        errorMessage: STOPPED_BY_USER_MESSAGE,
+        fullData: { ...hypothesis.fullData, deepResearchHandle: undefined },
+      });
+    } else {
+      await db.updateRunStatus(runId, {
+        progressInfo: { ...run.progressInfo, deepResearchHandle: undefined },
+        updatedAt: new Date(),
+      });
+    }
+  }
+
+  logger.log(`Run ${runId} stopped: cancelled ${interactions.length} Deep Research interactions`);
+  return recordAudit(deps, { runId, action: 'stop', actor, interactions });
+}
+
+/**
+ * Pause: keep the handles and record which interactions are left running
+ */
+export async function recordPausedInteractions(
+  deps: Pick<RunControlDependencies, 'db' | 'logger'>,
+  runId: number,
+  actor: string | null
+): Promise<RunAuditEntry> {
+  const { run, hypotheses } = await loadRun(deps, runId);
+  const interactions = findLiveInteractions(run.progressInfo, hypotheses).map(interaction =>
+    toAuditInteraction(interaction, 'kept')
+  );
+
+  return recordAudit(deps, { runId, action: 'pause', actor, interactions });
+}
+
+/**
+ * Resume: restart the interactions that ran past their wall time while the
+ * run was paused; the others are left for the pollers
+ */
+export async function resumeRunInteractions(
+  deps: RunControlDependencies,
+  runId: number,
+  actor: string | null
+): Promise<RunAuditEntry> {
+  const { db, logger = defaultLogger } = deps;
+  const now = deps.now?.() ?? new Date();
+  const config = deps.timeoutConfig ?? getDeepResearchTimeoutConfig();
+  const { run, hypotheses } = await loadRun(deps, runId);
+  const runDeps = withRunAI(deps, run);
+  const interactions: RunAuditInteraction[] = [];
+
+  for (const interaction of findLiveInteractions(run.progressInfo, hypotheses)) {
+    const overtime = getDeepResearchOvertime(interaction.step, interaction.startedAt ?? undefined, now, config);
+    if (!overtime) {
+      interactions.push(toAuditInteraction(interaction, 'kept'));
+      continue;
+    }
+
+    logger.warn(
+      `Deep Research ${interaction.handle.interactionId} of run ${runId} expired while paused (${Math.round(overtime.elapsedMs / 1000)}s), restarting`
+    );
+    const errors = await cancelInteraction(runDeps, interaction.handle);
+    interactions.push(toAuditInteraction(interaction, 'restarted', { elapsedMs: overtime.elapsedMs, errors }));
+
+    if (interaction.hypothesisUuid) {
+      const hypothesis = hypotheses.find(h => h.uuid === interaction.hypothesisUuid)!;
+      await db.updateHypothesis(interaction.hypothesisUuid, {
+        processingStatus: 'pending',
+        fullData: { ...hypothesis.fullData, deepResearchHandle: undefined, deepResearchStartedAt: undefined },
+      });
+    } else {
+      // currentStep 0 without hypotheses of this loop makes getNextPhase start Step 2-1 again
+      const progressInfo = (run.progressInfo || {}) as ControlledProgressInfo;
+      await db.updateRunStatus(runId, {
+        currentStep: 0,
+        progressInfo: {
+          existingFilter: run.progressInfo?.existingFilter,
+          deepResearchRestarts: progressInfo.deepResearchRestarts,
+          message: 'Step 2-1: 一時停止中に Deep Research が制限時間を超えたため再起動します',
+          phase: 'step2_1_start',
+        },
+        updatedAt: new Date(),
+      });
+    }
+  }
+
+  return recordAudit(deps, { runId, action: 'resume', actor, interactions });
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { createLeaseOwner, getActiveRunLease } from './run-lease';
+
+describe('run-lease', () => {
+  describe('createLeaseOwner', () => {
+    it('prefixes a short random id with the source', () => {
+      const owner = createLeaseOwner('process');
+      expect(owner).toMatch(/^process-[0-9a-f]{8}$/);
+      expect(createLeaseOwner('process')).not.toBe(owner);
+    });
+  });
+
+  describe('getActiveRunLease', () => {
+    const now = new Date('2026-01-01T00:10:00.000Z');
+
+    it('returns the lease until it expires', () => {
+      const run = {
+        leaseOwner: 'process-1',
+        leaseAcquiredAt: '2026-01-01T00:00:00.000Z',
+        leaseExpiresAt: new Date('2026-01-01T00:15:00.000Z'),
+      };
+      expect(getActiveRunLease(run, now)).toEqual({
+        owner: 'process-1',
+        acquiredAt: '2026-01-01T00:00:00.000Z',
+        expiresAt: '2026-01-01T00:15:00.000Z',
+      });
+      expect(getActiveRunLease(run, new Date('2026-01-01T00:15:00.000Z'))).toBeNull();
+    });
+
+    it('returns null without a lease', () => {
+      expect(getActiveRunLease({ leaseOwner: null, leaseExpiresAt: null }, now)).toBeNull();
+      expect(getActiveRunLease({}, now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Run Lease - exclusive, expiring right to execute a run's next step
+ *
+ * The process route can be entered concurrently (after() chaining, the cron
+ * watchdog, nudges). executeNextStep takes the lease on the run row before
+ * reading its state and releases it when the step ends; a second invocation
+ * returns phase 'busy'. A lease left by a crashed invocation expires.
+ */
+
+// Longer than any single step (the evaluation phase runs up to 5 hypotheses x 3 steps)
+export const RUN_LEASE_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Lease stored on the run (runs.lease_owner / lease_acquired_at / lease_expires_at)
+ */
+export interface RunLease {
+  owner: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Result of taking the lease (lease is the other holder's when not acquired;
+ * null when the row was locked by another invocation taking it at that moment)
+ */
+export type RunLeaseResult =
+  | { acquired: true; lease: RunLease }
+  | { acquired: false; lease: RunLease | null };
+
+/**
+ * Owner id for an invocation, e.g. "process-1f3a9c2e"
+ */
+export function createLeaseOwner(source: string): string {
+  return `${source}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Lease held on a run, if it has not expired
+ */
+export function getActiveRunLease(
+  run: { leaseOwner?: string | null; leaseAcquiredAt?: Date | string | null; leaseExpiresAt?: Date | string | null },
+  now: Date = new Date()
+): RunLease | null {
+  if (!run.leaseOwner || !run.leaseExpiresAt) return null;
+
+  const expiresAt = new Date(run.leaseExpiresAt);
+  if (expiresAt.getTime() <= now.getTime()) return null;
+
+  return {
+    owner: run.leaseOwner,
+    acquiredAt: run.leaseAcquiredAt ? new Date(run.leaseAcquiredAt).toISOString() : expiresAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  };
+}
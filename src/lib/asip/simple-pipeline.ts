@@ -30,10 +30,12 @@ import { createAIAdapter } from './ai-adapter';
 export async function startSimplePipeline(runId: number): Promise<void> {
   console.log(`[Pipeline] Starting run ${runId}`);
 
-  // Create dependencies
+  // Create dependencies (AI of the run's project provider)
+  const db = createDatabaseAdapter();
+  const run = await db.getRun(runId);
   const deps: PipelineDependencies = {
-    db: createDatabaseAdapter(),
-    ai: createAIAdapter(),
+    db,
+    ai: createAIAdapter(run?.aiProvider),
     logger: {
       log: (message: string) => console.log(`[Pipeline] ${message}`),
       error: (message: string, error?: unknown) => console.error(`[Pipeline] ${message}`, error),
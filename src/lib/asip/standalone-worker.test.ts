@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { releaseClaimedJobs, runStandaloneWorker, trackClaimedJobs } from './standalone-worker';
+import { createMemoryJobQueue } from './pipeline-jobs';
+import type { PipelineWorkerDependencies } from './pipeline-worker';
+import { executeNextStep, getRunWork } from './step-executor';
+import type { ExtendedDatabaseOperations } from './step-executor';
+import type { AIOperations } from './pipeline-core';
+
+vi.mock('./step-executor', () => ({
+  executeNextStep: vi.fn(),
+  executeHypothesisEvaluation: vi.fn(),
+  getRunWork: vi.fn(),
+}));
+
+const START = new Date('2026-01-01T00:00:00.000Z');
+
+function createDeps(queue = createMemoryJobQueue()): PipelineWorkerDependencies & { clock: { now: number } } {
+  const clock = { now: START.getTime() };
+  return {
+    clock,
+    db: {
+      releaseRunLease: vi.fn().mockResolvedValue(undefined),
+    } as unknown as ExtendedDatabaseOperations,
+    ai: {} as AIOperations,
+    queue,
+    workerId: 'worker-host-1',
+    now: () => new Date(clock.now),
+    sleep: async (ms: number) => { clock.now += ms; },
+    logger: { log: vi.fn(), error: vi.fn(), warn: vi.fn() },
+  };
+}
+
+describe('standalone-worker', () => {
+  beforeEach(() => {
+    vi.mocked(executeNextStep).mockReset();
+    vi.mocked(getRunWork).mockReset();
+  });
+
+  describe('runStandaloneWorker', () => {
+    it('enqueues runs without jobs, drains the queue and stops when aborted', async () => {
+      const queue = createMemoryJobQueue();
+      const deps = createDeps(queue);
+      const controller = new AbortController();
+
+      vi.mocked(getRunWork)
+        .mockResolvedValueOnce({ status: 'pending', phase: 'step2_1_start', evaluationTargets: [] })
+        .mockResolvedValue({ status: 'running', phase: 'step2_1_polling', evaluationTargets: [] });
+      vi.mocked(executeNextStep).mockImplementation(async () => {
+        controller.abort(); // SIGTERM while the job runs
+        return { phase: 'step2_1_start', hasMore: true };
+      });
+
+      await runStandaloneWorker(deps, {
+        signal: controller.signal,
+        findRunsWithoutJobs: vi.fn().mockResolvedValue([7]),
+      });
+
+      // The running job finished and its successor stays queued for the next worker
+      expect(executeNextStep).toHaveBeenCalledTimes(1);
+      expect(queue.jobs).toEqual([expect.objectContaining({ runId: 7, phase: 'step2_1_polling', lockedBy: null })]);
+    });
+
+    it('keeps running after a failed iteration', async () => {
+      const deps = createDeps();
+      const controller = new AbortController();
+      const findRunsWithoutJobs = vi.fn()
+        .mockRejectedValueOnce(new Error('connection refused'))
+        .mockImplementation(async () => {
+          controller.abort();
+          return [];
+        });
+
+      await runStandaloneWorker(deps, { signal: controller.signal, findRunsWithoutJobs, seedIntervalMs: 0 });
+
+      expect(findRunsWithoutJobs).toHaveBeenCalledTimes(2);
+      expect(deps.logger!.error).toHaveBeenCalledWith('Worker iteration failed:', expect.any(Error));
+    });
+  });
+
+  describe('releaseClaimedJobs', () => {
+    it('returns interrupted jobs to the queue and releases their run leases', async () => {
+      const tracker = trackClaimedJobs(createMemoryJobQueue());
+      const deps = createDeps();
+      deps.queue = tracker.queue;
+
+      await tracker.queue.enqueue([
+        { runId: 1, phase: 'step2_2_polling' },
+        { runId: 1, hypothesisUuid: 'h-1', phase: 'evaluation' },
+        { runId: 2, phase: 'step2_1_5' },
+      ], START);
+      const [first, , third] = await tracker.queue.claim('worker-host-1', 3, START);
+      await tracker.queue.complete(third);
+
+      expect(tracker.inFlight().map(job => job.id)).toEqual([first.id, 2]);
+
+      await releaseClaimedJobs(deps, tracker.inFlight());
+
+      expect(tracker.inFlight()).toEqual([]);
+      expect(deps.db.releaseRunLease).toHaveBeenCalledTimes(1);
+      expect(deps.db.releaseRunLease).toHaveBeenCalledWith(1, 'worker-host-1');
+      expect(await tracker.queue.claim('worker-host-2', 5, START)).toEqual([
+        expect.objectContaining({ runId: 1, attempt: 1, lastError: 'Worker shut down' }),
+        expect.objectContaining({ hypothesisUuid: 'h-1', lastError: 'Worker shut down' }),
+      ]);
+    });
+  });
+});
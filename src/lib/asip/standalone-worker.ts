@@ -0,0 +1,142 @@
+/**
+ * Standalone Worker - long-running loop draining the pipeline job queue
+ *
+ * Used by scripts/worker.ts in self-hosted Docker deployments, which have no
+ * cron provider or public callback URL. The loop enqueues jobs for active runs
+ * that have none, then drains the queue, idling briefly while it is empty.
+ *
+ * Shutdown: aborting the signal stops claiming jobs and lets running jobs
+ * finish. Jobs still running when the grace period ends are unlocked and
+ * their run leases released (releaseClaimedJobs), so the next worker picks
+ * them up at once. Deep Research interactions are never cancelled: their
+ * handles stay on the run / hypotheses and the next worker keeps polling them.
+ */
+
+import {
+  drainPipelineJobs,
+  enqueueSuccessors,
+  sleepUnlessAborted,
+  type PipelineWorkerDependencies,
+} from './pipeline-worker';
+import type { PipelineJob, PipelineJobQueue } from './pipeline-jobs';
+
+export interface StandaloneWorkerOptions {
+  signal: AbortSignal;
+  findRunsWithoutJobs: () => Promise<number[]>;
+  concurrency?: number;
+  drainBudgetMs?: number; // Length of one drain (the loop starts another right after)
+  idleMs?: number; // Wait between checks for new jobs
+  seedIntervalMs?: number; // How often runs without jobs are looked for
+}
+
+const DEFAULT_DRAIN_BUDGET_MS = 60 * 1000;
+const DEFAULT_IDLE_MS = 5 * 1000;
+const DEFAULT_SEED_INTERVAL_MS = 60 * 1000;
+
+const defaultLogger = {
+  log: (message: string) => console.log(`[StandaloneWorker] ${message}`),
+  error: (message: string, error?: unknown) => console.error(`[StandaloneWorker] ${message}`, error),
+  warn: (message: string) => console.warn(`[StandaloneWorker] ${message}`),
+};
+
+/**
+ * Queue wrapper that remembers the jobs claimed and not yet finished
+ */
+export function trackClaimedJobs(queue: PipelineJobQueue): {
+  queue: PipelineJobQueue;
+  inFlight: () => PipelineJob[];
+} {
+  const claimed = new Map<number, PipelineJob>();
+
+  return {
+    queue: {
+      ...queue,
+      async claim(workerId, limit, now, options) {
+        const jobs = await queue.claim(workerId, limit, now, options);
+        jobs.forEach(job => claimed.set(job.id, job));
+        return jobs;
+      },
+      async complete(job) {
+        await queue.complete(job);
+        claimed.delete(job.id);
+      },
+      async reschedule(job, runAfter, update) {
+        await queue.reschedule(job, runAfter, update);
+        claimed.delete(job.id);
+      },
+    },
+    inFlight: () => [...claimed.values()],
+  };
+}
+
+/**
+ * Hand jobs interrupted by a shutdown back to the queue (due now, the claim not counted as an attempt)
+ */
+export async function releaseClaimedJobs(
+  deps: PipelineWorkerDependencies,
+  jobs: PipelineJob[]
+): Promise<void> {
+  const { db, queue, workerId, logger = defaultLogger } = deps;
+  const now = deps.now ?? (() => new Date());
+
+  for (const job of jobs) {
+    try {
+      await queue.reschedule(job, now(), { attempt: job.attempt - 1, lastError: 'Worker shut down' });
+      if (!job.hypothesisUuid && db.releaseRunLease) {
+        await db.releaseRunLease(job.runId, workerId);
+      }
+    } catch (error) {
+      // The job lock and run lease expire on their own
+      logger.error(`Failed to release job ${job.id} of run ${job.runId}:`, error);
+    }
+  }
+}
+
+/**
+ * Drain the queue until the signal aborts
+ */
+export async function runStandaloneWorker(
+  deps: PipelineWorkerDependencies,
+  options: StandaloneWorkerOptions
+): Promise<void> {
+  const { logger = defaultLogger } = deps;
+  const now = deps.now ?? (() => new Date());
+  const sleep = deps.sleep ?? sleepUnlessAborted;
+  const idleMs = options.idleMs ?? DEFAULT_IDLE_MS;
+  const seedIntervalMs = options.seedIntervalMs ?? DEFAULT_SEED_INTERVAL_MS;
+  let lastSeededAt: number | null = null;
+
+  logger.log(`Worker ${deps.workerId} started`);
+
+  while (!options.signal.aborted) {
+    try {
+      if (lastSeededAt === null || now().getTime() - lastSeededAt >= seedIntervalMs) {
+        lastSeededAt = now().getTime();
+        const runIds = await options.findRunsWithoutJobs();
+        if (runIds.length > 0) {
+          logger.log(`Enqueuing jobs for runs without jobs: ${runIds.join(', ')}`);
+        }
+        for (const runId of runIds) {
+          await enqueueSuccessors(deps, runId);
+        }
+      }
+
+      const summary = await drainPipelineJobs(deps, {
+        timeBudgetMs: options.drainBudgetMs ?? DEFAULT_DRAIN_BUDGET_MS,
+        concurrency: options.concurrency,
+        signal: options.signal,
+        maxWaitMs: idleMs,
+      });
+      if (summary.results.length > 0) {
+        logger.log(`Executed ${summary.results.length} jobs in ${summary.elapsedMs}ms`);
+      }
+    } catch (error) {
+      // Database unavailable etc.: try again after the idle wait
+      logger.error('Worker iteration failed:', error);
+    }
+
+    await sleep(idleMs, options.signal);
+  }
+
+  logger.log(`Worker ${deps.workerId} stopped`);
+}
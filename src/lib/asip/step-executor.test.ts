@@ -1,12 +1,20 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
+  executeHypothesisEvaluation,
   executeNextStep,
   getNextPhase,
+  getRunWork,
   StepExecutorDependencies,
   PipelinePhase,
   ExtendedDatabaseOperations,
 } from './step-executor';
 import { AIOperations, RunData, ResourceData, HypothesisData } from './pipeline-core';
+import { formatPrompt, STEP2_2_PROMPT } from './prompts';
+import { ContentGenerationError, RateLimitError } from './errors';
+import { DEEP_RESEARCH_MODEL } from './model-selection';
+import { SCORE_AXES } from './hypothesis-scores';
+import { evaluationResponseSchema } from './structured-scores';
+import { STOPPED_BY_USER_MESSAGE } from './run-control';
 
 // Mock factories
 function createMockDb(overrides: Partial<ExtendedDatabaseOperations> = {}): ExtendedDatabaseOperations {
@@ -86,6 +94,15 @@ const sampleHypothesis: HypothesisData = {
 };
 
 describe('step-executor', () => {
+  // Fixture outputs are free text; format repairs have their own tests
+  beforeEach(() => {
+    vi.stubEnv('FORMAT_REPAIR_MAX_ATTEMPTS', '0');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
   describe('getNextPhase', () => {
     it('returns step2_1_start for pending run (async mode)', () => {
       expect(getNextPhase('pending', 0, [])).toBe('step2_1_start');
@@ -149,6 +166,35 @@ describe('step-executor', () => {
       expect(getNextPhase('running', 4, hypotheses)).toBe('completed');
     });
 
+    it('returns next_loop when the current loop is done and more loops remain', () => {
+      const hypotheses = [
+        { ...sampleHypothesis, processingStatus: 'completed' as const, loopNumber: 1 },
+      ];
+      expect(getNextPhase('running', 3, hypotheses, null, { currentLoop: 1, loopCount: 2 })).toBe('next_loop');
+      expect(getNextPhase('running', 3, hypotheses, null, { currentLoop: 1, loopCount: 1 })).toBe('completed');
+    });
+
+    it('starts step 2-1 for a new loop and ignores hypotheses of earlier loops', () => {
+      const hypotheses = [
+        { ...sampleHypothesis, processingStatus: 'completed' as const, loopNumber: 1 },
+      ];
+      const loop = { currentLoop: 2, loopCount: 2 };
+      expect(getNextPhase('running', 0, hypotheses, null, loop)).toBe('step2_1_start');
+      expect(getNextPhase('running', 1, hypotheses, null, loop)).toBe('step2_1_5');
+    });
+
+    it('picks up an earlier-loop hypothesis reopened by a rerun', () => {
+      const hypotheses = [
+        { ...sampleHypothesis, uuid: 'h1', processingStatus: 'step2_2' as const, step2_2Output: 'Report', loopNumber: 1 },
+        { ...sampleHypothesis, uuid: 'h2', processingStatus: 'completed' as const, loopNumber: 2 },
+      ];
+      const loop = { currentLoop: 2, loopCount: 2 };
+      expect(getNextPhase('running', 5, hypotheses, null, loop)).toBe('evaluation');
+
+      const rerunFromStep2_2 = [{ ...hypotheses[0], processingStatus: 'pending' as const, step2_2Output: null }, hypotheses[1]];
+      expect(getNextPhase('running', 5, rerunFromStep2_2, null, loop)).toBe('step2_2_start');
+    });
+
     it('returns null for already completed run', () => {
       expect(getNextPhase('completed', 5, [])).toBeNull();
     });
@@ -225,6 +271,153 @@ describe('step-executor', () => {
       );
     });
 
+    it('keeps step2_1_start next and asks for a later retry when Deep Research slots are full', async () => {
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'pending' }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([]),
+        },
+        { startDeepResearchAsync: vi.fn().mockRejectedValue(new RateLimitError()) }
+      );
+
+      const result = await executeNextStep(deps, 1, { rethrowErrors: true });
+
+      expect(result).toMatchObject({ phase: 'step2_1_start', hasMore: true, retryAt: expect.any(String) });
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(1, expect.objectContaining({
+        currentStep: 0,
+        progressInfo: expect.objectContaining({ phase: 'step2_1_start' }),
+      }));
+      expect(getNextPhase('running', 0, [])).toBe('step2_1_start');
+    });
+
+    it('snapshots active prompt versions at step2_1_start and uses the step-21 prompt', async () => {
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'pending' }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        getHypothesesForRun: vi.fn().mockResolvedValue([]),
+        getActivePromptVersions: vi.fn().mockResolvedValue([
+          { id: 7, stepNumber: 21, version: 3, content: 'カスタム指示 Top {HYPOTHESIS_COUNT}' },
+        ]),
+      });
+
+      await executeNextStep(deps, 1);
+
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({
+          promptSnapshot: expect.objectContaining({
+            steps: expect.objectContaining({
+              '21': { source: 'version', versionId: 7, version: 3, content: 'カスタム指示 Top {HYPOTHESIS_COUNT}' },
+              '3': { source: 'builtin', versionId: null, version: null, content: null },
+            }),
+          }),
+        })
+      );
+      const startCall = vi.mocked(deps.ai.startDeepResearchAsync!).mock.calls[0][0];
+      const instructions = startCall.files.find(f => f.name === 'task_instructions');
+      expect(instructions?.content).toBe('カスタム指示 Top 3');
+    });
+
+    it('does not re-resolve prompts when the run already has a snapshot', async () => {
+      const getActivePromptVersions = vi.fn().mockResolvedValue([]);
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({
+          ...sampleRun,
+          status: 'pending',
+          promptSnapshot: { resolvedAt: '2026-01-01T00:00:00.000Z', steps: {} },
+        }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        getHypothesesForRun: vi.fn().mockResolvedValue([]),
+        getActivePromptVersions,
+      });
+
+      await executeNextStep(deps, 1);
+
+      expect(getActivePromptVersions).not.toHaveBeenCalled();
+    });
+
+    it('advances to the next loop when all hypotheses of the loop are done', async () => {
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({
+          ...sampleRun,
+          status: 'running',
+          currentStep: 3,
+          loopCount: 3,
+          currentLoop: 1,
+        }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        getHypothesesForRun: vi.fn().mockResolvedValue([
+          { ...sampleHypothesis, processingStatus: 'completed', loopNumber: 1 },
+        ]),
+      });
+
+      const result = await executeNextStep(deps, 1);
+
+      expect(result).toEqual({ phase: 'next_loop', hasMore: true });
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ currentLoop: 2, currentStep: 0 })
+      );
+    });
+
+    it('passes earlier loop hypotheses as previous_hypotheses in the next loop', async () => {
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({
+          ...sampleRun,
+          status: 'running',
+          currentStep: 0,
+          loopCount: 2,
+          currentLoop: 2,
+        }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        getHypothesesForRun: vi.fn().mockResolvedValue([
+          { ...sampleHypothesis, displayTitle: '既出の仮説', processingStatus: 'completed', loopNumber: 1 },
+        ]),
+      });
+
+      const result = await executeNextStep(deps, 1);
+
+      expect(result.phase).toBe('step2_1_start');
+      const startCall = vi.mocked(deps.ai.startDeepResearchAsync!).mock.calls[0][0];
+      const previous = startCall.files.find(f => f.name === 'previous_hypotheses');
+      expect(previous?.content).toContain('既出の仮説');
+      expect(startCall.files.find(f => f.name === 'task_instructions')?.content).toContain('previous_hypotheses');
+      expect(startCall.storeName).toBe('asip-run-1-step2_1-loop2');
+    });
+
+    it('numbers hypotheses after earlier loops and tags them with the loop', async () => {
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({
+            ...sampleRun,
+            status: 'running',
+            currentStep: 1,
+            loopCount: 2,
+            currentLoop: 2,
+            step2_1Output: 'Loop 2 research',
+          }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([
+            { ...sampleHypothesis, processingStatus: 'completed', loopNumber: 1 },
+            { ...sampleHypothesis, uuid: 'second', hypothesisNumber: 2, processingStatus: 'completed', loopNumber: 1 },
+          ]),
+        },
+        {
+          generateContent: vi.fn().mockResolvedValue(
+            JSON.stringify({ hypotheses: [{ title: '新しい仮説', summary: '概要' }] })
+          ),
+        }
+      );
+
+      const result = await executeNextStep(deps, 1);
+
+      expect(result.phase).toBe('step2_1_5');
+      expect(deps.db.createHypothesis).toHaveBeenCalledWith(
+        expect.objectContaining({ hypothesisNumber: 3, indexInRun: 2, loopNumber: 2 })
+      );
+    });
+
     it('executes step2_1_polling and completes when ready', async () => {
       const runWithHandle = {
         ...sampleRun,
@@ -261,8 +454,82 @@ describe('step-executor', () => {
       expect(deps.ai.cleanupDeepResearch).toHaveBeenCalled();
       expect(deps.db.updateRunStatus).toHaveBeenCalledWith(
         1,
-        expect.objectContaining({ step2_1Output: 'Async research output' })
+        expect.objectContaining({ step2_1Output: 'Async research output', step2_1Outputs: { 1: 'Async research output' } })
+      );
+    });
+
+    it('restarts Step 2-1 when its Deep Research runs past the wall time', async () => {
+      const handle = { interactionId: 'stuck-interaction', fileSearchStoreName: 'stuck-store' };
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({
+            ...sampleRun,
+            status: 'running',
+            currentStep: 1,
+            progressInfo: {
+              deepResearchHandle: handle,
+              deepResearchStartedAt: new Date(Date.now() - 61 * 60 * 1000).toISOString(),
+              existingFilter: { enabled: false },
+            },
+          }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([]),
+        },
+        {
+          checkDeepResearchStatus: vi.fn().mockResolvedValue({ status: 'in_progress' }),
+          cancelDeepResearch: vi.fn().mockRejectedValue(new Error('cancel not supported')),
+          cleanupDeepResearch: vi.fn().mockResolvedValue(undefined),
+        }
+      );
+
+      const result = await executeNextStep(deps, 1);
+
+      expect(result).toMatchObject({
+        phase: 'step2_1_polling',
+        hasMore: true,
+        timedOut: [{ runId: 1, hypothesisUuid: null, step: 'step2_1', interactionId: 'stuck-interaction', restarts: 0, action: 'restarted' }],
+      });
+      expect(deps.ai.cancelDeepResearch).toHaveBeenCalledWith(handle);
+      expect(deps.ai.cleanupDeepResearch).toHaveBeenCalledWith(handle);
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(1, expect.objectContaining({
+        currentStep: 0,
+        progressInfo: expect.objectContaining({ existingFilter: { enabled: false }, deepResearchRestarts: 1 }),
+      }));
+      expect(deps.db.updateRunStatus).not.toHaveBeenCalledWith(1, expect.objectContaining({
+        progressInfo: expect.objectContaining({ deepResearchHandle: expect.anything() }),
+      }));
+    });
+
+    it('fails the run when Step 2-1 times out after its last restart', async () => {
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({
+            ...sampleRun,
+            status: 'running',
+            currentStep: 1,
+            progressInfo: {
+              deepResearchHandle: { interactionId: 'stuck-interaction', fileSearchStoreName: 'stuck-store' },
+              deepResearchStartedAt: new Date(Date.now() - 61 * 60 * 1000).toISOString(),
+              deepResearchRestarts: 1,
+            },
+          }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([]),
+        },
+        {
+          // Unreachable status endpoint: the timeout still applies
+          checkDeepResearchStatus: vi.fn().mockRejectedValue(new Error('fetch failed')),
+          cleanupDeepResearch: vi.fn().mockResolvedValue(undefined),
+        }
       );
+
+      const result = await executeNextStep(deps, 1, { rethrowErrors: true });
+
+      expect(result).toMatchObject({ hasMore: false, timedOut: [{ action: 'failed', restarts: 1 }] });
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(1, expect.objectContaining({
+        status: 'error',
+        errorMessage: 'Step 2-1 の Deep Research が制限時間（60分）を超えました（再起動 1回）',
+      }));
     });
 
     it('executes step2_1_5 when step2_1 is complete', async () => {
@@ -347,6 +614,298 @@ describe('step-executor', () => {
       );
     });
 
+    it('cancels a Deep Research whose handle was saved after the run was stopped', async () => {
+      const running = { ...sampleRun, status: 'running', currentStep: 2, step2_1Output: 'Research output' };
+      const first = { ...sampleHypothesis, processingStatus: 'pending' as const };
+      const second = { ...sampleHypothesis, uuid: 'test-uuid-456', processingStatus: 'pending' as const };
+      const handle = { interactionId: 'hyp-interaction', fileSearchStoreName: 'hyp-store' };
+
+      // The stop route marks the run cancelled while the first start is in flight
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue(running),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([first, second]),
+        },
+        {
+          startDeepResearchAsync: vi.fn().mockImplementation(async () => {
+            vi.mocked(deps.db.getRun).mockResolvedValue({ ...running, status: 'cancelled' } as RunData);
+            return handle;
+          }),
+          cancelDeepResearch: vi.fn().mockResolvedValue(undefined),
+          cleanupDeepResearch: vi.fn().mockResolvedValue(undefined),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      expect(deps.ai.startDeepResearchAsync).toHaveBeenCalledTimes(1);
+      expect(deps.ai.cancelDeepResearch).toHaveBeenCalledWith(handle);
+      expect(deps.ai.cleanupDeepResearch).toHaveBeenCalledWith(handle);
+      expect(deps.db.updateHypothesis).toHaveBeenLastCalledWith('test-uuid-123', expect.objectContaining({
+        processingStatus: 'error',
+        errorMessage: STOPPED_BY_USER_MESSAGE,
+        fullData: expect.objectContaining({ deepResearchHandle: undefined }),
+      }));
+      expect(deps.db.updateRunStatus).not.toHaveBeenCalledWith(1, expect.objectContaining({
+        progressInfo: expect.objectContaining({ inFlightCount: 1 }),
+      }));
+    });
+
+    it('runs the step on the AI of the project provider and records its research model', async () => {
+      const pendingHypothesis = { ...sampleHypothesis, processingStatus: 'pending' as const };
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({
+          ...sampleRun,
+          status: 'running',
+          currentStep: 2,
+          step2_1Output: 'Research output',
+          aiProvider: 'openai_compatible',
+        }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        getHypothesesForRun: vi.fn().mockResolvedValue([pendingHypothesis]),
+        getHypothesis: vi.fn().mockResolvedValue(pendingHypothesis),
+      });
+      const onPremAI = createMockAI({
+        startDeepResearchAsync: vi.fn().mockResolvedValue({ interactionId: 'research-job', fileSearchStoreName: '' }),
+        getDeepResearchModel: () => 'local-research',
+      });
+      const selectAI = vi.fn().mockReturnValue(onPremAI);
+
+      await executeNextStep({ ...deps, selectAI }, 1);
+
+      expect(selectAI).toHaveBeenCalledWith('openai_compatible');
+      expect(onPremAI.startDeepResearchAsync).toHaveBeenCalled();
+      expect(deps.ai.startDeepResearchAsync).not.toHaveBeenCalled();
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith('test-uuid-123', expect.objectContaining({
+        fullData: expect.objectContaining({ stepModels: { step2_2: 'local-research' } }),
+      }));
+    });
+
+    it('leaves hypotheses pending and asks for a later retry when Deep Research slots are full', async () => {
+      const pending = ['a', 'b'].map(id => ({ ...sampleHypothesis, uuid: `test-uuid-${id}`, processingStatus: 'pending' as const }));
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 2, step2_1Output: 'Research output' }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue(pending),
+        },
+        { startDeepResearchAsync: vi.fn().mockRejectedValue(new RateLimitError(42)) }
+      );
+
+      const before = Date.now();
+      const result = await executeNextStep(deps, 1, { rethrowErrors: true });
+
+      expect(result).toMatchObject({ phase: 'step2_2_start', hasMore: true });
+      expect(Date.parse(result.retryAt!)).toBeGreaterThanOrEqual(before + 42_000);
+      expect(deps.ai.startDeepResearchAsync).toHaveBeenCalledTimes(1);
+      expect(deps.db.updateHypothesis).not.toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ processingStatus: 'error' }));
+    });
+
+    it('starts only the step2_2 Deep Research that fit in the rest of the budget', async () => {
+      const pending = ['a', 'b', 'c'].map(id => ({
+        ...sampleHypothesis,
+        uuid: `test-uuid-${id}`,
+        processingStatus: 'pending' as const,
+      }));
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({
+            ...sampleRun,
+            status: 'running',
+            currentStep: 2,
+            step2_1Output: 'Research output',
+            budgetUsd: 1,
+          }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue(pending),
+          getRunUsage: vi.fn().mockResolvedValue([]),
+          // $0.4 per Step 2-2 call at the Deep Research input price
+          getStepUsageAverages: vi.fn().mockResolvedValue([{
+            step: 'step2_2',
+            model: DEEP_RESEARCH_MODEL,
+            calls: 3,
+            inputTokens: 200_000,
+            outputTokens: 0,
+            thinkingTokens: 0,
+            cachedTokens: 0,
+            groundingCalls: 0,
+          }]),
+        },
+        {
+          startDeepResearchAsync: vi.fn().mockResolvedValue({ interactionId: 'hyp-interaction', fileSearchStoreName: 'hyp-store' }),
+        }
+      );
+
+      const result = await executeNextStep(deps, 1);
+
+      expect(result).toMatchObject({ phase: 'step2_2_start', hasMore: true });
+      expect(deps.ai.startDeepResearchAsync).toHaveBeenCalledTimes(2);
+      expect(deps.db.updateRunStatus).not.toHaveBeenCalledWith(1, expect.objectContaining({ status: 'paused' }));
+    });
+
+    it('pauses instead of starting step2_2 once the run reached its budget', async () => {
+      const pendingHypothesis = { ...sampleHypothesis, processingStatus: 'pending' as const };
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({
+          ...sampleRun,
+          status: 'running',
+          currentStep: 2,
+          step2_1Output: 'Research output',
+          budgetUsd: 1,
+        }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        getHypothesesForRun: vi.fn().mockResolvedValue([pendingHypothesis]),
+        getRunUsage: vi.fn().mockResolvedValue([
+          {
+            runId: 1,
+            hypothesisUuid: null,
+            step: 'step2_1',
+            model: DEEP_RESEARCH_MODEL,
+            calls: 1,
+            inputTokens: 1_000_000,
+            outputTokens: 0,
+            thinkingTokens: 0,
+            cachedTokens: 0,
+            groundingCalls: 0,
+          },
+        ]),
+      });
+
+      const result = await executeNextStep(deps, 1);
+
+      expect(result).toMatchObject({ phase: 'step2_2_start', hasMore: false, budgetExceeded: true });
+      expect(deps.ai.startDeepResearchAsync).not.toHaveBeenCalled();
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({
+          status: 'paused',
+          progressInfo: expect.objectContaining({
+            pauseReason: expect.objectContaining({ reason: 'budget_exceeded', budgetUsd: 1, spentUsd: 2 }),
+          }),
+        })
+      );
+    });
+
+    it('drives step2_2 with STEP2_2_PROMPT and attaches the Step 2-1 output as hypothesis_context', async () => {
+      const pendingHypothesis = { ...sampleHypothesis, processingStatus: 'pending' as const };
+      const startDeepResearchAsync = vi.fn().mockResolvedValue({
+        interactionId: 'hyp-interaction',
+        fileSearchStoreName: 'hyp-store',
+      });
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 2, step2_1Output: 'Step 2-1 full output' }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([pendingHypothesis]),
+        },
+        { startDeepResearchAsync }
+      );
+
+      await executeNextStep(deps, 1);
+
+      const [{ prompt, files }] = startDeepResearchAsync.mock.calls[0];
+      expect(prompt).toBe(formatPrompt(STEP2_2_PROMPT, { HYPOTHESIS_TITLE: 'Test Hypothesis' }));
+      expect(files).toEqual([
+        expect.objectContaining({ name: 'target_specification.txt', content: 'Sample resource content' }),
+        expect.objectContaining({ name: 'technical_assets.json', content: 'Sample resource content' }),
+        expect.objectContaining({ name: 'hypothesis_context', content: 'Step 2-1 full output' }),
+      ]);
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith(
+        'test-uuid-123',
+        expect.objectContaining({
+          fullData: expect.objectContaining({
+            stepInputs: {
+              step2_2: expect.objectContaining({ mode: 'file_search' }),
+            },
+          }),
+        })
+      );
+    });
+
+    it('sends a rerun hypothesis of an earlier loop the Step 2-1 output of its own loop', async () => {
+      const rerun = { ...sampleHypothesis, processingStatus: 'pending' as const, loopNumber: 1 };
+      const latest = { ...sampleHypothesis, uuid: 'test-uuid-456', processingStatus: 'completed' as const, loopNumber: 2 };
+      const startDeepResearchAsync = vi.fn().mockResolvedValue({
+        interactionId: 'hyp-interaction',
+        fileSearchStoreName: 'hyp-store',
+      });
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({
+            ...sampleRun,
+            status: 'running',
+            currentStep: 5,
+            loopCount: 2,
+            currentLoop: 2,
+            step2_1Output: 'Loop 2 research',
+            step2_1Outputs: { 1: 'Loop 1 research', 2: 'Loop 2 research' },
+          }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([rerun, latest]),
+        },
+        { startDeepResearchAsync }
+      );
+
+      await executeNextStep(deps, 1);
+
+      const [{ files }] = startDeepResearchAsync.mock.calls[0];
+      expect(files).toContainEqual(expect.objectContaining({ name: 'hypothesis_context', content: 'Loop 1 research' }));
+    });
+
+    it('uses the step-22 version and attaches the Step 2-1 output even when the settings leave it out', async () => {
+      const pendingHypothesis = { ...sampleHypothesis, processingStatus: 'pending' as const };
+      const startDeepResearchAsync = vi.fn().mockResolvedValue({
+        interactionId: 'hyp-interaction',
+        fileSearchStoreName: 'hyp-store',
+      });
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({
+            ...sampleRun,
+            status: 'running',
+            currentStep: 2,
+            step2_1Output: 'Step 2-1 full output',
+            promptSnapshot: {
+              resolvedAt: '2026-01-01T00:00:00.000Z',
+              steps: { '22': { source: 'version', versionId: 5, version: 3, content: 'S2-2 custom: {HYPOTHESIS_TITLE}' } },
+            },
+          }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([pendingHypothesis]),
+          getStepAttachmentSettings: vi.fn().mockResolvedValue({ 22: ['technical_assets'] }),
+        },
+        { startDeepResearchAsync }
+      );
+
+      await executeNextStep(deps, 1);
+
+      const [{ prompt, files }] = startDeepResearchAsync.mock.calls[0];
+      expect(prompt).toBe('S2-2 custom: Test Hypothesis');
+      expect(files.map((f: { name: string }) => f.name)).toEqual(['technical_assets.json', 'hypothesis_context']);
+      expect(files[1].content).toBe('Step 2-1 full output');
+    });
+
+    it('fails the hypothesis instead of starting step2_2 without a Step 2-1 output', async () => {
+      const pendingHypothesis = { ...sampleHypothesis, processingStatus: 'pending' as const };
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 2, step2_1Output: null }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        getHypothesesForRun: vi.fn().mockResolvedValue([pendingHypothesis]),
+      });
+
+      await executeNextStep(deps, 1);
+
+      expect(deps.ai.startDeepResearchAsync).not.toHaveBeenCalled();
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith('test-uuid-123', {
+        processingStatus: 'error',
+        errorMessage: 'ループ1の Step 2-1 出力がないため Step 2-2 を開始できません',
+      });
+    });
+
     it('executes step2_2_polling and completes when ready (parallel)', async () => {
       const runAfterStep2_2Start = {
         ...sampleRun,
@@ -394,16 +953,65 @@ describe('step-executor', () => {
       );
     });
 
-    it('executes step2_2_polling for legacy progressInfo handle (backwards compatibility)', async () => {
-      const runWithLegacyHandle = {
-        ...sampleRun,
-        status: 'running',
-        currentStep: 2,
-        step2_1Output: 'Research output',
-        progressInfo: {
-          hypothesisDeepResearchHandle: {
-            hypothesisUuid: 'test-uuid-123',
-            handle: {
+    it('restarts or fails hypotheses whose Deep Research runs past the wall time', async () => {
+      const startedAt = new Date(Date.now() - 61 * 60 * 1000).toISOString();
+      const stuck = (uuid: string, restarts?: number) => ({
+        ...sampleHypothesis,
+        uuid,
+        processingStatus: 'step2_2' as const,
+        fullData: {
+          deepResearchHandle: { interactionId: `interaction-${uuid}`, fileSearchStoreName: `store-${uuid}` },
+          deepResearchStartedAt: startedAt,
+          ...(restarts !== undefined && { deepResearchRestarts: restarts }),
+        },
+      });
+      const running = {
+        ...stuck('fresh'),
+        fullData: { ...stuck('fresh').fullData, deepResearchStartedAt: new Date().toISOString() },
+      };
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 2, step2_1Output: 'Research output' }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([stuck('first'), stuck('last', 1), running]),
+        },
+        {
+          checkDeepResearchStatus: vi.fn().mockResolvedValue({ status: 'in_progress' }),
+          cancelDeepResearch: vi.fn().mockResolvedValue(undefined),
+          cleanupDeepResearch: vi.fn().mockResolvedValue(undefined),
+        }
+      );
+
+      const result = await executeNextStep(deps, 1);
+
+      expect(result.timedOut).toEqual([
+        expect.objectContaining({ hypothesisUuid: 'first', interactionId: 'interaction-first', action: 'restarted' }),
+        expect.objectContaining({ hypothesisUuid: 'last', interactionId: 'interaction-last', action: 'failed' }),
+      ]);
+      expect(deps.ai.cancelDeepResearch).toHaveBeenCalledTimes(2);
+      expect(deps.ai.cleanupDeepResearch).toHaveBeenCalledTimes(2);
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith('first', {
+        processingStatus: 'pending',
+        fullData: expect.objectContaining({ deepResearchHandle: undefined, deepResearchRestarts: 1 }),
+      });
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith('last', expect.objectContaining({
+        processingStatus: 'error',
+        errorMessage: 'Step 2-2 の Deep Research が制限時間（60分）を超えました（再起動 1回）',
+      }));
+      expect(deps.db.updateHypothesis).not.toHaveBeenCalledWith('fresh', expect.anything());
+    });
+
+    it('executes step2_2_polling for legacy progressInfo handle (backwards compatibility)', async () => {
+      const runWithLegacyHandle = {
+        ...sampleRun,
+        status: 'running',
+        currentStep: 2,
+        step2_1Output: 'Research output',
+        progressInfo: {
+          hypothesisDeepResearchHandle: {
+            hypothesisUuid: 'test-uuid-123',
+            handle: {
               interactionId: 'hyp-interaction',
               fileSearchStoreName: 'hyp-store',
             },
@@ -516,6 +1124,340 @@ describe('step-executor', () => {
       expect(deps.ai.generateContent).toHaveBeenCalledTimes(3);
     });
 
+    it('resumes evaluation at the first step without an output after a rerun', async () => {
+      const runAfterStep2_2 = {
+        ...sampleRun,
+        status: 'running',
+        currentStep: 5,
+        step2_1Output: 'Research output',
+      };
+
+      // Rerun from step4: Step 3 output is kept
+      const rerunHypothesis = {
+        ...sampleHypothesis,
+        processingStatus: 'step2_2' as const,
+        step2_2Output: 'Step 2-2 done',
+        step3Output: 'Kept step 3 output',
+      };
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue(runAfterStep2_2),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([rerunHypothesis]),
+        },
+        {
+          generateContent: vi.fn().mockResolvedValue('New output'),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      // Steps 4 and 5 only, with the kept Step 3 output as input
+      expect(deps.ai.generateContent).toHaveBeenCalledTimes(2);
+      const step4Prompt = vi.mocked(deps.ai.generateContent).mock.calls[0][0].prompt;
+      expect(step4Prompt).toContain('Kept step 3 output');
+
+      const updates = vi.mocked(deps.db.updateHypothesis).mock.calls.map(call => call[1]);
+      expect(updates).not.toContainEqual({ processingStatus: 'step3' });
+      expect(updates).toContainEqual({ processingStatus: 'step4' });
+      expect(updates.some(u => 'step3Output' in u)).toBe(false);
+      expect(updates).toContainEqual(expect.objectContaining({ step5Output: 'New output', processingStatus: 'completed' }));
+    });
+
+    it('stores parsed Step 3 / 4 scores with their parse errors', async () => {
+      const readyHypothesis = {
+        ...sampleHypothesis,
+        processingStatus: 'step2_2' as const,
+        step2_2Output: 'Step 2-2 done',
+      };
+      const saveHypothesisScores = vi.fn().mockResolvedValue(undefined);
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3, step2_1Output: 'x' }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValueOnce([readyHypothesis]).mockResolvedValue([]),
+          saveHypothesisScores,
+        },
+        {
+          generateContent: vi.fn()
+            .mockResolvedValueOnce('- 当該テーマの魅力度：高\n- 8項目の加重合計（100点満点）：75.0')
+            .mockResolvedValue('Evaluation output'),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      expect(saveHypothesisScores).toHaveBeenCalledTimes(2);
+      expect(saveHypothesisScores).toHaveBeenCalledWith(1, readyHypothesis.uuid, expect.objectContaining({
+        step: 3,
+        verdict: '高',
+        weightedTotal: 75,
+        parseErrors: expect.arrayContaining(['科学的妥当性のスコアを抽出できませんでした']),
+      }));
+      expect(saveHypothesisScores).toHaveBeenCalledWith(1, readyHypothesis.uuid, expect.objectContaining({
+        step: 4,
+        source: 'regex',
+        verdict: null,
+      }));
+    });
+
+    it('requests structured Step 3 / 4 scores and stores the report as the output', async () => {
+      const readyHypothesis = {
+        ...sampleHypothesis,
+        processingStatus: 'step2_2' as const,
+        step2_2Output: 'Step 2-2 done',
+      };
+      const saveHypothesisScores = vi.fn().mockResolvedValue(undefined);
+      const structuredStep3 = JSON.stringify({
+        report: 'Step 3 report',
+        axes: SCORE_AXES[3].map(axis => ({ key: axis.key, score: 4, rationale: `${axis.label}の根拠` })),
+        verdict: '高',
+        weightedTotal: 80,
+      });
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3, step2_1Output: 'x' }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValueOnce([readyHypothesis]).mockResolvedValue([]),
+          saveHypothesisScores,
+        },
+        {
+          generateContent: vi.fn()
+            .mockResolvedValueOnce(structuredStep3)
+            .mockResolvedValue('Evaluation output'),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      const calls = vi.mocked(deps.ai.generateContent).mock.calls.map(call => call[0]);
+      expect(calls[0].responseSchema).toEqual(evaluationResponseSchema(3));
+      expect(calls[1].responseSchema).toEqual(evaluationResponseSchema(4));
+      expect(calls[1].prompt).toContain('Step 3 report');
+      expect(calls[2].responseSchema).toBeUndefined();
+
+      const updates = vi.mocked(deps.db.updateHypothesis).mock.calls.map(call => call[1]);
+      expect(updates).toContainEqual(expect.objectContaining({ step3Output: 'Step 3 report' }));
+      expect(saveHypothesisScores).toHaveBeenCalledWith(1, readyHypothesis.uuid, expect.objectContaining({
+        step: 3,
+        source: 'structured',
+        weightedTotal: 80,
+        rationales: expect.objectContaining({ grossMargin: '粗利率の根拠' }),
+        parseErrors: [],
+      }));
+      // A provider without schema support answers in text: scored by the regex parsers
+      expect(saveHypothesisScores).toHaveBeenCalledWith(1, readyHypothesis.uuid, expect.objectContaining({
+        step: 4,
+        source: 'regex',
+      }));
+    });
+
+    it('repairs outputs that do not parse and flags the ones that still fail', async () => {
+      vi.stubEnv('FORMAT_REPAIR_MAX_ATTEMPTS', '1');
+      const readyHypothesis = {
+        ...sampleHypothesis,
+        processingStatus: 'step2_2' as const,
+        step2_2Output: 'Step 2-2 done',
+      };
+      const saveHypothesisScores = vi.fn().mockResolvedValue(undefined);
+      const repairedStep3 = [
+        '当該テーマの魅力度：高',
+        ...SCORE_AXES[3].map(axis => `${axis.label}（${axis.weight}％）：4`),
+        '8項目の加重合計（100点満点）：80.0',
+      ].join('\n');
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3, step2_1Output: 'x' }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValueOnce([readyHypothesis]).mockResolvedValue([]),
+          saveHypothesisScores,
+        },
+        {
+          generateContent: vi.fn()
+            .mockResolvedValueOnce('スコアは後ほど')
+            .mockResolvedValueOnce(repairedStep3)
+            .mockResolvedValue('Evaluation output'),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      // One repair per step: Step 3 parses after it, Step 4 / 5 still fail
+      const prompts = vi.mocked(deps.ai.generateContent).mock.calls.map(call => call[0].prompt);
+      expect(prompts).toHaveLength(6);
+      expect(prompts[1]).toContain('# 出力形式の修正');
+      expect(prompts[1]).toContain('- 科学的妥当性のスコアを抽出できませんでした');
+      expect(prompts[1]).toContain('スコアは後ほど');
+      expect(prompts[2]).toContain(repairedStep3);
+
+      const updates = vi.mocked(deps.db.updateHypothesis).mock.calls.map(call => call[1]);
+      const step3Update = updates.find(u => 'step3Output' in u)!;
+      expect(step3Update).toMatchObject({ step3Output: repairedStep3, formatViolations: [] });
+      expect(step3Update.fullData!.formatRepairs).toEqual({
+        step3: expect.objectContaining({ originalOutput: 'スコアは後ほど', attempts: 1, errors: [] }),
+      });
+      expect(updates).toContainEqual(expect.objectContaining({
+        processingStatus: 'completed',
+        formatViolations: ['step4', 'step5'],
+      }));
+      expect(saveHypothesisScores).toHaveBeenCalledWith(1, readyHypothesis.uuid, expect.objectContaining({
+        step: 3,
+        weightedTotal: 80,
+        parseErrors: [],
+      }));
+    });
+
+    it('uses snapshotted prompt versions for steps 3-5', async () => {
+      const runWithSnapshot = {
+        ...sampleRun,
+        status: 'running',
+        currentStep: 3,
+        promptSnapshot: {
+          resolvedAt: '2026-01-01T00:00:00.000Z',
+          steps: {
+            '3': { source: 'version', versionId: 11, version: 2, content: 'S3 custom: {STEP22_OUTPUT}' },
+          },
+        },
+      };
+      const step2_2DoneHypothesis = {
+        ...sampleHypothesis,
+        processingStatus: 'step2_2' as const,
+        step2_2Output: 'Step 2-2 done',
+      };
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue(runWithSnapshot),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([step2_2DoneHypothesis]),
+        },
+        {
+          generateContent: vi.fn().mockResolvedValue('Evaluation output'),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      const prompts = vi.mocked(deps.ai.generateContent).mock.calls.map(call => call[0].prompt);
+      // Custom template embeds its input, so no context block is appended
+      expect(prompts[0]).toBe('S3 custom: Step 2-2 done');
+      // Step 4 has no active version and falls back to the built-in prompt + context
+      expect(prompts[1]).toContain('=== step3_eval_1.txt ===\nEvaluation output');
+    });
+
+    it('reads configured attachments via File Search and records the inputs per step', async () => {
+      const readyHypothesis = {
+        ...sampleHypothesis,
+        processingStatus: 'step2_2' as const,
+        step2_2Output: 'Step 2-2 done',
+      };
+      const generateContentWithFiles = vi.fn().mockResolvedValue('File Search output');
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValueOnce([readyHypothesis]).mockResolvedValue([]),
+          getStepAttachmentSettings: vi.fn().mockResolvedValue({ 5: ['step22_output', 'step4_output'] }),
+        },
+        {
+          generateContent: vi.fn().mockResolvedValue('Evaluation output'),
+          generateContentWithFiles,
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      // Steps 3 and 4 have no saved list: every available file is inlined
+      const inlinePrompts = vi.mocked(deps.ai.generateContent).mock.calls.map(call => call[0].prompt);
+      expect(inlinePrompts).toHaveLength(2);
+      expect(inlinePrompts[0]).toContain('=== technical_assets.json ===\nSample resource content');
+      expect(inlinePrompts[0]).toContain('=== step2_2_report_1.txt ===\nStep 2-2 done');
+
+      // Step 5 has a saved list: only those files go to File Search
+      expect(generateContentWithFiles).toHaveBeenCalledTimes(1);
+      const [{ files, storeName, prompt }] = generateContentWithFiles.mock.calls[0];
+      expect(files.map((f: { name: string }) => f.name)).toEqual(['step2_2_report_1.txt', 'step4_eval_1.txt']);
+      expect(storeName).toBe('asip-1-test-uui-step5');
+      expect(prompt).not.toContain('Step 2-2 done');
+
+      const finalUpdate = vi.mocked(deps.db.updateHypothesis).mock.calls.find(
+        call => call[1].processingStatus === 'completed'
+      )!;
+      const stepInputs = (finalUpdate[1].fullData as { stepInputs: Record<string, { mode: string; files: Array<{ name: string }> }> }).stepInputs;
+      expect(stepInputs.step3.mode).toBe('inline');
+      expect(stepInputs.step3.files.map(f => f.name)).toEqual(['technical_assets.json', 'step2_2_report_1.txt']);
+      expect(stepInputs.step5.mode).toBe('file_search');
+    });
+
+    it('passes the per-step model for the run modelChoice and records it per hypothesis', async () => {
+      const step2_2DoneHypothesis = {
+        ...sampleHypothesis,
+        processingStatus: 'step2_2' as const,
+        step2_2Output: 'Step 2-2 done',
+        fullData: { stepModels: { step2_2: 'deep-research-pro-preview-12-2025' } },
+      };
+
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3, modelChoice: 'flash' }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        getHypothesesForRun: vi.fn().mockResolvedValue([step2_2DoneHypothesis]),
+      });
+
+      await executeNextStep(deps, 1);
+
+      const models = vi.mocked(deps.ai.generateContent).mock.calls.map(call => call[0].model);
+      expect(models).toEqual(['gemini-3-flash-preview', 'gemini-3-flash-preview', 'gemini-3-flash-preview']);
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith(
+        'test-uuid-123',
+        expect.objectContaining({
+          processingStatus: 'completed',
+          fullData: expect.objectContaining({
+            stepModels: {
+              step2_2: 'deep-research-pro-preview-12-2025',
+              step3: 'gemini-3-flash-preview',
+              step4: 'gemini-3-flash-preview',
+              step5: 'gemini-3-flash-preview',
+            },
+          }),
+        })
+      );
+    });
+
+    it('records the model the adapter reports instead of the requested one', async () => {
+      const appendDebugPrompt = vi.fn().mockResolvedValue(undefined);
+      const deps = createMockDeps(
+        {
+          appendDebugPrompt,
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([
+            { ...sampleHypothesis, processingStatus: 'step2_2' as const, step2_2Output: 'Step 2-2 done' },
+          ]),
+        },
+        {
+          generateContent: vi.fn(async params => {
+            params.onUsage?.({ inputTokens: 10, outputTokens: 5, thinkingTokens: 0, cachedTokens: 0, groundingCalls: 0 }, 'local-llm');
+            return 'Evaluation output';
+          }),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith('test-uuid-123', expect.objectContaining({
+        processingStatus: 'completed',
+        fullData: expect.objectContaining({
+          stepModels: { step3: 'local-llm', step4: 'local-llm', step5: 'local-llm' },
+        }),
+      }));
+      expect(appendDebugPrompt).toHaveBeenCalledWith(1, expect.objectContaining({ step: 'step3', model: 'local-llm' }));
+    });
+
     it('executes evaluation for multiple hypotheses', async () => {
       const runAfterStep2_2 = {
         ...sampleRun,
@@ -584,7 +1526,17 @@ describe('step-executor', () => {
       expect(result.hasMore).toBe(false);
       expect(deps.db.updateRunStatus).toHaveBeenCalledWith(
         1,
-        expect.objectContaining({ status: 'completed' })
+        expect.objectContaining({
+          status: 'completed',
+          integratedList: expect.objectContaining({
+            rows: [
+              expect.objectContaining({
+                hypothesisUuid: completedHypothesis.uuid,
+                errors: expect.arrayContaining(['データ行がありません']),
+              }),
+            ],
+          }),
+        })
       );
     });
 
@@ -611,6 +1563,301 @@ describe('step-executor', () => {
       );
     });
 
+    it('appends step 3-5 timings per hypothesis to executionTiming in one write', async () => {
+      const readyHypothesis = {
+        ...sampleHypothesis,
+        processingStatus: 'step2_2' as const,
+        step2_2Output: 'Step 2-2 done',
+      };
+      const existingEntry = {
+        step: 'step2_1' as const,
+        startedAt: '2026-01-01T00:00:00.000Z',
+        endedAt: '2026-01-01T00:20:00.000Z',
+        durationMs: 1_200_000,
+        outcome: 'success' as const,
+      };
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({
+            ...sampleRun,
+            status: 'running',
+            currentStep: 3,
+            executionTiming: { entries: [existingEntry] },
+          }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([readyHypothesis]),
+        },
+        {
+          generateContent: vi.fn().mockResolvedValue('Evaluation output'),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      const timingCalls = vi.mocked(deps.db.updateRunStatus).mock.calls
+        .filter(([, updates]) => updates.executionTiming);
+      expect(timingCalls).toHaveLength(1);
+
+      const entries = timingCalls[0][1].executionTiming!.entries;
+      expect(entries[0]).toEqual(existingEntry);
+      expect(entries.slice(1).map(e => e.step)).toEqual(['step3', 'step4', 'step5']);
+      expect(entries[1]).toMatchObject({
+        hypothesisUuid: 'test-uuid-123',
+        hypothesisNumber: 1,
+        loop: 1,
+        outcome: 'success',
+      });
+    });
+
+    it('records Deep Research wall time from the saved start time when polling completes', async () => {
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({
+            ...sampleRun,
+            status: 'running',
+            currentStep: 1,
+            progressInfo: {
+              deepResearchHandle: { interactionId: 'test', fileSearchStoreName: 'test-store' },
+              deepResearchStartedAt: new Date(Date.now() - 60_000).toISOString(),
+            },
+          }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      const timingCall = vi.mocked(deps.db.updateRunStatus).mock.calls
+        .find(([, updates]) => updates.executionTiming);
+      const [entry] = timingCall![1].executionTiming!.entries;
+      expect(entry).toMatchObject({ step: 'step2_1', outcome: 'success', loop: 1 });
+      expect(entry.durationMs).toBeGreaterThanOrEqual(60_000);
+    });
+
+    it('records a failed step with an error outcome', async () => {
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'pending' }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+        },
+        {
+          startDeepResearchAsync: vi.fn().mockRejectedValue(new Error('API timeout')),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      expect(deps.db.updateRunStatus).toHaveBeenCalledWith(1, {
+        executionTiming: {
+          entries: [expect.objectContaining({ step: 'step2_1_start', outcome: 'error', error: 'API timeout' })],
+        },
+      });
+    });
+
+    it('records step 3-5 prompts on the hypothesis with the response length', async () => {
+      const readyHypothesis = {
+        ...sampleHypothesis,
+        processingStatus: 'step2_2' as const,
+        step2_2Output: 'Step 2-2 done',
+      };
+      const appendDebugPrompt = vi.fn().mockResolvedValue(undefined);
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([readyHypothesis]),
+          appendDebugPrompt,
+        },
+        {
+          generateContent: vi.fn().mockResolvedValue('Evaluation output'),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      expect(appendDebugPrompt).toHaveBeenCalledTimes(3);
+      const entries = appendDebugPrompt.mock.calls.map(([, entry]) => entry);
+      expect(entries.map(e => e.step)).toEqual(['step3', 'step4', 'step5']);
+      expect(entries[0]).toMatchObject({
+        hypothesisUuid: 'test-uuid-123',
+        hypothesisNumber: 1,
+        responseLength: 'Evaluation output'.length,
+      });
+      expect(entries[0].prompt).toBe(vi.mocked(deps.ai.generateContent).mock.calls[0][0].prompt);
+    });
+
+    it('records Deep Research prompts at start and fills in the response length when polling completes', async () => {
+      const appendDebugPrompt = vi.fn().mockResolvedValue(undefined);
+      const setDebugPromptResponseLength = vi.fn().mockResolvedValue(undefined);
+
+      const startDeps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'pending' }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        appendDebugPrompt,
+      });
+      await executeNextStep(startDeps, 1);
+
+      expect(appendDebugPrompt).toHaveBeenCalledWith(1, expect.objectContaining({
+        step: 'step2_1',
+        interactionId: 'mock-interaction-id',
+        responseLength: null,
+        attachments: expect.arrayContaining([
+          { name: 'target_specification', size: sampleResource.content.length },
+        ]),
+      }));
+
+      const pollDeps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({
+          ...sampleRun,
+          status: 'running',
+          currentStep: 1,
+          progressInfo: {
+            deepResearchHandle: { interactionId: 'mock-interaction-id', fileSearchStoreName: 'store' },
+          },
+        }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        setDebugPromptResponseLength,
+      });
+      await executeNextStep(pollDeps, 1);
+
+      expect(setDebugPromptResponseLength).toHaveBeenCalledWith(
+        1,
+        { interactionId: 'mock-interaction-id' },
+        'Mock async research output'.length
+      );
+    });
+
+    it('records the token usage of step 3-5 calls with their model and hypothesis', async () => {
+      const readyHypothesis = {
+        ...sampleHypothesis,
+        processingStatus: 'step2_2' as const,
+        step2_2Output: 'Step 2-2 done',
+      };
+      const usage = { inputTokens: 100, outputTokens: 20, thinkingTokens: 30, cachedTokens: 0, groundingCalls: 0 };
+      const recordAIUsage = vi.fn().mockResolvedValue(undefined);
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesesForRun: vi.fn().mockResolvedValue([readyHypothesis]),
+          recordAIUsage,
+        },
+        {
+          generateContent: vi.fn().mockImplementation(async ({ onUsage }) => {
+            onUsage?.(usage);
+            return 'Evaluation output';
+          }),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      expect(recordAIUsage.mock.calls.map(([, record]) => record.step)).toEqual(['step3', 'step4', 'step5']);
+      expect(recordAIUsage).toHaveBeenCalledWith(1, {
+        step: 'step3',
+        model: vi.mocked(deps.ai.generateContent).mock.calls[0][0].model,
+        hypothesisUuid: 'test-uuid-123',
+        ...usage,
+      });
+    });
+
+    it('records the token usage of a completed Deep Research interaction', async () => {
+      const usage = { inputTokens: 5000, outputTokens: 800, thinkingTokens: 1200, cachedTokens: 0, groundingCalls: 12 };
+      const recordAIUsage = vi.fn().mockResolvedValue(undefined);
+
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({
+            ...sampleRun,
+            status: 'running',
+            currentStep: 1,
+            progressInfo: {
+              deepResearchHandle: { interactionId: 'mock-interaction-id', fileSearchStoreName: 'store' },
+            },
+          }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          recordAIUsage,
+        },
+        {
+          checkDeepResearchStatus: vi.fn().mockResolvedValue({
+            status: 'completed',
+            result: 'Mock async research output',
+            usage,
+          }),
+        }
+      );
+
+      await executeNextStep(deps, 1);
+
+      expect(recordAIUsage).toHaveBeenCalledWith(1, {
+        step: 'step2_1',
+        model: DEEP_RESEARCH_MODEL,
+        interactionId: 'mock-interaction-id',
+        ...usage,
+      });
+    });
+
+    it('keeps running when recording a prompt fails', async () => {
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'pending' }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        appendDebugPrompt: vi.fn().mockRejectedValue(new Error('db down')),
+      });
+
+      const result = await executeNextStep(deps, 1);
+
+      expect(result.error).toBeUndefined();
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('exits with busy when another invocation holds the run lease', async () => {
+      const lease = { owner: 'process-other', acquiredAt: '2026-01-01T00:00:00.000Z', expiresAt: '2026-01-01T00:15:00.000Z' };
+      const deps = createMockDeps({
+        acquireRunLease: vi.fn().mockResolvedValue({ acquired: false, lease }),
+        releaseRunLease: vi.fn().mockResolvedValue(undefined),
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'pending' }),
+      });
+
+      const result = await executeNextStep(deps, 1);
+
+      expect(result).toEqual({ phase: 'busy', hasMore: false, error: 'Run is already being processed', lease });
+      expect(deps.db.getRun).not.toHaveBeenCalled();
+      expect(deps.ai.startDeepResearchAsync).not.toHaveBeenCalled();
+      expect(deps.db.releaseRunLease).not.toHaveBeenCalled();
+    });
+
+    it('holds the run lease for the step and releases it afterwards', async () => {
+      const calls: string[] = [];
+      const deps = createMockDeps(
+        {
+          acquireRunLease: vi.fn().mockImplementation(async () => {
+            calls.push('acquire');
+            return { acquired: true, lease: { owner: 'process-1', acquiredAt: '', expiresAt: '' } };
+          }),
+          releaseRunLease: vi.fn().mockImplementation(async () => { calls.push('release'); }),
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'pending' }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+        },
+        {
+          startDeepResearchAsync: vi.fn().mockImplementation(async () => {
+            calls.push('start');
+            return { interactionId: 'i', fileSearchStoreName: 's' };
+          }),
+        }
+      );
+      deps.leaseOwner = 'process-1';
+
+      const result = await executeNextStep(deps, 1);
+
+      expect(result.phase).toBe('step2_1_start');
+      expect(calls).toEqual(['acquire', 'start', 'release']);
+      expect(deps.db.acquireRunLease).toHaveBeenCalledWith(1, 'process-1', expect.any(Number));
+      expect(deps.db.releaseRunLease).toHaveBeenCalledWith(1, 'process-1');
+    });
+
     it('handles step execution error gracefully', async () => {
       const deps = createMockDeps(
         {
@@ -633,6 +1880,36 @@ describe('step-executor', () => {
       );
     });
 
+    it('rethrows step errors for the job queue instead of failing the run', async () => {
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'pending' }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+        },
+        {
+          startDeepResearchAsync: vi.fn().mockRejectedValue(new Error('API timeout')),
+        }
+      );
+
+      await expect(executeNextStep(deps, 1, { rethrowErrors: true })).rejects.toThrow('API timeout');
+      expect(deps.db.updateRunStatus).not.toHaveBeenCalledWith(1, expect.objectContaining({ status: 'error' }));
+    });
+
+    it('leaves evaluation to hypothesis jobs when deferred', async () => {
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        getHypothesesForRun: vi.fn().mockResolvedValue([
+          { ...sampleHypothesis, processingStatus: 'step2_2', step2_2Output: 'Step 2-2 done' },
+        ]),
+      });
+
+      const result = await executeNextStep(deps, 1, { deferEvaluation: true });
+
+      expect(result).toEqual({ phase: 'evaluation', hasMore: true });
+      expect(deps.ai.generateContent).not.toHaveBeenCalled();
+    });
+
     it('handles missing resources', async () => {
       const deps = createMockDeps({
         getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'pending' }),
@@ -646,4 +1923,240 @@ describe('step-executor', () => {
       expect(result.error).toContain('リソース');
     });
   });
+
+  describe('getRunWork', () => {
+    it('returns the next phase and the hypotheses to evaluate, interrupted ones first', async () => {
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+        getHypothesesForRun: vi.fn().mockResolvedValue([
+          { ...sampleHypothesis, uuid: 'ready', processingStatus: 'step2_2', step2_2Output: 'done' },
+          { ...sampleHypothesis, uuid: 'interrupted', processingStatus: 'step4', step2_2Output: 'done' },
+          { ...sampleHypothesis, uuid: 'polling', processingStatus: 'step2_2', fullData: { deepResearchHandle: { interactionId: 'i' } } },
+          { ...sampleHypothesis, uuid: 'finished', processingStatus: 'completed' },
+        ]),
+      });
+
+      expect(await getRunWork(deps, 1)).toEqual({
+        status: 'running',
+        phase: 'step2_2_polling',
+        evaluationTargets: ['interrupted', 'ready'],
+      });
+    });
+
+    it('has no work for a paused run', async () => {
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'paused' }),
+      });
+
+      expect(await getRunWork(deps, 1)).toEqual({ status: 'paused', phase: null, evaluationTargets: [] });
+    });
+  });
+
+  describe('executeHypothesisEvaluation', () => {
+    const readyHypothesis = {
+      ...sampleHypothesis,
+      processingStatus: 'step2_2' as const,
+      step2_2Output: 'Step 2-2 done',
+    };
+
+    it('runs one evaluation step per job and appends its timings atomically', async () => {
+      const appendExecutionTiming = vi.fn().mockResolvedValue(undefined);
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesis: vi.fn().mockResolvedValue(readyHypothesis),
+          appendExecutionTiming,
+        },
+        {
+          generateContent: vi.fn().mockResolvedValue('Evaluation output'),
+        }
+      );
+
+      expect(await executeHypothesisEvaluation(deps, 1, readyHypothesis.uuid)).toEqual({ status: 'continued' });
+
+      expect(deps.ai.generateContent).toHaveBeenCalledTimes(1);
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith(
+        readyHypothesis.uuid,
+        expect.objectContaining({ step3Output: 'Evaluation output' })
+      );
+      expect(deps.db.updateHypothesis).not.toHaveBeenCalledWith(
+        readyHypothesis.uuid,
+        expect.objectContaining({ processingStatus: 'step4' })
+      );
+      const [runId, entries] = appendExecutionTiming.mock.calls[0];
+      expect(runId).toBe(1);
+      expect(entries.map((e: { step: string }) => e.step)).toEqual(['step3']);
+      expect(deps.db.updateRunStatus).not.toHaveBeenCalledWith(1, expect.objectContaining({ executionTiming: expect.anything() }));
+    });
+
+    it('completes the evaluation in the job that runs Step 5', async () => {
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesis: vi.fn().mockResolvedValue({
+            ...readyHypothesis,
+            processingStatus: 'step4',
+            step3Output: 'Step 3 done',
+            step4Output: 'Step 4 done',
+          }),
+        },
+        {
+          generateContent: vi.fn().mockResolvedValue('Evaluation output'),
+        }
+      );
+
+      expect(await executeHypothesisEvaluation(deps, 1, readyHypothesis.uuid)).toEqual({ status: 'completed' });
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith(
+        readyHypothesis.uuid,
+        expect.objectContaining({ processingStatus: 'completed' })
+      );
+    });
+
+    it('skips hypotheses that are not ready and runs that are not running', async () => {
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running' }),
+        getHypothesis: vi.fn().mockResolvedValue({ ...readyHypothesis, processingStatus: 'completed' }),
+      });
+      expect(await executeHypothesisEvaluation(deps, 1, readyHypothesis.uuid)).toEqual({ status: 'skipped' });
+
+      const paused = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'paused' }),
+        getHypothesis: vi.fn().mockResolvedValue(readyHypothesis),
+      });
+      expect(await executeHypothesisEvaluation(paused, 1, readyHypothesis.uuid)).toEqual({ status: 'skipped' });
+      expect(paused.ai.generateContent).not.toHaveBeenCalled();
+    });
+
+    it('schedules a retry with backoff after a transient failure', async () => {
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesis: vi.fn().mockResolvedValue({ ...readyHypothesis, processingStatus: 'step3' }),
+        },
+        {
+          generateContent: vi.fn().mockRejectedValue(new RateLimitError(40)),
+        }
+      );
+
+      const before = Date.now();
+      const result = await executeHypothesisEvaluation(deps, 1, readyHypothesis.uuid);
+
+      expect(result).toMatchObject({ status: 'retry', error: 'レート制限に達しました。40秒後に再試行してください' });
+      const retryAt = (result as { retryAt: Date }).retryAt.getTime();
+      expect(retryAt - before).toBeGreaterThanOrEqual(40_000);
+      expect(retryAt - before).toBeLessThan(45_000);
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith(readyHypothesis.uuid, {
+        fullData: expect.objectContaining({
+          retry: expect.objectContaining({ attempt: 1, maxAttempts: 5, errorCode: 'RATE_LIMIT_ERROR', step: 'step3' }),
+        }),
+      });
+      expect(deps.db.updateHypothesis).not.toHaveBeenCalledWith(
+        readyHypothesis.uuid,
+        expect.objectContaining({ processingStatus: 'error' })
+      );
+    });
+
+    it('waits for a retry that is not due yet', async () => {
+      const retry = {
+        attempt: 2,
+        maxAttempts: 5,
+        nextRetryAt: new Date(Date.now() + 60_000).toISOString(),
+        lastError: '503 Service Unavailable',
+        errorCode: 'CONTENT_GENERATION_ERROR',
+      };
+      const deps = createMockDeps({
+        getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+        getResource: vi.fn().mockResolvedValue(sampleResource),
+        getHypothesis: vi.fn().mockResolvedValue({ ...readyHypothesis, processingStatus: 'step4', fullData: { retry } }),
+      });
+
+      expect(await executeHypothesisEvaluation(deps, 1, readyHypothesis.uuid)).toEqual({
+        status: 'retry',
+        retryAt: new Date(retry.nextRetryAt),
+        error: '503 Service Unavailable',
+      });
+      expect(deps.ai.generateContent).not.toHaveBeenCalled();
+    });
+
+    it('clears the retry state when a retried evaluation completes', async () => {
+      const retry = {
+        attempt: 1,
+        maxAttempts: 5,
+        nextRetryAt: new Date(Date.now() - 1000).toISOString(),
+        lastError: 'fetch failed',
+        errorCode: 'CONTENT_GENERATION_ERROR',
+      };
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesis: vi.fn().mockResolvedValue({
+            ...readyHypothesis,
+            processingStatus: 'step5',
+            step3Output: 'Step 3 done',
+            step4Output: 'Step 4 done',
+            fullData: { retry },
+          }),
+        },
+        {
+          generateContent: vi.fn().mockResolvedValue('Evaluation output'),
+        }
+      );
+
+      expect(await executeHypothesisEvaluation(deps, 1, readyHypothesis.uuid)).toEqual({ status: 'completed' });
+      const completed = vi.mocked(deps.db.updateHypothesis).mock.calls.find(([, update]) => update.processingStatus === 'completed');
+      expect(completed?.[1].fullData).not.toHaveProperty('retry');
+    });
+
+    it('marks the hypothesis as error on a non-retryable failure', async () => {
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesis: vi.fn().mockResolvedValue(readyHypothesis),
+        },
+        {
+          generateContent: vi.fn().mockRejectedValue(new ContentGenerationError('400 Bad Request', 'generateContent')),
+        }
+      );
+
+      const result = await executeHypothesisEvaluation(deps, 1, readyHypothesis.uuid);
+
+      expect(result).toEqual({ status: 'failed', error: 'コンテンツ生成失敗 (generateContent): 400 Bad Request' });
+      expect(deps.db.updateHypothesis).toHaveBeenCalledWith(readyHypothesis.uuid, expect.objectContaining({
+        processingStatus: 'error',
+        errorMessage: 'コンテンツ生成失敗 (generateContent): 400 Bad Request',
+      }));
+    });
+
+    it('marks the hypothesis as error once the retries are used up', async () => {
+      const retry = {
+        attempt: 5,
+        maxAttempts: 5,
+        nextRetryAt: new Date(Date.now() - 1000).toISOString(),
+        lastError: 'socket hang up',
+        errorCode: 'CONTENT_GENERATION_ERROR',
+      };
+      const deps = createMockDeps(
+        {
+          getRun: vi.fn().mockResolvedValue({ ...sampleRun, status: 'running', currentStep: 3 }),
+          getResource: vi.fn().mockResolvedValue(sampleResource),
+          getHypothesis: vi.fn().mockResolvedValue({ ...readyHypothesis, processingStatus: 'step5', fullData: { retry } }),
+        },
+        {
+          generateContent: vi.fn().mockRejectedValue(new Error('socket hang up')),
+        }
+      );
+
+      const result = await executeHypothesisEvaluation(deps, 1, readyHypothesis.uuid);
+
+      expect(result).toEqual({ status: 'failed', error: 'socket hang up（5回再試行後）' });
+      const [, update] = vi.mocked(deps.db.updateHypothesis).mock.calls.at(-1)!;
+      expect(update).toMatchObject({ processingStatus: 'error', errorMessage: 'socket hang up（5回再試行後）' });
+      expect(update.fullData).not.toHaveProperty('retry');
+    });
+  });
 });
@@ -12,8 +12,9 @@ import {
   AIOperations,
   RunData,
   HypothesisData,
-  HypothesisProcessingStatus,
   DeepResearchHandle,
+  DeepResearchStatus,
+  ResponseSchema,
 } from './pipeline-core';
 import {
   generateUUID,
@@ -21,9 +22,71 @@ import {
   extractJsonFromResponse,
   isHypothesesResponse,
   validateAndCleanHypotheses,
-  buildHypothesisContext,
 } from './utils';
-import { formatPrompt, STEP3_PROMPT, STEP4_PROMPT, STEP5_PROMPT, buildInstructionDocument, ExistingHypothesis } from './prompts';
+import {
+  formatPrompt,
+  STEP2_1_5_PROMPT,
+  STEP2_1_5_OUTPUT_FORMAT,
+  STEP2_2_PROMPT,
+  STEP3_PROMPT,
+  STEP4_PROMPT,
+  STEP5_PROMPT,
+  buildInstructionDocument,
+  buildExclusionSection,
+  buildPreviousHypothesesDocument,
+  ExistingHypothesis,
+} from './prompts';
+import {
+  PromptSnapshot,
+  buildPromptSnapshot,
+  getSnapshotPrompt,
+  renderStepPrompt,
+} from './prompt-snapshot';
+import { StepModels, DEEP_RESEARCH_MODEL, resolveStepModel } from './model-selection';
+import {
+  ExecutionTiming,
+  TimingContext,
+  TimingOutcome,
+  TimingRecorder,
+  appendTimingEntries,
+  createTimingRecorder,
+} from './execution-timing';
+import { DebugPromptEntry, buildDebugPromptEntry } from './debug-prompts';
+import { buildIntegratedList } from './integrated-list';
+import { ScoreStep, buildScoreRecord, type HypothesisScoreRecord } from './hypothesis-scores';
+import { evaluationResponseSchema, scoreEvaluationResponse } from './structured-scores';
+import {
+  FormatRepairRecord,
+  RepairableStep,
+  getFormatRepairConfig,
+  repairOutputFormat,
+  updateFormatViolations,
+} from './format-repair';
+import {
+  EvaluationStepNumber,
+  StepAttachmentSettings,
+  StepInputFile,
+  StepInputRecord,
+  StepInputSources,
+  StepInputs,
+  buildStepInputFiles,
+  buildStepInputRecord,
+  formatInlineInputs,
+  resolveAttachedFileIds,
+} from './step-inputs';
+import { RunLease, RUN_LEASE_TTL_MS, createLeaseOwner } from './run-lease';
+import { HypothesisRetryState, getHypothesisRetryState, getRetryWaitMs, planRetry } from './retry-policy';
+import {
+  TimedOutInteraction,
+  formatDeepResearchTimeoutMessage,
+  getDeepResearchOvertime,
+  getDeepResearchTimeoutConfig,
+} from './deep-research-timeout';
+import { RateLimitError, getErrorMessage } from './errors';
+import type { TokenUsage, UsageRecord } from './cost-accounting';
+import { BudgetPauseReason, checkDeepResearchBudget, pauseIfOverBudget } from './run-budget';
+import { AISelector, withRunAI } from './ai-provider';
+import { STOPPED_BY_USER_MESSAGE } from './run-control';
 
 /**
  * Pipeline execution phases
@@ -33,6 +96,7 @@ import { formatPrompt, STEP3_PROMPT, STEP4_PROMPT, STEP5_PROMPT, buildInstructio
  * - step2_1_polling: Check if Deep Research complete
  * - step2_2_start: Start hypothesis Deep Research
  * - step2_2_polling: Check if hypothesis research complete
+ * - next_loop: All hypotheses of the current loop are done, start the next loop
  */
 export type PipelinePhase =
   | 'pending'
@@ -44,8 +108,10 @@ export type PipelinePhase =
   | 'step2_2_polling'    // Poll for completion
   | 'step2_2'            // Legacy blocking (for tests)
   | 'evaluation'
+  | 'next_loop'          // Advance to the next loop (multi-loop runs)
   | 'completed'
-  | 'error';
+  | 'error'
+  | 'busy';              // Another invocation holds the run lease (result only)
 
 /**
  * Extended DatabaseOperations with getHypothesesForRun
@@ -60,6 +126,8 @@ export interface ExtendedDatabaseOperations extends DatabaseOperations {
 export interface StepExecutorDependencies {
   db: ExtendedDatabaseOperations;
   ai: AIOperations;
+  selectAI?: AISelector; // Switches to the provider of each run's project (ai-provider.ts)
+  leaseOwner?: string; // Run lease owner id (one per process invocation)
   logger?: {
     log: (message: string) => void;
     error: (message: string, error?: unknown) => void;
@@ -74,9 +142,18 @@ interface ExtendedRunData extends RunData {
   status: string;
   currentStep?: number;
   step2_1Output?: string | null;
+  step2_1Outputs?: Record<string, string> | null; // Step 2-1 output per loop (step2_1Output is the latest)
   updatedAt?: Date;
 }
 
+/**
+ * Loop position of a run (currentLoop is 1-based)
+ */
+export interface LoopState {
+  currentLoop: number;
+  loopCount: number;
+}
+
 /**
  * Extended progress info with Deep Research handle
  */
@@ -85,6 +162,8 @@ interface ExtendedProgressInfo {
   phase?: string;
   detail?: string;
   deepResearchHandle?: DeepResearchHandle;
+  deepResearchStartedAt?: string;
+  deepResearchRestarts?: number; // Step 2-1 restarts after a timeout (current loop)
   // Legacy single handle (deprecated, kept for backwards compatibility)
   hypothesisDeepResearchHandle?: {
     hypothesisUuid: string;
@@ -98,6 +177,7 @@ interface ExtendedProgressInfo {
   // Parallel processing stats
   inFlightCount?: number;
   completedCount?: number;
+  pauseReason?: BudgetPauseReason; // Set when the pipeline paused the run
   [key: string]: unknown;
 }
 
@@ -107,12 +187,30 @@ interface ExtendedProgressInfo {
 interface ExtendedHypothesisFullData {
   raw?: unknown;
   deepResearchHandle?: DeepResearchHandle;
+  deepResearchStartedAt?: string;
+  deepResearchRestarts?: number; // Step 2-2 restarts after a timeout
+  stepModels?: StepModels;
+  stepInputs?: StepInputs;
+  retry?: HypothesisRetryState;
+  formatRepairs?: Partial<Record<RepairableStep, FormatRepairRecord>>;
   [key: string]: unknown;
 }
 
 // Maximum concurrent Deep Research requests for hypotheses
 const MAX_CONCURRENT_HYPOTHESIS_RESEARCH = 5;
 
+// Retry delay of a Deep Research start that found the rate limiter full (when it gives none)
+const DEEP_RESEARCH_SLOT_RETRY_MS = 30 * 1000;
+
+/**
+ * When to start again after the rate limiter refused a Deep Research start
+ */
+function getSlotRetryAt(error: RateLimitError): string {
+  const retryAfterSeconds = error.details?.retryAfterSeconds;
+  const delayMs = typeof retryAfterSeconds === 'number' ? retryAfterSeconds * 1000 : DEEP_RESEARCH_SLOT_RETRY_MS;
+  return new Date(Date.now() + delayMs).toISOString();
+}
+
 // Maximum concurrent evaluation (Step 3-5) for hypotheses
 const MAX_CONCURRENT_EVALUATION = 5;
 
@@ -123,8 +221,46 @@ export interface StepExecutionResult {
   phase: PipelinePhase;
   hasMore: boolean;
   error?: string;
+  lease?: RunLease | null; // Holder of the run lease when phase is 'busy'
+  timedOut?: TimedOutInteraction[]; // Deep Research interactions stopped for exceeding their wall time
+  budgetExceeded?: boolean; // The run was paused because its spend reached the budget
+  retryAt?: string; // Deep Research slots were full: run the phase again at this time
 }
 
+/**
+ * Options for executeNextStep
+ * - deferEvaluation: the evaluation phase returns without evaluating; the job
+ *   queue runs Steps 3-5 as per-hypothesis jobs (executeHypothesisEvaluation)
+ * - rethrowErrors: errors are thrown instead of marking the run as error, so
+ *   the caller can retry the step
+ */
+export interface ExecuteStepOptions {
+  deferEvaluation?: boolean;
+  rethrowErrors?: boolean;
+}
+
+/**
+ * Work due on a run: the next run-level phase and the hypotheses of the
+ * current loop to evaluate (ready, or left in Steps 3-5 by an interrupted job)
+ */
+export interface RunWork {
+  status: string | null;
+  phase: PipelinePhase | null;
+  evaluationTargets: string[];
+}
+
+/**
+ * Result of executeHypothesisEvaluation
+ * - skipped: the run or hypothesis has nothing to evaluate
+ * - retry: a transient failure (or an earlier one); evaluate again at retryAt
+ * - failed: a non-retryable failure, or retries exhausted (hypothesis marked as error)
+ */
+// continued: one step finished, the next one runs in another job
+export type HypothesisEvaluationResult =
+  | { status: 'skipped' | 'continued' | 'completed' }
+  | { status: 'retry'; retryAt: Date; error: string }
+  | { status: 'failed'; error: string };
+
 const defaultLogger = {
   log: (message: string) => console.log(`[StepExecutor] ${message}`),
   error: (message: string, error?: unknown) => console.error(`[StepExecutor] ${message}`, error),
@@ -138,6 +274,272 @@ function getHypothesisHandle(h: HypothesisData): DeepResearchHandle | undefined
   return (h.fullData as ExtendedHypothesisFullData)?.deepResearchHandle;
 }
 
+/**
+ * Model the run's Deep Research runs on (the provider's research model for OpenAI-compatible projects)
+ */
+function getDeepResearchModel(deps: Pick<StepExecutorDependencies, 'ai'>): string {
+  return deps.ai.getDeepResearchModel?.() ?? DEEP_RESEARCH_MODEL;
+}
+
+/**
+ * Return fullData with the model used for a step recorded in stepModels
+ */
+function withStepModel(
+  fullData: ExtendedHypothesisFullData,
+  step: keyof StepModels,
+  model: string
+): ExtendedHypothesisFullData {
+  return {
+    ...fullData,
+    stepModels: { ...fullData.stepModels, [step]: model },
+  };
+}
+
+/**
+ * Progress info fields that must survive phase transitions (later loops need them again)
+ */
+function persistentProgressInfo(run: ExtendedRunData): Pick<ExtendedProgressInfo, 'existingFilter' | 'pauseReason'> {
+  const progressInfo = run.progressInfo as ExtendedProgressInfo | null | undefined;
+  return { existingFilter: progressInfo?.existingFilter, pauseReason: progressInfo?.pauseReason };
+}
+
+/**
+ * Get the loop position of a run
+ */
+function getLoopState(run: ExtendedRunData): LoopState {
+  return {
+    currentLoop: run.currentLoop || 1,
+    loopCount: run.loopCount || 1,
+  };
+}
+
+/**
+ * Hypotheses generated in the given loop (untagged hypotheses belong to loop 1)
+ * Earlier-loop hypotheses that were re-opened by a rerun are processed with it.
+ */
+function getLoopHypotheses(hypotheses: HypothesisData[], loop: number): HypothesisData[] {
+  return hypotheses.filter(h => {
+    const hypothesisLoop = h.loopNumber ?? 1;
+    if (hypothesisLoop === loop) return true;
+    return hypothesisLoop < loop && h.processingStatus !== 'completed' && h.processingStatus !== 'error';
+  });
+}
+
+/**
+ * Timing context for a hypothesis step
+ */
+function hypothesisTimingContext(h: HypothesisData): TimingContext {
+  return {
+    hypothesisUuid: h.uuid,
+    hypothesisNumber: h.hypothesisNumber,
+    loop: h.loopNumber ?? 1,
+  };
+}
+
+/**
+ * Record Deep Research wall time (start -> poll result) if the start time is known
+ */
+function recordDeepResearchTiming(
+  timing: TimingRecorder,
+  step: 'step2_1' | 'step2_2',
+  startedAt: string | undefined,
+  outcome: TimingOutcome,
+  context: TimingContext & { error?: string }
+): void {
+  if (!startedAt) return;
+  timing.record(step, new Date(startedAt), new Date(), outcome, context);
+}
+
+/**
+ * Record a prompt sent to Gemini (debug only, a failed write never stops the pipeline)
+ */
+async function recordDebugPrompt(
+  deps: StepExecutorDependencies,
+  runId: number,
+  entry: DebugPromptEntry
+): Promise<void> {
+  const { db, logger = defaultLogger } = deps;
+  if (!db.appendDebugPrompt) return;
+
+  try {
+    await db.appendDebugPrompt(runId, entry);
+  } catch (error) {
+    logger.warn(`Failed to record debug prompt for ${entry.step}: ${error}`);
+  }
+}
+
+/**
+ * Record the token usage of a call (a failed write never stops the pipeline)
+ */
+async function recordUsage(deps: StepExecutorDependencies, runId: number, record: UsageRecord): Promise<void> {
+  const { db, logger = defaultLogger } = deps;
+  if (!db.recordAIUsage) return;
+
+  try {
+    await db.recordAIUsage(runId, record);
+  } catch (error) {
+    logger.warn(`Failed to record token usage for ${record.step}: ${error}`);
+  }
+}
+
+/**
+ * Record the token usage of a finished Deep Research interaction, if reported
+ */
+async function recordDeepResearchUsage(
+  deps: StepExecutorDependencies,
+  runId: number,
+  step: 'step2_1' | 'step2_2',
+  target: { hypothesisUuid?: string; interactionId: string },
+  status: DeepResearchStatus
+): Promise<void> {
+  if (!status.usage) return;
+  await recordUsage(deps, runId, { step, model: status.model || getDeepResearchModel(deps), ...target, ...status.usage });
+}
+
+/**
+ * Save Step 3 / 4 scores into hypothesis_scores (parse errors are stored with the row,
+ * a failed write never stops the pipeline)
+ */
+async function recordHypothesisScores(
+  deps: StepExecutorDependencies,
+  runId: number,
+  hypothesis: HypothesisData,
+  record: HypothesisScoreRecord
+): Promise<void> {
+  const { db, logger = defaultLogger } = deps;
+  if (!db.saveHypothesisScores) return;
+
+  const { step } = record;
+  if (record.parseErrors.length > 0) {
+    logger.warn(`Step ${step} scores of hypothesis ${hypothesis.uuid}: ${record.parseErrors.join(' / ')}`);
+  }
+
+  try {
+    await db.saveHypothesisScores(runId, hypothesis.uuid, record);
+  } catch (error) {
+    logger.warn(`Failed to save Step ${step} scores for hypothesis ${hypothesis.uuid}: ${error}`);
+  }
+}
+
+/**
+ * Call generateContent and record the prompt with the response length
+ * Returns the response with the model that ran it (reported with the usage; the requested one otherwise).
+ */
+async function generateWithDebugPrompt(
+  deps: StepExecutorDependencies,
+  runId: number,
+  params: {
+    step: string;
+    prompt: string;
+    model: string;
+    hypothesis?: HypothesisData;
+    files?: Array<{ name: string; content: string }>;
+    /** Set to read the files via a temporary File Search store instead of the prompt */
+    storeName?: string;
+    /** Structured response to ask for (inline generation only) */
+    responseSchema?: ResponseSchema;
+  }
+): Promise<{ response: string; model: string }> {
+  const { step, prompt, model, hypothesis, files, storeName, responseSchema } = params;
+  const base = {
+    step,
+    prompt,
+    files: storeName ? files : undefined,
+    hypothesisUuid: hypothesis?.uuid,
+    hypothesisNumber: hypothesis?.hypothesisNumber,
+    timestamp: new Date(),
+  };
+
+  let usage: TokenUsage | undefined;
+  let usageModel = model;
+  const onUsage = (reported: TokenUsage, reportedModel?: string) => {
+    usage = reported;
+    usageModel = reportedModel || model;
+  };
+
+  try {
+    const response = storeName && files && deps.ai.generateContentWithFiles
+      ? await deps.ai.generateContentWithFiles({ prompt, files, storeName, model, onUsage })
+      : await deps.ai.generateContent({ prompt, model, onUsage, responseSchema });
+    await recordDebugPrompt(deps, runId, buildDebugPromptEntry({ ...base, model: usageModel, response }));
+    if (usage) {
+      await recordUsage(deps, runId, { step, model: usageModel, hypothesisUuid: hypothesis?.uuid, ...usage });
+    }
+    return { response, model: usageModel };
+  } catch (error) {
+    await recordDebugPrompt(deps, runId, buildDebugPromptEntry({
+      ...base,
+      model,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    throw error;
+  }
+}
+
+/**
+ * Start an async Deep Research and record the prompt and attachments
+ * The response length is filled in by recordDeepResearchResponse when polling completes.
+ */
+async function startDeepResearchWithDebugPrompt(
+  deps: StepExecutorDependencies,
+  runId: number,
+  params: {
+    step: string;
+    prompt: string;
+    files: Array<{ name: string; content: string }>;
+    storeName: string;
+    hypothesis?: HypothesisData;
+  }
+): Promise<DeepResearchHandle> {
+  const { ai } = deps;
+  const { step, prompt, files, storeName, hypothesis } = params;
+
+  if (!ai.startDeepResearchAsync) {
+    throw new Error('AI adapter does not support async Deep Research');
+  }
+
+  const base = {
+    step,
+    prompt,
+    files,
+    model: getDeepResearchModel(deps),
+    hypothesisUuid: hypothesis?.uuid,
+    hypothesisNumber: hypothesis?.hypothesisNumber,
+    timestamp: new Date(),
+  };
+
+  try {
+    const handle = await ai.startDeepResearchAsync({ prompt, files, storeName });
+    await recordDebugPrompt(deps, runId, buildDebugPromptEntry({ ...base, interactionId: handle.interactionId }));
+    return handle;
+  } catch (error) {
+    await recordDebugPrompt(deps, runId, buildDebugPromptEntry({
+      ...base,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    throw error;
+  }
+}
+
+/**
+ * Record the Deep Research result length on its prompt record
+ */
+async function recordDeepResearchResponse(
+  deps: StepExecutorDependencies,
+  runId: number,
+  target: { hypothesisUuid?: string; interactionId: string },
+  result: string
+): Promise<void> {
+  const { db, logger = defaultLogger } = deps;
+  if (!db.setDebugPromptResponseLength) return;
+
+  try {
+    await db.setDebugPromptResponseLength(runId, target, result.length);
+  } catch (error) {
+    logger.warn(`Failed to record Deep Research response length: ${error}`);
+  }
+}
+
 /**
  * Categorize hypotheses by their processing state
  */
@@ -175,6 +577,128 @@ function categorizeHypotheses(hypotheses: HypothesisData[]) {
   return { pending, polling, readyForEval, inEvaluation, completed, stuck };
 }
 
+/**
+ * Resolve the prompt snapshot for a run
+ *
+ * The snapshot is taken once (at Step 2-1 start) and reused afterwards,
+ * so all steps of a run use the same prompt versions.
+ */
+async function resolvePromptSnapshot(
+  deps: StepExecutorDependencies,
+  run: ExtendedRunData
+): Promise<PromptSnapshot> {
+  const { db, logger = defaultLogger } = deps;
+
+  if (run.promptSnapshot) {
+    return run.promptSnapshot;
+  }
+
+  const activeVersions = db.getActivePromptVersions
+    ? await db.getActivePromptVersions()
+    : [];
+  const snapshot = buildPromptSnapshot(activeVersions);
+
+  const summary = Object.entries(snapshot.steps)
+    .map(([step, entry]) => `${step}=${entry.source === 'version' ? `v${entry.version}` : 'builtin'}`)
+    .join(', ');
+  logger.log(`Prompt snapshot for run ${run.id}: ${summary}`);
+
+  await db.updateRunStatus(run.id, {
+    promptSnapshot: snapshot,
+    updatedAt: new Date(),
+  });
+
+  return snapshot;
+}
+
+/**
+ * Build the Step 2-1 task instructions from the active step-21 prompt or the built-in document
+ */
+function buildStep2_1Instructions(
+  run: ExtendedRunData,
+  snapshot: PromptSnapshot,
+  existingHypotheses: ExistingHypothesis[],
+  previousHypotheses: ExistingHypothesis[],
+  targetSpecContent: string,
+  technicalAssetsContent: string
+): string {
+  const template = getSnapshotPrompt(snapshot, 21);
+  if (!template) {
+    return buildInstructionDocument(run.hypothesisCount, previousHypotheses.length > 0, existingHypotheses);
+  }
+
+  return formatPrompt(template, {
+    HYPOTHESIS_COUNT: run.hypothesisCount,
+    TARGET_SPEC: targetSpecContent,
+    TECHNICAL_ASSETS: technicalAssetsContent,
+    PREVIOUS_HYPOTHESES: previousHypotheses.length > 0
+      ? buildPreviousHypothesesDocument(previousHypotheses)
+      : '',
+  }) + buildExclusionSection(existingHypotheses);
+}
+
+/**
+ * Convert hypotheses of earlier loops into previous_hypotheses entries
+ */
+function toPreviousHypotheses(hypotheses: HypothesisData[]): ExistingHypothesis[] {
+  return hypotheses.map(h => ({
+    title: h.displayTitle || '',
+    summary: h.step2_1Summary || '',
+  }));
+}
+
+/**
+ * Step 2-1 output of a loop
+ * Runs from before outputs were kept per loop fall back to the latest output.
+ */
+function getStep2_1Output(run: ExtendedRunData, loopNumber = 1): string | null {
+  return run.step2_1Outputs?.[String(loopNumber)] ?? run.step2_1Output ?? null;
+}
+
+/**
+ * Build the Step 2-2 Deep Research request
+ *
+ * The prompt is the snapshotted step-22 version or STEP2_2_PROMPT. Files follow the
+ * step-22 attachment settings, except that the Step 2-1 output is always sent as
+ * hypothesis_context: STEP2_2_PROMPT stops without the handoff JSON it holds.
+ * Throws when the loop has no Step 2-1 output (the hypothesis is marked as error).
+ */
+function buildStep2_2Request(
+  run: ExtendedRunData,
+  hypothesis: HypothesisData,
+  targetSpecContent: string,
+  technicalAssetsContent: string,
+  attachmentSettings: StepAttachmentSettings
+): { prompt: string; files: StepInputFile[]; inputs: StepInputRecord } {
+  const template = getSnapshotPrompt(run.promptSnapshot, 22) || STEP2_2_PROMPT;
+  const step2_1Output = getStep2_1Output(run, hypothesis.loopNumber);
+  const prompt = formatPrompt(template, {
+    HYPOTHESIS_COUNT: 1,
+    HYPOTHESIS_TITLE: hypothesis.displayTitle || '',
+    HYPOTHESIS_SUMMARY: hypothesis.step2_1Summary || '',
+    TARGET_SPEC: targetSpecContent,
+    TECHNICAL_ASSETS: technicalAssetsContent,
+    STEP21_OUTPUT: step2_1Output || '',
+  });
+
+  if (!step2_1Output) {
+    throw new Error(`ループ${hypothesis.loopNumber ?? 1}の Step 2-1 出力がないため Step 2-2 を開始できません`);
+  }
+
+  const { fileIds } = resolveAttachedFileIds(22, attachmentSettings);
+  const { files, missing } = buildStepInputFiles(
+    fileIds.includes('step21_output') ? fileIds : [...fileIds, 'step21_output'],
+    {
+      targetSpec: targetSpecContent,
+      technicalAssets: technicalAssetsContent,
+      step2_1Output,
+    },
+    hypothesis.hypothesisNumber
+  );
+
+  return { prompt, files, inputs: buildStepInputRecord('file_search', files, missing) };
+}
+
 /**
  * Determine the next phase to execute based on current state
  *
@@ -183,13 +707,18 @@ function categorizeHypotheses(hypotheses: HypothesisData[]) {
  * - Start new Deep Researches up to MAX_CONCURRENT limit
  * - Evaluate any hypothesis that completed step2_2
  *
+ * For multi-loop runs, only hypotheses of the current loop are considered,
+ * and finishing a loop that is not the last one yields 'next_loop'.
+ *
  * @param progressInfo - Contains Deep Research handles for async operations
+ * @param loop - Loop position of the run (defaults to a single-loop run)
  */
 export function getNextPhase(
   status: string,
   currentStep: number,
-  hypotheses: HypothesisData[],
-  progressInfo?: ExtendedProgressInfo | null
+  allHypotheses: HypothesisData[],
+  progressInfo?: ExtendedProgressInfo | null,
+  loop: LoopState = { currentLoop: 1, loopCount: 1 }
 ): PipelinePhase | null {
   // Terminal states
   if (status === 'completed') return null;
@@ -211,8 +740,15 @@ export function getNextPhase(
     return 'step2_1_start';
   }
 
+  const hypotheses = getLoopHypotheses(allHypotheses, loop.currentLoop);
+
   // Running states
   if (status === 'running') {
+    // A new loop has been started, run Step 2-1 again
+    if (currentStep === 0 && hypotheses.length === 0) {
+      return 'step2_1_start';
+    }
+
     // Step 2-1 complete, need to structure hypotheses
     if (currentStep === 1 && hypotheses.length === 0) {
       return 'step2_1_5';
@@ -241,7 +777,7 @@ export function getNextPhase(
 
     // Check if all hypotheses are done
     if (hypotheses.length > 0 && completed.length === hypotheses.length) {
-      return 'completed';
+      return loop.currentLoop < loop.loopCount ? 'next_loop' : 'completed';
     }
 
     // If something is still in evaluation, keep going
@@ -250,31 +786,193 @@ export function getNextPhase(
     }
   }
 
-  return null;
+  return null;
+}
+
+/**
+ * Stop an interaction: cancel it remotely when the adapter can, then release
+ * its slot and File Search store (failures are only logged)
+ */
+async function abandonDeepResearch(deps: StepExecutorDependencies, handle: DeepResearchHandle): Promise<void> {
+  const { ai, logger = defaultLogger } = deps;
+
+  if (ai.cancelDeepResearch) {
+    try {
+      await ai.cancelDeepResearch(handle);
+    } catch (error) {
+      logger.warn(`Failed to cancel Deep Research ${handle.interactionId}: ${getErrorMessage(error)}`);
+    }
+  }
+  if (ai.cleanupDeepResearch) {
+    try {
+      await ai.cleanupDeepResearch(handle);
+    } catch (error) {
+      logger.warn(`Failed to clean up Deep Research ${handle.interactionId}: ${getErrorMessage(error)}`);
+    }
+  }
+}
+
+/**
+ * Abandon an interaction whose handle was saved while the run was being stopped
+ *
+ * The stop route marks the run cancelled before cancelling the handles it
+ * finds, so re-reading the status after saving a handle catches the ones it
+ * missed. Returns whether the run was stopped.
+ */
+async function abandonIfRunStopped(
+  deps: StepExecutorDependencies,
+  runId: number,
+  handle: DeepResearchHandle
+): Promise<boolean> {
+  const { db, logger = defaultLogger } = deps;
+  const run = await db.getRun(runId) as ExtendedRunData | null;
+  if (run?.status !== 'cancelled') return false;
+
+  logger.warn(`Run ${runId} was stopped while Deep Research ${handle.interactionId} started, cancelling it`);
+  await abandonDeepResearch(deps, handle);
+  return true;
+}
+
+/**
+ * Stop the run's Step 2-1 interaction if it ran past its wall time, and
+ * restart Step 2-1 (or mark the run as error after the last restart)
+ */
+async function stopTimedOutStep2_1(
+  deps: StepExecutorDependencies,
+  run: ExtendedRunData,
+  timing: TimingRecorder,
+  handle: DeepResearchHandle
+): Promise<TimedOutInteraction | null> {
+  const { db, logger = defaultLogger } = deps;
+  const config = getDeepResearchTimeoutConfig();
+  const progressInfo = run.progressInfo as ExtendedProgressInfo;
+
+  const overtime = getDeepResearchOvertime('step2_1', progressInfo.deepResearchStartedAt, new Date(), config);
+  if (!overtime) return null;
+
+  const restarts = progressInfo.deepResearchRestarts ?? 0;
+  const action = restarts < config.maxRestarts ? 'restarted' : 'failed';
+  logger.warn(
+    `Step 2-1: Deep Research ${handle.interactionId} of run ${run.id} timed out after ${Math.round(overtime.elapsedMs / 1000)}s (${action})`
+  );
+  recordDeepResearchTiming(timing, 'step2_1', progressInfo.deepResearchStartedAt, 'error', {
+    loop: getLoopState(run).currentLoop,
+    error: 'timeout',
+  });
+  await abandonDeepResearch(deps, handle);
+
+  if (action === 'restarted') {
+    // currentStep 0 without hypotheses of this loop makes getNextPhase start Step 2-1 again
+    await db.updateRunStatus(run.id, {
+      currentStep: 0,
+      progressInfo: {
+        ...persistentProgressInfo(run),
+        message: `Step 2-1: Deep Research が制限時間を超えたため再起動します（${restarts + 1}/${config.maxRestarts}）`,
+        phase: 'step2_1_start',
+        deepResearchRestarts: restarts + 1,
+      },
+      updatedAt: new Date(),
+    });
+  } else {
+    const message = formatDeepResearchTimeoutMessage('step2_1', config, restarts);
+    await db.updateRunStatus(run.id, {
+      status: 'error',
+      errorMessage: message,
+      progressInfo: { ...persistentProgressInfo(run), message, phase: 'error' },
+      updatedAt: new Date(),
+    });
+  }
+
+  return {
+    runId: run.id,
+    hypothesisUuid: null,
+    step: 'step2_1',
+    interactionId: handle.interactionId,
+    elapsedMs: overtime.elapsedMs,
+    restarts,
+    action,
+  };
+}
+
+/**
+ * Stop a hypothesis' Step 2-2 interaction if it ran past its wall time, and
+ * put the hypothesis back to pending (or mark it as error after the last restart)
+ */
+async function stopTimedOutStep2_2(
+  deps: StepExecutorDependencies,
+  run: ExtendedRunData,
+  timing: TimingRecorder,
+  hypothesis: HypothesisData,
+  handle: DeepResearchHandle
+): Promise<TimedOutInteraction | null> {
+  const { db, logger = defaultLogger } = deps;
+  const config = getDeepResearchTimeoutConfig();
+  const fullData = (hypothesis.fullData || {}) as ExtendedHypothesisFullData;
+
+  const overtime = getDeepResearchOvertime('step2_2', fullData.deepResearchStartedAt, new Date(), config);
+  if (!overtime) return null;
+
+  const restarts = fullData.deepResearchRestarts ?? 0;
+  const action = restarts < config.maxRestarts ? 'restarted' : 'failed';
+  logger.warn(
+    `Step 2-2: Deep Research ${handle.interactionId} of hypothesis ${hypothesis.uuid} timed out after ${Math.round(overtime.elapsedMs / 1000)}s (${action})`
+  );
+  recordDeepResearchTiming(timing, 'step2_2', fullData.deepResearchStartedAt, 'error', {
+    ...hypothesisTimingContext(hypothesis),
+    error: 'timeout',
+  });
+  await abandonDeepResearch(deps, handle);
+
+  if (action === 'restarted') {
+    await db.updateHypothesis(hypothesis.uuid, {
+      processingStatus: 'pending',
+      fullData: { ...fullData, deepResearchHandle: undefined, deepResearchRestarts: restarts + 1 },
+    });
+  } else {
+    await db.updateHypothesis(hypothesis.uuid, {
+      processingStatus: 'error',
+      errorMessage: formatDeepResearchTimeoutMessage('step2_2', config, restarts),
+      fullData: { ...fullData, deepResearchHandle: undefined },
+    });
+  }
+
+  return {
+    runId: run.id,
+    hypothesisUuid: hypothesis.uuid,
+    step: 'step2_2',
+    interactionId: handle.interactionId,
+    elapsedMs: overtime.elapsedMs,
+    restarts,
+    action,
+  };
 }
 
 /**
  * Execute step 2-1 START: Begin Deep Research asynchronously
  * This returns quickly, saving the handle for later polling
+ *
+ * @param earlierLoopHypotheses - Hypotheses from earlier loops, passed as previous_hypotheses
  */
 async function executeStep2_1Start(
   deps: StepExecutorDependencies,
   run: ExtendedRunData,
   targetSpecContent: string,
-  technicalAssetsContent: string
+  technicalAssetsContent: string,
+  earlierLoopHypotheses: HypothesisData[] = []
 ): Promise<void> {
   const { db, ai, logger = defaultLogger } = deps;
+  const { currentLoop } = getLoopState(run);
 
-  logger.log(`Step 2-1 START: Beginning async Deep Research for run ${run.id}`);
+  logger.log(`Step 2-1 START: Beginning async Deep Research for run ${run.id} (loop ${currentLoop})`);
 
   // Check if AI adapter supports async operations
   if (!ai.startDeepResearchAsync) {
     throw new Error('AI adapter does not support async Deep Research');
   }
 
-  // Update status to running
+  // Update status to running (a running run is left as is, so that a stop meanwhile is not undone)
   await db.updateRunStatus(run.id, {
-    status: 'running',
+    ...(run.status !== 'running' && { status: 'running' }),
     currentStep: 1,
     progressInfo: { message: 'Step 2-1: Deep Research を開始しています...', phase: 'step2_1_start' },
     updatedAt: new Date(),
@@ -293,31 +991,72 @@ async function executeStep2_1Start(
     logger.log(`Found ${existingHypotheses.length} existing hypotheses to exclude`);
   }
 
-  const instructions = buildInstructionDocument(run.hypothesisCount, false, existingHypotheses);
+  const previousHypotheses = toPreviousHypotheses(earlierLoopHypotheses);
+  if (previousHypotheses.length > 0) {
+    logger.log(`Passing ${previousHypotheses.length} hypotheses from earlier loops as previous_hypotheses`);
+  }
+
+  const snapshot = await resolvePromptSnapshot(deps, run);
+  const instructions = buildStep2_1Instructions(
+    run,
+    snapshot,
+    existingHypotheses,
+    previousHypotheses,
+    targetSpecContent,
+    technicalAssetsContent
+  );
+
+  const files = [
+    { name: 'target_specification', content: targetSpecContent },
+    { name: 'technical_assets', content: technicalAssetsContent },
+    { name: 'task_instructions', content: instructions },
+  ];
+  if (previousHypotheses.length > 0) {
+    files.push({ name: 'previous_hypotheses', content: buildPreviousHypothesesDocument(previousHypotheses) });
+  }
 
   // Start Deep Research asynchronously (returns immediately)
-  const handle = await ai.startDeepResearchAsync({
-    prompt: 'task_instructionsの指示に従い、事業仮説を生成してください。',
-    files: [
-      { name: 'target_specification', content: targetSpecContent },
-      { name: 'technical_assets', content: technicalAssetsContent },
-      { name: 'task_instructions', content: instructions },
-    ],
-    storeName: `asip-run-${run.id}-step2_1`,
-  });
+  let handle: DeepResearchHandle;
+  try {
+    handle = await startDeepResearchWithDebugPrompt(deps, run.id, {
+      step: 'step2_1',
+      prompt: 'task_instructionsの指示に従い、事業仮説を生成してください。',
+      files,
+      storeName: currentLoop > 1
+        ? `asip-run-${run.id}-step2_1-loop${currentLoop}`
+        : `asip-run-${run.id}-step2_1`,
+    });
+  } catch (error) {
+    // currentStep 0 without hypotheses makes getNextPhase start Step 2-1 again when the job is retried
+    if (error instanceof RateLimitError) {
+      await db.updateRunStatus(run.id, {
+        currentStep: 0,
+        progressInfo: { ...run.progressInfo, message: 'Step 2-1: Deep Research の空き枠を待っています...', phase: 'step2_1_start' },
+        updatedAt: new Date(),
+      });
+    }
+    throw error;
+  }
 
   logger.log(`Step 2-1 START complete. Interaction ID: ${handle.interactionId}`);
 
   // Save the handle in progressInfo for polling
-  await db.updateRunStatus(run.id, {
-    progressInfo: {
-      message: 'Step 2-1: Deep Research 実行中...',
-      phase: 'step2_1_polling',
-      deepResearchHandle: handle,
-      existingFilter: existingFilter,
-    },
-    updatedAt: new Date(),
-  });
+  const progressInfo: ExtendedProgressInfo = {
+    message: 'Step 2-1: Deep Research 実行中...',
+    phase: 'step2_1_polling',
+    deepResearchHandle: handle,
+    deepResearchStartedAt: new Date().toISOString(),
+    existingFilter: existingFilter,
+    deepResearchRestarts: (run.progressInfo as ExtendedProgressInfo)?.deepResearchRestarts,
+  };
+  await db.updateRunStatus(run.id, { progressInfo, updatedAt: new Date() });
+
+  if (await abandonIfRunStopped(deps, run.id, handle)) {
+    await db.updateRunStatus(run.id, {
+      progressInfo: { ...progressInfo, deepResearchHandle: undefined },
+      updatedAt: new Date(),
+    });
+  }
 }
 
 /**
@@ -325,9 +1064,11 @@ async function executeStep2_1Start(
  */
 async function executeStep2_1Polling(
   deps: StepExecutorDependencies,
-  run: ExtendedRunData
-): Promise<{ completed: boolean }> {
+  run: ExtendedRunData,
+  timing: TimingRecorder
+): Promise<{ completed: boolean; timedOut?: TimedOutInteraction }> {
   const { db, ai, logger = defaultLogger } = deps;
+  const { currentLoop } = getLoopState(run);
 
   const progressInfo = run.progressInfo as ExtendedProgressInfo;
   const handle = progressInfo?.deepResearchHandle;
@@ -342,12 +1083,23 @@ async function executeStep2_1Polling(
 
   logger.log(`Step 2-1 POLLING: Checking status for ${handle.interactionId}`);
 
-  const status = await ai.checkDeepResearchStatus(handle);
+  let status: DeepResearchStatus;
+  try {
+    status = await ai.checkDeepResearchStatus(handle);
+  } catch (error) {
+    // A failing status check is retried, unless the interaction is past its wall time
+    const timedOut = await stopTimedOutStep2_1(deps, run, timing, handle);
+    if (timedOut) return { completed: false, timedOut };
+    throw error;
+  }
 
   logger.log(`Step 2-1 POLLING: Status = ${status.status}`);
 
   if (status.status === 'completed') {
     logger.log(`Step 2-1 POLLING: Deep Research completed! Output length: ${status.result?.length || 0}`);
+    recordDeepResearchTiming(timing, 'step2_1', progressInfo.deepResearchStartedAt, 'success', { loop: currentLoop });
+    await recordDeepResearchResponse(deps, run.id, { interactionId: handle.interactionId }, status.result || '');
+    await recordDeepResearchUsage(deps, run.id, 'step2_1', { interactionId: handle.interactionId }, status);
 
     // Cleanup resources
     if (ai.cleanupDeepResearch) {
@@ -358,6 +1110,7 @@ async function executeStep2_1Polling(
     await db.updateRunStatus(run.id, {
       currentStep: 1,
       step2_1Output: status.result || '',
+      step2_1Outputs: { ...run.step2_1Outputs, [currentLoop]: status.result || '' },
       progressInfo: {
         message: 'Step 2-1 完了',
         phase: 'step2_1',
@@ -370,6 +1123,12 @@ async function executeStep2_1Polling(
   }
 
   if (status.status === 'failed') {
+    recordDeepResearchTiming(timing, 'step2_1', progressInfo.deepResearchStartedAt, 'error', {
+      loop: currentLoop,
+      error: status.error,
+    });
+    await recordDeepResearchUsage(deps, run.id, 'step2_1', { interactionId: handle.interactionId }, status);
+
     // Cleanup resources
     if (ai.cleanupDeepResearch) {
       await ai.cleanupDeepResearch(handle);
@@ -378,6 +1137,10 @@ async function executeStep2_1Polling(
     throw new Error(`Deep Research failed: ${status.error}`);
   }
 
+  // Still running past the wall time - stop and restart
+  const timedOut = await stopTimedOutStep2_1(deps, run, timing, handle);
+  if (timedOut) return { completed: false, timedOut };
+
   // Still running - update progress and return
   await db.updateRunStatus(run.id, {
     progressInfo: {
@@ -424,15 +1187,27 @@ async function executeStep2_1(
     logger.log(`Found ${existingHypotheses.length} existing hypotheses to exclude`);
   }
 
-  const instructions = buildInstructionDocument(run.hypothesisCount, false, existingHypotheses);
+  const snapshot = await resolvePromptSnapshot(deps, run);
+  const instructions = buildStep2_1Instructions(
+    run,
+    snapshot,
+    existingHypotheses,
+    [],
+    targetSpecContent,
+    technicalAssetsContent
+  );
+
+  const prompt = 'task_instructionsの指示に従い、事業仮説を生成してください。';
+  const files = [
+    { name: 'target_specification', content: targetSpecContent },
+    { name: 'technical_assets', content: technicalAssetsContent },
+    { name: 'task_instructions', content: instructions },
+  ];
+  const startedAt = new Date();
 
   const step2_1Output = await ai.executeDeepResearch({
-    prompt: 'task_instructionsの指示に従い、事業仮説を生成してください。',
-    files: [
-      { name: 'target_specification', content: targetSpecContent },
-      { name: 'technical_assets', content: technicalAssetsContent },
-      { name: 'task_instructions', content: instructions },
-    ],
+    prompt,
+    files,
     storeName: `asip-run-${run.id}-step2_1`,
     onProgress: async (phase, detail) => {
       logger.log(`Step 2-1 progress: ${phase} - ${detail}`);
@@ -444,10 +1219,19 @@ async function executeStep2_1(
   });
 
   logger.log(`Step 2-1 completed. Output length: ${step2_1Output.length}`);
+  await recordDebugPrompt(deps, run.id, buildDebugPromptEntry({
+    step: 'step2_1',
+    prompt,
+    files,
+    model: getDeepResearchModel(deps),
+    response: step2_1Output,
+    timestamp: startedAt,
+  }));
 
   await db.updateRunStatus(run.id, {
     currentStep: 1,
     step2_1Output: step2_1Output,
+    step2_1Outputs: { ...run.step2_1Outputs, [getLoopState(run).currentLoop]: step2_1Output },
     progressInfo: { message: 'Step 2-1 完了', phase: 'step2_1' },
     updatedAt: new Date(),
   });
@@ -455,54 +1239,56 @@ async function executeStep2_1(
 
 /**
  * Execute step 2-1.5: Structure hypotheses using AI
+ *
+ * @param existingCount - Hypotheses already in the run (earlier loops), numbering continues after them
  */
 async function executeStep2_1_5(
   deps: StepExecutorDependencies,
-  run: ExtendedRunData
+  run: ExtendedRunData,
+  existingCount = 0
 ): Promise<void> {
-  const { db, ai, logger = defaultLogger } = deps;
+  const { db, logger = defaultLogger } = deps;
+  const { currentLoop } = getLoopState(run);
 
-  logger.log(`Step 2-1.5: Structuring hypotheses for run ${run.id}`);
+  logger.log(`Step 2-1.5: Structuring hypotheses for run ${run.id} (loop ${currentLoop})`);
 
   await db.updateRunStatus(run.id, {
-    progressInfo: { message: 'Step 2-1.5: AIで仮説を構造化しています...', phase: 'step2_1_5' },
+    progressInfo: {
+      ...persistentProgressInfo(run),
+      message: 'Step 2-1.5: AIで仮説を構造化しています...',
+      phase: 'step2_1_5',
+    },
     updatedAt: new Date(),
   });
 
   const step2_1Output = run.step2_1Output || '';
 
-  // Structure hypotheses using AI
-  const structuringPrompt = `以下のDeep Researchレポートから、最も有望な事業仮説を${run.hypothesisCount}件抽出し、JSON形式で出力してください。
-
-=== Deep Research レポート ===
-${step2_1Output.slice(0, 50000)}
-
-=== 出力形式 ===
-以下のJSON形式で出力してください。JSONのみを出力し、他のテキストは含めないでください。
-
-{
-  "hypotheses": [
+  // Structure hypotheses using AI (active step-211 prompt or built-in)
+  const structuringTemplate = getSnapshotPrompt(run.promptSnapshot, 211) || STEP2_1_5_PROMPT;
+  const structuringPrompt = renderStepPrompt(
+    structuringTemplate,
     {
-      "title": "仮説のタイトル（50文字以内）",
-      "summary": "仮説の概要説明（500文字程度）"
-    }
-  ]
-}
-
-=== 重要な条件 ===
-1. 必ず${run.hypothesisCount}件の仮説を抽出すること
-2. タイトルは具体的で分かりやすいものにすること
-3. 概要には市場機会、技術の活用方法を含めること
-4. 重複や類似した仮説は統合すること`;
+      HYPOTHESIS_COUNT: run.hypothesisCount,
+      STEP21_OUTPUT: step2_1Output.slice(0, 50000),
+    },
+    `=== Deep Research レポート ===\n${step2_1Output.slice(0, 50000)}`
+  ) + '\n\n' + STEP2_1_5_OUTPUT_FORMAT;
 
   let parsedHypotheses: Array<{ title: string; summary: string }> = [];
+  const structuringModel = resolveStepModel(run.modelChoice, 'step2_1_5');
+  let structuredWithModel: string | null = null;
 
   try {
-    const response = await ai.generateContent({ prompt: structuringPrompt });
+    const { response, model } = await generateWithDebugPrompt(deps, run.id, {
+      step: 'step2_1_5',
+      prompt: structuringPrompt,
+      model: structuringModel,
+    });
     const parsed = extractJsonFromResponse(response, isHypothesesResponse);
 
     if (parsed) {
       parsedHypotheses = validateAndCleanHypotheses(parsed.hypotheses);
+      structuredWithModel = parsedHypotheses.length > 0 ? model : null;
     }
   } catch (error) {
     logger.warn(`AI structuring failed: ${error}`);
@@ -532,20 +1318,24 @@ ${step2_1Output.slice(0, 50000)}
       uuid,
       projectId: run.projectId,
       runId: run.id,
-      hypothesisNumber: i + 1,
-      indexInRun: i,
+      hypothesisNumber: existingCount + i + 1,
+      indexInRun: existingCount + i,
+      loopNumber: currentLoop,
       displayTitle: h.title,
       step2_1Summary: h.summary,
       processingStatus: 'pending',
-      fullData: { raw: h },
+      fullData: structuredWithModel
+        ? withStepModel({ raw: h }, 'step2_1_5', structuredWithModel)
+        : { raw: h },
     });
 
-    logger.log(`Created hypothesis ${i + 1}: ${h.title}`);
+    logger.log(`Created hypothesis ${existingCount + i + 1}: ${h.title}`);
   }
 
   await db.updateRunStatus(run.id, {
     currentStep: 2,
     progressInfo: {
+      ...persistentProgressInfo(run),
       message: `Step 2-1.5 完了: ${parsedHypotheses.length}件の仮説を作成`,
       phase: 'step2_1_5',
       totalHypotheses: parsedHypotheses.length,
@@ -557,27 +1347,33 @@ ${step2_1Output.slice(0, 50000)}
 /**
  * Execute step 2-2 START: Begin hypothesis Deep Research asynchronously
  * Now supports starting MULTIPLE hypotheses in parallel
+ *
+ * @param budgetSlots - Deep Research calls that fit in the run's budget (null: no cap)
  */
 async function executeStep2_2Start(
   deps: StepExecutorDependencies,
   run: ExtendedRunData,
+  timing: TimingRecorder,
   hypotheses: HypothesisData[],
   targetSpecContent: string,
-  technicalAssetsContent: string
-): Promise<{ started: number }> {
+  technicalAssetsContent: string,
+  budgetSlots: number | null = null
+): Promise<{ started: number; retryAt?: string }> {
   const { db, ai, logger = defaultLogger } = deps;
 
   if (!ai.startDeepResearchAsync) {
     throw new Error('AI adapter does not support async Deep Research');
   }
 
+  const attachmentSettings = await loadAttachmentSettings(deps);
+
   // Categorize to find hypotheses to start
   const { pending, polling, stuck } = categorizeHypotheses(hypotheses);
   const inFlightCount = polling.length;
-  const availableSlots = MAX_CONCURRENT_HYPOTHESIS_RESEARCH - inFlightCount;
+  const availableSlots = Math.min(MAX_CONCURRENT_HYPOTHESIS_RESEARCH - inFlightCount, budgetSlots ?? Infinity);
 
   if (availableSlots <= 0) {
-    logger.log(`Step 2-2 START: No slots available (${inFlightCount} in flight)`);
+    logger.log(`Step 2-2 START: No slots available (${inFlightCount} in flight${budgetSlots !== null ? `, ${budgetSlots} within the budget` : ''})`);
     return { started: 0 };
   }
 
@@ -587,55 +1383,62 @@ async function executeStep2_2Start(
   logger.log(`Step 2-2 START: Starting ${toStart.length} hypotheses (${inFlightCount} already in flight)`);
 
   let startedCount = 0;
+  let retryAt: string | undefined;
 
   for (const hypothesis of toStart) {
     try {
       logger.log(`Step 2-2 START for hypothesis ${hypothesis.uuid} (${hypothesis.displayTitle})`);
 
-      const hypothesisContext = `
-=== 仮説情報 ===
-タイトル: ${hypothesis.displayTitle || ''}
-UUID: ${hypothesis.uuid}
-仮説番号: ${hypothesis.hypothesisNumber}
-
-=== 仮説概要 (Step 2-1より) ===
-${hypothesis.step2_1Summary || ''}
-`;
-
-      const taskInstructions = `この仮説について詳細な調査を行い、以下の観点から深掘りしたレポートを作成してください：
-
-1. 市場機会の詳細分析
-2. 技術的実現可能性
-3. ビジネスモデル詳細
-4. 競合優位性の深掘り
-
-調査結果は具体的なデータや事例を含めて記述してください。`;
-
-      const handle = await ai.startDeepResearchAsync({
-        prompt: `hypothesis_contextの仮説について、task_instructionsの指示に従って詳細な調査レポートを作成してください。`,
-        files: [
-          { name: 'target_specification', content: targetSpecContent },
-          { name: 'technical_assets', content: technicalAssetsContent },
-          { name: 'hypothesis_context', content: hypothesisContext },
-          { name: 'task_instructions', content: taskInstructions },
-        ],
-        storeName: `asip-${run.id}-${hypothesis.uuid.slice(0, 8)}`,
-      });
+      const { prompt, files, inputs } = buildStep2_2Request(
+        run,
+        hypothesis,
+        targetSpecContent,
+        technicalAssetsContent,
+        attachmentSettings
+      );
+
+      const handle = await timing.time(
+        'step2_2_start',
+        () => startDeepResearchWithDebugPrompt(deps, run.id, {
+          step: 'step2_2',
+          prompt,
+          files,
+          storeName: `asip-${run.id}-${hypothesis.uuid.slice(0, 8)}`,
+          hypothesis,
+        }),
+        hypothesisTimingContext(hypothesis)
+      );
 
       logger.log(`Step 2-2 START complete for ${hypothesis.uuid}. Interaction ID: ${handle.interactionId}`);
 
       // Store handle in hypothesis fullData (not progressInfo)
       const existingFullData = (hypothesis.fullData || {}) as ExtendedHypothesisFullData;
-      await db.updateHypothesis(hypothesis.uuid, {
-        processingStatus: 'step2_2',
-        fullData: {
-          ...existingFullData,
-          deepResearchHandle: handle,
-        },
-      });
+      const fullData: ExtendedHypothesisFullData = {
+        ...withStepModel(existingFullData, 'step2_2', getDeepResearchModel(deps)),
+        stepInputs: { ...existingFullData.stepInputs, step2_2: inputs },
+        deepResearchHandle: handle,
+        deepResearchStartedAt: new Date().toISOString(),
+      };
+      await db.updateHypothesis(hypothesis.uuid, { processingStatus: 'step2_2', fullData });
+
+      // A stopped run starts no more hypotheses (and its progress is left as the stop wrote it)
+      if (await abandonIfRunStopped(deps, run.id, handle)) {
+        await db.updateHypothesis(hypothesis.uuid, {
+          processingStatus: 'error',
+          errorMessage: STOPPED_BY_USER_MESSAGE,
+          fullData: { ...fullData, deepResearchHandle: undefined },
+        });
+        return { started: startedCount };
+      }
 
       startedCount++;
     } catch (error) {
+      // A full rate limiter is not the hypothesis' failure: it stays pending and the start is retried later
+      if (error instanceof RateLimitError) {
+        logger.warn(`Step 2-2 START: No Deep Research slot for ${hypothesis.uuid}, retrying later: ${error.message}`);
+        retryAt = getSlotRetryAt(error);
+        break;
+      }
       logger.error(`Failed to start Deep Research for hypothesis ${hypothesis.uuid}:`, error);
       // Mark this hypothesis as error but continue with others
       await db.updateHypothesis(hypothesis.uuid, {
@@ -657,7 +1460,7 @@ ${hypothesis.step2_1Summary || ''}
     updatedAt: new Date(),
   });
 
-  return { started: startedCount };
+  return { started: startedCount, ...(retryAt && { retryAt }) };
 }
 
 /**
@@ -667,8 +1470,9 @@ ${hypothesis.step2_1Summary || ''}
 async function executeStep2_2Polling(
   deps: StepExecutorDependencies,
   run: ExtendedRunData,
+  timing: TimingRecorder,
   hypotheses: HypothesisData[]
-): Promise<{ completed: number; stillRunning: number }> {
+): Promise<{ completed: number; stillRunning: number; timedOut: TimedOutInteraction[] }> {
   const { db, ai, logger = defaultLogger } = deps;
 
   if (!ai.checkDeepResearchStatus) {
@@ -682,6 +1486,17 @@ async function executeStep2_2Polling(
 
   let completedCount = 0;
   let stillRunningCount = 0;
+  const timedOut: TimedOutInteraction[] = [];
+
+  // Interactions past their wall time (still running, or unreachable) are stopped and restarted
+  const stopIfTimedOut = async (hypothesis: HypothesisData, handle: DeepResearchHandle) => {
+    const stopped = await stopTimedOutStep2_2(deps, run, timing, hypothesis, handle);
+    if (stopped) {
+      timedOut.push(stopped);
+    } else {
+      stillRunningCount++;
+    }
+  };
 
   // Poll each hypothesis
   for (const hypothesis of polling) {
@@ -697,6 +1512,27 @@ async function executeStep2_2Polling(
 
       if (status.status === 'completed') {
         logger.log(`Step 2-2 POLLING: ${hypothesis.uuid} completed! Output length: ${status.result?.length || 0}`);
+        const existingFullData = (hypothesis.fullData || {}) as ExtendedHypothesisFullData;
+        recordDeepResearchTiming(
+          timing,
+          'step2_2',
+          existingFullData.deepResearchStartedAt,
+          'success',
+          hypothesisTimingContext(hypothesis)
+        );
+        await recordDeepResearchResponse(
+          deps,
+          run.id,
+          { hypothesisUuid: hypothesis.uuid, interactionId: handle.interactionId },
+          status.result || ''
+        );
+        await recordDeepResearchUsage(
+          deps,
+          run.id,
+          'step2_2',
+          { hypothesisUuid: hypothesis.uuid, interactionId: handle.interactionId },
+          status
+        );
 
         // Cleanup resources
         if (ai.cleanupDeepResearch) {
@@ -704,7 +1540,6 @@ async function executeStep2_2Polling(
         }
 
         // Save result and clear handle
-        const existingFullData = (hypothesis.fullData || {}) as ExtendedHypothesisFullData;
         await db.updateHypothesis(hypothesis.uuid, {
           step2_2Output: status.result || '',
           fullData: {
@@ -716,6 +1551,18 @@ async function executeStep2_2Polling(
         completedCount++;
       } else if (status.status === 'failed') {
         logger.error(`Step 2-2 POLLING: ${hypothesis.uuid} failed: ${status.error}`);
+        const existingFullData = (hypothesis.fullData || {}) as ExtendedHypothesisFullData;
+        recordDeepResearchTiming(timing, 'step2_2', existingFullData.deepResearchStartedAt, 'error', {
+          ...hypothesisTimingContext(hypothesis),
+          error: status.error,
+        });
+        await recordDeepResearchUsage(
+          deps,
+          run.id,
+          'step2_2',
+          { hypothesisUuid: hypothesis.uuid, interactionId: handle.interactionId },
+          status
+        );
 
         // Cleanup resources
         if (ai.cleanupDeepResearch) {
@@ -723,7 +1570,6 @@ async function executeStep2_2Polling(
         }
 
         // Mark as error and clear handle
-        const existingFullData = (hypothesis.fullData || {}) as ExtendedHypothesisFullData;
         await db.updateHypothesis(hypothesis.uuid, {
           processingStatus: 'error',
           errorMessage: status.error || 'Deep Research failed',
@@ -736,12 +1582,12 @@ async function executeStep2_2Polling(
         completedCount++; // Count as "done" for progress
       } else {
         // Still running
-        stillRunningCount++;
+        await stopIfTimedOut(hypothesis, handle);
       }
     } catch (error) {
       logger.error(`Step 2-2 POLLING: Error polling ${hypothesis.uuid}:`, error);
       // Don't fail the whole batch, just log and continue
-      stillRunningCount++;
+      await stopIfTimedOut(hypothesis, handle);
     }
   }
 
@@ -760,7 +1606,7 @@ async function executeStep2_2Polling(
     updatedAt: new Date(),
   });
 
-  return { completed: completedCount, stillRunning: stillRunningCount };
+  return { completed: completedCount, stillRunning: stillRunningCount, timedOut };
 }
 
 /**
@@ -858,6 +1704,7 @@ async function executeStep2_2PollingSingle(
 async function executeStep2_2ForOne(
   deps: StepExecutorDependencies,
   run: ExtendedRunData,
+  timing: TimingRecorder,
   hypothesis: HypothesisData,
   targetSpecContent: string,
   technicalAssetsContent: string
@@ -868,41 +1715,48 @@ async function executeStep2_2ForOne(
 
   await db.updateHypothesis(hypothesis.uuid, { processingStatus: 'step2_2' });
 
-  const hypothesisContext = `
-=== 仮説情報 ===
-タイトル: ${hypothesis.displayTitle || ''}
-UUID: ${hypothesis.uuid}
-仮説番号: ${hypothesis.hypothesisNumber}
-
-=== 仮説概要 (Step 2-1より) ===
-${hypothesis.step2_1Summary || ''}
-`;
-
-  const taskInstructions = `この仮説について詳細な調査を行い、以下の観点から深掘りしたレポートを作成してください：
-
-1. 市場機会の詳細分析
-2. 技術的実現可能性
-3. ビジネスモデル詳細
-4. 競合優位性の深掘り
-
-調査結果は具体的なデータや事例を含めて記述してください。`;
-
-  const step2_2Output = await ai.executeDeepResearch({
-    prompt: `hypothesis_contextの仮説について、task_instructionsの指示に従って詳細な調査レポートを作成してください。`,
-    files: [
-      { name: 'target_specification', content: targetSpecContent },
-      { name: 'technical_assets', content: technicalAssetsContent },
-      { name: 'hypothesis_context', content: hypothesisContext },
-      { name: 'task_instructions', content: taskInstructions },
-    ],
-    storeName: `asip-${run.id}-${hypothesis.uuid.slice(0, 8)}`,
-    onProgress: (phase, detail) => {
-      logger.log(`Step 2-2 [${hypothesis.hypothesisNumber}] ${phase}: ${detail}`);
+  const { prompt, files, inputs } = buildStep2_2Request(
+    run,
+    hypothesis,
+    targetSpecContent,
+    technicalAssetsContent,
+    await loadAttachmentSettings(deps)
+  );
+  const startedAt = new Date();
+
+  const step2_2Output = await timing.time(
+    'step2_2',
+    () => ai.executeDeepResearch({
+      prompt,
+      files,
+      storeName: `asip-${run.id}-${hypothesis.uuid.slice(0, 8)}`,
+      onProgress: (phase, detail) => {
+        logger.log(`Step 2-2 [${hypothesis.hypothesisNumber}] ${phase}: ${detail}`);
+      },
+    }),
+    hypothesisTimingContext(hypothesis)
+  );
+
+  await recordDebugPrompt(deps, run.id, buildDebugPromptEntry({
+    step: 'step2_2',
+    prompt,
+    files,
+    model: getDeepResearchModel(deps),
+    hypothesisUuid: hypothesis.uuid,
+    hypothesisNumber: hypothesis.hypothesisNumber,
+    response: step2_2Output,
+    timestamp: startedAt,
+  }));
+
+  const existingFullData = (hypothesis.fullData || {}) as ExtendedHypothesisFullData;
+  await db.updateHypothesis(hypothesis.uuid, {
+    step2_2Output,
+    fullData: {
+      ...withStepModel(existingFullData, 'step2_2', getDeepResearchModel(deps)),
+      stepInputs: { ...existingFullData.stepInputs, step2_2: inputs },
     },
   });
 
-  await db.updateHypothesis(hypothesis.uuid, { step2_2Output });
-
   await db.updateRunStatus(run.id, {
     progressInfo: {
       message: `Step 2-2: 仮説 ${hypothesis.hypothesisNumber} の調査完了`,
@@ -914,62 +1768,213 @@ ${hypothesis.step2_1Summary || ''}
   logger.log(`Step 2-2 completed for hypothesis ${hypothesis.uuid}`);
 }
 
+/**
+ * Prepare the inputs of an evaluation step from the attachment settings
+ * File Search is used only for steps with a saved attachment list when the adapter supports it.
+ */
+function prepareEvaluationInputs(
+  deps: StepExecutorDependencies,
+  step: EvaluationStepNumber,
+  settings: StepAttachmentSettings,
+  sources: StepInputSources,
+  hypothesis: HypothesisData
+): { files: StepInputFile[]; record: StepInputRecord } {
+  const { fileIds, configured } = resolveAttachedFileIds(step, settings);
+  const { files, missing } = buildStepInputFiles(fileIds, sources, hypothesis.hypothesisNumber);
+  const mode = configured && files.length > 0 && deps.ai.generateContentWithFiles ? 'file_search' : 'inline';
+
+  return { files, record: buildStepInputRecord(mode, files, missing) };
+}
+
+/**
+ * Build the context block for an evaluation step: hypothesis header plus inline files,
+ * or just the file names when they are read via File Search
+ */
+function buildEvaluationContext(
+  hypothesis: HypothesisData,
+  files: StepInputFile[],
+  record: StepInputRecord
+): string {
+  const header = `=== 仮説情報 ===
+タイトル: ${hypothesis.displayTitle || ''}
+UUID: ${hypothesis.uuid}
+
+=== 仮説概要 (Step 2-1) ===
+${hypothesis.step2_1Summary || ''}`;
+
+  if (record.mode === 'file_search') {
+    return `${header}\n\n=== 添付ファイル（File Searchで参照） ===\n${files.map(f => `- ${f.name}`).join('\n')}`;
+  }
+  return files.length > 0 ? `${header}\n\n${formatInlineInputs(files)}` : header;
+}
+
 /**
  * Execute steps 3-5: Evaluation for a single hypothesis
+ * With singleStep, only the next unfinished step runs (with its format repairs);
+ * returns whether the evaluation completed.
  */
 async function executeEvaluationForOne(
   deps: StepExecutorDependencies,
   run: ExtendedRunData,
+  timing: TimingRecorder,
   hypothesis: HypothesisData,
   targetSpecContent: string,
-  technicalAssetsContent: string
-): Promise<void> {
-  const { db, ai, logger = defaultLogger } = deps;
+  technicalAssetsContent: string,
+  attachmentSettings: StepAttachmentSettings = {},
+  options: { singleStep?: boolean } = {}
+): Promise<boolean> {
+  const { db, logger = defaultLogger } = deps;
 
   logger.log(`Steps 3-5 for hypothesis ${hypothesis.uuid}`);
 
-  const context = buildHypothesisContext({
-    displayTitle: hypothesis.displayTitle,
-    uuid: hypothesis.uuid,
-    step2_1Summary: hypothesis.step2_1Summary,
+  const sources: StepInputSources = {
+    targetSpec: targetSpecContent,
+    technicalAssets: technicalAssetsContent,
+    step2_1Output: getStep2_1Output(run, hypothesis.loopNumber),
     step2_2Output: hypothesis.step2_2Output,
-    targetSpecContent,
-    technicalAssetsContent,
-  });
+  };
+  const promptVariables = {
+    HYPOTHESIS_COUNT: 1,
+    HYPOTHESIS_TITLE: hypothesis.displayTitle || '',
+    HYPOTHESIS_SUMMARY: hypothesis.step2_1Summary || '',
+    TARGET_SPEC: targetSpecContent,
+    TECHNICAL_ASSETS: technicalAssetsContent,
+    STEP22_OUTPUT: hypothesis.step2_2Output || '',
+  };
+  let fullData = (hypothesis.fullData || {}) as ExtendedHypothesisFullData;
+  let formatViolations = hypothesis.formatViolations || [];
+  const timingContext = hypothesisTimingContext(hypothesis);
+  const { maxAttempts } = getFormatRepairConfig();
+
+  const runStep = async (
+    step: EvaluationStepNumber,
+    template: string,
+    variables: Record<string, string | number>
+  ): Promise<string> => {
+    const stepKey = `step${step}` as const;
+    const { files, record } = prepareEvaluationInputs(deps, step, attachmentSettings, sources, hypothesis);
+    if (record.missing) {
+      logger.warn(`Step ${step} for hypothesis ${hypothesis.uuid}: missing inputs ${record.missing.join(', ')}`);
+    }
 
-  // Step 3: Technical Evaluation
-  logger.log(`Step 3 for hypothesis ${hypothesis.uuid}`);
-  await db.updateHypothesis(hypothesis.uuid, { processingStatus: 'step3' });
+    const prompt = renderStepPrompt(template, variables, buildEvaluationContext(hypothesis, files, record));
+    const model = resolveStepModel(run.modelChoice, stepKey);
+    // Scores are requested as structured output; File Search generation answers in text only
+    const responseSchema = step !== 5 && record.mode !== 'file_search' ? evaluationResponseSchema(step) : undefined;
+    const { response: output, model: usedModel } = await timing.time(
+      stepKey,
+      () => generateWithDebugPrompt(deps, run.id, {
+        step: stepKey,
+        prompt,
+        model,
+        hypothesis,
+        files,
+        ...(record.mode === 'file_search' && {
+          storeName: `asip-${run.id}-${hypothesis.uuid.slice(0, 8)}-${stepKey}`,
+        }),
+        responseSchema,
+      }),
+      timingContext
+    );
 
-  const step3Prompt = formatPrompt(STEP3_PROMPT, { HYPOTHESIS_COUNT: 1 }) + '\n\n' + context;
-  const step3Output = await ai.generateContent({ prompt: step3Prompt });
-  await db.updateHypothesis(hypothesis.uuid, { step3Output });
+    fullData = {
+      ...withStepModel(fullData, stepKey, usedModel),
+      stepInputs: { ...fullData.stepInputs, [stepKey]: record },
+    };
+    return output;
+  };
 
-  // Step 4: Competitive Analysis
-  logger.log(`Step 4 for hypothesis ${hypothesis.uuid}`);
-  await db.updateHypothesis(hypothesis.uuid, { processingStatus: 'step4' });
+  // Outputs that do not parse get repair prompts; the original stays in fullData.formatRepairs
+  const repairFormat = async (step: RepairableStep, output: string): Promise<string> => {
+    const model = resolveStepModel(run.modelChoice, step);
+    const result = await repairOutputFormat(
+      { step, output, maxAttempts },
+      async prompt => (await generateWithDebugPrompt(deps, run.id, { step: `${step}_repair`, prompt, model, hypothesis })).response
+    );
+    if (result.repair) {
+      fullData = { ...fullData, formatRepairs: { ...fullData.formatRepairs, [step]: result.repair } };
+      logger.warn(
+        `${step} output of hypothesis ${hypothesis.uuid} did not parse; ` +
+        (result.errors.length > 0
+          ? `still failing after ${result.repair.attempts} repair attempt(s): ${result.errors.join(' / ')}`
+          : `repaired after ${result.repair.attempts} attempt(s)`)
+      );
+    }
+    formatViolations = updateFormatViolations(formatViolations, step, result.errors.length > 0);
+    return result.output;
+  };
+
+  // Scores come from the structured response, or from the (repaired) report text
+  const scoreEvaluation = async (step: ScoreStep, response: string) => {
+    const scored = scoreEvaluationResponse(step, response);
+    if (scored.record.source === 'structured') {
+      formatViolations = updateFormatViolations(formatViolations, `step${step}`, false);
+      return scored;
+    }
+    const output = await repairFormat(`step${step}`, scored.output);
+    return output === scored.output ? scored : { output, record: buildScoreRecord(step, output) };
+  };
+
+  // Outputs kept by a rerun (see hypothesis-rerun.ts) are reused instead of regenerated
+
+  // Step 3: Technical Evaluation
+  let step3Output = hypothesis.step3Output;
+  if (!step3Output) {
+    logger.log(`Step 3 for hypothesis ${hypothesis.uuid}`);
+    await db.updateHypothesis(hypothesis.uuid, { processingStatus: 'step3' });
+
+    const scored = await scoreEvaluation(3, await runStep(
+      3,
+      getSnapshotPrompt(run.promptSnapshot, 3) || STEP3_PROMPT,
+      promptVariables
+    ));
+    step3Output = scored.output;
+    await db.updateHypothesis(hypothesis.uuid, { step3Output, fullData, formatViolations });
+    await recordHypothesisScores(deps, run.id, hypothesis, scored.record);
+    if (options.singleStep) return false;
+  }
+  sources.step3Output = step3Output;
 
-  const step4Prompt = formatPrompt(STEP4_PROMPT, { HYPOTHESIS_COUNT: 1 }) + '\n\n' + context +
-    `\n\n=== Step 3 技術評価結果 ===\n${step3Output}`;
-  const step4Output = await ai.generateContent({ prompt: step4Prompt });
-  await db.updateHypothesis(hypothesis.uuid, { step4Output });
+  // Step 4: Competitive Analysis
+  let step4Output = hypothesis.step4Output;
+  if (!step4Output) {
+    logger.log(`Step 4 for hypothesis ${hypothesis.uuid}`);
+    await db.updateHypothesis(hypothesis.uuid, { processingStatus: 'step4' });
+
+    const scored = await scoreEvaluation(4, await runStep(
+      4,
+      getSnapshotPrompt(run.promptSnapshot, 4) || STEP4_PROMPT,
+      { ...promptVariables, STEP3_OUTPUT: step3Output }
+    ));
+    step4Output = scored.output;
+    await db.updateHypothesis(hypothesis.uuid, { step4Output, fullData, formatViolations });
+    await recordHypothesisScores(deps, run.id, hypothesis, scored.record);
+    if (options.singleStep) return false;
+  }
+  sources.step4Output = step4Output;
 
   // Step 5: Integration
   logger.log(`Step 5 for hypothesis ${hypothesis.uuid}`);
   await db.updateHypothesis(hypothesis.uuid, { processingStatus: 'step5' });
 
-  const step5Prompt = formatPrompt(STEP5_PROMPT, { HYPOTHESIS_COUNT: 1 }) + '\n\n' + context +
-    `\n\n=== Step 3 技術評価 ===\n${step3Output}` +
-    `\n\n=== Step 4 競合分析 ===\n${step4Output}`;
-  const step5Output = await ai.generateContent({ prompt: step5Prompt });
+  const step5Output = await repairFormat('step5', await runStep(
+    5,
+    getSnapshotPrompt(run.promptSnapshot, 5) || STEP5_PROMPT,
+    { ...promptVariables, STEP3_OUTPUT: step3Output, STEP4_OUTPUT: step4Output }
+  ));
 
+  // A pending retry ends with the evaluation
+  const { retry: _retry, ...completedFullData } = fullData;
   await db.updateHypothesis(hypothesis.uuid, {
     step5Output,
+    fullData: completedFullData,
+    formatViolations,
     processingStatus: 'completed',
   });
 
   await db.updateRunStatus(run.id, {
     progressInfo: {
+      ...persistentProgressInfo(run),
       message: `Step 3-5: 仮説 ${hypothesis.hypothesisNumber} の評価完了`,
       phase: 'evaluation',
     },
@@ -977,6 +1982,90 @@ async function executeEvaluationForOne(
   });
 
   logger.log(`Evaluation completed for hypothesis ${hypothesis.uuid}`);
+  return true;
+}
+
+/**
+ * Record a failed evaluation: schedule a retry (fullData.retry, the hypothesis
+ * stays in its step) or mark the hypothesis as error
+ */
+async function recordEvaluationFailure(
+  deps: StepExecutorDependencies,
+  hypothesisUuid: string,
+  error: unknown
+): Promise<HypothesisEvaluationResult> {
+  const { db, logger = defaultLogger } = deps;
+  const now = new Date();
+
+  // Re-read: the failed attempt may have saved outputs and step records
+  const latest = await db.getHypothesis(hypothesisUuid);
+  const { retry: previous, ...fullData } = (latest?.fullData || {}) as ExtendedHypothesisFullData;
+  const decision = planRetry(getHypothesisRetryState({ retry: previous }), error, now, latest?.processingStatus);
+
+  if (decision.retry) {
+    const { state } = decision;
+    logger.warn(
+      `Evaluation of hypothesis ${hypothesisUuid} failed (retry ${state.attempt}/${state.maxAttempts} at ${state.nextRetryAt}): ${state.lastError}`
+    );
+    await db.updateHypothesis(hypothesisUuid, { fullData: { ...fullData, retry: state } });
+    return { status: 'retry', retryAt: new Date(state.nextRetryAt), error: state.lastError };
+  }
+
+  logger.error(`Evaluation failed for hypothesis ${hypothesisUuid} (${decision.reason}):`, error);
+  await db.updateHypothesis(hypothesisUuid, {
+    processingStatus: 'error',
+    errorMessage: decision.message,
+    fullData,
+  });
+  return { status: 'failed', error: decision.message };
+}
+
+/**
+ * Whether a hypothesis waits for a retry that is not due yet
+ */
+function isWaitingForRetry(h: HypothesisData, now: Date = new Date()): boolean {
+  const retry = getHypothesisRetryState(h.fullData);
+  return retry !== null && getRetryWaitMs(retry, now) > 0;
+}
+
+/**
+ * Append an invocation's timings to the run (atomic append when the adapter supports it)
+ */
+async function saveTiming(
+  deps: StepExecutorDependencies,
+  runId: number,
+  existingTiming: ExecutionTiming | null | undefined,
+  timing: TimingRecorder
+): Promise<void> {
+  const { db, logger = defaultLogger } = deps;
+  if (timing.entries.length === 0) return;
+
+  try {
+    if (db.appendExecutionTiming) {
+      await db.appendExecutionTiming(runId, timing.entries);
+    } else {
+      await db.updateRunStatus(runId, {
+        executionTiming: appendTimingEntries(existingTiming, timing.entries),
+      });
+    }
+  } catch (dbError) {
+    logger.error(`Failed to save execution timing:`, dbError);
+  }
+}
+
+/**
+ * Load the Settings page attachment lists (an unreadable table falls back to the defaults)
+ */
+async function loadAttachmentSettings(deps: StepExecutorDependencies): Promise<StepAttachmentSettings> {
+  const { db, logger = defaultLogger } = deps;
+  if (!db.getStepAttachmentSettings) return {};
+
+  try {
+    return await db.getStepAttachmentSettings();
+  } catch (error) {
+    logger.warn(`Failed to load step attachment settings, using defaults: ${error}`);
+    return {};
+  }
 }
 
 /**
@@ -985,23 +2074,26 @@ async function executeEvaluationForOne(
 async function executeEvaluationParallel(
   deps: StepExecutorDependencies,
   run: ExtendedRunData,
+  timing: TimingRecorder,
   hypotheses: HypothesisData[],
   targetSpecContent: string,
   technicalAssetsContent: string
 ): Promise<{ completed: number; inProgress: number }> {
   const { db, logger = defaultLogger } = deps;
 
-  // Find hypotheses ready for evaluation (step2_2 with output, not yet started)
+  // Find hypotheses ready for evaluation (step2_2 with output, not yet started, or with a retry due)
+  const isEvaluating = (h: HypothesisData) =>
+    h.processingStatus === 'step3' ||
+    h.processingStatus === 'step4' ||
+    h.processingStatus === 'step5';
+  const isRetryDue = (h: HypothesisData) =>
+    isEvaluating(h) && getHypothesisRetryState(h.fullData) !== null && !isWaitingForRetry(h);
   const readyForEval = hypotheses.filter(
-    h => h.processingStatus === 'step2_2' && h.step2_2Output
+    h => (h.processingStatus === 'step2_2' && h.step2_2Output) || isRetryDue(h)
   );
 
   // Find hypotheses currently in evaluation
-  const inEvaluation = hypotheses.filter(
-    h => h.processingStatus === 'step3' ||
-         h.processingStatus === 'step4' ||
-         h.processingStatus === 'step5'
-  );
+  const inEvaluation = hypotheses.filter(h => isEvaluating(h) && !isRetryDue(h));
 
   // Find completed hypotheses
   const completed = hypotheses.filter(h => h.processingStatus === 'completed');
@@ -1016,10 +2108,12 @@ async function executeEvaluationParallel(
 
   if (canStart > 0) {
     const toStart = readyForEval.slice(0, canStart);
+    const attachmentSettings = await loadAttachmentSettings(deps);
 
     // Update progress info
     await db.updateRunStatus(run.id, {
       progressInfo: {
+        ...persistentProgressInfo(run),
         message: `Step 3-5: ${currentInProgress + canStart}件評価中, ${completed.length}件完了`,
         phase: 'evaluation',
         inFlightCount: currentInProgress + canStart,
@@ -1031,14 +2125,9 @@ async function executeEvaluationParallel(
     // Run evaluations in parallel
     await Promise.all(
       toStart.map(h =>
-        executeEvaluationForOne(deps, run, h, targetSpecContent, technicalAssetsContent)
-          .catch(error => {
-            logger.error(`Evaluation failed for hypothesis ${h.uuid}:`, error);
-            // Mark as error but don't throw
-            return db.updateHypothesis(h.uuid, {
-              processingStatus: 'error' as HypothesisProcessingStatus,
-            });
-          })
+        executeEvaluationForOne(deps, run, timing, h, targetSpecContent, technicalAssetsContent, attachmentSettings)
+          // Schedule a retry or mark as error, but don't throw
+          .catch(error => recordEvaluationFailure(deps, h.uuid, error))
       )
     );
   }
@@ -1060,10 +2149,25 @@ async function executeEvaluationParallel(
  * Returns whether there are more steps to execute.
  */
 export async function executeNextStep(
-  deps: StepExecutorDependencies,
-  runId: number
+  baseDeps: StepExecutorDependencies,
+  runId: number,
+  options: ExecuteStepOptions = {}
 ): Promise<StepExecutionResult> {
+  let deps = baseDeps;
   const { db, logger = defaultLogger } = deps;
+  const timing = createTimingRecorder();
+  let existingTiming: ExecutionTiming | null | undefined;
+
+  // Take the run lease before reading any state (a failure here leaves the run untouched)
+  const leaseOwner = deps.leaseOwner ?? createLeaseOwner('executor');
+  if (db.acquireRunLease) {
+    const result = await db.acquireRunLease(runId, leaseOwner, RUN_LEASE_TTL_MS);
+    if (!result.acquired) {
+      const holder = result.lease ? ` by ${result.lease.owner} (until ${result.lease.expiresAt})` : '';
+      logger.log(`Run ${runId} is already being processed${holder}`);
+      return { phase: 'busy', hasMore: false, error: 'Run is already being processed', lease: result.lease };
+    }
+  }
 
   try {
     // Get run and validate
@@ -1071,6 +2175,8 @@ export async function executeNextStep(
     if (!run) {
       return { phase: 'error', hasMore: false, error: `Run ${runId} not found` };
     }
+    existingTiming = run.executionTiming;
+    deps = withRunAI(deps, run);
 
     // Check terminal states
     if (run.status === 'completed') {
@@ -1100,12 +2206,14 @@ export async function executeNextStep(
       return { phase: 'error', hasMore: false, error: 'リソースが見つかりません' };
     }
 
-    // Get hypotheses
-    const hypotheses = await db.getHypothesesForRun(runId);
+    // Get hypotheses (phases only work on the current loop)
+    const allHypotheses = await db.getHypothesesForRun(runId);
+    const loop = getLoopState(run);
+    const hypotheses = getLoopHypotheses(allHypotheses, loop.currentLoop);
 
     // Determine next phase (pass progressInfo for async state detection)
     const progressInfo = run.progressInfo as ExtendedProgressInfo;
-    const phase = getNextPhase(run.status, run.currentStep || 0, hypotheses, progressInfo);
+    const phase = getNextPhase(run.status, run.currentStep || 0, allHypotheses, progressInfo, loop);
 
     if (!phase) {
       return { phase: 'completed', hasMore: false };
@@ -1118,22 +2226,58 @@ export async function executeNextStep(
       // ===== ASYNC PHASES (for serverless) =====
 
       case 'step2_1_start':
-        // Start Deep Research asynchronously
-        await executeStep2_1Start(deps, run, targetSpec.content, technicalAssets.content);
+        // Start Deep Research asynchronously (earlier loops become previous_hypotheses)
+        try {
+          await timing.time(
+            'step2_1_start',
+            () => executeStep2_1Start(
+              deps,
+              run,
+              targetSpec.content,
+              technicalAssets.content,
+              allHypotheses.filter(h => (h.loopNumber ?? 1) < loop.currentLoop)
+            ),
+            { loop: loop.currentLoop }
+          );
+        } catch (error) {
+          if (!(error instanceof RateLimitError)) throw error;
+          logger.warn(`Step 2-1 START: No Deep Research slot for run ${runId}, retrying later: ${error.message}`);
+          return { phase, hasMore: true, retryAt: getSlotRetryAt(error) };
+        }
         return { phase, hasMore: true };
 
       case 'step2_1_polling': {
         // Poll for Deep Research completion
-        const result = await executeStep2_1Polling(deps, run);
+        const result = await executeStep2_1Polling(deps, run, timing);
+        if (result.timedOut) {
+          return { phase, hasMore: result.timedOut.action === 'restarted', timedOut: [result.timedOut] };
+        }
         // hasMore is true whether complete or not - we continue either way
         return { phase, hasMore: true };
       }
 
       case 'step2_2_start': {
-        // Start hypothesis Deep Research asynchronously (parallel)
-        const result = await executeStep2_2Start(deps, run, hypotheses, targetSpec.content, technicalAssets.content);
+        const budget = await checkDeepResearchBudget(deps, run, {
+          running: categorizeHypotheses(hypotheses).polling.length,
+          resourceChars: targetSpec.content.length + technicalAssets.content.length,
+        });
+        if (budget.paused) {
+          return { phase, hasMore: false, budgetExceeded: true };
+        }
+
+        // Start hypothesis Deep Research asynchronously (parallel, as many as fit in the budget)
+        const result = await executeStep2_2Start(
+          deps,
+          run,
+          timing,
+          hypotheses,
+          targetSpec.content,
+          technicalAssets.content,
+          budget.startable
+        );
         logger.log(`Step 2-2 START: Started ${result.started} hypotheses`);
-        return { phase, hasMore: true };
+        // Nothing started for want of a slot: run this phase again later instead of right away
+        return { phase, hasMore: true, ...(result.started === 0 && result.retryAt && { retryAt: result.retryAt }) };
       }
 
       case 'step2_2_polling': {
@@ -1146,26 +2290,34 @@ export async function executeNextStep(
         }
 
         // Parallel mode: poll all hypotheses with handles
-        const result = await executeStep2_2Polling(deps, run, hypotheses);
-        logger.log(`Step 2-2 POLLING: ${result.completed} completed, ${result.stillRunning} still running`);
-        return { phase, hasMore: true };
+        const result = await executeStep2_2Polling(deps, run, timing, hypotheses);
+        logger.log(`Step 2-2 POLLING: ${result.completed} completed, ${result.stillRunning} still running, ${result.timedOut.length} timed out`);
+        return { phase, hasMore: true, ...(result.timedOut.length > 0 && { timedOut: result.timedOut }) };
       }
 
       // ===== LEGACY BLOCKING PHASES (for tests) =====
 
       case 'step2_1':
-        await executeStep2_1(deps, run, targetSpec.content, technicalAssets.content);
+        await timing.time(
+          'step2_1',
+          () => executeStep2_1(deps, run, targetSpec.content, technicalAssets.content),
+          { loop: loop.currentLoop }
+        );
         return { phase, hasMore: true };
 
       case 'step2_1_5':
-        await executeStep2_1_5(deps, run);
+        await timing.time(
+          'step2_1_5',
+          () => executeStep2_1_5(deps, run, allHypotheses.length),
+          { loop: loop.currentLoop }
+        );
         return { phase, hasMore: true };
 
       case 'step2_2': {
         // Find next hypothesis to process (blocking)
         const pendingHypothesis = hypotheses.find(h => h.processingStatus === 'pending');
         if (pendingHypothesis) {
-          await executeStep2_2ForOne(deps, run, pendingHypothesis, targetSpec.content, technicalAssets.content);
+          await executeStep2_2ForOne(deps, run, timing, pendingHypothesis, targetSpec.content, technicalAssets.content);
           return { phase, hasMore: true };
         }
         return { phase, hasMore: true };
@@ -1174,17 +2326,27 @@ export async function executeNextStep(
       // ===== COMMON PHASES =====
 
       case 'evaluation': {
+        // Queue workers evaluate each hypothesis in its own job (and check the budget there)
+        if (options.deferEvaluation) {
+          return { phase, hasMore: true };
+        }
+
+        if (await pauseIfOverBudget(deps, run)) {
+          return { phase, hasMore: false, budgetExceeded: true };
+        }
+
         // Execute evaluations in parallel (up to MAX_CONCURRENT_EVALUATION)
         await executeEvaluationParallel(
           deps,
           run,
+          timing,
           hypotheses,
           targetSpec.content,
           technicalAssets.content
         );
 
         // Re-fetch hypotheses to check current state
-        const updatedHypotheses = await db.getHypothesesForRun(runId);
+        const updatedHypotheses = getLoopHypotheses(await db.getHypothesesForRun(runId), loop.currentLoop);
         const allCompleted = updatedHypotheses.every(
           h => h.processingStatus === 'completed' || h.processingStatus === 'error'
         );
@@ -1195,13 +2357,40 @@ export async function executeNextStep(
                h.processingStatus === 'step5'
         );
 
-        return { phase, hasMore: !allCompleted && anyRemaining };
+        // A finished loop still has more work if another loop follows
+        const hasNextLoop = allCompleted && loop.currentLoop < loop.loopCount;
+
+        return { phase, hasMore: (!allCompleted && anyRemaining) || hasNextLoop };
+      }
+
+      case 'next_loop': {
+        const nextLoop = loop.currentLoop + 1;
+        await db.updateRunStatus(runId, {
+          currentLoop: nextLoop,
+          currentStep: 0,
+          progressInfo: {
+            ...persistentProgressInfo(run),
+            message: `ループ ${nextLoop}/${loop.loopCount} を開始します`,
+            phase: 'next_loop',
+          },
+          updatedAt: new Date(),
+        });
+        logger.log(`Run ${runId} finished loop ${loop.currentLoop}, starting loop ${nextLoop}/${loop.loopCount}`);
+        return { phase, hasMore: true };
       }
 
       case 'completed': {
+        // Assemble every hypothesis' Step 5 row (all loops) into the integrated list
+        const integratedList = buildIntegratedList(allHypotheses);
+        const unparsed = integratedList.rows.filter(row => row.errors.length > 0).length;
+        if (unparsed > 0) {
+          logger.warn(`Run ${runId}: ${unparsed}/${integratedList.rows.length} Step 5 rows have parse errors`);
+        }
+
         await db.updateRunStatus(runId, {
           status: 'completed',
           currentStep: 5,
+          integratedList,
           completedAt: new Date(),
           progressInfo: { message: '完了しました', phase: 'completed' },
           updatedAt: new Date(),
@@ -1217,6 +2406,10 @@ export async function executeNextStep(
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error(`Error executing step for run ${runId}:`, error);
 
+    if (options.rethrowErrors) {
+      throw error;
+    }
+
     try {
       await db.updateRunStatus(runId, {
         status: 'error',
@@ -1228,5 +2421,124 @@ export async function executeNextStep(
     }
 
     return { phase: 'error', hasMore: false, error: errorMessage };
+  } finally {
+    // Append this invocation's timings in one write (also on errors)
+    await saveTiming(deps, runId, existingTiming, timing);
+
+    // An unreleased lease expires, so a failure here only delays the next invocation
+    if (db.releaseRunLease) {
+      try {
+        await db.releaseRunLease(runId, leaseOwner);
+      } catch (dbError) {
+        logger.error(`Failed to release run lease:`, dbError);
+      }
+    }
+  }
+}
+
+/**
+ * Inspect a run without executing anything (used to plan queue jobs)
+ */
+export async function getRunWork(
+  deps: Pick<StepExecutorDependencies, 'db'>,
+  runId: number
+): Promise<RunWork> {
+  const { db } = deps;
+
+  const run = await db.getRun(runId) as ExtendedRunData | null;
+  if (!run) {
+    return { status: null, phase: null, evaluationTargets: [] };
+  }
+
+  const allHypotheses = await db.getHypothesesForRun(runId);
+  const loop = getLoopState(run);
+  const phase = getNextPhase(
+    run.status,
+    run.currentStep || 0,
+    allHypotheses,
+    run.progressInfo as ExtendedProgressInfo,
+    loop
+  );
+  if (!phase) {
+    return { status: run.status, phase: null, evaluationTargets: [] };
+  }
+
+  // Interrupted evaluations first, then new ones up to MAX_CONCURRENT_EVALUATION
+  const { readyForEval, inEvaluation } = categorizeHypotheses(getLoopHypotheses(allHypotheses, loop.currentLoop));
+  const evaluationTargets = [...inEvaluation, ...readyForEval]
+    .slice(0, Math.max(MAX_CONCURRENT_EVALUATION, inEvaluation.length))
+    .map(h => h.uuid);
+
+  return { status: run.status, phase, evaluationTargets };
+}
+
+/**
+ * Execute the next of Steps 3-5 for one hypothesis (a queue job)
+ *
+ * Each job runs one step with its format repairs, so a job fits in a
+ * serverless function's time limit; the hypothesis stays in Steps 3-5 and
+ * its next job runs the following step (finished steps are skipped, which
+ * also resumes a step interrupted with its job). Evaluation failures are classified by the retry policy
+ * (retry-policy.ts); other errors (e.g. missing resources) are thrown so the
+ * job can be retried.
+ */
+export async function executeHypothesisEvaluation(
+  baseDeps: StepExecutorDependencies,
+  runId: number,
+  hypothesisUuid: string
+): Promise<HypothesisEvaluationResult> {
+  const { db, logger = defaultLogger } = baseDeps;
+
+  const run = await db.getRun(runId) as ExtendedRunData | null;
+  if (!run || run.status !== 'running') {
+    return { status: 'skipped' };
+  }
+  const deps = withRunAI(baseDeps, run);
+
+  const hypothesis = await db.getHypothesis(hypothesisUuid);
+  const evaluable = hypothesis && (
+    (hypothesis.processingStatus === 'step2_2' && hypothesis.step2_2Output) ||
+    (hypothesis.processingStatus && ['step3', 'step4', 'step5'].includes(hypothesis.processingStatus))
+  );
+  if (!hypothesis || !evaluable) {
+    logger.log(`Hypothesis ${hypothesisUuid} has nothing to evaluate (status: ${hypothesis?.processingStatus})`);
+    return { status: 'skipped' };
+  }
+
+  // A job enqueued again before the backoff ended waits for it
+  const retry = getHypothesisRetryState(hypothesis.fullData);
+  if (retry && isWaitingForRetry(hypothesis)) {
+    return { status: 'retry', retryAt: new Date(retry.nextRetryAt), error: retry.lastError };
+  }
+
+  // Only new evaluations are held back by the budget; a started one finishes
+  if (hypothesis.processingStatus === 'step2_2' && await pauseIfOverBudget(deps, run)) {
+    return { status: 'skipped' };
+  }
+
+  const targetSpec = run.targetSpecId ? await db.getResource(run.targetSpecId) : null;
+  const technicalAssets = run.technicalAssetsId ? await db.getResource(run.technicalAssetsId) : null;
+  if (!targetSpec || !technicalAssets) {
+    throw new Error('リソースが見つかりません');
+  }
+
+  const timing = createTimingRecorder();
+  try {
+    const attachmentSettings = await loadAttachmentSettings(deps);
+    const completed = await executeEvaluationForOne(
+      deps,
+      run,
+      timing,
+      hypothesis,
+      targetSpec.content,
+      technicalAssets.content,
+      attachmentSettings,
+      { singleStep: true }
+    );
+    return { status: completed ? 'completed' : 'continued' };
+  } catch (error) {
+    return await recordEvaluationFailure(deps, hypothesisUuid, error);
+  } finally {
+    await saveTiming(deps, runId, run.executionTiming, timing);
   }
 }
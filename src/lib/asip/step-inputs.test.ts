@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveAttachedFileIds,
+  buildStepInputFiles,
+  formatInlineInputs,
+  buildStepInputRecord,
+} from './step-inputs';
+
+const sources = {
+  targetSpec: 'spec',
+  technicalAssets: '{"assets":[]}',
+  step2_2Output: 'report',
+  step3Output: '評価',
+  step4Output: null,
+};
+
+describe('step-inputs', () => {
+  it('uses every available file when the step has no saved list', () => {
+    expect(resolveAttachedFileIds(5, {})).toEqual({
+      fileIds: ['step22_output', 'step3_output', 'step4_output'],
+      configured: false,
+    });
+  });
+
+  it('uses the saved list and drops ids not available for the step', () => {
+    expect(resolveAttachedFileIds(3, { 3: ['step22_output', 'step4_output'] })).toEqual({
+      fileIds: ['step22_output'],
+      configured: true,
+    });
+    expect(resolveAttachedFileIds(4, { 4: [] })).toEqual({ fileIds: [], configured: true });
+    expect(resolveAttachedFileIds(22, { 22: ['step21_output'] }).fileIds).toEqual(['step21_output']);
+  });
+
+  it('names files like the prompts and reports missing content', () => {
+    const { files, missing } = buildStepInputFiles(
+      ['technical_assets', 'step22_output', 'step3_output', 'step4_output'],
+      sources,
+      7
+    );
+
+    expect(files.map(f => f.name)).toEqual(['technical_assets.json', 'step2_2_report_7.txt', 'step3_eval_7.txt']);
+    expect(missing).toEqual(['step4_eval_7.txt']);
+    expect(formatInlineInputs(files.slice(1, 2))).toBe('=== step2_2_report_7.txt ===\nreport');
+  });
+
+  it('records names and byte sizes without content', () => {
+    const { files, missing } = buildStepInputFiles(['step3_output', 'step4_output'], sources, 1);
+
+    expect(buildStepInputRecord('file_search', files, missing)).toEqual({
+      mode: 'file_search',
+      files: [{ id: 'step3_output', name: 'step3_eval_1.txt', size: 6 }],
+      missing: ['step4_eval_1.txt'],
+    });
+    expect(buildStepInputRecord('inline', [])).toEqual({ mode: 'inline', files: [] });
+  });
+});
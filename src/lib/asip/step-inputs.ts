@@ -0,0 +1,138 @@
+/**
+ * Step Inputs - files handed to Step 2-2 and the evaluation steps (3/4/5)
+ *
+ * The files come from the Settings page attachment list (step_file_attachments).
+ * Steps without a saved list get every file available to them, which is what
+ * the built-in prompts expect. Step 2-2 always reads its files via Deep Research
+ * File Search; evaluation steps use File Search when the step has a saved list
+ * and the AI adapter supports it, and get the files inlined otherwise.
+ * What each step received is kept in fullData.stepInputs.
+ */
+
+import { AVAILABLE_FILES_BY_STEP, type StepNumber } from '@/lib/prompts/defaults';
+
+export type EvaluationStepNumber = 3 | 4 | 5;
+
+/**
+ * Saved attachment lists by step number (steps without a saved row are absent)
+ */
+export type StepAttachmentSettings = Partial<Record<number, string[]>>;
+
+/**
+ * Content available for a hypothesis when its evaluation steps run
+ */
+export interface StepInputSources {
+  targetSpec: string;
+  technicalAssets: string;
+  step2_1Output?: string | null;
+  step2_2Output?: string | null;
+  step3Output?: string | null;
+  step4Output?: string | null;
+}
+
+export interface StepInputFile {
+  id: string;
+  name: string;
+  content: string;
+}
+
+export type StepInputMode = 'file_search' | 'inline';
+
+/**
+ * Files a step received, recorded per hypothesis in fullData.stepInputs
+ */
+export interface StepInputRecord {
+  mode: StepInputMode;
+  files: Array<{ id: string; name: string; size: number }>;
+  missing?: string[];
+}
+
+export type StepInputs = Partial<Record<'step2_2' | 'step3' | 'step4' | 'step5', StepInputRecord>>;
+
+/**
+ * File names the prompts refer to (i = hypothesis number)
+ */
+const FILE_NAMES: Record<string, (hypothesisNumber: number) => string> = {
+  target_spec: () => 'target_specification.txt',
+  technical_assets: () => 'technical_assets.json',
+  step21_output: () => 'hypothesis_context', // STEP2_2_PROMPT reads the full Step 2-1 output under this name
+  step22_output: n => `step2_2_report_${n}.txt`,
+  step3_output: n => `step3_eval_${n}.txt`,
+  step4_output: n => `step4_eval_${n}.txt`,
+};
+
+const SOURCE_KEYS: Record<string, keyof StepInputSources> = {
+  target_spec: 'targetSpec',
+  technical_assets: 'technicalAssets',
+  step21_output: 'step2_1Output',
+  step22_output: 'step2_2Output',
+  step3_output: 'step3Output',
+  step4_output: 'step4Output',
+};
+
+/**
+ * Resolve the file ids for a step (saved list, or every available file)
+ * Ids that are not available for the step are dropped.
+ */
+export function resolveAttachedFileIds(
+  step: StepNumber,
+  settings: StepAttachmentSettings | null | undefined
+): { fileIds: string[]; configured: boolean } {
+  const available = (AVAILABLE_FILES_BY_STEP[step] || []).map(f => f.id);
+  const saved = settings?.[step];
+
+  if (!saved) {
+    return { fileIds: available, configured: false };
+  }
+  return { fileIds: saved.filter(id => available.includes(id)), configured: true };
+}
+
+/**
+ * Build the input files for a step; files whose content is empty are reported as missing
+ */
+export function buildStepInputFiles(
+  fileIds: string[],
+  sources: StepInputSources,
+  hypothesisNumber: number
+): { files: StepInputFile[]; missing: string[] } {
+  const files: StepInputFile[] = [];
+  const missing: string[] = [];
+
+  for (const id of fileIds) {
+    const nameOf = FILE_NAMES[id];
+    if (!nameOf) continue;
+
+    const name = nameOf(hypothesisNumber);
+    const content = sources[SOURCE_KEYS[id]];
+    if (content) {
+      files.push({ id, name, content });
+    } else {
+      missing.push(name);
+    }
+  }
+
+  return { files, missing };
+}
+
+/**
+ * Inline files into a prompt section
+ */
+export function formatInlineInputs(files: StepInputFile[]): string {
+  return files.map(f => `=== ${f.name} ===\n${f.content}`).join('\n\n');
+}
+
+/**
+ * Record of the files a step received (content is not stored)
+ */
+export function buildStepInputRecord(
+  mode: StepInputMode,
+  files: StepInputFile[],
+  missing: string[] = []
+): StepInputRecord {
+  const encoder = new TextEncoder();
+  return {
+    mode,
+    files: files.map(f => ({ id: f.id, name: f.name, size: encoder.encode(f.content).length })),
+    ...(missing.length > 0 && { missing }),
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_STORE_GC_GRACE_MS,
+  collectOrphanedStores,
+  getStoreGcGraceMs,
+  type FileSearchStoreClient,
+  type FileSearchStoreInfo,
+} from './store-gc';
+
+const NOW = new Date('2026-01-02T00:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+function hoursAgo(hours: number): string {
+  return new Date(NOW.getTime() - hours * HOUR).toISOString();
+}
+
+/**
+ * Fake Gemini store listing: deleteStore removes the store (or fails for the given names)
+ */
+function createFakeStores(initial: FileSearchStoreInfo[], failing: string[] = []) {
+  const stores = [...initial];
+  const client: FileSearchStoreClient = {
+    listStores: vi.fn(async () => [...stores]),
+    deleteStore: vi.fn(async (name: string) => {
+      if (failing.includes(name)) throw new Error('permission denied');
+      stores.splice(stores.findIndex(store => store.name === name), 1);
+    }),
+  };
+  return { client, stores };
+}
+
+function store(id: string, displayName: string, createTime: string | null): FileSearchStoreInfo {
+  return { name: `fileSearchStores/${id}`, displayName, createTime };
+}
+
+describe('store-gc', () => {
+  const logger = { log: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+  it('deletes orphaned asip- stores older than the grace period', async () => {
+    const { client, stores } = createFakeStores([
+      store('live', 'asip-run-1-step2_1', hoursAgo(30)),
+      store('orphan', 'asip-2-abcd1234', hoursAgo(30)),
+      store('recent', 'asip-3-abcd1234', hoursAgo(1)),
+      store('unknown-age', 'asip-4-abcd1234', null),
+      store('other', 'someone-else', hoursAgo(30)),
+    ]);
+
+    const report = await collectOrphanedStores(
+      {
+        stores: client,
+        getLiveStoreNames: async () => new Set(['fileSearchStores/live']),
+        now: () => NOW,
+        logger,
+      },
+      { graceMs: 6 * HOUR }
+    );
+
+    expect(report).toMatchObject({ scanned: 4, live: 1, recent: 2, failed: [], dryRun: false });
+    expect(report.deleted).toEqual([
+      { name: 'fileSearchStores/orphan', displayName: 'asip-2-abcd1234', createTime: hoursAgo(30), ageMs: 30 * HOUR },
+    ]);
+    expect(stores.map(s => s.name)).toEqual([
+      'fileSearchStores/live',
+      'fileSearchStores/recent',
+      'fileSearchStores/unknown-age',
+      'fileSearchStores/other',
+    ]);
+  });
+
+  it('only reports the orphans in a dry run', async () => {
+    const { client, stores } = createFakeStores([store('orphan', 'asip-2-abcd1234', hoursAgo(30))]);
+
+    const report = await collectOrphanedStores(
+      { stores: client, getLiveStoreNames: async () => new Set(), now: () => NOW, logger },
+      { graceMs: 6 * HOUR, dryRun: true }
+    );
+
+    expect(report.deleted).toHaveLength(1);
+    expect(client.deleteStore).not.toHaveBeenCalled();
+    expect(stores).toHaveLength(1);
+  });
+
+  it('reports failed deletions and carries on', async () => {
+    const { client } = createFakeStores(
+      [store('a', 'asip-1-aaaaaaaa', hoursAgo(30)), store('b', 'asip-1-bbbbbbbb', hoursAgo(30))],
+      ['fileSearchStores/a']
+    );
+
+    const report = await collectOrphanedStores(
+      { stores: client, getLiveStoreNames: async () => new Set(), now: () => NOW, logger },
+      { graceMs: 6 * HOUR }
+    );
+
+    expect(report.failed).toEqual([expect.objectContaining({ name: 'fileSearchStores/a', error: 'permission denied' })]);
+    expect(report.deleted.map(s => s.name)).toEqual(['fileSearchStores/b']);
+  });
+
+  it('reads the grace period from the environment', () => {
+    expect(getStoreGcGraceMs({})).toBe(DEFAULT_STORE_GC_GRACE_MS);
+    expect(getStoreGcGraceMs({ FILE_SEARCH_STORE_GC_GRACE_HOURS: '24' })).toBe(24 * HOUR);
+    expect(getStoreGcGraceMs({ FILE_SEARCH_STORE_GC_GRACE_HOURS: 'soon' })).toBe(DEFAULT_STORE_GC_GRACE_MS);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * File Search Store GC - deletes stores left behind by Deep Research
+ *
+ * startDeepResearchAsync creates a store per interaction (asip-run-{id}-step2_1,
+ * asip-{runId}-{uuid8}); polling deletes it when the interaction finishes, but
+ * crashes, cancellations and lost handles leave stores behind. The collector
+ * lists the asip- stores, keeps those referenced by a live handle (Step 2-1
+ * in runs.progressInfo, Step 2-2 in hypotheses.fullData of active runs) or
+ * younger than the grace period, and deletes the rest.
+ */
+
+import { getErrorMessage } from './errors';
+
+// Display name prefix of every store the pipeline creates
+export const STORE_NAME_PREFIX = 'asip-';
+
+// Stores younger than this are kept (a store is created before its handle is saved,
+// and generateContentWithFiles stores live only for one call)
+export const DEFAULT_STORE_GC_GRACE_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * File Search store as listed by Gemini
+ */
+export interface FileSearchStoreInfo {
+  name: string; // Resource name (fileSearchStores/...), as in DeepResearchHandle.fileSearchStoreName
+  displayName: string;
+  createTime: string | null;
+}
+
+/**
+ * Store listing and deletion (Gemini in ai-adapter.ts)
+ */
+export interface FileSearchStoreClient {
+  listStores(): Promise<FileSearchStoreInfo[]>;
+  deleteStore(name: string): Promise<void>;
+}
+
+export interface StoreGcDependencies {
+  stores: FileSearchStoreClient;
+  // Store names referenced by live Deep Research handles
+  getLiveStoreNames(): Promise<Set<string>>;
+  now?: () => Date;
+  logger?: {
+    log: (message: string) => void;
+    error: (message: string, error?: unknown) => void;
+    warn: (message: string) => void;
+  };
+}
+
+export interface StoreGcOptions {
+  graceMs?: number;
+  dryRun?: boolean; // Report the orphans without deleting them
+}
+
+/**
+ * Orphaned store deleted (or found, in a dry run) by the collector
+ */
+export interface CollectedStore extends FileSearchStoreInfo {
+  ageMs: number | null;
+  error?: string; // Set when the deletion failed
+}
+
+/**
+ * Result of one collection
+ */
+export interface StoreGcReport {
+  scanned: number; // asip- stores listed
+  live: number; // Kept: referenced by a live handle
+  recent: number; // Kept: younger than the grace period (or of unknown age)
+  deleted: CollectedStore[];
+  failed: CollectedStore[];
+  dryRun: boolean;
+  graceMs: number;
+}
+
+const defaultLogger = {
+  log: (message: string) => console.log(`[StoreGC] ${message}`),
+  error: (message: string, error?: unknown) => console.error(`[StoreGC] ${message}`, error),
+  warn: (message: string) => console.warn(`[StoreGC] ${message}`),
+};
+
+/**
+ * Grace period from the environment (FILE_SEARCH_STORE_GC_GRACE_HOURS)
+ */
+export function getStoreGcGraceMs(env: Record<string, string | undefined> = process.env): number {
+  const hours = Number(env.FILE_SEARCH_STORE_GC_GRACE_HOURS);
+  return env.FILE_SEARCH_STORE_GC_GRACE_HOURS && Number.isFinite(hours) && hours >= 0
+    ? hours * 60 * 60 * 1000
+    : DEFAULT_STORE_GC_GRACE_MS;
+}
+
+/**
+ * Delete the asip- stores that no live handle references and that are older than the grace period
+ */
+export async function collectOrphanedStores(
+  deps: StoreGcDependencies,
+  options: StoreGcOptions = {}
+): Promise<StoreGcReport> {
+  const { stores, logger = defaultLogger } = deps;
+  const now = (deps.now ?? (() => new Date()))();
+  const graceMs = options.graceMs ?? getStoreGcGraceMs();
+  const dryRun = options.dryRun ?? false;
+
+  // Live handles are read after listing, so a store created in between is at worst counted as recent
+  const listed = (await stores.listStores()).filter(store => store.displayName.startsWith(STORE_NAME_PREFIX));
+  const liveNames = await deps.getLiveStoreNames();
+
+  const report: StoreGcReport = { scanned: listed.length, live: 0, recent: 0, deleted: [], failed: [], dryRun, graceMs };
+
+  for (const store of listed) {
+    if (liveNames.has(store.name)) {
+      report.live++;
+      continue;
+    }
+
+    const created = store.createTime ? Date.parse(store.createTime) : NaN;
+    const ageMs = Number.isNaN(created) ? null : now.getTime() - created;
+    if (ageMs === null || ageMs < graceMs) {
+      report.recent++;
+      continue;
+    }
+
+    if (dryRun) {
+      report.deleted.push({ ...store, ageMs });
+      continue;
+    }
+
+    try {
+      await stores.deleteStore(store.name);
+      report.deleted.push({ ...store, ageMs });
+    } catch (error) {
+      logger.warn(`Failed to delete store ${store.name} (${store.displayName}): ${getErrorMessage(error)}`);
+      report.failed.push({ ...store, ageMs, error: getErrorMessage(error) });
+    }
+  }
+
+  logger.log(
+    `${dryRun ? 'Found' : 'Deleted'} ${report.deleted.length} orphaned stores ` +
+    `(${report.scanned} scanned, ${report.live} live, ${report.recent} recent, ${report.failed.length} failed)`
+  );
+  return report;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { SCORE_AXES } from './hypothesis-scores';
+import { evaluationResponseSchema, parseStructuredEvaluation, scoreEvaluationResponse } from './structured-scores';
+
+const STEP3_REPORT = `
+- 当該テーマの魅力度：中（戦略要修正）
+- 8項目の加重合計（100点満点）：80.0
+- 科学的妥当性（20％）：4
+- 製造実現性（15％）：4
+- 性能優位（20％）：4
+- 粗利率（20％）：4
+- 市場魅力度（10％）：4
+- 規制・安全環境（5％）：4
+- 知財防衛（5％）：4
+- 戦略適合（5％）：4
+`;
+
+function step4Response(overrides: Record<string, unknown> = {}) {
+  return {
+    report: '# Step 4 レポート',
+    axes: SCORE_AXES[4].map(axis => ({ key: axis.key, score: 3, rationale: `${axis.label}の根拠` })),
+    verdict: '中（戦略要修正）',
+    entryProbability: '低',
+    weightedTotal: 60,
+    ...overrides,
+  };
+}
+
+describe('structured-scores', () => {
+  it('asks for every axis of the step, and the entry probability in Step 4 only', () => {
+    const step3 = evaluationResponseSchema(3);
+    expect(step3.properties!.axes.items!.properties!.key.enum).toEqual(SCORE_AXES[3].map(axis => axis.key));
+    expect(step3.required).not.toContain('entryProbability');
+    expect(evaluationResponseSchema(4).required).toContain('entryProbability');
+  });
+
+  it('builds a structured record with rationales from a valid response', () => {
+    const result = parseStructuredEvaluation(4, '```json\n' + JSON.stringify(step4Response()) + '\n```');
+
+    expect(result).toMatchObject({
+      success: true,
+      report: '# Step 4 レポート',
+      record: {
+        step: 4,
+        source: 'structured',
+        verdict: '中（戦略要修正）',
+        entryProbability: '低',
+        weightedTotal: 60,
+        parseErrors: [],
+      },
+    });
+    if (!result.success) return;
+    expect(result.record.axisScores.channelFit).toBe(3);
+    expect(result.record.rationales.channelFit).toBe('チャネル適合の根拠');
+  });
+
+  it('flags a reported total that disagrees with the axes', () => {
+    const result = parseStructuredEvaluation(4, JSON.stringify(step4Response({ weightedTotal: 70 })));
+
+    expect(result.success && result.record.parseErrors[0]).toContain('計算値: 60');
+  });
+
+  it('rejects missing or duplicated axes and out-of-range scores', () => {
+    const axes = step4Response().axes;
+    const duplicated = parseStructuredEvaluation(4, JSON.stringify(step4Response({ axes: [...axes, axes[0]] })));
+    const outOfRange = parseStructuredEvaluation(4, JSON.stringify(step4Response({
+      axes: axes.map(axis => ({ ...axis, score: 6 })),
+    })));
+    const missing = parseStructuredEvaluation(4, JSON.stringify(step4Response({ axes: axes.slice(1) })));
+
+    expect(duplicated).toMatchObject({ success: false, json: true });
+    expect(outOfRange).toMatchObject({ success: false, json: true });
+    expect(missing).toMatchObject({ success: false, error: expect.stringContaining('assetTransferability') });
+  });
+
+  it('falls back to the regex parsers for text answers and invalid structured ones', () => {
+    const text = scoreEvaluationResponse(3, STEP3_REPORT);
+    expect(text.output).toBe(STEP3_REPORT);
+    expect(text.record).toMatchObject({ source: 'regex', weightedTotal: 80, parseErrors: [] });
+
+    const invalid = scoreEvaluationResponse(3, JSON.stringify({ report: STEP3_REPORT, verdict: '高' }));
+    expect(invalid.output).toBe(STEP3_REPORT);
+    expect(invalid.record.source).toBe('regex');
+    expect(invalid.record.weightedTotal).toBe(80);
+    expect(invalid.record.parseErrors[0]).toContain('構造化出力の検証に失敗');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Structured Scores - Step 3 / Step 4 evaluations requested as JSON
+ *
+ * Evaluation calls ask for a response schema holding the human-readable
+ * report plus per-axis scores with rationales, the verdict and the weighted
+ * total. Responses are validated with zod; when the provider ignores the
+ * schema or the response does not validate, the report is scored by the
+ * regex parsers instead (buildScoreRecord).
+ */
+
+import { z } from 'zod';
+import type { ResponseSchema } from './pipeline-core';
+import {
+  SCORE_AXES,
+  buildScoreRecord,
+  buildStructuredScoreRecord,
+  type HypothesisScoreRecord,
+  type ScoreStep,
+} from './hypothesis-scores';
+
+const VERDICTS = ['高', '中（戦略要修正）', '低'] as const;
+const ENTRY_PROBABILITIES = ['高', '中', '低'] as const;
+
+/**
+ * Response schema of a Step 3 / Step 4 evaluation call
+ */
+export function evaluationResponseSchema(step: ScoreStep): ResponseSchema {
+  const axes = SCORE_AXES[step];
+  return {
+    type: 'object',
+    properties: {
+      report: {
+        type: 'string',
+        description: 'プロンプトで指定された出力形式どおりの評価レポート全文（Markdown）',
+      },
+      axes: {
+        type: 'array',
+        description: `各評価軸のスコア（${axes.map(axis => `${axis.key}=${axis.label}`).join('、')}）`,
+        items: {
+          type: 'object',
+          properties: {
+            key: { type: 'string', enum: axes.map(axis => axis.key) },
+            score: { type: 'integer', description: '1〜5の整数' },
+            rationale: { type: 'string', description: 'スコアの根拠' },
+          },
+          required: ['key', 'score', 'rationale'],
+        },
+      },
+      verdict: { type: 'string', enum: [...VERDICTS], description: '魅力度の判定' },
+      ...(step === 4 && {
+        entryProbability: { type: 'string', enum: [...ENTRY_PROBABILITIES], description: 'AGCの参入確率' },
+      }),
+      weightedTotal: { type: 'number', description: '加重合計（100点満点、小数第1位）' },
+    },
+    required: ['report', 'axes', 'verdict', ...(step === 4 ? ['entryProbability'] : []), 'weightedTotal'],
+  };
+}
+
+function evaluationValidator(step: ScoreStep) {
+  const keys = SCORE_AXES[step].map(axis => axis.key);
+  return z.object({
+    report: z.string().min(1),
+    axes: z.array(z.object({
+      key: z.string(),
+      score: z.number().int().min(1).max(5),
+      rationale: z.string(),
+    })).superRefine((axes, ctx) => {
+      for (const key of keys) {
+        const count = axes.filter(axis => axis.key === key).length;
+        if (count !== 1) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${key} appears ${count} times` });
+      }
+      for (const axis of axes) {
+        if (!keys.includes(axis.key)) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `unknown axis ${axis.key}` });
+      }
+    }),
+    verdict: z.enum(VERDICTS),
+    entryProbability: step === 4 ? z.enum(ENTRY_PROBABILITIES) : z.null().optional(),
+    weightedTotal: z.number(),
+  });
+}
+
+// Models sometimes wrap JSON in a code fence even in JSON mode
+function parseJson(text: string): unknown {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : text);
+  } catch {
+    return undefined;
+  }
+}
+
+export type StructuredEvaluationResult =
+  | { success: true; report: string; record: HypothesisScoreRecord }
+  | { success: false; json: boolean; error: string };
+
+/**
+ * Validate a structured evaluation response
+ * json tells whether the response was JSON at all (false for providers that answered in text).
+ */
+export function parseStructuredEvaluation(step: ScoreStep, text: string): StructuredEvaluationResult {
+  const json = parseJson(text);
+  if (json === undefined || typeof json !== 'object' || json === null) {
+    return { success: false, json: false, error: 'response is not a JSON object' };
+  }
+
+  const result = evaluationValidator(step).safeParse(json);
+  if (!result.success) {
+    const error = result.error.issues
+      .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+    return { success: false, json: true, error };
+  }
+
+  const data = result.data;
+  return {
+    success: true,
+    report: data.report,
+    record: buildStructuredScoreRecord(step, {
+      verdict: data.verdict,
+      entryProbability: data.entryProbability ?? null,
+      weightedTotal: data.weightedTotal,
+      axisScores: Object.fromEntries(data.axes.map(axis => [axis.key, axis.score])),
+      rationales: Object.fromEntries(data.axes.map(axis => [axis.key, axis.rationale])),
+    }),
+  };
+}
+
+/**
+ * Score an evaluation response: structured when it validates, otherwise the
+ * regex parsers on the report (or on the whole text when there is none)
+ * Returns the report to store as the step output alongside the record.
+ */
+export function scoreEvaluationResponse(
+  step: ScoreStep,
+  text: string
+): { output: string; record: HypothesisScoreRecord } {
+  const structured = parseStructuredEvaluation(step, text);
+  if (structured.success) {
+    return { output: structured.report, record: structured.record };
+  }
+
+  // Providers without schema support answer with the plain report
+  if (!structured.json) {
+    return { output: text, record: buildScoreRecord(step, text) };
+  }
+
+  const report = (parseJson(text) as { report?: unknown }).report;
+  const output = typeof report === 'string' && report.trim() ? report : text;
+  const record = buildScoreRecord(step, output);
+  return {
+    output,
+    record: {
+      ...record,
+      parseErrors: [`構造化出力の検証に失敗したためテキスト解析で採点しました（${structured.error}）`, ...record.parseErrors],
+    },
+  };
+}
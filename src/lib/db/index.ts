@@ -7,11 +7,12 @@ const connectionString = process.env.DATABASE_URL || 'postgresql://localhost:543
 // Optimized connection settings for serverless
 // - prepare: false - Required for Supabase pooler (transaction mode)
 // - max: 1 - Single connection per serverless instance
+//   (DATABASE_POOL_MAX raises it for the long-running worker, which runs jobs side by side)
 // - idle_timeout: 20 - Close idle connections after 20s
 // - connect_timeout: 10 - Fail fast if connection takes too long
 const client = postgres(connectionString, {
   prepare: false,
-  max: 1,
+  max: Number(process.env.DATABASE_POOL_MAX) || 1,
   idle_timeout: 20,
   connect_timeout: 10,
 });
@@ -5,6 +5,7 @@ export const mockProjects = [
     userId: 'mock-user-001',
     name: 'サンプルプロジェクト1',
     description: 'AI仮説生成のデモプロジェクト',
+    aiProvider: 'gemini' as const,
     createdAt: new Date('2025-12-01'),
     updatedAt: new Date('2025-12-01'),
     deletedAt: null,
@@ -14,6 +15,7 @@ export const mockProjects = [
     userId: 'mock-user-001',
     name: 'サンプルプロジェクト2',
     description: '技術革新の評価プロジェクト',
+    aiProvider: 'gemini' as const,
     createdAt: new Date('2025-12-15'),
     updatedAt: new Date('2025-12-15'),
     deletedAt: null,
@@ -7,6 +7,9 @@ import {
   jsonb,
   varchar,
   boolean,
+  real,
+  unique,
+  index,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
@@ -19,6 +22,10 @@ export const projects = pgTable('projects', {
   name: text('name').notNull(),
   description: text('description'),
   userId: varchar('user_id', { length: 255 }).notNull(),
+  // AIOperations used by the project's runs (see lib/asip/ai-provider.ts)
+  aiProvider: text('ai_provider', { enum: ['gemini', 'openai_compatible'] })
+    .notNull()
+    .default('gemini'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   deletedAt: timestamp('deleted_at'),
 });
@@ -81,6 +88,7 @@ export const runs = pgTable('runs', {
   modelChoice: text('model_choice', { enum: ['pro', 'flash'] })
     .notNull()
     .default('pro'),
+  budgetUsd: real('budget_usd'), // Spending cap, the run pauses when reached (see lib/asip/run-budget.ts)
 
   // Status tracking
   status: text('status', {
@@ -104,6 +112,7 @@ export const runs = pgTable('runs', {
 
   // Step outputs
   step2_1Output: text('step2_1_output'),
+  step2_1Outputs: jsonb('step2_1_outputs').$type<Record<string, string>>().notNull().default({}), // Per loop, step2_1Output is the latest
   step2_2IndividualOutputs: jsonb('step2_2_individual_outputs').$type<
     string[]
   >(),
@@ -117,8 +126,15 @@ export const runs = pgTable('runs', {
   progressInfo: jsonb('progress_info'),
   executionTiming: jsonb('execution_timing'),
   debugPrompts: jsonb('debug_prompts'),
+  // Prompt versions resolved at run start (see lib/asip/prompt-snapshot.ts)
+  promptSnapshot: jsonb('prompt_snapshot'),
   errorMessage: text('error_message'),
 
+  // Execution lease (see lib/asip/run-lease.ts)
+  leaseOwner: text('lease_owner'),
+  leaseAcquiredAt: timestamp('lease_acquired_at'),
+  leaseExpiresAt: timestamp('lease_expires_at'),
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
   completedAt: timestamp('completed_at'),
@@ -152,6 +168,7 @@ export const hypotheses = pgTable('hypotheses', {
   runId: integer('run_id').references(() => runs.id),
   hypothesisNumber: integer('hypothesis_number').notNull(),
   indexInRun: integer('index_in_run').notNull().default(0),
+  loopNumber: integer('loop_number').notNull().default(1), // Loop that generated it (matches runs.currentLoop)
   displayTitle: text('display_title'),
   contentHash: text('content_hash'),
 
@@ -168,8 +185,10 @@ export const hypotheses = pgTable('hypotheses', {
   }).default('pending'),
   currentInteractionId: text('current_interaction_id'), // Active Gemini interaction
   errorMessage: text('error_message'),
+  formatViolations: jsonb('format_violations').$type<string[]>().notNull().default([]), // Steps whose output failed format repair
 
   fullData: jsonb('full_data'),
+  debugPrompts: jsonb('debug_prompts'), // Prompts sent for Step 2-2 to 5 (DebugPromptEntry[])
   createdAt: timestamp('created_at').defaultNow().notNull(),
   deletedAt: timestamp('deleted_at'),
 });
@@ -185,6 +204,33 @@ export const hypothesesRelations = relations(hypotheses, ({ one }) => ({
   }),
 }));
 
+// ============================================
+// Hypothesis Scores (parsed Step 3 / Step 4 evaluations)
+// ============================================
+export const hypothesisScores = pgTable('hypothesis_scores', {
+  id: serial('id').primaryKey(),
+  hypothesisUuid: varchar('hypothesis_uuid', { length: 36 })
+    .references(() => hypotheses.uuid, { onDelete: 'cascade' })
+    .notNull(),
+  runId: integer('run_id').references(() => runs.id),
+  step: integer('step').notNull(), // 3 or 4
+  source: text('source').notNull().default('regex'), // structured / regex
+  verdict: text('verdict'), // 高 / 中（戦略要修正） / 低
+  entryProbability: text('entry_probability'), // Step 4 only: 高 / 中 / 低
+  weightedTotal: real('weighted_total'), // 100点満点
+  axisScores: jsonb('axis_scores').$type<Record<string, number | null>>().notNull().default({}),
+  rationales: jsonb('rationales').$type<Record<string, string>>().notNull().default({}), // Per-axis rationale (structured only)
+  parseErrors: jsonb('parse_errors').$type<string[]>().notNull().default([]),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [unique('hypothesis_scores_hypothesis_step_key').on(table.hypothesisUuid, table.step)]);
+
+export const hypothesisScoresRelations = relations(hypothesisScores, ({ one }) => ({
+  hypothesis: one(hypotheses, {
+    fields: [hypothesisScores.hypothesisUuid],
+    references: [hypotheses.uuid],
+  }),
+}));
+
 // ============================================
 // Prompt Versions
 // ============================================
@@ -207,6 +253,101 @@ export const stepFileAttachments = pgTable('step_file_attachments', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// ============================================
+// Deep Research rate limit (shared by all serverless instances)
+// ============================================
+export const deepResearchRateLimits = pgTable('deep_research_rate_limits', {
+  key: text('key').primaryKey(),
+  tokens: real('tokens').notNull(), // Token bucket level at refilledAt
+  refilledAt: timestamp('refilled_at').notNull(),
+});
+
+export const deepResearchSlotLeases = pgTable('deep_research_slot_leases', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  holder: text('holder').notNull(), // File Search store of the Deep Research holding the slot
+  acquiredAt: timestamp('acquired_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at').notNull(), // Slots of crashed instances are freed after this
+});
+
+// ============================================
+// Pipeline Jobs (durable queue driving the step executor)
+// ============================================
+export const pipelineJobs = pgTable('pipeline_jobs', {
+  id: serial('id').primaryKey(),
+  jobKey: text('job_key').notNull().unique(), // One queued job per run / per hypothesis
+  runId: integer('run_id')
+    .references(() => runs.id, { onDelete: 'cascade' })
+    .notNull(),
+  hypothesisUuid: varchar('hypothesis_uuid', { length: 36 }), // Set for per-hypothesis evaluation jobs
+  phase: text('phase').notNull(), // PipelinePhase expected when the job was enqueued
+  attempt: integer('attempt').notNull().default(0), // Failed attempts so far
+  runAfter: timestamp('run_after').defaultNow().notNull(),
+  lockedBy: text('locked_by'), // Worker executing the job
+  lockedUntil: timestamp('locked_until'), // Jobs of crashed workers become claimable after this
+  lastError: text('last_error'),
+  enqueuedAt: timestamp('enqueued_at').defaultNow().notNull(), // Bumped when re-enqueued while running
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [index('idx_pipeline_jobs_run_after').on(table.runAfter)]);
+
+// ============================================
+// Run Audit Entries (stop / pause / resume, see lib/asip/run-control.ts)
+// ============================================
+export const runAuditEntries = pgTable('run_audit_entries', {
+  id: serial('id').primaryKey(),
+  runId: integer('run_id')
+    .references(() => runs.id, { onDelete: 'cascade' })
+    .notNull(),
+  action: text('action', { enum: ['stop', 'pause', 'resume'] }).notNull(),
+  actor: varchar('actor', { length: 255 }), // User id
+  interactions: jsonb('interactions').notNull().default([]), // RunAuditInteraction[]
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [index('idx_run_audit_entries_run_id').on(table.runId)]);
+
+// ============================================
+// AI Usage (token usage of every Gemini call, see lib/asip/cost-accounting.ts)
+// ============================================
+export const aiUsage = pgTable('ai_usage', {
+  id: serial('id').primaryKey(),
+  runId: integer('run_id')
+    .references(() => runs.id, { onDelete: 'cascade' })
+    .notNull(),
+  projectId: integer('project_id')
+    .references(() => projects.id, { onDelete: 'cascade' })
+    .notNull(),
+  hypothesisUuid: varchar('hypothesis_uuid', { length: 36 }), // Null for run-level calls (Step 2-1, 2-1.5)
+  step: text('step').notNull(),
+  model: text('model').notNull(),
+  interactionId: text('interaction_id'), // Deep Research only
+  inputTokens: integer('input_tokens').notNull().default(0),
+  outputTokens: integer('output_tokens').notNull().default(0),
+  thinkingTokens: integer('thinking_tokens').notNull().default(0),
+  cachedTokens: integer('cached_tokens').notNull().default(0),
+  groundingCalls: integer('grounding_calls').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_ai_usage_run_id').on(table.runId),
+  index('idx_ai_usage_project_id').on(table.projectId),
+]);
+
+// ============================================
+// Emulated Research Jobs (Deep Research of OpenAI-compatible providers, see lib/asip/emulated-research.ts)
+// ============================================
+export const emulatedResearchJobs = pgTable('emulated_research_jobs', {
+  id: varchar('id', { length: 36 }).primaryKey(), // DeepResearchHandle.interactionId
+  status: text('status', { enum: ['in_progress', 'completed', 'failed', 'cancelled'] }).notNull(),
+  prompt: text('prompt').notNull(),
+  files: jsonb('files').notNull().default([]), // ResearchFile[]
+  model: text('model').notNull(),
+  questions: jsonb('questions'), // string[], null until planned
+  findings: jsonb('findings').notNull().default([]), // string[]
+  result: text('result'),
+  error: text('error'),
+  usage: jsonb('usage').notNull(), // TokenUsage summed over the job's calls
+  lockedUntil: timestamp('locked_until'), // Set while a poll runs a step
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // ============================================
 // Zod Schemas
 // ============================================
@@ -237,5 +378,13 @@ export type NewRun = typeof runs.$inferInsert;
 export type Hypothesis = typeof hypotheses.$inferSelect;
 export type NewHypothesis = typeof hypotheses.$inferInsert;
 
+export type HypothesisScore = typeof hypothesisScores.$inferSelect;
+export type NewHypothesisScore = typeof hypothesisScores.$inferInsert;
+
 export type PromptVersion = typeof promptVersions.$inferSelect;
 export type StepFileAttachment = typeof stepFileAttachments.$inferSelect;
+export type DeepResearchSlotLease = typeof deepResearchSlotLeases.$inferSelect;
+export type PipelineJobRow = typeof pipelineJobs.$inferSelect;
+export type RunAuditEntryRow = typeof runAuditEntries.$inferSelect;
+export type AIUsageRow = typeof aiUsage.$inferSelect;
+export type EmulatedResearchJobRow = typeof emulatedResearchJobs.$inferSelect;
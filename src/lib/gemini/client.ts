@@ -15,8 +15,12 @@ export function getGeminiClient(): GoogleGenerativeAI {
   return client;
 }
 
-export const MODELS = {
-  PRO: 'gemini-3-pro-preview',
-  FLASH: 'gemini-3-flash-preview',
-  DEEP_RESEARCH: 'deep-research-pro-preview-12-2025',
-} as const;
+/**
+ * Base URL override of the Gemini API (GOOGLE_GEMINI_BASE_URL), e.g. the fake server
+ * of fake-server.ts; undefined for the public endpoint
+ */
+export function getGeminiBaseUrl(): string | undefined {
+  return process.env.GOOGLE_GEMINI_BASE_URL?.trim() || undefined;
+}
+
+export { MODELS } from './models';
@@ -0,0 +1,106 @@
+/**
+ * Postgres store for the Deep Research rate limiter
+ *
+ * The bucket row is locked (SELECT ... FOR UPDATE) while a decision is made,
+ * so concurrent instances cannot both take the last token or slot.
+ */
+
+import { asc, count, eq, lte } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { deepResearchRateLimits, deepResearchSlotLeases } from '@/lib/db/schema';
+import {
+  buildLease,
+  decideSlot,
+  refillTokens,
+  getDeepResearchLimits,
+  type DeepResearchLimiterConfig,
+  type DeepResearchLimiterStore,
+  type SlotLease,
+} from './deep-research-limiter';
+
+const BUCKET_KEY = 'deep_research';
+
+function toLease(row: typeof deepResearchSlotLeases.$inferSelect): SlotLease {
+  return {
+    id: row.id,
+    holder: row.holder,
+    acquiredAt: row.acquiredAt.toISOString(),
+    expiresAt: row.expiresAt.toISOString(),
+  };
+}
+
+export function createPostgresLimiterStore(
+  config: DeepResearchLimiterConfig = getDeepResearchLimits()
+): DeepResearchLimiterStore {
+  return {
+    async tryAcquire(holder, now) {
+      return db.transaction(async (tx) => {
+        await tx
+          .insert(deepResearchRateLimits)
+          .values({ key: BUCKET_KEY, tokens: config.burst, refilledAt: now })
+          .onConflictDoNothing();
+
+        const [bucket] = await tx
+          .select()
+          .from(deepResearchRateLimits)
+          .where(eq(deepResearchRateLimits.key, BUCKET_KEY))
+          .for('update');
+
+        await tx.delete(deepResearchSlotLeases).where(lte(deepResearchSlotLeases.expiresAt, now));
+        const [{ active }] = await tx.select({ active: count() }).from(deepResearchSlotLeases);
+
+        const decision = decideSlot(
+          { tokens: bucket.tokens, refilledAt: bucket.refilledAt.getTime(), activeLeases: active },
+          now.getTime(),
+          config
+        );
+
+        await tx
+          .update(deepResearchRateLimits)
+          .set({ tokens: decision.tokens, refilledAt: now })
+          .where(eq(deepResearchRateLimits.key, BUCKET_KEY));
+
+        if (!decision.granted) {
+          return { granted: false as const, reason: decision.reason, retryAfterMs: decision.retryAfterMs };
+        }
+
+        const lease = buildLease(holder, now, config);
+        await tx.insert(deepResearchSlotLeases).values({
+          id: lease.id,
+          holder: lease.holder,
+          acquiredAt: now,
+          expiresAt: new Date(lease.expiresAt),
+        });
+        return { granted: true as const, lease };
+      });
+    },
+
+    async release(leaseId) {
+      await db.delete(deepResearchSlotLeases).where(eq(deepResearchSlotLeases.id, leaseId));
+    },
+
+    async getUsage(now) {
+      const [bucket] = await db
+        .select()
+        .from(deepResearchRateLimits)
+        .where(eq(deepResearchRateLimits.key, BUCKET_KEY));
+
+      const rows = await db
+        .select()
+        .from(deepResearchSlotLeases)
+        .orderBy(asc(deepResearchSlotLeases.acquiredAt));
+      const leases = rows.filter(row => row.expiresAt > now).map(toLease);
+
+      return {
+        requestsPerMinute: config.requestsPerMinute,
+        burst: config.burst,
+        tokensAvailable: bucket
+          ? refillTokens(bucket.tokens, bucket.refilledAt.getTime(), now.getTime(), config)
+          : config.burst,
+        maxConcurrent: config.maxConcurrent,
+        activeSlots: leases.length,
+        leases,
+      };
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createMemoryLimiterStore,
+  decideSlot,
+  getDeepResearchLeaseTtlMs,
+  refillTokens,
+  type DeepResearchLimiterConfig,
+} from './deep-research-limiter';
+
+const config: DeepResearchLimiterConfig = {
+  requestsPerMinute: 10,
+  burst: 2,
+  maxConcurrent: 3,
+  leaseTtlMs: 60_000,
+};
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 0, 0, seconds));
+
+describe('deep-research-limiter', () => {
+  describe('refillTokens', () => {
+    it('refills at the request rate up to the burst size', () => {
+      expect(refillTokens(0, 0, 6_000, config)).toBeCloseTo(1);
+      expect(refillTokens(0, 0, 9_000, config)).toBeCloseTo(1.5);
+      expect(refillTokens(0, 0, 600_000, config)).toBe(2);
+    });
+  });
+
+  describe('getDeepResearchLeaseTtlMs', () => {
+    it('outlasts the longest configured Deep Research wall time', () => {
+      const minutes = (value: number) => value * 60 * 1000;
+      expect(getDeepResearchLeaseTtlMs({ maxWallMs: { step2_1: minutes(60), step2_2: minutes(60) }, maxRestarts: 1 })).toBe(
+        minutes(90)
+      );
+      expect(getDeepResearchLeaseTtlMs({ maxWallMs: { step2_1: minutes(45), step2_2: minutes(180) }, maxRestarts: 1 })).toBe(
+        minutes(210)
+      );
+    });
+  });
+
+  describe('decideSlot', () => {
+    it('takes a token when one is available', () => {
+      expect(decideSlot({ tokens: 1.5, refilledAt: 0, activeLeases: 0 }, 0, config)).toEqual({
+        granted: true,
+        tokens: 0.5,
+      });
+    });
+
+    it('reports the wait for the next token', () => {
+      const decision = decideSlot({ tokens: 0.5, refilledAt: 0, activeLeases: 0 }, 0, config);
+      expect(decision).toMatchObject({ granted: false, reason: 'rate', retryAfterMs: 3000 });
+    });
+
+    it('refuses when all slots are leased', () => {
+      const decision = decideSlot({ tokens: 2, refilledAt: 0, activeLeases: 3 }, 0, config);
+      expect(decision).toMatchObject({ granted: false, reason: 'concurrency', tokens: 2 });
+    });
+  });
+
+  describe('createMemoryLimiterStore', () => {
+    it('allows a burst, then spaces requests by the rate', async () => {
+      const store = createMemoryLimiterStore(config);
+
+      expect((await store.tryAcquire('a', at(0))).granted).toBe(true);
+      expect((await store.tryAcquire('b', at(0))).granted).toBe(true);
+      expect(await store.tryAcquire('c', at(0))).toMatchObject({ granted: false, reason: 'rate', retryAfterMs: 6000 });
+      expect((await store.tryAcquire('c', at(6))).granted).toBe(true);
+    });
+
+    it('frees slots on release and when leases expire', async () => {
+      const store = createMemoryLimiterStore({ ...config, burst: 10, requestsPerMinute: 600 });
+
+      const first = await store.tryAcquire('a', at(0));
+      await store.tryAcquire('b', at(0));
+      await store.tryAcquire('c', at(0));
+      expect(await store.tryAcquire('d', at(1))).toMatchObject({ granted: false, reason: 'concurrency' });
+
+      if (first.granted) await store.release(first.lease.id);
+      expect((await store.tryAcquire('d', at(1))).granted).toBe(true);
+
+      // All leases taken at 0s expire after the TTL
+      const usage = await store.getUsage(at(60));
+      expect(usage.activeSlots).toBe(1);
+      expect(usage.leases.map(l => l.holder)).toEqual(['d']);
+    });
+
+    it('reports quota usage', async () => {
+      const store = createMemoryLimiterStore(config);
+      expect(await store.getUsage(at(0))).toEqual({
+        requestsPerMinute: 10,
+        burst: 2,
+        tokensAvailable: 2,
+        maxConcurrent: 3,
+        activeSlots: 0,
+        leases: [],
+      });
+
+      await store.tryAcquire('a', at(0));
+      const usage = await store.getUsage(at(3));
+      expect(usage.tokensAvailable).toBeCloseTo(1.5);
+      expect(usage.leases[0]).toMatchObject({
+        holder: 'a',
+        acquiredAt: at(0).toISOString(),
+        expiresAt: at(60).toISOString(),
+      });
+    });
+  });
+});
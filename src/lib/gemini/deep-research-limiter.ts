@@ -0,0 +1,222 @@
+/**
+ * Deep Research Rate Limiter
+ *
+ * Limits Deep Research starts across all runs, users and serverless instances:
+ * - a token bucket for the request rate (10 requests/min)
+ * - slot leases for concurrent interactions (10), held until cleanupDeepResearch
+ *   releases them; a lease that is never released expires
+ *
+ * State lives in Postgres (deep-research-limiter-db.ts). The in-memory store
+ * applies the same decision logic and is used by tests
+ * (DEEP_RESEARCH_LIMITER=memory).
+ */
+
+import { getDeepResearchTimeoutConfig, type DeepResearchTimeoutConfig } from '@/lib/asip/deep-research-timeout';
+
+export interface DeepResearchLimiterConfig {
+  requestsPerMinute: number;
+  burst: number; // Bucket capacity
+  maxConcurrent: number;
+  leaseTtlMs: number;
+}
+
+// Time past the maximum wall time for the executor to notice the timeout and release the slot
+const LEASE_TTL_MARGIN_MS = 30 * 60 * 1000;
+
+/**
+ * Lease TTL: the longest maximum wall time of a Deep Research interaction plus a margin
+ * (a restart releases the lease of the interaction it replaces)
+ */
+export function getDeepResearchLeaseTtlMs(
+  timeout: DeepResearchTimeoutConfig = getDeepResearchTimeoutConfig()
+): number {
+  return Math.max(timeout.maxWallMs.step2_1, timeout.maxWallMs.step2_2) + LEASE_TTL_MARGIN_MS;
+}
+
+/**
+ * Limits applied to Deep Research starts (the lease TTL follows the configured timeouts)
+ */
+export function getDeepResearchLimits(
+  timeout: DeepResearchTimeoutConfig = getDeepResearchTimeoutConfig()
+): DeepResearchLimiterConfig {
+  return {
+    requestsPerMinute: 10,
+    burst: 1, // One request every 6 seconds, as the API limit is per rolling minute
+    maxConcurrent: 10,
+    leaseTtlMs: getDeepResearchLeaseTtlMs(timeout),
+  };
+}
+
+/**
+ * Bucket and lease state a decision is made on
+ */
+export interface LimiterState {
+  tokens: number;
+  refilledAt: number; // epoch ms
+  activeLeases: number;
+}
+
+export type SlotDecision =
+  | { granted: true; tokens: number }
+  | { granted: false; tokens: number; reason: 'rate' | 'concurrency'; retryAfterMs: number };
+
+/**
+ * Bucket level after refilling up to now
+ */
+export function refillTokens(
+  tokens: number,
+  refilledAt: number,
+  now: number,
+  config: DeepResearchLimiterConfig = getDeepResearchLimits()
+): number {
+  const elapsed = Math.max(0, now - refilledAt);
+  return Math.min(config.burst, tokens + (elapsed * config.requestsPerMinute) / 60_000);
+}
+
+/**
+ * Decide whether a new Deep Research may start (returns the bucket level to store at now)
+ */
+export function decideSlot(
+  state: LimiterState,
+  now: number,
+  config: DeepResearchLimiterConfig = getDeepResearchLimits()
+): SlotDecision {
+  const tokens = refillTokens(state.tokens, state.refilledAt, now, config);
+
+  if (state.activeLeases >= config.maxConcurrent) {
+    return { granted: false, tokens, reason: 'concurrency', retryAfterMs: 5000 };
+  }
+  if (tokens < 1) {
+    const retryAfterMs = Math.ceil(((1 - tokens) * 60_000) / config.requestsPerMinute);
+    return { granted: false, tokens, reason: 'rate', retryAfterMs };
+  }
+  return { granted: true, tokens: tokens - 1 };
+}
+
+// ============================================
+// Stores
+// ============================================
+
+export interface SlotLease {
+  id: string;
+  holder: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+export type AcquireResult =
+  | { granted: true; lease: SlotLease }
+  | { granted: false; reason: 'rate' | 'concurrency'; retryAfterMs: number };
+
+/**
+ * Quota usage (GET /api/deep-research/quota)
+ */
+export interface DeepResearchQuotaUsage {
+  requestsPerMinute: number;
+  burst: number;
+  tokensAvailable: number;
+  maxConcurrent: number;
+  activeSlots: number;
+  leases: SlotLease[];
+}
+
+export interface DeepResearchLimiterStore {
+  tryAcquire(holder: string, now: Date): Promise<AcquireResult>;
+  release(leaseId: string): Promise<void>;
+  getUsage(now: Date): Promise<DeepResearchQuotaUsage>;
+}
+
+/**
+ * New lease for a granted slot
+ */
+export function buildLease(holder: string, now: Date, config: DeepResearchLimiterConfig): SlotLease {
+  return {
+    id: crypto.randomUUID(),
+    holder,
+    acquiredAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + config.leaseTtlMs).toISOString(),
+  };
+}
+
+/**
+ * In-memory store (single process; tests and local development)
+ */
+export function createMemoryLimiterStore(
+  config: DeepResearchLimiterConfig = getDeepResearchLimits()
+): DeepResearchLimiterStore {
+  let tokens = config.burst;
+  let refilledAt = 0;
+  let leases: SlotLease[] = [];
+
+  const dropExpired = (now: Date) => {
+    leases = leases.filter(lease => Date.parse(lease.expiresAt) > now.getTime());
+  };
+
+  return {
+    async tryAcquire(holder, now) {
+      dropExpired(now);
+      const decision = decideSlot(
+        { tokens, refilledAt: refilledAt || now.getTime(), activeLeases: leases.length },
+        now.getTime(),
+        config
+      );
+      tokens = decision.tokens;
+      refilledAt = now.getTime();
+
+      if (!decision.granted) {
+        return { granted: false, reason: decision.reason, retryAfterMs: decision.retryAfterMs };
+      }
+      const lease = buildLease(holder, now, config);
+      leases.push(lease);
+      return { granted: true, lease };
+    },
+
+    async release(leaseId) {
+      leases = leases.filter(lease => lease.id !== leaseId);
+    },
+
+    async getUsage(now) {
+      dropExpired(now);
+      return {
+        requestsPerMinute: config.requestsPerMinute,
+        burst: config.burst,
+        tokensAvailable: refilledAt ? refillTokens(tokens, refilledAt, now.getTime(), config) : config.burst,
+        maxConcurrent: config.maxConcurrent,
+        activeSlots: leases.length,
+        leases: [...leases],
+      };
+    },
+  };
+}
+
+let limiterStore: DeepResearchLimiterStore | null = null;
+
+/**
+ * Store used by Deep Research calls (Postgres unless DEEP_RESEARCH_LIMITER=memory)
+ */
+export async function getDeepResearchLimiterStore(): Promise<DeepResearchLimiterStore> {
+  if (!limiterStore) {
+    if (process.env.DEEP_RESEARCH_LIMITER === 'memory') {
+      limiterStore = createMemoryLimiterStore();
+    } else {
+      const { createPostgresLimiterStore } = await import('./deep-research-limiter-db');
+      limiterStore = createPostgresLimiterStore();
+    }
+  }
+  return limiterStore;
+}
+
+/**
+ * Replace the store (tests)
+ */
+export function setDeepResearchLimiterStore(store: DeepResearchLimiterStore | null): void {
+  limiterStore = store;
+}
+
+/**
+ * Current quota usage
+ */
+export async function getDeepResearchQuotaUsage(): Promise<DeepResearchQuotaUsage> {
+  const store = await getDeepResearchLimiterStore();
+  return store.getUsage(new Date());
+}
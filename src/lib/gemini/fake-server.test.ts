@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { startFakeGeminiServer, type FakeGeminiServer } from './fake-server';
+import {
+  createFileSearchStore,
+  deleteFileSearchStore,
+  generateContent,
+  getInteractionStatus,
+  startDeepResearch,
+  uploadToFileSearchStore,
+} from './interactions';
+import { createMemoryLimiterStore, setDeepResearchLimiterStore } from './deep-research-limiter';
+import { parseStep3Output } from '@/lib/parsers/step3-parser';
+import { parseStep5Output } from '@/lib/parsers/step5-parser';
+import { classifyGeminiError, RateLimitError } from '@/lib/asip/errors';
+import { evaluationResponseSchema, parseStructuredEvaluation } from '@/lib/asip/structured-scores';
+
+// Runs the real SDK code paths of interactions.ts against the fake server
+describe('fake-server', () => {
+  let server: FakeGeminiServer;
+
+  async function setScenario(scenario: string) {
+    await fetch(`${server.url}/_fake/scenario`, { method: 'POST', body: JSON.stringify({ scenario }) });
+  }
+
+  beforeAll(async () => {
+    server = await startFakeGeminiServer();
+    vi.stubEnv('GOOGLE_GEMINI_BASE_URL', server.url);
+    vi.stubEnv('GOOGLE_GENAI_API_KEY', 'fake-api-key');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    setDeepResearchLimiterStore(null);
+  });
+
+  beforeEach(async () => {
+    await fetch(`${server.url}/_fake/reset`, { method: 'POST' });
+    await setScenario('default');
+    setDeepResearchLimiterStore(createMemoryLimiterStore({
+      requestsPerMinute: 60,
+      burst: 10,
+      maxConcurrent: 10,
+      leaseTtlMs: 60 * 1000,
+    }));
+  });
+
+  it('runs a Deep Research through File Search upload, polling and cleanup', async () => {
+    const storeName = await createFileSearchStore('run-1-step2_1');
+    await uploadToFileSearchStore({ storeName, content: '対象市場の説明', displayName: 'target.md' });
+    expect(server.state.stores.get(storeName)?.documents).toHaveLength(1);
+
+    const { interactionId } = await startDeepResearch({
+      prompt: '【マスタープロンプト】Top 3短表のヘッダ行',
+      fileSearchStoreName: storeName,
+    });
+
+    expect((await getInteractionStatus(interactionId)).status).toBe('in_progress');
+    expect((await getInteractionStatus(interactionId)).status).toBe('in_progress');
+    const status = await getInteractionStatus(interactionId);
+    expect(status.status).toBe('completed');
+    expect(status.outputs?.[0].text).toContain('【仮説3】');
+    expect(status.usage?.outputTokens).toBeGreaterThan(0);
+
+    await deleteFileSearchStore(storeName);
+    expect(server.state.stores.size).toBe(0);
+  });
+
+  it('answers evaluation steps with output the parsers accept', async () => {
+    const onUsage = vi.fn();
+    const step3 = await generateContent({ prompt: '# システム指令（Dr. Kill-Switch）', model: 'gemini-fake', onUsage });
+    expect(parseStep3Output(step3)).toMatchObject({ success: true, data: { weightedTotal: 80 } });
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ inputTokens: expect.any(Number) }));
+
+    const step5 = await generateContent({ prompt: '# システム指令 (Final Integration)', model: 'gemini-fake' });
+    expect(parseStep5Output(step5).success).toBe(true);
+  });
+
+  it('answers evaluation steps requested with a response schema in structured JSON', async () => {
+    const step4 = await generateContent({
+      prompt: '# システム指令（War Gaming）',
+      model: 'gemini-fake',
+      responseSchema: evaluationResponseSchema(4),
+    });
+    const result = parseStructuredEvaluation(4, step4);
+    expect(result).toMatchObject({ success: true, record: { source: 'structured', weightedTotal: 80, parseErrors: [] } });
+  });
+
+  it('scripts malformed Step 3 output', async () => {
+    await setScenario('malformed_step3');
+    const step3 = await generateContent({ prompt: '# システム指令（Dr. Kill-Switch）', model: 'gemini-fake' });
+    expect(parseStep3Output(step3).success).toBe(false);
+
+    const structured = await generateContent({
+      prompt: '# システム指令（Dr. Kill-Switch）',
+      model: 'gemini-fake',
+      responseSchema: evaluationResponseSchema(3),
+    });
+    expect(parseStructuredEvaluation(3, structured)).toMatchObject({ success: false, json: true });
+  });
+
+  it('scripts 429s that classify as rate limit errors', async () => {
+    await setScenario('rate_limited');
+
+    const error = await generateContent({ prompt: 'hello', model: 'gemini-fake' }).catch(e => e);
+    expect(classifyGeminiError(error, 'generateContent', 'content')).toBeInstanceOf(RateLimitError);
+    await expect(generateContent({ prompt: 'hello', model: 'gemini-fake' })).resolves.toContain('フェイク');
+  });
+
+  it('scripts failing Deep Research', async () => {
+    await setScenario('failing');
+    const storeName = await createFileSearchStore('run-1-step2_2');
+    const { interactionId } = await startDeepResearch({ prompt: '仮説の詳細検討', fileSearchStoreName: storeName });
+
+    await getInteractionStatus(interactionId);
+    expect(await getInteractionStatus(interactionId)).toMatchObject({ status: 'failed', error: 'Deep Research failed (fake)' });
+  });
+});
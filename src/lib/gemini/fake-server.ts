@@ -0,0 +1,489 @@
+/**
+ * Fake Gemini API server for e2e tests and local development
+ *
+ * Implements the subset of the Gemini REST API that interactions.ts uses, so
+ * the real @google/genai / @google/generative-ai code paths run against it
+ * (point them at it with GOOGLE_GEMINI_BASE_URL):
+ *   - File Search stores: create / list / delete, resumable upload
+ *   - Interactions (Deep Research): create / get / cancel
+ *   - models/*:generateContent
+ * Responses are canned per pipeline step (recognized from the default
+ * prompts) and parse like real model output; Step 3 / 4 requests with a
+ * responseSchema get the structured JSON. A scenario scripts latency and
+ * failures; it can be switched at runtime through POST /_fake/scenario.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { STEP5_HEADER } from '@/lib/parsers/step5-parser';
+import { SCORE_AXES } from '@/lib/asip/hypothesis-scores';
+
+export type FakeGeminiScenarioName = 'default' | 'slow' | 'failing' | 'rate_limited' | 'malformed_step3';
+
+export interface FakeGeminiScenario {
+  latencyMs: number; // Delay before every API response
+  deepResearchPolls: number; // Status checks an interaction stays in_progress
+  deepResearchOutcome: 'completed' | 'failed';
+  generateErrorStatus: number | null; // HTTP status every generateContent call fails with (null: answer)
+  rateLimitEvery: number; // Every Nth create / generate request gets a 429 (0: never)
+  malformedStep3: boolean; // Step 3 answers without the scores (structured: without the axes)
+}
+
+export const FAKE_GEMINI_SCENARIOS: Record<FakeGeminiScenarioName, FakeGeminiScenario> = {
+  default: {
+    latencyMs: 0,
+    deepResearchPolls: 2,
+    deepResearchOutcome: 'completed',
+    generateErrorStatus: null,
+    rateLimitEvery: 0,
+    malformedStep3: false,
+  },
+  slow: {
+    latencyMs: 2000,
+    deepResearchPolls: 10,
+    deepResearchOutcome: 'completed',
+    generateErrorStatus: null,
+    rateLimitEvery: 0,
+    malformedStep3: false,
+  },
+  failing: {
+    latencyMs: 0,
+    deepResearchPolls: 1,
+    deepResearchOutcome: 'failed',
+    generateErrorStatus: 500,
+    rateLimitEvery: 0,
+    malformedStep3: false,
+  },
+  rate_limited: {
+    latencyMs: 0,
+    deepResearchPolls: 2,
+    deepResearchOutcome: 'completed',
+    generateErrorStatus: null,
+    rateLimitEvery: 2,
+    malformedStep3: false,
+  },
+  malformed_step3: {
+    latencyMs: 0,
+    deepResearchPolls: 2,
+    deepResearchOutcome: 'completed',
+    generateErrorStatus: null,
+    rateLimitEvery: 0,
+    malformedStep3: true,
+  },
+};
+
+export function isFakeGeminiScenarioName(value: unknown): value is FakeGeminiScenarioName {
+  return typeof value === 'string' && value in FAKE_GEMINI_SCENARIOS;
+}
+
+export type FakeStep = 'step2_1' | 'step2_1_5' | 'step2_2' | 'step3' | 'step4' | 'step5';
+
+interface FakeStore {
+  name: string;
+  displayName: string;
+  createTime: string;
+  documents: Array<{ name: string; displayName: string; size: number }>;
+}
+
+interface FakeInteraction {
+  id: string;
+  prompt: string;
+  polls: number;
+  status: 'in_progress' | 'completed' | 'failed' | 'cancelled';
+}
+
+export interface FakeGeminiState {
+  scenario: FakeGeminiScenarioName;
+  stores: Map<string, FakeStore>;
+  interactions: Map<string, FakeInteraction>;
+  uploads: Map<string, string>; // Upload session id -> store name
+  requests: number; // Rate-limited requests seen (for rateLimitEvery)
+  nextId: number;
+}
+
+export interface FakeGeminiServer {
+  url: string;
+  state: FakeGeminiState;
+  close(): Promise<void>;
+}
+
+const DEFAULT_HYPOTHESIS_COUNT = 2;
+const MAX_HYPOTHESIS_COUNT = 10;
+
+const STATUS_NAMES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  404: 'NOT_FOUND',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE',
+};
+
+/**
+ * Pipeline step of a request (by the markers of the default prompts)
+ * Checked from the last step back: later prompts embed earlier outputs.
+ */
+export function detectFakeStep(text: string, deepResearch: boolean): FakeStep | null {
+  if (deepResearch) {
+    return text.includes('マスタープロンプト') ? 'step2_1' : 'step2_2';
+  }
+  if (text.includes('Final Integration')) return 'step5';
+  if (text.includes('War Gaming')) return 'step4';
+  if (text.includes('Dr. Kill-Switch')) return 'step3';
+  if (text.includes('"hypotheses"')) return 'step2_1_5';
+  return null;
+}
+
+function hypothesisCount(text: string): number {
+  const match = text.match(/Top\s*(\d+)/);
+  const count = match ? Number(match[1]) : DEFAULT_HYPOTHESIS_COUNT;
+  return Math.min(Math.max(count, 1), MAX_HYPOTHESIS_COUNT);
+}
+
+function fakeHypotheses(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    title: `フェイク仮説${i + 1}: 高耐熱ガラス基板による次世代パワー半導体実装`,
+    summary: `フェイク Gemini サーバーが返す固定の仮説${i + 1}です。市場・技術・参入方式の検討はすべて架空の内容です。`,
+  }));
+}
+
+/**
+ * Canned answer of a step (parses like real model output unless the scenario says otherwise)
+ */
+export function fakeStepOutput(step: FakeStep | null, prompt: string, scenario: FakeGeminiScenario): string {
+  switch (step) {
+    case 'step2_1':
+      return [
+        '【Phase 1：監査ストリップ（Proof-of-Work Evidence）】',
+        'フェイク Gemini サーバーによる固定レポートです。',
+        '',
+        ...fakeHypotheses(hypothesisCount(prompt)).map((h, i) => `【仮説${i + 1}】${h.title}\n${h.summary}\n`),
+      ].join('\n');
+
+    case 'step2_1_5':
+      return JSON.stringify({ hypotheses: fakeHypotheses(hypothesisCount(prompt)) }, null, 2);
+
+    case 'step2_2':
+      return [
+        '# 詳細検討レポート（フェイク）',
+        '1. 市場規模と成長性: 年率12%で成長（架空）',
+        '2. 主要プレイヤー分析: 大手3社が寡占（架空）',
+        '3. 技術的実現可能性: 試作レベルで実証済み（架空）',
+        '4. 参入障壁と競争優位性: 材料組成の知財で優位（架空）',
+        '5. 想定される課題とリスク: 量産コストの低減（架空）',
+      ].join('\n');
+
+    case 'step3':
+      if (scenario.malformedStep3) {
+        return '評価結果: この仮説は有望です。スコアは後ほどお伝えします。';
+      }
+      return [
+        '当該テーマの魅力度：高',
+        '当該テーマについての総評：フェイクの評価です。技術・市場ともに有望と判定しました。',
+        '顧客にとっての切迫度（課題の深刻さ）：ぜひ欲しい',
+        '最低限達成すべき技術水準：耐熱300℃以上',
+        'スコア詳細',
+        '科学的妥当性（20％）：4',
+        '製造実現性（15％）：4',
+        '性能優位（20％）：4',
+        '粗利率（20％）：4',
+        '市場魅力度（10％）：4',
+        '規制・安全環境（5％）：4',
+        '知財防衛（5％）：4',
+        '戦略適合（5％）：4',
+        '8項目の加重合計（100点満点）：80.0',
+      ].join('\n');
+
+    case 'step4':
+      return [
+        'AGCの事業価値×参入確率に基づく魅力度：高',
+        'AGCの参入確率：中',
+        'AGCの参入方式：共同推進（パートナー連携）（装置メーカーとの協業）',
+        '想定競合：架空素材メーカーA、架空素材メーカーB',
+        'AGCの開発期間：3年',
+        'AGCの開発コスト：10億円',
+        '業界の参入障壁高さ：中',
+        '資産転用性（AGC視点）（20％）：4',
+        '投資・運転と回収見通し（AGC視点）（20％）：4',
+        'サプライチェーン実現性（AGC視点）（15％）：4',
+        '規制・安全適合（AGC視点）（15％）：4',
+        'FTO／知財自由度（AGC視点）（10％）：4',
+        'チャネル適合（AGC視点）（10％）：4',
+        'パートナー入手性（AGC視点）（10％）：4',
+        '7項目の加重合計（100点満点）：80.0',
+      ].join('\n');
+
+    case 'step5':
+      return [
+        STEP5_HEADER.join('\t'),
+        STEP5_HEADER.map(column => (/（\d+％）$/.test(column) ? '4' : /加重合計/.test(column) ? '80.0' : 'フェイク')).join('\t'),
+      ].join('\n');
+
+    default:
+      return 'フェイク Gemini サーバーの応答です。';
+  }
+}
+
+/**
+ * Structured answer of Step 3 / Step 4 (requests with a responseSchema)
+ */
+export function fakeStructuredOutput(step: 'step3' | 'step4', prompt: string, scenario: FakeGeminiScenario): string {
+  const report = fakeStepOutput(step, prompt, scenario);
+  if (step === 'step3' && scenario.malformedStep3) {
+    return JSON.stringify({ report, verdict: '高' });
+  }
+  return JSON.stringify({
+    report,
+    axes: SCORE_AXES[step === 'step3' ? 3 : 4].map(axis => ({
+      key: axis.key,
+      score: 4,
+      rationale: `${axis.label}はフェイクの根拠により4と評価しました。`,
+    })),
+    verdict: '高',
+    ...(step === 'step4' && { entryProbability: '中' }),
+    weightedTotal: 80,
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, status: number, message: string) {
+  sendJson(res, status, { error: { code: status, message, status: STATUS_NAMES[status] || 'UNKNOWN' } });
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function parseJson(body: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Text of a generateContent request (system instruction and contents)
+function requestText(body: Record<string, unknown>): string {
+  const texts: string[] = [];
+  const collect = (value: unknown) => {
+    if (typeof value === 'string') texts.push(value);
+    else if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === 'object') Object.values(value).forEach(collect);
+  };
+  collect(body.systemInstruction ?? body.system_instruction);
+  collect(body.contents);
+  return texts.join('\n');
+}
+
+function usageMetadata(prompt: string, text: string) {
+  const promptTokenCount = Math.ceil(prompt.length / 4);
+  const candidatesTokenCount = Math.ceil(text.length / 4);
+  return { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount };
+}
+
+export function createFakeGeminiState(scenario: FakeGeminiScenarioName = 'default'): FakeGeminiState {
+  return { scenario, stores: new Map(), interactions: new Map(), uploads: new Map(), requests: 0, nextId: 1 };
+}
+
+/**
+ * Request handler of the fake server
+ */
+export function createFakeGeminiHandler(state: FakeGeminiState) {
+  const nextId = () => String(state.nextId++);
+  const scenario = () => FAKE_GEMINI_SCENARIOS[state.scenario];
+
+  // Scripted 429 of create / generate requests
+  const rateLimited = () => {
+    const every = scenario().rateLimitEvery;
+    return every > 0 && (state.requests++ % every) === 0;
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/\/+$/, '');
+    const method = req.method || 'GET';
+    const body = method === 'GET' || method === 'DELETE' ? '' : await readBody(req);
+
+    // Control endpoints (not part of the Gemini API)
+    if (path === '/_fake/scenario' && method === 'POST') {
+      const name = parseJson(body).scenario;
+      if (!isFakeGeminiScenarioName(name)) {
+        return sendError(res, 400, `Unknown scenario: ${String(name)}`);
+      }
+      state.scenario = name;
+      return sendJson(res, 200, { scenario: name });
+    }
+    if (path === '/_fake/reset' && method === 'POST') {
+      Object.assign(state, createFakeGeminiState(state.scenario));
+      return sendJson(res, 200, { scenario: state.scenario });
+    }
+    if (path === '/_fake/state' && method === 'GET') {
+      return sendJson(res, 200, {
+        scenario: state.scenario,
+        stores: [...state.stores.values()],
+        interactions: [...state.interactions.values()].map(({ prompt, ...rest }) => ({
+          ...rest,
+          promptPreview: prompt.slice(0, 120),
+        })),
+      });
+    }
+
+    const { latencyMs } = scenario();
+    if (latencyMs > 0) await new Promise(resolve => setTimeout(resolve, latencyMs));
+
+    // Resumable upload: start, then upload + finalize on the returned URL
+    let match = path.match(/^\/upload\/v1beta\/(fileSearchStores\/[^/:]+):uploadToFileSearchStore$/);
+    if (match && method === 'POST') {
+      if (!state.stores.has(match[1])) return sendError(res, 404, `Store not found: ${match[1]}`);
+      const session = nextId();
+      state.uploads.set(session, match[1]);
+      const origin = `http://${req.headers.host}`;
+      return sendJson(res, 200, {}, {
+        'x-goog-upload-url': `${origin}/_fake/upload/${session}`,
+        'x-goog-upload-status': 'active',
+      });
+    }
+    match = path.match(/^\/_fake\/upload\/(\d+)$/);
+    if (match && method === 'POST') {
+      const storeName = state.uploads.get(match[1]);
+      const store = storeName ? state.stores.get(storeName) : undefined;
+      if (!store) return sendError(res, 404, `Upload session not found: ${match[1]}`);
+      state.uploads.delete(match[1]);
+      const document = {
+        name: `${store.name}/documents/fake-${nextId()}`,
+        displayName: String(req.headers['x-goog-upload-file-name'] || 'document'),
+        size: Buffer.byteLength(body),
+      };
+      store.documents.push(document);
+      return sendJson(res, 200, {
+        name: `${store.name}/upload/operations/fake-${nextId()}`,
+        done: true,
+        response: { parent: store.name, documentName: document.name },
+      }, { 'x-goog-upload-status': 'final' });
+    }
+
+    // File Search stores
+    if (path === '/v1beta/fileSearchStores' && method === 'POST') {
+      if (rateLimited()) return sendError(res, 429, 'Resource has been exhausted (fake)');
+      const store: FakeStore = {
+        name: `fileSearchStores/fake-${nextId()}`,
+        displayName: String(parseJson(body).displayName || ''),
+        createTime: new Date().toISOString(),
+        documents: [],
+      };
+      state.stores.set(store.name, store);
+      return sendJson(res, 200, { name: store.name, displayName: store.displayName, createTime: store.createTime });
+    }
+    if (path === '/v1beta/fileSearchStores' && method === 'GET') {
+      return sendJson(res, 200, {
+        fileSearchStores: [...state.stores.values()].map(({ name, displayName, createTime }) => ({ name, displayName, createTime })),
+      });
+    }
+    match = path.match(/^\/v1beta\/(fileSearchStores\/[^/]+)$/);
+    if (match && method === 'DELETE') {
+      if (!state.stores.delete(match[1])) return sendError(res, 404, `Store not found: ${match[1]}`);
+      return sendJson(res, 200, {});
+    }
+
+    // Interactions (Deep Research)
+    if (path === '/v1beta/interactions' && method === 'POST') {
+      if (rateLimited()) return sendError(res, 429, 'Resource has been exhausted (fake)');
+      const input = parseJson(body).input;
+      const interaction: FakeInteraction = {
+        id: `fake-interaction-${nextId()}`,
+        prompt: typeof input === 'string' ? input : JSON.stringify(input ?? ''),
+        polls: 0,
+        status: 'in_progress',
+      };
+      state.interactions.set(interaction.id, interaction);
+      return sendJson(res, 200, { id: interaction.id, status: interaction.status });
+    }
+    match = path.match(/^\/v1beta\/interactions\/([^/]+)(\/cancel)?$/);
+    if (match) {
+      const interaction = state.interactions.get(decodeURIComponent(match[1]));
+      if (!interaction) return sendError(res, 404, `Interaction not found: ${match[1]}`);
+
+      if (match[2] && method === 'POST') {
+        if (interaction.status === 'in_progress') interaction.status = 'cancelled';
+        return sendJson(res, 200, { id: interaction.id, status: interaction.status });
+      }
+      if (!match[2] && method === 'GET') {
+        if (interaction.status === 'in_progress' && ++interaction.polls > scenario().deepResearchPolls) {
+          interaction.status = scenario().deepResearchOutcome;
+        }
+        if (interaction.status === 'completed') {
+          const text = fakeStepOutput(detectFakeStep(interaction.prompt, true), interaction.prompt, scenario());
+          return sendJson(res, 200, {
+            id: interaction.id,
+            status: 'completed',
+            outputs: [{ type: 'text', text }],
+            usage: {
+              total_input_tokens: Math.ceil(interaction.prompt.length / 4),
+              total_output_tokens: Math.ceil(text.length / 4),
+            },
+          });
+        }
+        if (interaction.status === 'failed') {
+          return sendJson(res, 200, { id: interaction.id, status: 'failed', error: 'Deep Research failed (fake)' });
+        }
+        return sendJson(res, 200, { id: interaction.id, status: interaction.status });
+      }
+    }
+
+    // Content generation (both SDKs)
+    match = path.match(/^\/v1beta\/models\/([^/:]+):generateContent$/);
+    if (match && method === 'POST') {
+      const { generateErrorStatus } = scenario();
+      if (generateErrorStatus) return sendError(res, generateErrorStatus, 'Internal error encountered (fake)');
+      if (rateLimited()) return sendError(res, 429, 'Resource has been exhausted (fake)');
+
+      const request = parseJson(body);
+      const prompt = requestText(request);
+      const step = detectFakeStep(prompt, false);
+      const generationConfig = (request.generationConfig || {}) as Record<string, unknown>;
+      const text = generationConfig.responseSchema && (step === 'step3' || step === 'step4')
+        ? fakeStructuredOutput(step, prompt, scenario())
+        : fakeStepOutput(step, prompt, scenario());
+      return sendJson(res, 200, {
+        candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+        usageMetadata: usageMetadata(prompt, text),
+        modelVersion: match[1],
+      });
+    }
+
+    return sendError(res, 404, `Not implemented by the fake Gemini server: ${method} ${path}`);
+  };
+}
+
+/**
+ * Start the fake server (port 0 picks a free port)
+ */
+export async function startFakeGeminiServer(options: {
+  port?: number;
+  host?: string;
+  scenario?: FakeGeminiScenarioName;
+} = {}): Promise<FakeGeminiServer> {
+  const state = createFakeGeminiState(options.scenario);
+  const handler = createFakeGeminiHandler(state);
+  const server: Server = createServer((req, res) => {
+    handler(req, res).catch(error => {
+      console.error('[FakeGemini] Request failed:', error);
+      if (!res.headersSent) sendError(res, 500, 'Fake server error');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, options.host ?? '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${options.host && options.host !== '0.0.0.0' ? options.host : '127.0.0.1'}:${port}`,
+    state,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -3,8 +3,22 @@ export {
   startDeepResearch,
   startInteraction,
   getInteractionStatus,
+  cancelInteraction,
   createFileSearchStore,
   uploadToFileSearchStore,
   deleteFileSearchStore,
+  forceDeleteFileSearchStore,
+  listFileSearchStores,
   generateContent,
+  generateContentWithFileSearch,
 } from './interactions';
+export {
+  getDeepResearchQuotaUsage,
+  type DeepResearchQuotaUsage,
+} from './deep-research-limiter';
+export {
+  usageFromGenerateContent,
+  usageFromInteraction,
+  EMPTY_TOKEN_USAGE,
+  type TokenUsage,
+} from './usage';
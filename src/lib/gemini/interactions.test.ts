@@ -3,6 +3,11 @@ import {
   waitForDeepResearchRateLimit,
   releaseDeepResearchSlot,
 } from './interactions';
+import {
+  createMemoryLimiterStore,
+  getDeepResearchQuotaUsage,
+  setDeepResearchLimiterStore,
+} from './deep-research-limiter';
 
 // Note: These tests focus on rate limiting logic which is testable
 // Full API tests would require mocking the Google GenAI client
@@ -10,36 +15,55 @@ import {
 describe('interactions', () => {
   describe('rate limiting', () => {
     beforeEach(() => {
-      // Reset rate limiter state between tests
-      for (let i = 0; i < 20; i++) {
-        releaseDeepResearchSlot();
-      }
+      // Fresh limiter state per test
+      setDeepResearchLimiterStore(createMemoryLimiterStore({
+        requestsPerMinute: 10,
+        burst: 1,
+        maxConcurrent: 2,
+        leaseTtlMs: 60 * 60 * 1000,
+      }));
     });
 
     afterEach(() => {
+      setDeepResearchLimiterStore(null);
       vi.useRealTimers();
     });
 
-    it('releaseDeepResearchSlot does not go below zero', () => {
-      // Release more slots than acquired - should not crash
-      for (let i = 0; i < 20; i++) {
-        expect(() => releaseDeepResearchSlot()).not.toThrow();
-      }
+    it('releaseDeepResearchSlot ignores unknown leases', async () => {
+      await expect(releaseDeepResearchSlot('unknown-lease')).resolves.toBeUndefined();
+      expect((await getDeepResearchQuotaUsage()).activeSlots).toBe(0);
     });
 
-    it('waitForDeepResearchRateLimit increments counter', async () => {
+    it('waitForDeepResearchRateLimit spaces requests and holds a slot until released', async () => {
       vi.useFakeTimers();
 
-      // Start the rate limit wait (but don't await fully)
-      const promise = waitForDeepResearchRateLimit();
+      const first = await waitForDeepResearchRateLimit('store-1');
+
+      // The second request waits for the next token (6s at 10/min)
+      let second: string | null = null;
+      const pending = waitForDeepResearchRateLimit('store-2').then(id => { second = id; });
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(second).toBeNull();
+      await vi.advanceTimersByTimeAsync(1000);
+      await pending;
+      expect(second).not.toBeNull();
 
-      // Advance time to satisfy the rate limit
-      await vi.advanceTimersByTimeAsync(10000);
+      expect((await getDeepResearchQuotaUsage()).activeSlots).toBe(2);
+      await releaseDeepResearchSlot(first);
+      const usage = await getDeepResearchQuotaUsage();
+      expect(usage.activeSlots).toBe(1);
+      expect(usage.leases[0].holder).toBe('store-2');
+    });
+
+    it('gives up when no slot frees up in time', async () => {
+      vi.useFakeTimers();
 
-      await promise;
+      await waitForDeepResearchRateLimit('store-1');
+      await vi.advanceTimersByTimeAsync(6000);
+      await waitForDeepResearchRateLimit('store-2');
+      await vi.advanceTimersByTimeAsync(6000);
 
-      // Should have incremented counter (verified by releasing)
-      releaseDeepResearchSlot();
+      await expect(waitForDeepResearchRateLimit('store-3', 1000)).rejects.toThrow(/concurrency limit.*\(retry in \d+s\)/);
     });
   });
 });
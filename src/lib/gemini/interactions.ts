@@ -10,19 +10,23 @@
 // Ensure proxy is set up before any API calls
 import './proxy-setup';
 import { GoogleGenAI } from '@google/genai';
-import { getGeminiClient, MODELS } from './client';
+import type { ResponseSchema as GeminiResponseSchema } from '@google/generative-ai';
+import { getGeminiBaseUrl, getGeminiClient, MODELS } from './client';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { getDeepResearchLimiterStore } from './deep-research-limiter';
+import { usageFromGenerateContent, usageFromInteraction, type TokenUsage } from './usage';
 
 // Deep Research Agent model
 export const DEEP_RESEARCH_AGENT = 'deep-research-pro-preview-12-2025';
 
-// Rate limiting: 10 requests per minute for Deep Research
-const DEEP_RESEARCH_MAX_CONCURRENT = 10;
-const DEEP_RESEARCH_MIN_INTERVAL_MS = 6 * 1000; // 6 seconds between requests (10/min)
-let lastDeepResearchRequestTime: number = 0;
-let activeDeepResearchCount: number = 0;
+// Longest wait for a Deep Research slot before giving up (see deep-research-limiter.ts)
+const DEEP_RESEARCH_MAX_WAIT_MS = 10 * 60 * 1000;
+
+// Longest wait for a slot when starting asynchronously: well within the time
+// of a serverless job, which is rescheduled instead when the limiter stays full
+export const DEEP_RESEARCH_START_MAX_WAIT_MS = 10 * 1000;
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -32,40 +36,50 @@ function getGenAIClient(): GoogleGenAI {
   if (!apiKey) {
     throw new Error('GOOGLE_GENAI_API_KEY is not set');
   }
-  return new GoogleGenAI({ apiKey });
+  const baseUrl = getGeminiBaseUrl();
+  return new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
 }
 
 /**
- * Wait for Deep Research rate limit (10 requests/min)
+ * Wait for Deep Research rate limit (10 requests/min, 10 concurrent across all instances)
+ * Returns the slot lease id to release when the Deep Research is cleaned up.
+ * Giving up throws a rate limit error telling when to retry ("retry in Ns").
  */
-export async function waitForDeepResearchRateLimit(): Promise<void> {
-  // Wait if we're at max concurrent requests
-  while (activeDeepResearchCount >= DEEP_RESEARCH_MAX_CONCURRENT) {
-    console.log(`[DeepResearch] At max concurrent (${activeDeepResearchCount}/${DEEP_RESEARCH_MAX_CONCURRENT}), waiting...`);
-    await sleep(5000);
-  }
+export async function waitForDeepResearchRateLimit(
+  holder: string,
+  maxWaitMs: number = DEEP_RESEARCH_MAX_WAIT_MS
+): Promise<string> {
+  const store = await getDeepResearchLimiterStore();
+  const deadline = Date.now() + maxWaitMs;
 
-  // Ensure minimum interval between requests
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastDeepResearchRequestTime;
+  for (;;) {
+    const result = await store.tryAcquire(holder, new Date());
+    if (result.granted) {
+      return result.lease.id;
+    }
 
-  if (lastDeepResearchRequestTime > 0 && timeSinceLastRequest < DEEP_RESEARCH_MIN_INTERVAL_MS) {
-    const waitTime = DEEP_RESEARCH_MIN_INTERVAL_MS - timeSinceLastRequest;
-    console.log(`[DeepResearch] Rate limit: waiting ${Math.ceil(waitTime / 1000)}s...`);
-    await sleep(waitTime);
-  }
+    if (Date.now() + result.retryAfterMs > deadline) {
+      const retryIn = `retry in ${Math.ceil(result.retryAfterMs / 1000)}s`;
+      throw new Error(
+        result.reason === 'concurrency'
+          ? `Deep Research concurrency limit reached: no slot became free in time (${retryIn})`
+          : `Deep Research rate limit reached: no request became available in time (${retryIn})`
+      );
+    }
 
-  lastDeepResearchRequestTime = Date.now();
-  activeDeepResearchCount++;
+    console.log(
+      `[DeepResearch] ${result.reason === 'concurrency' ? 'At max concurrent' : 'Rate limit'}, waiting ${Math.ceil(result.retryAfterMs / 1000)}s...`
+    );
+    await sleep(result.retryAfterMs);
+  }
 }
 
 /**
- * Release a Deep Research slot
+ * Release a Deep Research slot (unknown or expired leases are ignored)
  */
-export function releaseDeepResearchSlot(): void {
-  if (activeDeepResearchCount > 0) {
-    activeDeepResearchCount--;
-  }
+export async function releaseDeepResearchSlot(leaseId: string): Promise<void> {
+  const store = await getDeepResearchLimiterStore();
+  await store.release(leaseId);
 }
 
 /**
@@ -125,45 +139,93 @@ export async function uploadToFileSearchStore(params: {
 }
 
 /**
- * Delete a File Search Store
+ * Delete a File Search Store (failures are only logged)
  */
 export async function deleteFileSearchStore(storeName: string): Promise<void> {
   try {
-    const client = getGenAIClient();
-    await (client as any).fileSearchStores.delete({
-      name: storeName,
-      config: { force: true }
-    });
-    console.log(`[DeepResearch] Store deleted: ${storeName}`);
+    await forceDeleteFileSearchStore(storeName);
   } catch (e: any) {
     console.warn(`[DeepResearch] Failed to delete store: ${e.message}`);
   }
 }
 
+/**
+ * Delete a File Search Store with its documents (throws on failure)
+ */
+export async function forceDeleteFileSearchStore(storeName: string): Promise<void> {
+  const client = getGenAIClient();
+  await (client as any).fileSearchStores.delete({
+    name: storeName,
+    config: { force: true }
+  });
+  console.log(`[DeepResearch] Store deleted: ${storeName}`);
+}
+
+/**
+ * List all File Search Stores of the API key (every page)
+ */
+export async function listFileSearchStores(): Promise<Array<{
+  name: string;
+  displayName: string;
+  createTime: string | null;
+}>> {
+  const client = getGenAIClient();
+  const pager = await client.fileSearchStores.list({ config: { pageSize: 20 } });
+
+  const stores = [];
+  for await (const store of pager) {
+    if (!store.name) continue;
+    stores.push({
+      name: store.name,
+      displayName: store.displayName ?? '',
+      createTime: store.createTime ?? null,
+    });
+  }
+  return stores;
+}
+
 /**
  * Start a Deep Research task (returns immediately, runs in background)
+ * A slot taken beforehand (slotLeaseId) is left to the caller to release on failure.
  */
 export async function startDeepResearch(params: {
   prompt: string;
   fileSearchStoreName: string;
-}): Promise<{ interactionId: string }> {
+  slotLeaseId?: string;
+}): Promise<{ interactionId: string; slotLeaseId: string }> {
   console.log(`[DeepResearch] Starting: "${params.prompt.substring(0, 100)}..."`);
   console.log(`[DeepResearch] File Search Store: ${params.fileSearchStoreName}`);
 
-  await waitForDeepResearchRateLimit();
+  const slotLeaseId = params.slotLeaseId ?? await waitForDeepResearchRateLimit(params.fileSearchStoreName);
 
-  const client = getGenAIClient();
-  const interaction = await (client as any).interactions.create({
-    input: params.prompt,
-    agent: DEEP_RESEARCH_AGENT,
-    background: true,
-    tools: [
-      { type: 'file_search', file_search_store_names: [params.fileSearchStoreName] }
-    ]
-  });
+  try {
+    const client = getGenAIClient();
+    const interaction = await (client as any).interactions.create({
+      input: params.prompt,
+      agent: DEEP_RESEARCH_AGENT,
+      background: true,
+      tools: [
+        { type: 'file_search', file_search_store_names: [params.fileSearchStoreName] }
+      ]
+    });
 
-  console.log(`[DeepResearch] Started. Interaction ID: ${interaction.id}`);
-  return { interactionId: interaction.id };
+    console.log(`[DeepResearch] Started. Interaction ID: ${interaction.id}`);
+    return { interactionId: interaction.id, slotLeaseId };
+  } catch (error) {
+    if (!params.slotLeaseId) {
+      await releaseDeepResearchSlot(slotLeaseId);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cancel a background Deep Research interaction
+ */
+export async function cancelInteraction(interactionId: string): Promise<void> {
+  const client = getGenAIClient();
+  await (client as any).interactions.cancel(interactionId);
+  console.log(`[DeepResearch] Cancelled: ${interactionId}`);
 }
 
 /**
@@ -173,6 +235,7 @@ export async function getInteractionStatus(interactionId: string): Promise<{
   status: 'pending' | 'in_progress' | 'completed' | 'failed';
   outputs?: Array<{ type: string; text?: string }>;
   error?: string;
+  usage?: TokenUsage;
 }> {
   const client = getGenAIClient();
   const status = await (client as any).interactions.get(interactionId);
@@ -201,6 +264,7 @@ export async function getInteractionStatus(interactionId: string): Promise<{
       text: o.text || o.content,
     })),
     error: status.error,
+    usage: usageFromInteraction(status) ?? undefined,
   };
 }
 
@@ -266,6 +330,7 @@ export async function executeDeepResearch(params: {
   const storeName = params.storeName || `deep-research-${Date.now()}`;
 
   let fileSearchStoreName: string | null = null;
+  let slotLeaseId: string | null = null;
 
   try {
     // 1. Create File Search Store
@@ -284,10 +349,12 @@ export async function executeDeepResearch(params: {
 
     // 3. Start Deep Research
     onProgress?.('starting', 'Starting Deep Research Agent...');
-    const { interactionId } = await startDeepResearch({
+    const started = await startDeepResearch({
       prompt,
       fileSearchStoreName,
     });
+    const { interactionId } = started;
+    slotLeaseId = started.slotLeaseId;
 
     // 4. Poll for completion
     onProgress?.('running', 'Deep Research running...');
@@ -302,7 +369,9 @@ export async function executeDeepResearch(params: {
 
   } finally {
     // Release rate limit slot
-    releaseDeepResearchSlot();
+    if (slotLeaseId) {
+      await releaseDeepResearchSlot(slotLeaseId);
+    }
 
     // Cleanup File Search Store
     if (fileSearchStoreName) {
@@ -338,6 +407,10 @@ export async function generateContent(params: {
   prompt: string;
   model?: string;
   systemInstruction?: string;
+  /** Receives the usage metadata of the response */
+  onUsage?: (usage: TokenUsage) => void;
+  /** JSON schema of the response (the response is JSON text when set) */
+  responseSchema?: object;
 }): Promise<string> {
   const client = getGeminiClient();
 
@@ -346,13 +419,54 @@ export async function generateContent(params: {
     const model = client.getGenerativeModel({
       model: actualModelName,
       systemInstruction: params.systemInstruction,
-    });
+      ...(params.responseSchema && {
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema: params.responseSchema as GeminiResponseSchema,
+        },
+      }),
+    }, { baseUrl: getGeminiBaseUrl() });
 
     const result = await model.generateContent(params.prompt);
     const response = await result.response;
-    return response.text();
+    const text = response.text();
+
+    const usage = usageFromGenerateContent(response);
+    if (usage) params.onUsage?.(usage);
+    return text;
+  } catch (error) {
+    console.error('Gemini API error:', error);
+    throw new Error(`Failed to generate content: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
+
+/**
+ * Content generation grounded on a File Search store (inputs are read via file_search instead of the prompt)
+ */
+export async function generateContentWithFileSearch(params: {
+  prompt: string;
+  fileSearchStoreName: string;
+  model?: string;
+  systemInstruction?: string;
+  /** Receives the usage metadata of the response */
+  onUsage?: (usage: TokenUsage) => void;
+}): Promise<string> {
+  const client = getGenAIClient();
+
+  try {
+    const response = await client.models.generateContent({
+      model: params.model || process.env.GOOGLE_GENAI_MODEL || MODELS.PRO,
+      contents: params.prompt,
+      config: {
+        systemInstruction: params.systemInstruction,
+        tools: [{ fileSearch: { fileSearchStoreNames: [params.fileSearchStoreName] } }],
+      },
+    });
+    const usage = usageFromGenerateContent(response);
+    if (usage) params.onUsage?.(usage);
+    return response.text || '';
   } catch (error) {
     console.error('Gemini API error:', error);
-    throw new Error(`Failed to generate content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to generate content: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
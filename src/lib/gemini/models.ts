@@ -0,0 +1,10 @@
+/**
+ * Gemini model identifiers
+ *
+ * Kept free of SDK imports so client components can reference them.
+ */
+export const MODELS = {
+  PRO: 'gemini-3-pro-preview',
+  FLASH: 'gemini-3-flash-preview',
+  DEEP_RESEARCH: 'deep-research-pro-preview-12-2025',
+} as const;
@@ -0,0 +1,75 @@
+/**
+ * Token usage reported by Gemini
+ *
+ * Normalizes the usage metadata of generateContent responses and of
+ * interactions (Deep Research) into one shape. Kept free of SDK imports so
+ * cost accounting can use it on the client.
+ */
+
+/**
+ * Usage of a single call
+ * - inputTokens include cachedTokens and tool-use prompt tokens
+ * - groundingCalls: Google Search queries the model ran (billed per query)
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  groundingCalls: number;
+}
+
+export const EMPTY_TOKEN_USAGE: TokenUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  thinkingTokens: 0,
+  cachedTokens: 0,
+  groundingCalls: 0,
+};
+
+function count(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Usage of a generateContent response (usageMetadata, both SDKs)
+ */
+export function usageFromGenerateContent(response: {
+  usageMetadata?: object | null;
+  candidates?: Array<{ groundingMetadata?: { webSearchQueries?: unknown[] } | null }> | null;
+}): TokenUsage | null {
+  if (!response.usageMetadata) return null;
+  const metadata = response.usageMetadata as Record<string, unknown>;
+
+  const queries = response.candidates?.[0]?.groundingMetadata?.webSearchQueries;
+  return {
+    inputTokens: count(metadata.promptTokenCount) + count(metadata.toolUsePromptTokenCount),
+    outputTokens: count(metadata.candidatesTokenCount),
+    thinkingTokens: count(metadata.thoughtsTokenCount),
+    cachedTokens: count(metadata.cachedContentTokenCount),
+    groundingCalls: Array.isArray(queries) ? queries.length : 0,
+  };
+}
+
+/**
+ * Usage of an interaction (usage, with Google Search calls counted from its outputs)
+ */
+export function usageFromInteraction(interaction: {
+  usage?: Record<string, unknown> | null;
+  outputs?: Array<{ type?: string; arguments?: { queries?: unknown[] } }> | null;
+}): TokenUsage | null {
+  const usage = interaction.usage;
+  if (!usage) return null;
+
+  const groundingCalls = (interaction.outputs || [])
+    .filter(output => output.type === 'google_search_call')
+    .reduce((sum, output) => sum + (output.arguments?.queries?.length || 1), 0);
+
+  return {
+    inputTokens: count(usage.total_input_tokens) + count(usage.total_tool_use_tokens),
+    outputTokens: count(usage.total_output_tokens),
+    thinkingTokens: count(usage.total_reasoning_tokens),
+    cachedTokens: count(usage.total_cached_tokens),
+    groundingCalls,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * OpenAI-compatible chat completions client
+ *
+ * Talks to any endpoint implementing POST {baseUrl}/chat/completions (vLLM,
+ * Ollama, LiteLLM and other self-hosted gateways). Configured from the
+ * environment; requests go directly to the endpoint (no Gemini proxy).
+ */
+
+import type { TokenUsage } from '@/lib/gemini/usage';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://vllm.internal:8000/v1
+  apiKey?: string;
+  model: string; // Used for Pro steps
+  flashModel: string; // Used for Flash steps (defaults to model)
+  researchModel: string; // Used by the emulated Deep Research (defaults to model)
+  timeoutMs: number;
+  structuredOutput: boolean; // Endpoint supports response_format json_schema
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionResult {
+  text: string;
+  model: string; // Model reported by the endpoint
+  usage: TokenUsage | null;
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Endpoint settings (OPENAI_COMPATIBLE_*); throws when the endpoint is not configured
+ */
+export function getOpenAICompatibleConfig(
+  env: Record<string, string | undefined> = process.env
+): OpenAICompatibleConfig {
+  const baseUrl = env.OPENAI_COMPATIBLE_BASE_URL;
+  const model = env.OPENAI_COMPATIBLE_MODEL;
+  if (!baseUrl || !model) {
+    throw new Error('OPENAI_COMPATIBLE_BASE_URL or OPENAI_COMPATIBLE_MODEL is not set');
+  }
+
+  const timeoutMs = Number(env.OPENAI_COMPATIBLE_TIMEOUT_MS);
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    apiKey: env.OPENAI_COMPATIBLE_API_KEY || undefined,
+    model,
+    flashModel: env.OPENAI_COMPATIBLE_FLASH_MODEL || model,
+    researchModel: env.OPENAI_COMPATIBLE_RESEARCH_MODEL || model,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+    structuredOutput: env.OPENAI_COMPATIBLE_STRUCTURED_OUTPUT === 'true',
+  };
+}
+
+function count(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Usage of a chat completion response (prompt_tokens include cached tokens)
+ */
+export function usageFromChatCompletion(response: { usage?: Record<string, unknown> | null }): TokenUsage | null {
+  const usage = response.usage;
+  if (!usage) return null;
+
+  const completionDetails = (usage.completion_tokens_details || {}) as Record<string, unknown>;
+  const promptDetails = (usage.prompt_tokens_details || {}) as Record<string, unknown>;
+  const reasoningTokens = count(completionDetails.reasoning_tokens);
+
+  return {
+    inputTokens: count(usage.prompt_tokens),
+    outputTokens: Math.max(0, count(usage.completion_tokens) - reasoningTokens),
+    thinkingTokens: reasoningTokens,
+    cachedTokens: count(promptDetails.cached_tokens),
+    groundingCalls: 0,
+  };
+}
+
+/**
+ * Run one chat completion
+ * HTTP failures are thrown with the status in the message ("[503 Service Unavailable]")
+ * so classifyGeminiError can classify them like Gemini failures
+ */
+export async function createChatCompletion(
+  config: OpenAICompatibleConfig,
+  params: {
+    model: string;
+    messages: ChatMessage[];
+    /** JSON schema for response_format (only send when config.structuredOutput is set) */
+    jsonSchema?: { name: string; schema: object };
+  },
+  fetchImpl: typeof fetch = fetch
+): Promise<ChatCompletionResult> {
+  const response = await fetchImpl(`${config.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: params.model,
+      messages: params.messages,
+      ...(params.jsonSchema && { response_format: { type: 'json_schema', json_schema: params.jsonSchema } }),
+    }),
+    signal: AbortSignal.timeout(config.timeoutMs),
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(
+      `OpenAI-compatible API error [${response.status} ${response.statusText}]: ${body.slice(0, 500)}`
+    );
+  }
+
+  const data = await response.json() as {
+    model?: string;
+    choices?: Array<{ message?: { content?: string | null } }>;
+    usage?: Record<string, unknown> | null;
+  };
+  const text = data.choices?.[0]?.message?.content;
+  if (typeof text !== 'string') {
+    throw new Error('OpenAI-compatible API returned no message content');
+  }
+
+  return { text, model: data.model || params.model, usage: usageFromChatCompletion(data) };
+}
@@ -2,6 +2,7 @@
 export type {
   Step3ParsedData,
   Step4ParsedData,
+  Step5ParsedData,
   ParseResult,
 } from './types';
 
@@ -16,3 +17,11 @@ export {
   parseStep4Output,
   calculateStep4WeightedTotal,
 } from './step4-parser';
+
+// Step5 Parser
+export {
+  parseStep5Output,
+  STEP5_HEADER,
+  STEP5_NUMERIC_COLUMNS,
+  type Step5Column,
+} from './step5-parser';
@@ -4,7 +4,11 @@ import {
   calculateStep3WeightedTotal,
   parseStep4Output,
   calculateStep4WeightedTotal,
+  parseStep5Output,
+  STEP5_HEADER,
+  STEP5_NUMERIC_COLUMNS,
 } from './index';
+import { STEP5_PROMPT } from '@/lib/asip/prompts';
 
 describe('Step3 Parser', () => {
   describe('parseStep3Output', () => {
@@ -453,3 +457,49 @@ describe('Step4 Parser', () => {
     });
   });
 });
+
+describe('Step5 Parser', () => {
+  const header = STEP5_HEADER.join('\t');
+  const row = STEP5_HEADER.map((column, i) => (i === 0 ? '高熱伝導セラミックス' : `値${i}`)).join('\t');
+
+  describe('parseStep5Output', () => {
+    it('keeps the fixed header in sync with STEP5_PROMPT', () => {
+      expect(STEP5_PROMPT).toContain(header);
+      expect(STEP5_NUMERIC_COLUMNS.has('8項目の加重合計（100点満点）')).toBe(true);
+    });
+
+    it('parses header and data row into column values', () => {
+      const result = parseStep5Output(`${header}\n${row}\n`);
+
+      expect(result.success).toBe(true);
+      expect(result.errors).toEqual([]);
+      expect(result.data?.values['仮説タイトル']).toBe('高熱伝導セラミックス');
+      expect(result.data?.values[STEP5_HEADER[45]]).toBe('値45');
+    });
+
+    it('tolerates code fences and blank lines', () => {
+      const result = parseStep5Output(`\`\`\`tsv\n${header}\n\n${row}\n\`\`\``);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.values['業界']).toBe('値1');
+    });
+
+    it('reports header mismatches but still maps values by position', () => {
+      const renamed = header.replace('業界', '産業');
+      const result = parseStep5Output(`${renamed}\n${row}`);
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('ヘッダー2列目が一致しません: 「産業」（期待値: 「業界」）');
+      expect(result.data?.values['業界']).toBe('値1');
+    });
+
+    it('reports a missing data row and a column count mismatch', () => {
+      expect(parseStep5Output(header).errors).toContain('データ行がありません');
+      expect(parseStep5Output('').errors).toEqual(['Step5の出力が空です']);
+
+      const result = parseStep5Output(`${header}\nタイトルのみ\t業界`);
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('データ行の列数が一致しません（2列、期待値: 46列）');
+    });
+  });
+});
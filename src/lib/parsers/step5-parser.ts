@@ -0,0 +1,142 @@
+import type { Step5ParsedData, ParseResult } from './types';
+
+/**
+ * Step5の固定ヘッダー（STEP5_PROMPTの「ヘッダー（全角括弧・％を含め完全一致）」と同一、46列）
+ */
+export const STEP5_HEADER = [
+  '仮説タイトル',
+  '業界',
+  '分野',
+  '素材が活躍する舞台',
+  '素材の役割',
+  '使用する技術資産',
+  '原料（物質）',
+  '製品形態（成型体/モジュール形態）',
+  '事業仮説概要',
+  '顧客が解決できていない課題',
+  '顧客にとっての切迫度',
+  '素材による解決の必然性',
+  '素材・成形体レベルのソリューション',
+  '他の素材ソリューションに対する優位性',
+  '最低限達成すべき技術水準',
+  '当該テーマの魅力度',
+  '当該テーマについての総評',
+  'AGCの参入方式',
+  'AGCの参入確率',
+  'AGCの事業価値×参入確率に基づく魅力度',
+  'AGCとしての結論',
+  '参考：AGCの強みを生かした戦術',
+  '科学的妥当性（20％）',
+  '製造実現性（15％）',
+  '性能優位（20％）',
+  '粗利率（20％）',
+  '市場魅力度（10％）',
+  '規制・安全環境（5％）',
+  '知財防衛（5％）',
+  '戦略適合（5％）',
+  '8項目の加重合計（100点満点）',
+  '業界の参入障壁高さ',
+  '参入障壁概略',
+  'AGCの技術段階（1〜9）',
+  '想定競合',
+  '競合との差（技術段階・0〜8）',
+  'AGCの開発期間',
+  'AGCの開発コスト',
+  '資産転用性（AGC視点）（20％）',
+  '投資・運転と回収見通し（AGC視点）（20％）',
+  'サプライチェーン実現性（AGC視点）（15％）',
+  '規制・安全適合（AGC視点）（15％）',
+  'FTO／知財自由度（AGC視点）（10％）',
+  'チャネル適合（AGC視点）（10％）',
+  'パートナー入手性（AGC視点）（10％）',
+  '7項目の加重合計（100点満点）',
+] as const;
+
+export type Step5Column = (typeof STEP5_HEADER)[number];
+
+/**
+ * 数値として扱う列（並べ替え用）
+ */
+export const STEP5_NUMERIC_COLUMNS: ReadonlySet<string> = new Set<string>(
+  STEP5_HEADER.filter((c) => /（\d+％）$|加重合計/.test(c))
+);
+
+/**
+ * コードブロックのフェンスと空行を除いた行に分割
+ */
+function splitLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => !/^\s*```/.test(line))
+    .map((line) => line.replace(/\s+$/, ''))
+    .filter((line) => line.trim().length > 0);
+}
+
+/**
+ * セルを正規化（前後の空白を除去）
+ */
+function splitCells(line: string): string[] {
+  return line.split('\t').map((cell) => cell.trim());
+}
+
+/**
+ * ヘッダーを固定ヘッダーと照合し、不一致をエラーとして返す
+ */
+function validateHeader(header: string[]): string[] {
+  const errors: string[] = [];
+
+  if (header.length !== STEP5_HEADER.length) {
+    errors.push(`ヘッダーの列数が一致しません（${header.length}列、期待値: ${STEP5_HEADER.length}列）`);
+  }
+
+  STEP5_HEADER.forEach((expected, i) => {
+    const actual = header[i];
+    if (actual === undefined) {
+      errors.push(`ヘッダー${i + 1}列目「${expected}」がありません`);
+    } else if (actual !== expected) {
+      errors.push(`ヘッダー${i + 1}列目が一致しません: 「${actual}」（期待値: 「${expected}」）`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Step5のTSV出力（ヘッダー1行＋データ1行）をパースして構造化データに変換
+ * 値は固定ヘッダーの列順に割り当てる（ヘッダーの表記ゆれはエラーとして報告する）
+ */
+export function parseStep5Output(text: string): ParseResult<Step5ParsedData> {
+  const errors: string[] = [];
+  const lines = splitLines(text);
+
+  if (lines.length === 0) {
+    return { success: false, data: null, errors: ['Step5の出力が空です'], rawText: text };
+  }
+
+  const header = splitCells(lines[0]);
+  errors.push(...validateHeader(header));
+
+  if (lines.length < 2) {
+    errors.push('データ行がありません');
+    return { success: false, data: null, errors, rawText: text };
+  }
+  if (lines.length > 2) {
+    errors.push(`データ行が複数あります（${lines.length - 1}行）。1行目のみ使用します`);
+  }
+
+  const cells = splitCells(lines[1]);
+  if (cells.length !== STEP5_HEADER.length) {
+    errors.push(`データ行の列数が一致しません（${cells.length}列、期待値: ${STEP5_HEADER.length}列）`);
+  }
+
+  const values = Object.fromEntries(
+    STEP5_HEADER.map((column, i) => [column, cells[i] ?? ''])
+  ) as Record<Step5Column, string>;
+
+  return {
+    success: errors.length === 0,
+    data: { header, values },
+    errors,
+    rawText: text,
+  };
+}
@@ -52,6 +52,15 @@ export interface Step4ParsedData {
   barrierHeight?: '高' | '中' | '低' | null;
 }
 
+// Step5の出力形式（固定ヘッダー46列のTSV 1行）
+export interface Step5ParsedData {
+  // 出力されたヘッダー（固定ヘッダーとの照合用）
+  header: string[];
+
+  // 固定ヘッダーの列名 → セル値
+  values: Record<string, string>;
+}
+
 // パース結果のラッパー
 export interface ParseResult<T> {
   success: boolean;
@@ -33,7 +33,7 @@ export const AVAILABLE_FILES_BY_STEP: Record<number, AvailableFile[]> = {
   22: [
     { id: 'target_spec', name: 'ターゲット仕様書', description: '市場・顧客ニーズの入力データ', category: 'input' },
     { id: 'technical_assets', name: '技術資産リスト', description: '技術シーズの入力データ', category: 'input' },
-    { id: 'step21_output', name: 'Step 2-1 出力', description: 'テーマ創出の結果', category: 'step_output' },
+    { id: 'step21_output', name: 'Step 2-1 出力', description: 'テーマ創出の結果（handoff JSON を含むため常に添付）', category: 'step_output' },
   ],
   3: [
     { id: 'technical_assets', name: '技術資産リスト', description: '技術シーズの入力データ', category: 'input' },
@@ -0,0 +1,2 @@
+-- Snapshot of the prompt versions (per step) resolved when a run starts
+ALTER TABLE runs ADD COLUMN prompt_snapshot JSONB;
@@ -0,0 +1,4 @@
+-- Tag hypotheses with the loop (1-based, matches runs.current_loop) that generated them
+ALTER TABLE hypotheses ADD COLUMN loop_number INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX idx_hypotheses_run_loop ON hypotheses(run_id, loop_number);
@@ -0,0 +1,3 @@
+-- Prompts sent to Gemini for hypothesis steps (Step 2-2 to 5), kept per hypothesis
+-- so runs.debug_prompts only holds run-level calls (Step 2-1, 2-1.5)
+ALTER TABLE hypotheses ADD COLUMN debug_prompts JSONB;
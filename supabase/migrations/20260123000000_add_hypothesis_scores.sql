@@ -0,0 +1,18 @@
+-- Parsed Step 3 / Step 4 scores, one row per hypothesis and step, so hypotheses can be
+-- sorted and filtered by weighted total, verdict or a single axis (axis_scores->>'<axis>')
+CREATE TABLE IF NOT EXISTS hypothesis_scores (
+  id SERIAL PRIMARY KEY,
+  hypothesis_uuid VARCHAR(36) NOT NULL REFERENCES hypotheses(uuid) ON DELETE CASCADE,
+  run_id INTEGER REFERENCES runs(id) ON DELETE SET NULL,
+  step INTEGER NOT NULL CHECK (step IN (3, 4)),
+  verdict TEXT,
+  entry_probability TEXT,
+  weighted_total REAL,
+  axis_scores JSONB NOT NULL DEFAULT '{}'::jsonb,
+  parse_errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT hypothesis_scores_hypothesis_step_key UNIQUE (hypothesis_uuid, step)
+);
+
+CREATE INDEX idx_hypothesis_scores_run_step ON hypothesis_scores(run_id, step);
+CREATE INDEX idx_hypothesis_scores_weighted_total ON hypothesis_scores(step, weighted_total);
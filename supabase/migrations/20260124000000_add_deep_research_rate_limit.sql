@@ -0,0 +1,17 @@
+-- Deep Research rate limit shared by all serverless instances:
+-- a token bucket (requests per minute) and slot leases (concurrent interactions).
+-- Leases expire so that slots held by crashed instances are freed.
+CREATE TABLE IF NOT EXISTS deep_research_rate_limits (
+  key TEXT PRIMARY KEY,
+  tokens REAL NOT NULL,
+  refilled_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS deep_research_slot_leases (
+  id VARCHAR(36) PRIMARY KEY,
+  holder TEXT NOT NULL,
+  acquired_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_deep_research_slot_leases_expires_at ON deep_research_slot_leases(expires_at);
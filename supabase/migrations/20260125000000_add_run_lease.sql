@@ -0,0 +1,5 @@
+-- Exclusive, expiring lease on a run, taken by executeNextStep so that concurrent
+-- process invocations (after() chaining, cron watchdog, nudge) do not run the same step twice
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS lease_owner TEXT;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS lease_acquired_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,20 @@
+-- Durable job queue driving the step executor (replaces after() self-chaining).
+-- Workers claim due jobs with FOR UPDATE SKIP LOCKED; a job locked by a crashed
+-- worker becomes claimable again after locked_until. Failed jobs are rescheduled
+-- with backoff (attempt, run_after).
+CREATE TABLE IF NOT EXISTS pipeline_jobs (
+  id SERIAL PRIMARY KEY,
+  job_key TEXT NOT NULL UNIQUE,
+  run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  hypothesis_uuid VARCHAR(36),
+  phase TEXT NOT NULL,
+  attempt INTEGER DEFAULT 0 NOT NULL,
+  run_after TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  locked_by TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  enqueued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_pipeline_jobs_run_after ON pipeline_jobs(run_after);
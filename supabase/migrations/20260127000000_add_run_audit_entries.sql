@@ -0,0 +1,13 @@
+-- Audit log of run stop / pause / resume. interactions lists the Deep Research
+-- interactions each action cancelled, kept running or restarted (with their
+-- File Search stores), see src/lib/asip/run-control.ts.
+CREATE TABLE IF NOT EXISTS run_audit_entries (
+  id SERIAL PRIMARY KEY,
+  run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  actor VARCHAR(255),
+  interactions JSONB DEFAULT '[]'::jsonb NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_run_audit_entries_run_id ON run_audit_entries(run_id);
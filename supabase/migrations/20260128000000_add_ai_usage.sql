@@ -0,0 +1,21 @@
+-- Token usage of every Gemini call (generateContent and Deep Research
+-- interactions) with its model. Costs are estimated from a price table when
+-- the usage is read, see src/lib/asip/cost-accounting.ts.
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id SERIAL PRIMARY KEY,
+  run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  hypothesis_uuid VARCHAR(36),
+  step TEXT NOT NULL,
+  model TEXT NOT NULL,
+  interaction_id TEXT,
+  input_tokens INTEGER DEFAULT 0 NOT NULL,
+  output_tokens INTEGER DEFAULT 0 NOT NULL,
+  thinking_tokens INTEGER DEFAULT 0 NOT NULL,
+  cached_tokens INTEGER DEFAULT 0 NOT NULL,
+  grounding_calls INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_ai_usage_run_id ON ai_usage(run_id);
+CREATE INDEX idx_ai_usage_project_id ON ai_usage(project_id);
@@ -0,0 +1,4 @@
+-- Per-run spending cap in USD. The pipeline pauses the run (progressInfo.pauseReason)
+-- before new Step 2-2 Deep Research or Step 3-5 evaluations once the recorded
+-- spend in ai_usage reaches it, see src/lib/asip/run-budget.ts
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS budget_usd REAL;
@@ -0,0 +1,24 @@
+-- AI provider per project: Gemini, or an OpenAI-compatible endpoint (vLLM,
+-- self-hosted gateways) for engagements whose inputs must stay on-prem, see
+-- src/lib/asip/ai-provider.ts
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS ai_provider TEXT DEFAULT 'gemini' NOT NULL
+  CHECK (ai_provider IN ('gemini', 'openai_compatible'));
+
+-- Research jobs emulating Deep Research on OpenAI-compatible providers. Each
+-- status check runs one step (plan, investigate a question, report), see
+-- src/lib/asip/emulated-research.ts
+CREATE TABLE IF NOT EXISTS emulated_research_jobs (
+  id VARCHAR(36) PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('in_progress', 'completed', 'failed', 'cancelled')),
+  prompt TEXT NOT NULL,
+  files JSONB DEFAULT '[]'::jsonb NOT NULL,
+  model TEXT NOT NULL,
+  questions JSONB,
+  findings JSONB DEFAULT '[]'::jsonb NOT NULL,
+  result TEXT,
+  error TEXT,
+  usage JSONB NOT NULL,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
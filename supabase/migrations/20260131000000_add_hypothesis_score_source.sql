@@ -0,0 +1,7 @@
+-- Step 3 / Step 4 scores requested as structured output (response schema,
+-- validated with zod) with a rationale per axis. Rows parsed from the report
+-- text by the regex parsers (older runs, providers without schema support)
+-- keep source 'regex', see src/lib/asip/structured-scores.ts
+ALTER TABLE hypothesis_scores ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'regex' NOT NULL
+  CHECK (source IN ('structured', 'regex'));
+ALTER TABLE hypothesis_scores ADD COLUMN IF NOT EXISTS rationales JSONB DEFAULT '{}'::jsonb NOT NULL;
@@ -0,0 +1,5 @@
+-- Steps (step3 / step4 / step5) whose output still fails its parser after the
+-- automatic repair prompts, flagged in the hypothesis sidebar. The original
+-- output and the repair attempts are kept in full_data.formatRepairs, see
+-- src/lib/asip/format-repair.ts
+ALTER TABLE hypotheses ADD COLUMN IF NOT EXISTS format_violations JSONB DEFAULT '[]'::jsonb NOT NULL;
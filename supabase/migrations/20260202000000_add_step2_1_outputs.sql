@@ -0,0 +1,5 @@
+-- Step 2-1 output of each loop ({ "<loop>": output }). runs.step2_1_output
+-- keeps the latest one; Step 2-2 and the step21_output attachment of a
+-- hypothesis read the output of the hypothesis' loop, see
+-- src/lib/asip/step-executor.ts
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS step2_1_outputs JSONB DEFAULT '{}'::jsonb NOT NULL;